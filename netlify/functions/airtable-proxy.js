@@ -6,6 +6,8 @@
  * Netlify Function to proxy Airtable API calls and resolve CORS issues
  */
 
+const { isBuiltFormula } = require('./lib/airtable-formula');
+
 const AIRTABLE_API_URL = 'https://api.airtable.com/v0';
 
 // Rate limiting map (in production, use Redis or similar)
@@ -42,25 +44,57 @@ function isValidApiKey(apiKey) {
   return apiKey && typeof apiKey === 'string' && apiKey.startsWith('pat');
 }
 
+// Tables the app may write to, and ones it may only read: credit usage is
+// written by the Meshy proxy only, so the app can't erase its spend
+const WRITABLE_TABLES = ['Projects', 'Downloads', 'Templates', 'Batches'];
+const READ_ONLY_TABLES = ['CreditUsage'];
+
+const RECORD_ID_PATTERN = /^rec[A-Za-z0-9]+$/;
+
+// Splits "/[baseId/]Table[/recId][?query]" into its table and record ID, or null when it isn't that shape
+function parseTablePath(path, baseId) {
+  const segments = path.split('?')[0].split('/');
+  if (segments.shift() !== '') return null;
+  if (segments[0] === baseId) segments.shift();
+  if (segments.length < 1 || segments.length > 2) return null;
+
+  let table;
+  try {
+    table = decodeURIComponent(segments[0]);
+  } catch {
+    return null;
+  }
+  const recordId = segments[1];
+  if (recordId !== undefined && !RECORD_ID_PATTERN.test(recordId)) return null;
+
+  return { table, recordId };
+}
+
 // Validate allowed operations
-function isAllowedOperation(method, path) {
-  // Only allow read operations and specific write operations
-  const allowedPaths = ['/Projects', '/Downloads', '/Projects/', '/Downloads/'];
+function isAllowedOperation(method, path, baseId) {
+  const target = parseTablePath(path, baseId);
+  if (!target) return false;
 
-  // Read operations are always allowed
+  // Read operations are allowed on every known table
   if (method === 'GET') {
-    return allowedPaths.some((allowedPath) => path.includes(allowedPath));
+    return [...WRITABLE_TABLES, ...READ_ONLY_TABLES].includes(target.table);
   }
 
-  // Write operations only for specific endpoints
+  // Creates go to a table and updates to one of its records
   if (method === 'POST' || method === 'PATCH') {
-    return allowedPaths.some((allowedPath) => path.includes(allowedPath));
+    const shapeMatches = method === 'POST' ? !target.recordId : Boolean(target.recordId);
+    return shapeMatches && WRITABLE_TABLES.includes(target.table);
   }
 
   // DELETE not allowed for security
   return false;
 }
 
+function getFormulas(path) {
+  const query = path.includes('?') ? path.slice(path.indexOf('?') + 1) : '';
+  return new URLSearchParams(query).getAll('filterByFormula');
+}
+
 // Clean up rate limit map periodically
 setInterval(
   () => {
@@ -124,6 +158,14 @@ exports.handler = async (event, context) => {
       };
     }
 
+    if (!getFormulas(path).every(isBuiltFormula)) {
+      return {
+        statusCode: 400,
+        headers,
+        body: JSON.stringify({ error: 'filterByFormula must be built with the formula builder' }),
+      };
+    }
+
     // Get API credentials from environment variables (server-side only)
     const apiKey = process.env.AIRTABLE_PAT;
     const baseId = process.env.AIRTABLE_BASE_ID;
@@ -145,7 +187,7 @@ exports.handler = async (event, context) => {
     }
 
     // Validate operation
-    if (!isAllowedOperation(method, path)) {
+    if (!isAllowedOperation(method, path, baseId)) {
       return {
         statusCode: 403,
         headers,
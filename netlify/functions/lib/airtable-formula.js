@@ -0,0 +1,46 @@
+/**
+ * Text-to-3D Construction Platform - Airtable Formula Helpers
+ * Copyright © 2024 Kristopher Gerasimov. All rights reserved.
+ * PROPRIETARY SOFTWARE - NOT OPEN SOURCE
+ *
+ * Shared by the Netlify functions: the functions that query Airtable quote
+ * values with formulaString, and the Airtable proxy only passes on formulas
+ * written the same way. Not a function itself - Netlify only deploys
+ * lib/index.js or lib/lib.js from this folder.
+ */
+
+// Functions the app's formula builder (Formula in airtable-proxy-client.ts) uses
+const FORMULA_FUNCTIONS = ['AND', 'OR', 'NOT', 'FIND', 'LOWER', 'IS_BEFORE', 'DATETIME_PARSE', 'TRUE', 'FALSE'];
+
+// One token of a built formula: a field, an escaped string, a number, an operator or a function name
+const FORMULA_TOKEN = /\s+|\{[^{}]+\}|'(?:[^'\\\n\r]|\\.)*'|-?\d+(?:\.\d+)?|!=|<=|>=|[=<>(),]|[A-Z_]+(?=\()/y;
+
+// Quotes a value as an Airtable string literal, as the app's formula builder does
+function formulaString(value) {
+  return `'${String(value).replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\n/g, '\\n').replace(/\r/g, '\\r')}'`;
+}
+
+/**
+ * Whether a filterByFormula only uses what the formula builder produces.
+ * Hand-written formulas with unescaped quotes don't tokenize, which stops a
+ * value from closing its string and adding conditions of its own.
+ */
+function isBuiltFormula(formula) {
+  let depth = 0;
+  FORMULA_TOKEN.lastIndex = 0;
+
+  while (FORMULA_TOKEN.lastIndex < formula.length) {
+    const match = FORMULA_TOKEN.exec(formula);
+    if (!match) return false;
+
+    const token = match[0];
+    if (/^[A-Z_]+$/.test(token) && !FORMULA_FUNCTIONS.includes(token)) return false;
+    if (token === '(') depth++;
+    if (token === ')' && --depth < 0) return false;
+    // Conditions are only ever combined inside AND() or OR()
+    if (token === ',' && depth === 0) return false;
+  }
+  return depth === 0;
+}
+
+module.exports = { formulaString, isBuiltFormula };
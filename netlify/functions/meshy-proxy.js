@@ -6,7 +6,49 @@
  * Netlify Function to proxy Meshy API calls and resolve CORS issues
  */
 
-const MESHY_API_URL = 'https://api.meshy.ai';
+const { formulaString } = require('./lib/airtable-formula');
+
+// Overridable so the proxy can be pointed at a local fake Meshy server
+const MESHY_API_URL = process.env.MESHY_API_URL || 'https://api.meshy.ai';
+
+// Task status streams that may be relayed as server-sent events
+const STREAM_PATH_PATTERN =
+  /^\/openapi\/(v2\/text-to-3d|v1\/image-to-3d|v1\/retexture|v1\/remesh)\/[A-Za-z0-9_-]+\/stream$/;
+
+// How long one invocation relays Meshy's stream before handing the client
+// back to reconnect. Netlify buffers the response of a classic function, so
+// events arrive together when the window closes; the window stays well under
+// the function timeout and each invocation still replaces several polls.
+const STREAM_WINDOW_MS = Number(process.env.MESHY_STREAM_WINDOW_MS) || 8000;
+
+// Reconnection delay sent to the client with every relayed window
+const STREAM_RETRY_MS = 1000;
+
+const TERMINAL_STATUSES = ['SUCCEEDED', 'FAILED', 'CANCELED', 'EXPIRED'];
+
+// Credit spend is kept in the Airtable base the Airtable proxy uses
+const AIRTABLE_API_URL = 'https://api.airtable.com/v0';
+
+// Meshy credits per task, matching the app's CREDIT_CONFIG
+const CREDIT_COSTS = {
+  preview: Number(process.env.MESHY_CREDITS_PREVIEW) || 5,
+  refine: Number(process.env.MESHY_CREDITS_REFINE) || 10,
+  image: Number(process.env.MESHY_CREDITS_IMAGE) || 15,
+  retexture: Number(process.env.MESHY_CREDITS_RETEXTURE) || 10,
+  remesh: Number(process.env.MESHY_CREDITS_REMESH) || 5,
+};
+
+// Monthly budgets per user and per team (the user's email domain); 0 turns one off
+function budgetFromEnv(name, fallback) {
+  const value = process.env[name];
+  return value === undefined ? fallback : Number(value) || 0;
+}
+
+const USER_MONTHLY_BUDGET = budgetFromEnv('MESHY_USER_MONTHLY_BUDGET', 1000);
+const TEAM_MONTHLY_BUDGET = budgetFromEnv('MESHY_TEAM_MONTHLY_BUDGET', 5000);
+
+// Also keeps the email and its domain safe to quote inside an Airtable formula
+const EMAIL_PATTERN = /^[^\s@'"\\]+@[^\s@'"\\]+$/;
 
 // Rate limiting map (in production, use Redis or similar)
 const rateLimitMap = new Map();
@@ -67,6 +109,277 @@ function isValidApiKey(apiKey) {
 //   5 * 60 * 1000,
 // ); // Cleanup every 5 minutes
 
+// The path without its query string, repeated slashes or a trailing slash
+function normalizePath(path) {
+  return path.split('?')[0].replace(/\/{2,}/g, '/').replace(/(.)\/$/, '$1');
+}
+
+// The task a request creates, or null for requests that cost nothing. Every
+// POST creates a task, so one that isn't a known task type is refused
+// rather than let through uncharged.
+function chargedStage(method, path, body) {
+  if (method !== 'POST') return null;
+
+  switch (normalizePath(path)) {
+    case '/openapi/v2/text-to-3d':
+      return body && body.mode === 'refine' ? 'refine' : 'preview';
+    case '/openapi/v1/image-to-3d':
+      return 'image';
+    case '/openapi/v1/retexture':
+      return 'retexture';
+    case '/openapi/v1/remesh':
+      return 'remesh';
+    default:
+      return null;
+  }
+}
+
+async function airtableRequest(path, options = {}) {
+  const response = await fetch(`${AIRTABLE_API_URL}/${process.env.AIRTABLE_BASE_ID}${path}`, {
+    ...options,
+    headers: {
+      Authorization: `Bearer ${process.env.AIRTABLE_PAT}`,
+      'Content-Type': 'application/json',
+    },
+  });
+  const data = await response.json();
+
+  if (!response.ok) {
+    const detail = (data.error && (data.error.message || data.error)) || response.statusText;
+    throw new Error(`Airtable responded ${response.status}: ${detail}`);
+  }
+  return data;
+}
+
+// Credits charged this month to the user and to their whole team
+async function getMonthlySpend(userEmail, organisation, month) {
+  const spend = { user: 0, team: 0 };
+  let offset;
+
+  do {
+    const params = new URLSearchParams({
+      filterByFormula: `AND({organisation} = ${formulaString(organisation)}, {month} = ${formulaString(month)})`,
+      pageSize: '100',
+    });
+    params.append('fields[]', 'user_email');
+    params.append('fields[]', 'credits');
+    if (offset) params.append('offset', offset);
+
+    const data = await airtableRequest(`/CreditUsage?${params.toString()}`);
+    for (const { fields } of data.records) {
+      const credits = Number(fields.credits) || 0;
+      spend.team += credits;
+      if (String(fields.user_email).toLowerCase() === userEmail) {
+        spend.user += credits;
+      }
+    }
+    offset = data.offset;
+  } while (offset);
+
+  return spend;
+}
+
+// The budget a task costing `credits` would take over its limit, if any
+function exceededBudget(spend, credits) {
+  const budgets = [
+    { scope: 'user', budget: USER_MONTHLY_BUDGET, spent: spend.user, owner: 'your' },
+    { scope: 'team', budget: TEAM_MONTHLY_BUDGET, spent: spend.team, owner: "your team's" },
+  ];
+  return budgets.find(({ budget, spent }) => budget > 0 && spent + credits > budget) || null;
+}
+
+/**
+ * Checks a task against the monthly budgets before it is created. Returns
+ * the charge to record once Meshy accepts the task, or an error response.
+ *
+ * The budgets are advisory only. The app signs in with a typed email and no
+ * credential, so user_email is whatever the request body claims: it keeps
+ * honest clients within budget but cannot stop a caller who sends another
+ * email. Hard spending limits must be set on the Meshy account itself.
+ */
+async function chargeTask(stage, userEmail, headers) {
+  if (USER_MONTHLY_BUDGET <= 0 && TEAM_MONTHLY_BUDGET <= 0) {
+    return {};
+  }
+  if (!process.env.AIRTABLE_PAT || !process.env.AIRTABLE_BASE_ID) {
+    console.warn('Credit budgets not enforced: Airtable is not configured');
+    return {};
+  }
+
+  if (typeof userEmail !== 'string' || !EMAIL_PATTERN.test(userEmail)) {
+    return {
+      error: {
+        statusCode: 400,
+        headers,
+        body: JSON.stringify({ error: 'Missing or invalid user_email: tasks are charged to a user budget' }),
+      },
+    };
+  }
+
+  const email = userEmail.toLowerCase();
+  const organisation = email.split('@')[1];
+  const month = new Date().toISOString().slice(0, 7);
+  const credits = CREDIT_COSTS[stage];
+
+  let spend;
+  try {
+    spend = await getMonthlySpend(email, organisation, month);
+  } catch (error) {
+    // Without the spend the budget can't be checked, so nothing is created
+    console.error('Credit budget check failed:', error.message);
+    return {
+      error: {
+        statusCode: 503,
+        headers,
+        body: JSON.stringify({
+          success: false,
+          status: 503,
+          error: 'Could not check the monthly credit budget. Please try again shortly.',
+        }),
+      },
+    };
+  }
+
+  const exceeded = exceededBudget(spend, credits);
+  if (exceeded) {
+    const left = Math.max(0, exceeded.budget - exceeded.spent);
+    return {
+      error: {
+        statusCode: 402,
+        headers,
+        body: JSON.stringify({
+          success: false,
+          status: 402,
+          errorCode: 'budget_exceeded',
+          error: `This needs ${credits} credits, but only ${left} of ${exceeded.owner} ${exceeded.budget} monthly credits are left`,
+          data: { scope: exceeded.scope, budget: exceeded.budget, spent: exceeded.spent, credits, month },
+        }),
+      },
+    };
+  }
+
+  return { charge: { user_email: email, organisation, month, stage, credits } };
+}
+
+// Spend is recorded best-effort: Meshy has already accepted the task
+async function recordCharge(charge, taskId) {
+  try {
+    await airtableRequest('/CreditUsage', {
+      method: 'POST',
+      body: JSON.stringify({
+        fields: { ...charge, task_id: taskId || '', created_at: new Date().toISOString() },
+      }),
+    });
+  } catch (error) {
+    console.error('Failed to record credit usage:', error.message);
+  }
+}
+
+// True once a relayed event block carries a task that has finished
+function containsTerminalEvent(block) {
+  return block.split('\n').some((line) => {
+    if (!line.startsWith('data:')) return false;
+    try {
+      const task = JSON.parse(line.slice(5).trim());
+      return TERMINAL_STATUSES.includes(task.status);
+    } catch (e) {
+      return false;
+    }
+  });
+}
+
+/**
+ * Relays Meshy's event stream for a task until it finishes or the window
+ * closes, whichever comes first. Upstream failures are returned as regular
+ * JSON errors so the client falls back to polling.
+ */
+async function relayTaskStream(path, apiKey, headers) {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), STREAM_WINDOW_MS);
+  let relayed = `retry: ${STREAM_RETRY_MS}\n\n`;
+
+  try {
+    const response = await fetch(`${MESHY_API_URL}${path}`, {
+      method: 'GET',
+      headers: {
+        Authorization: `Bearer ${apiKey}`,
+        Accept: 'text/event-stream',
+        'User-Agent': 'Text-to-3D-Construction-Proxy/1.0',
+      },
+      signal: controller.signal,
+    });
+
+    const contentType = response.headers.get('content-type') || '';
+    if (!response.ok || !contentType.includes('text/event-stream') || !response.body) {
+      return {
+        statusCode: response.ok ? 502 : response.status,
+        headers,
+        body: JSON.stringify({
+          success: false,
+          status: response.status,
+          error: 'Meshy did not return an event stream',
+        }),
+      };
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let pending = '';
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        pending += decoder.decode(value, { stream: true }).replace(/\r\n/g, '\n');
+
+        // Only forward complete events; keep a partial one for the next chunk
+        const boundary = pending.lastIndexOf('\n\n');
+        if (boundary === -1) continue;
+
+        const complete = pending.slice(0, boundary + 2);
+        pending = pending.slice(boundary + 2);
+        relayed += complete;
+
+        if (containsTerminalEvent(complete)) break;
+      }
+    } catch (error) {
+      // The window closing aborts the read; anything else ends the relay early
+      if (error.name !== 'AbortError') {
+        console.error('Stream relay interrupted:', error.message);
+      }
+    } finally {
+      controller.abort();
+    }
+
+    return {
+      statusCode: 200,
+      headers: {
+        ...headers,
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+      },
+      body: relayed,
+    };
+  } catch (error) {
+    if (error.name === 'AbortError') {
+      // Meshy accepted nothing within the window; let the client reconnect
+      return {
+        statusCode: 200,
+        headers: {
+          ...headers,
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache',
+        },
+        body: relayed,
+      };
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
 exports.handler = async (event, context) => {
   // CORS headers
   const headers = {
@@ -104,8 +417,10 @@ exports.handler = async (event, context) => {
     // Parse request
     const {
       path,
-      method = 'GET',
+      method: requestMethod = 'GET',
       body: requestBody,
+      stream = false,
+      user_email: userEmail, // Unverified, see chargeTask
     } = JSON.parse(event.body || '{}');
 
     if (!path) {
@@ -115,6 +430,8 @@ exports.handler = async (event, context) => {
         body: JSON.stringify({ error: 'Missing required field: path' }),
       };
     }
+    // fetch() accepts any case, so "post" must not slip past the budget checks
+    const method = String(requestMethod).toUpperCase();
 
     // Get API key from environment variables (server-side only)
     const apiKey = process.env.MESHY_API_KEY;
@@ -142,6 +459,33 @@ exports.handler = async (event, context) => {
       };
     }
 
+    if (stream) {
+      if (method !== 'GET' || !STREAM_PATH_PATTERN.test(path)) {
+        return {
+          statusCode: 400,
+          headers,
+          body: JSON.stringify({ error: 'Streaming is only available for task status streams' }),
+        };
+      }
+
+      console.log(`Relaying task stream: ${path}`);
+      return await relayTaskStream(path, apiKey, headers);
+    }
+
+    // Tasks are checked against the monthly credit budgets before Meshy sees them
+    const stage = chargedStage(method, path, requestBody);
+    if (method === 'POST' && !stage) {
+      return {
+        statusCode: 403,
+        headers,
+        body: JSON.stringify({ error: 'Operation not allowed through proxy' }),
+      };
+    }
+    const { charge, error: budgetError } = stage ? await chargeTask(stage, userEmail, headers) : {};
+    if (budgetError) {
+      return budgetError;
+    }
+
     // Construct Meshy API request
     const meshyUrl = `${MESHY_API_URL}${path}`;
     const meshyHeaders = {
@@ -203,6 +547,10 @@ exports.handler = async (event, context) => {
       };
     }
 
+    if (charge) {
+      await recordCharge(charge, jsonData.result);
+    }
+
     return {
       statusCode: response.status,
       headers,
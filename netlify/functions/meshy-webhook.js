@@ -0,0 +1,187 @@
+/**
+ * Text-to-3D Construction Platform - Meshy Webhook Receiver
+ * Copyright © 2024 Kristopher Gerasimov. All rights reserved.
+ * PROPRIETARY SOFTWARE - NOT OPEN SOURCE
+ *
+ * Netlify Function that receives Meshy's task webhooks and finishes the
+ * matching Projects record, so a generation completes with no tab open.
+ * Meshy is configured to call /.netlify/functions/meshy-webhook?token=<secret>.
+ */
+
+const crypto = require('crypto');
+const { formulaString } = require('./lib/airtable-formula');
+
+// Overridable so the receiver can be pointed at a local fake Meshy server
+const MESHY_API_URL = process.env.MESHY_API_URL || 'https://api.meshy.ai';
+const AIRTABLE_API_URL = 'https://api.airtable.com/v0';
+
+const TERMINAL_STATUSES = ['SUCCEEDED', 'FAILED', 'CANCELED', 'EXPIRED'];
+
+// Meshy task IDs; anything else is rejected before Airtable or Meshy is called
+const TASK_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+// Where each kind of project's tasks are read back from Meshy
+const TASK_ENDPOINTS = {
+  text: '/openapi/v2/text-to-3d',
+  image: '/openapi/v1/image-to-3d',
+  retexture: '/openapi/v1/retexture',
+  remesh: '/openapi/v1/remesh',
+};
+
+function respond(statusCode, body) {
+  return {
+    statusCode,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  };
+}
+
+// Constant-time comparison, so the secret can't be guessed a character at a time
+function isValidToken(token) {
+  const secret = process.env.MESHY_WEBHOOK_SECRET;
+  if (!secret || typeof token !== 'string') return false;
+
+  const expected = crypto.createHash('sha256').update(secret).digest();
+  const actual = crypto.createHash('sha256').update(token).digest();
+  return crypto.timingSafeEqual(expected, actual);
+}
+
+async function airtableRequest(path, options = {}) {
+  const response = await fetch(`${AIRTABLE_API_URL}/${process.env.AIRTABLE_BASE_ID}${path}`, {
+    ...options,
+    headers: {
+      Authorization: `Bearer ${process.env.AIRTABLE_PAT}`,
+      'Content-Type': 'application/json',
+    },
+  });
+  const data = await response.json();
+
+  if (!response.ok) {
+    const detail = (data.error && (data.error.message || data.error)) || response.statusText;
+    throw new Error(`Airtable responded ${response.status}: ${detail}`);
+  }
+  return data;
+}
+
+// The project whose model task, or text preview task, this is
+async function findProject(taskId) {
+  const params = new URLSearchParams({
+    filterByFormula: `OR({task_id} = ${formulaString(taskId)}, {preview_task_id} = ${formulaString(taskId)})`,
+    maxRecords: '1',
+  });
+  const data = await airtableRequest(`/Projects?${params.toString()}`);
+  return data.records[0] || null;
+}
+
+/**
+ * The task as Meshy reports it. The webhook body only says which task
+ * changed; its status and URLs are never taken from the request itself.
+ */
+async function fetchTask(inputMode, taskId) {
+  const endpoint = TASK_ENDPOINTS[inputMode || 'text'];
+  if (!endpoint) {
+    throw new Error(`Unknown project input mode: ${inputMode}`);
+  }
+
+  const response = await fetch(`${MESHY_API_URL}${endpoint}/${taskId}`, {
+    headers: {
+      Authorization: `Bearer ${process.env.MESHY_API_KEY}`,
+      'User-Agent': 'Text-to-3D-Construction-Webhook/1.0',
+    },
+  });
+  if (!response.ok) {
+    throw new Error(`Meshy responded ${response.status} for task ${taskId}`);
+  }
+  return response.json();
+}
+
+// Seconds from the project being created to Meshy finishing its model
+function generationSeconds(createdAt, task) {
+  const started = Date.parse(createdAt) || task.created_at;
+  return task.finished_at && started ? Math.max(0, Math.round((task.finished_at - started) / 1000)) : undefined;
+}
+
+// The Projects fields a finished task settles, or null when there is nothing to record
+function projectUpdates(record, task) {
+  const isPreview = record.fields.task_id !== task.id;
+
+  if (task.status !== 'SUCCEEDED') {
+    return {
+      status: 'failed',
+      error_message: (task.task_error && task.task_error.message) || `Meshy task ${task.status.toLowerCase()}`,
+      completed_at: new Date(task.finished_at || Date.now()).toISOString(),
+    };
+  }
+  // The refine stage is still started from the app, where it is checked against the credit budget
+  if (isPreview) {
+    return null;
+  }
+
+  const seconds = generationSeconds(record.fields.created_at, task);
+  return {
+    status: 'completed',
+    model_urls: JSON.stringify(task.model_urls || {}),
+    ...(task.thumbnail_url && { thumbnail_url: task.thumbnail_url }),
+    ...(seconds !== undefined && { generation_time_seconds: seconds }),
+    completed_at: new Date(task.finished_at || Date.now()).toISOString(),
+  };
+}
+
+exports.handler = async (event) => {
+  if (event.httpMethod !== 'POST') {
+    return respond(405, { error: 'Method not allowed' });
+  }
+
+  const query = event.queryStringParameters || {};
+  if (!isValidToken(query.token || event.headers['x-webhook-token'])) {
+    return respond(401, { error: 'Invalid webhook token' });
+  }
+
+  if (!process.env.MESHY_API_KEY || !process.env.AIRTABLE_PAT || !process.env.AIRTABLE_BASE_ID) {
+    console.error('Meshy webhook received but Meshy or Airtable is not configured');
+    return respond(503, { error: 'Webhook receiver is not configured' });
+  }
+
+  let taskId;
+  try {
+    taskId = JSON.parse(event.body || '{}').id;
+  } catch (e) {
+    return respond(400, { error: 'Invalid JSON body' });
+  }
+  if (typeof taskId !== 'string' || !TASK_ID_PATTERN.test(taskId)) {
+    return respond(400, { error: 'Missing or invalid task id' });
+  }
+
+  try {
+    const record = await findProject(taskId);
+    // Tasks created outside this app, or before projects were saved, are acknowledged and dropped
+    if (!record) {
+      return respond(200, { received: true, updated: false, reason: 'No matching project' });
+    }
+    if (record.fields.status === 'completed') {
+      return respond(200, { received: true, updated: false, reason: 'Project already completed' });
+    }
+
+    const task = await fetchTask(record.fields.input_mode, taskId);
+    if (!TERMINAL_STATUSES.includes(task.status)) {
+      return respond(200, { received: true, updated: false, reason: `Task is ${task.status}` });
+    }
+
+    const updates = projectUpdates(record, task);
+    if (!updates) {
+      return respond(200, { received: true, updated: false, reason: 'Preview finished' });
+    }
+
+    await airtableRequest(`/Projects/${record.id}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ fields: updates }),
+    });
+
+    console.log(`Project ${record.id} ${updates.status} from task ${taskId}`);
+    return respond(200, { received: true, updated: true, status: updates.status });
+  } catch (error) {
+    // A 5xx has Meshy deliver the webhook again later
+    console.error('Meshy webhook failed:', error.message);
+    return respond(502, { error: 'Could not update the project' });
+  }
+};
@@ -7,6 +7,13 @@
 import { AirtableBase } from './services/airtable-base';
 import { ProjectService } from './services/project-service';
 import { DownloadService } from './services/download-service';
+import type {
+  GenerationRequest,
+  ImageGenerationRequest,
+  RemeshRequest,
+  RetextureRequest,
+} from './meshy-api';
+import type { ScaleFactors, TargetSize } from './sizing/real-world-size';
 
 export { AirtableBase } from './services/airtable-base';
 export { ProjectService } from './services/project-service';
@@ -40,6 +47,7 @@ export interface ProjectRecord {
   id?: string;
   user_email: string;
   prompt: string;
+  input_mode?: 'text' | 'image' | 'retexture' | 'remesh';
   created_at: string;
   status: 'generating' | 'completed' | 'failed';
   model_urls?: {
@@ -60,6 +68,54 @@ export interface ProjectRecord {
   device_type: 'mobile' | 'tablet' | 'desktop';
   art_style: string;
   thumbnail_url?: string;
+  generation_request?: GenerationRequest | ImageGenerationRequest | RetextureRequest | RemeshRequest; // Stored as JSON so the project can be re-run
+  retry_of?: string; // ID of the project this one retried
+  parent_id?: string; // ID of the project whose model this one retextured
+  task_id?: string; // Provider task that produced the model; retextures and remeshes start from it
+  preview_task_id?: string; // Text generations: the preview task the model is refined from
+  variant_of?: string; // ID of the project this one is a remeshed version of; its versions are siblings
+  target_size?: TargetSize; // Real-world size asked for in the prompt or typed in, stored as JSON
+  model_scale?: ScaleFactors; // Scale that brings the generated model to target_size, measured when it is first shown
+  request_hash?: string; // Text generations: identifies requests that give the same model, see utils/request-hash
+  credits_spent?: number; // Meshy credits for every task created for this project, failed ones included
+  completed_at?: string; // When the model finished, in the app or from the Meshy webhook
+  error_message?: string; // Why a failed project stopped: the provider's error, a cancellation or a discarded preview
+}
+
+// The outcome of a batch import, one entry per row; items are stored as JSON
+export interface BatchRecord {
+  id?: string;
+  user_email: string;
+  name: string;
+  status: 'completed' | 'partial' | 'failed' | 'cancelled';
+  created_at: string;
+  completed_at: string;
+  total: number;
+  succeeded: number;
+  failed: number;
+  items: BatchRecordItem[];
+}
+
+export interface BatchRecordItem {
+  line: number;
+  name: string;
+  prompt: string;
+  status: 'completed' | 'failed' | 'cancelled';
+  model_url?: string;
+  task_id?: string;
+  error?: string;
+}
+
+// One Meshy task charged to a user's and team's monthly budget; only the Meshy proxy writes these
+export interface CreditUsageRecord {
+  id?: string;
+  user_email: string;
+  organisation: string; // The user's email domain
+  month: string; // YYYY-MM, UTC
+  stage: 'preview' | 'refine' | 'image' | 'retexture' | 'remesh';
+  credits: number;
+  task_id: string;
+  created_at: string;
 }
 
 export interface DownloadRecord {
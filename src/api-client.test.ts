@@ -248,6 +248,7 @@ describe('ApiClient', () => {
       expect(response.success).toBe(false);
       expect(response.status).toBe(0);
       expect(response.error).toBe('Network error');
+      expect(response.errorCode).toBe('network');
     });
 
     it('should handle timeout errors', async () => {
@@ -266,6 +267,15 @@ describe('ApiClient', () => {
       expect(response.error).toBe('Network error');
     });
 
+    it('should reject cancelled requests instead of reporting a network error', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(ApiClient.get('/test-endpoint', controller.signal)).rejects.toMatchObject({
+        name: 'AbortError',
+      });
+    });
+
     it('should handle malformed responses', async () => {
       // Mock malformed response
       server.use(
@@ -5,7 +5,9 @@
  */
 
 import { API_CONFIG } from './config';
+import { AuthService } from './auth';
 import { monitoring } from './services/monitoring';
+import { isAbortError } from './utils/abort';
 
 export interface ApiResponse<T = any> {
   success: boolean;
@@ -13,6 +15,7 @@ export interface ApiResponse<T = any> {
   data: T;
   error?: string;
   message?: string;
+  errorCode?: 'circuit_open' | 'network' | 'budget_exceeded'; // Set when the request never reached Meshy
 }
 
 class CircuitBreaker {
@@ -38,7 +41,10 @@ class CircuitBreaker {
       this.onSuccess();
       return result;
     } catch (error) {
-      this.onFailure();
+      // A cancelled request says nothing about the health of the service
+      if (!isAbortError(error)) {
+        this.onFailure();
+      }
       throw error;
     }
   }
@@ -92,10 +98,13 @@ export class ApiClient {
             headers: {
               'Content-Type': 'application/json',
             },
+            signal: options.signal,
             body: JSON.stringify({
               path,
               method: options.method || 'GET',
               body: options.body ? JSON.parse(options.body as string) : undefined,
+              // Lets the Meshy proxy charge tasks to the user's and team's monthly budgets
+              ...(apiType === 'meshy' && { user_email: AuthService.getCurrentUser()?.email }),
             }),
           };
         } else {
@@ -131,6 +140,11 @@ export class ApiClient {
       });
     } catch (error) {
       timer(); // End performance timer
+
+      // Cancellation propagates to the caller instead of looking like an outage
+      if (isAbortError(error)) {
+        throw error;
+      }
       
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       const isCircuitBreakerError = errorMessage.includes('Circuit breaker is OPEN');
@@ -153,6 +167,7 @@ export class ApiClient {
         data: null as T,
         error: isCircuitBreakerError ? 'Service temporarily unavailable' : 'Network error',
         message: errorMessage,
+        errorCode: isCircuitBreakerError ? 'circuit_open' : 'network',
       };
     } finally {
       timer(); // End performance timer
@@ -160,16 +175,21 @@ export class ApiClient {
   }
 
   // Meshy API methods
-  static async get<T = any>(path: string): Promise<ApiResponse<T>> {
-    return this.makeRequest<T>(path, { method: 'GET' }, 'meshy');
+  static async get<T = any>(path: string, signal?: AbortSignal): Promise<ApiResponse<T>> {
+    return this.makeRequest<T>(path, { method: 'GET', signal }, 'meshy');
   }
 
-  static async post<T = any>(path: string, body: any): Promise<ApiResponse<T>> {
+  static async post<T = any>(
+    path: string,
+    body: any,
+    signal?: AbortSignal,
+  ): Promise<ApiResponse<T>> {
     return this.makeRequest<T>(
       path,
       {
         method: 'POST',
         body: JSON.stringify(body),
+        signal,
       },
       'meshy',
     );
@@ -186,8 +206,36 @@ export class ApiClient {
     );
   }
 
-  static async delete<T = any>(path: string): Promise<ApiResponse<T>> {
-    return this.makeRequest<T>(path, { method: 'DELETE' }, 'meshy');
+  static async delete<T = any>(path: string, signal?: AbortSignal): Promise<ApiResponse<T>> {
+    return this.makeRequest<T>(path, { method: 'DELETE', signal }, 'meshy');
+  }
+
+  /**
+   * Opens a Meshy server-sent event stream through the proxy. Resolves with
+   * the response when the proxy relays the stream, or null when it answered
+   * with anything other than an event stream (e.g. an older proxy).
+   */
+  static async openStream(path: string, signal?: AbortSignal): Promise<Response | null> {
+    if (!API_CONFIG.USE_PROXY) {
+      return null;
+    }
+
+    const response = await fetch(API_CONFIG.MESHY_PROXY_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'text/event-stream',
+      },
+      body: JSON.stringify({ path, method: 'GET', stream: true }),
+      signal,
+    });
+
+    const contentType = response.headers.get('content-type') || '';
+    if (!response.ok || !contentType.includes('text/event-stream')) {
+      return null;
+    }
+
+    return response;
   }
 
   // Airtable API methods
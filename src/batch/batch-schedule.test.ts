@@ -0,0 +1,109 @@
+/**
+ * Batch Schedule Unit Tests
+ * Copyright © 2024 Kris. All rights reserved.
+ * PROPRIETARY SOFTWARE - NOT OPEN SOURCE
+ */
+
+import { describe, it, expect } from 'vitest';
+import { MAX_BATCH_ROWS, parseBatchSchedule } from './batch-schedule';
+
+describe('parseBatchSchedule', () => {
+  it('should read CSV rows with loosely named columns', () => {
+    const csv = [
+      'Element,Prompt,Art Style,Target poly count,PBR',
+      'Fence panel,galvanised steel mesh fence panel 3.5m x 2m high,realistic,8000,no',
+      'Welfare cabin,"timber welfare cabin, 6m x 2.4m x 2.6m",,,',
+    ].join('\n');
+
+    const { rows, errors } = parseBatchSchedule(csv);
+
+    expect(errors).toEqual([]);
+    expect(rows).toEqual([
+      {
+        line: 2,
+        name: 'Fence panel',
+        prompt: 'galvanised steel mesh fence panel 3.5m x 2m high',
+        settings: { artStyle: 'realistic', targetPolyCount: 8000, enablePBR: false },
+        targetSize: { length: 3.5, height: 2, unit: 'm' },
+      },
+      {
+        line: 3,
+        name: 'Welfare cabin',
+        prompt: 'timber welfare cabin, 6m x 2.4m x 2.6m',
+        settings: {},
+        targetSize: { length: 6, width: 2.4, height: 2.6, unit: 'm' },
+      },
+    ]);
+  });
+
+  it('should keep quoted commas, quotes and line breaks in a cell', () => {
+    const csv = 'prompt,name\n"site sign reading ""KEEP OUT"",\non two posts",Sign\n';
+
+    const { rows } = parseBatchSchedule(csv);
+
+    expect(rows).toHaveLength(1);
+    expect(rows[0].prompt).toBe('site sign reading "KEEP OUT",\non two posts');
+    expect(rows[0].name).toBe('Sign');
+  });
+
+  it('should read a JSON array, with size columns winning over the prompt', () => {
+    const json = JSON.stringify([
+      { prompt: 'timber pallet 1.2m x 1m', length: 1200, width: 800, unit: 'mm', topology: 'quad' },
+      { description: 'concrete road barrier', target_poly_count: 5000 },
+    ]);
+
+    const { rows, errors } = parseBatchSchedule(json);
+
+    expect(errors).toEqual([]);
+    expect(rows[0]).toEqual(
+      expect.objectContaining({
+        line: 1,
+        name: 'timber pallet 1.2m x 1m',
+        settings: { topology: 'quad' },
+        targetSize: { length: 1200, width: 800, unit: 'mm' },
+      }),
+    );
+    expect(rows[1]).toEqual(
+      expect.objectContaining({ line: 2, prompt: 'concrete road barrier', settings: { targetPolyCount: 5000 } }),
+    );
+    expect(rows[1].targetSize).toBeUndefined();
+  });
+
+  it('should report invalid rows and keep the rest', () => {
+    const csv = [
+      'prompt,topology,height,unit',
+      'steel stair stringer,quad,,',
+      ',quad,,',
+      'timber post,hexagon,,',
+      'brick pier,,-1,m',
+      'brick pier,,1,yards',
+    ].join('\n');
+
+    const { rows, errors } = parseBatchSchedule(csv);
+
+    expect(rows.map((row) => row.line)).toEqual([2]);
+    expect(errors).toEqual([
+      { line: 3, message: 'Prompt is required' },
+      { line: 4, message: 'Topology must be quad or triangle, not "hexagon"' },
+      { line: 5, message: 'Height must be a positive number, not "-1"' },
+      { line: 6, message: 'Unit must be one of mm, cm, m, in, ft, not "yards"' },
+    ]);
+  });
+
+  it('should skip blank lines', () => {
+    const { rows } = parseBatchSchedule('prompt\r\nsteel beam\r\n\r\n,\r\nconcrete column\r\n');
+
+    expect(rows.map((row) => [row.line, row.prompt])).toEqual([[2, 'steel beam'], [5, 'concrete column']]);
+  });
+
+  it('should reject schedules it cannot read', () => {
+    expect(() => parseBatchSchedule('  ')).toThrow('The schedule is empty');
+    expect(() => parseBatchSchedule('name,style\nA,realistic')).toThrow('The CSV needs a "prompt" column');
+    expect(() => parseBatchSchedule('[{"prompt": ')).toThrow('The schedule is not valid JSON');
+    expect(() => parseBatchSchedule('{"prompt": "beam"}')).toThrow('A JSON schedule must be an array of rows');
+    expect(() => parseBatchSchedule('prompt\n')).toThrow('The schedule has no rows to generate');
+
+    const tooMany = JSON.stringify(Array.from({ length: MAX_BATCH_ROWS + 1 }, () => ({ prompt: 'steel beam' })));
+    expect(() => parseBatchSchedule(tooMany)).toThrow(`at most ${MAX_BATCH_ROWS} rows`);
+  });
+});
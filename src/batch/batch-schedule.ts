@@ -0,0 +1,269 @@
+/**
+ * Text-to-3D Construction Platform - Batch Schedule
+ * Copyright © 2024 Kris. All rights reserved.
+ * PROPRIETARY SOFTWARE - NOT OPEN SOURCE
+ *
+ * Reads a schedule of elements to generate in one go - a CSV with a header
+ * row or a JSON array of objects - into rows of prompt plus settings.
+ * Columns are matched loosely ("Target poly count", target_poly_count and
+ * targetPolyCount are the same column) so exports from other tools load as
+ * they are. Rows that can't be generated are reported, not dropped silently.
+ */
+
+import { hasTargetSize, parseTargetSize } from '../sizing/real-world-size';
+import type { LengthUnit, TargetSize } from '../sizing/real-world-size';
+import type { RecommendedSettings } from '../templates/prompt-templates';
+
+export const MAX_BATCH_ROWS = 100;
+const MAX_PROMPT_LENGTH = 600;
+
+export interface BatchRow {
+  line: number; // Line of the CSV, or position in the JSON array, counting from 1
+  name: string; // Label for the summary; the prompt when the schedule gives none
+  prompt: string;
+  settings: RecommendedSettings;
+  targetSize?: TargetSize;
+}
+
+export interface BatchRowError {
+  line: number;
+  message: string;
+}
+
+export interface BatchSchedule {
+  rows: BatchRow[];
+  errors: BatchRowError[];
+}
+
+type Column =
+  | 'name'
+  | 'prompt'
+  | 'artStyle'
+  | 'topology'
+  | 'targetPolyCount'
+  | 'enablePBR'
+  | 'length'
+  | 'width'
+  | 'height'
+  | 'unit';
+
+const COLUMN_ALIASES: Record<string, Column> = {
+  name: 'name',
+  element: 'name',
+  item: 'name',
+  prompt: 'prompt',
+  description: 'prompt',
+  artstyle: 'artStyle',
+  style: 'artStyle',
+  topology: 'topology',
+  targetpolycount: 'targetPolyCount',
+  polycount: 'targetPolyCount',
+  polygons: 'targetPolyCount',
+  enablepbr: 'enablePBR',
+  pbr: 'enablePBR',
+  length: 'length',
+  width: 'width',
+  height: 'height',
+  unit: 'unit',
+  units: 'unit',
+};
+
+const UNITS: LengthUnit[] = ['mm', 'cm', 'm', 'in', 'ft'];
+
+/**
+ * Parses CSV or JSON (whichever the text looks like) into rows ready to
+ * generate, with an error for each row that isn't
+ */
+export function parseBatchSchedule(text: string): BatchSchedule {
+  const trimmed = text.trim();
+  if (!trimmed) {
+    throw new Error('The schedule is empty');
+  }
+
+  const records = /^[[{]/.test(trimmed) ? readJson(trimmed) : readCsv(trimmed);
+  if (records.length === 0) {
+    throw new Error('The schedule has no rows to generate');
+  }
+  if (records.length > MAX_BATCH_ROWS) {
+    throw new Error(`A batch can have at most ${MAX_BATCH_ROWS} rows; this schedule has ${records.length}`);
+  }
+
+  const schedule: BatchSchedule = { rows: [], errors: [] };
+  for (const { line, values } of records) {
+    try {
+      schedule.rows.push(toRow(line, values));
+    } catch (error) {
+      schedule.errors.push({ line, message: error instanceof Error ? error.message : String(error) });
+    }
+  }
+  return schedule;
+}
+
+function toRow(line: number, values: Partial<Record<Column, string>>): BatchRow {
+  const prompt = values.prompt?.trim() || '';
+  if (!prompt) {
+    throw new Error('Prompt is required');
+  }
+  if (prompt.length > MAX_PROMPT_LENGTH) {
+    throw new Error(`Prompt must be ${MAX_PROMPT_LENGTH} characters or less`);
+  }
+
+  const settings: RecommendedSettings = {};
+  const artStyle = values.artStyle?.trim().toLowerCase();
+  if (artStyle) {
+    if (artStyle !== 'realistic' && artStyle !== 'sculpture') {
+      throw new Error(`Art style must be realistic or sculpture, not "${values.artStyle}"`);
+    }
+    settings.artStyle = artStyle;
+  }
+
+  const topology = values.topology?.trim().toLowerCase();
+  if (topology) {
+    if (topology !== 'quad' && topology !== 'triangle') {
+      throw new Error(`Topology must be quad or triangle, not "${values.topology}"`);
+    }
+    settings.topology = topology;
+  }
+
+  if (values.targetPolyCount?.trim()) {
+    const count = Number(values.targetPolyCount);
+    if (!Number.isInteger(count) || count <= 0) {
+      throw new Error(`Target poly count must be a whole number, not "${values.targetPolyCount}"`);
+    }
+    settings.targetPolyCount = count;
+  }
+
+  const pbr = values.enablePBR?.trim().toLowerCase();
+  if (pbr) {
+    if (!['true', 'false', 'yes', 'no', '1', '0'].includes(pbr)) {
+      throw new Error(`PBR must be yes or no, not "${values.enablePBR}"`);
+    }
+    settings.enablePBR = ['true', 'yes', '1'].includes(pbr);
+  }
+
+  const targetSize = readSize(values) || parseTargetSize(prompt) || undefined;
+
+  return {
+    line,
+    name: values.name?.trim() || prompt,
+    prompt,
+    settings,
+    ...(targetSize && { targetSize }),
+  };
+}
+
+// Size columns win over a size in the prompt, as typed sizes do in the form
+function readSize(values: Partial<Record<Column, string>>): TargetSize | null {
+  const unit = (values.unit?.trim().toLowerCase() || 'm') as LengthUnit;
+  const size: TargetSize = { unit };
+
+  for (const axis of ['length', 'width', 'height'] as const) {
+    const text = values[axis]?.trim();
+    if (!text) continue;
+
+    const value = Number(text);
+    if (!(value > 0)) {
+      throw new Error(`${axis[0].toUpperCase()}${axis.slice(1)} must be a positive number, not "${values[axis]}"`);
+    }
+    size[axis] = value;
+  }
+
+  if (!hasTargetSize(size)) return null;
+  if (!UNITS.includes(unit)) {
+    throw new Error(`Unit must be one of ${UNITS.join(', ')}, not "${values.unit}"`);
+  }
+  return size;
+}
+
+function columnFor(header: string): Column | undefined {
+  return COLUMN_ALIASES[header.toLowerCase().replace(/[^a-z]/g, '')];
+}
+
+function readJson(text: string): { line: number; values: Partial<Record<Column, string>> }[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('The schedule is not valid JSON');
+  }
+
+  // Either an array of rows or { "rows": [...] }
+  const rows = Array.isArray(parsed) ? parsed : (parsed as { rows?: unknown })?.rows;
+  if (!Array.isArray(rows)) {
+    throw new Error('A JSON schedule must be an array of rows');
+  }
+
+  return rows.map((row, index) => {
+    const values: Partial<Record<Column, string>> = {};
+    if (row && typeof row === 'object') {
+      for (const [key, value] of Object.entries(row)) {
+        const column = columnFor(key);
+        if (column && value !== null && value !== undefined) {
+          values[column] = String(value);
+        }
+      }
+    }
+    return { line: index + 1, values };
+  });
+}
+
+function readCsv(text: string): { line: number; values: Partial<Record<Column, string>> }[] {
+  const [header, ...lines] = splitCsv(text);
+  const columns = header.cells.map(columnFor);
+  if (!columns.includes('prompt')) {
+    throw new Error('The CSV needs a "prompt" column');
+  }
+
+  return lines
+    .filter((row) => row.cells.some((cell) => cell.trim()))
+    .map((row) => {
+      const values: Partial<Record<Column, string>> = {};
+      columns.forEach((column, index) => {
+        if (column && row.cells[index] !== undefined) {
+          values[column] = row.cells[index];
+        }
+      });
+      return { line: row.line, values };
+    });
+}
+
+// RFC 4180: quoted cells may hold commas, doubled quotes and line breaks
+function splitCsv(text: string): { line: number; cells: string[] }[] {
+  const rows: { line: number; cells: string[] }[] = [];
+  let cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        cell += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') line++;
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      cells.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[index + 1] === '\n') index++;
+      rows.push({ line: rowLine, cells: [...cells, cell] });
+      cells = [];
+      cell = '';
+      rowLine = ++line;
+    } else {
+      cell += char;
+    }
+  }
+  rows.push({ line: rowLine, cells: [...cells, cell] });
+
+  return rows;
+}
@@ -0,0 +1,52 @@
+/**
+ * Text-to-3D Construction Platform - Batch Summary
+ * Copyright © 2024 Kris. All rights reserved.
+ * PROPRIETARY SOFTWARE - NOT OPEN SOURCE
+ */
+
+import type { BatchRecord, BatchRecordItem } from '../airtable-service';
+import type { BatchItem } from '../types';
+
+/**
+ * The record kept of a finished batch: a link to each generated model and
+ * the reason each failed row failed
+ */
+export function summarizeBatch(
+  items: BatchItem[],
+  userEmail: string,
+  name: string,
+  createdAt: string,
+): BatchRecord {
+  const summary: BatchRecordItem[] = items.map((item) => ({
+    line: item.row.line,
+    name: item.row.name,
+    prompt: item.row.prompt,
+    status: item.status === 'completed' ? 'completed' : item.status === 'failed' ? 'failed' : 'cancelled',
+    ...(item.project?.model_urls?.glb && { model_url: item.project.model_urls.glb }),
+    ...(item.project?.task_id && { task_id: item.project.task_id }),
+    ...(item.error && { error: item.error }),
+  }));
+
+  const succeeded = summary.filter((item) => item.status === 'completed').length;
+  const failed = summary.filter((item) => item.status === 'failed').length;
+  const cancelled = summary.length - succeeded - failed;
+
+  let status: BatchRecord['status'] = 'partial';
+  if (succeeded === summary.length) {
+    status = 'completed';
+  } else if (succeeded === 0) {
+    status = cancelled > 0 ? 'cancelled' : 'failed';
+  }
+
+  return {
+    user_email: userEmail,
+    name,
+    status,
+    created_at: createdAt,
+    completed_at: new Date().toISOString(),
+    total: summary.length,
+    succeeded,
+    failed,
+    items: summary,
+  };
+}
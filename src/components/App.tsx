@@ -4,32 +4,78 @@
  * PROPRIETARY SOFTWARE - NOT OPEN SOURCE
  */
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { ThemeProvider, CssBaseline } from '@mui/material';
 import { theme } from '../theme';
 import { Layout } from './Layout';
 import { ConstructionApp } from '../core/app';
-import { AppState } from '../types';
+import { remainingCredits } from '../cost/credit-cost';
+import { isGenerationActive } from '../core/generation-state';
+import {
+  AppState,
+  BatchItem,
+  BatchRecord,
+  BatchRow,
+  CompiledTemplate,
+  DeadLetter,
+  GenerationFailure,
+  GenerationMode,
+  GenerationState,
+  GenerationVariant,
+  MeshyTask,
+  MonthlySpend,
+  ProjectRecord,
+  PromptTemplate,
+  RecommendedSettings,
+  RemeshRequest,
+  SyncState,
+  TargetSize,
+  TemplateDraft,
+} from '../types';
+
+// isGenerating covers a handler from click to result, including lookups before a generation starts
+type ViewState = AppState & { isGenerating: boolean };
 
 export const App: React.FC = () => {
   const [constructionApp] = useState(() => new ConstructionApp());
-  const [appState, setAppState] = useState<AppState>({
+  const [appState, setAppState] = useState<ViewState>({
     currentUser: null,
     currentTask: null,
     currentProject: null,
     generationStartTime: 0,
     isGenerating: false,
-    isLoading: false,
   });
+  const [generation, setGeneration] = useState<GenerationState>(() => constructionApp.getGenerationState());
 
   const [prompt, setPrompt] = useState('');
+  const [inputMode, setInputMode] = useState<GenerationMode>('text');
+  const [imageUrl, setImageUrl] = useState('');
+  const [reviewPreview, setReviewPreview] = useState(false);
+  const [pendingPreview, setPendingPreview] = useState<MeshyTask | null>(null);
+  const [variantCount, setVariantCount] = useState(1);
+  const [seed, setSeed] = useState<number | undefined>();
+  const [variants, setVariants] = useState<GenerationVariant[]>([]);
+  const [retextures, setRetextures] = useState<ProjectRecord[]>([]);
+  const [modelVariants, setModelVariants] = useState<ProjectRecord[]>([]);
+  const [templates, setTemplates] = useState<PromptTemplate[]>([]);
+  const [appliedTemplate, setAppliedTemplate] = useState<{ name: string; settings: RecommendedSettings } | null>(null);
+  const [targetSize, setTargetSize] = useState<TargetSize | undefined>();
+  const [batchItems, setBatchItems] = useState<BatchItem[]>([]);
+  const [batchSummary, setBatchSummary] = useState<BatchRecord | null>(null);
+  const [existingResult, setExistingResult] = useState<ProjectRecord | null>(null);
+  const [monthlySpend, setMonthlySpend] = useState<MonthlySpend | null>(null);
+  const [syncState, setSyncState] = useState<SyncState>(() => constructionApp.getSyncState());
+  const [failedWrites, setFailedWrites] = useState<DeadLetter[]>([]);
   const [isAuthenticated, setIsAuthenticated] = useState(false);
   const [loadingMessage, setLoadingMessage] = useState('');
-  const [progressStage, setProgressStage] = useState('');
-  const [progressValue, setProgressValue] = useState(0);
   const [modelInfo, setModelInfo] = useState<any>(null);
   const [error, setError] = useState<string | null>(null);
+  const [failure, setFailure] = useState<GenerationFailure | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
+  // Set by Cancel so the interrupted handler doesn't report a failure
+  const cancelledRef = useRef(false);
+  // The classified failure ConstructionApp reported during the current handler
+  const failureRef = useRef<GenerationFailure | null>(null);
 
   useEffect(() => {
     // Initialize the app and check authentication
@@ -43,6 +89,36 @@ export const App: React.FC = () => {
 
     checkAuth();
 
+    // Pick up generations resumed from the persistent job queue
+    const unsubscribeResume = constructionApp.onGenerationResumed((task, project) => {
+      setAppState(prev => ({ ...prev, currentTask: task, currentProject: project }));
+      setRetextures(constructionApp.getRetextures());
+      setModelVariants(constructionApp.getModelVariants());
+      setSuccess('Your previous generation has finished!');
+      setModelInfo(constructionApp.getViewerStats());
+    });
+
+    // Previews held for approval, including ones restored from the job queue
+    const unsubscribePreview = constructionApp.onPreviewReady((previewTask, project) => {
+      setPendingPreview(previewTask);
+      setAppState(prev => ({ ...prev, currentTask: null, currentProject: project }));
+    });
+
+    const unsubscribeVariants = constructionApp.onVariantsChanged(setVariants);
+
+    // Stage and progress of whatever is generating, resumed generations included
+    const unsubscribeGeneration = constructionApp.onGenerationStateChanged(setGeneration);
+
+    // Includes failures of resumed generations, which no handler is waiting on
+    const unsubscribeFailure = constructionApp.onGenerationFailed((reported) => {
+      failureRef.current = reported;
+      setFailure(reported);
+      setError(reported.message);
+    });
+
+    // Airtable writes queued on this device, including ones replayed from an earlier session
+    const unsubscribeSync = constructionApp.onSyncStateChanged(setSyncState);
+
     // Set up window resize handler
     const handleResize = () => {
       constructionApp.onWindowResize();
@@ -51,13 +127,50 @@ export const App: React.FC = () => {
     window.addEventListener('resize', handleResize);
 
     return () => {
+      unsubscribeResume();
+      unsubscribePreview();
+      unsubscribeVariants();
+      unsubscribeGeneration();
+      unsubscribeFailure();
+      unsubscribeSync();
       window.removeEventListener('resize', handleResize);
       constructionApp.disposeViewer();
     };
   }, [constructionApp]);
 
-  const handleGenerateModel = async () => {
-    if (!prompt.trim()) {
+  // Team templates depend on who is signed in
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    constructionApp.getPromptTemplates()
+      .then(setTemplates)
+      .catch(() => setError('Failed to load team templates'));
+  }, [constructionApp, isAuthenticated]);
+
+  // Reload the dead letters whenever a write is given up on, retried or discarded
+  useEffect(() => {
+    constructionApp.getFailedWrites()
+      .then(setFailedWrites)
+      .catch(() => setError('Failed to load the changes that failed to sync'));
+  }, [constructionApp, syncState.failedWrites]);
+
+  const generationRunning = isGenerationActive(generation);
+  const isGenerating = appState.isGenerating || generationRunning;
+
+  // Every task created adds to the spend; read it again whenever a generation settles
+  useEffect(() => {
+    if (!isAuthenticated || isGenerating) return;
+    constructionApp.getMonthlySpend()
+      .then(setMonthlySpend)
+      .catch(() => setError('Failed to load this month\'s credit spend'));
+  }, [constructionApp, isAuthenticated, isGenerating]);
+
+  const handleGenerateModel = async (generateAnyway = false) => {
+    if (inputMode === 'image' && !imageUrl) {
+      setError('Please choose a reference image');
+      return;
+    }
+
+    if (inputMode === 'text' && !prompt.trim()) {
       setError('Please enter a construction description');
       return;
     }
@@ -69,12 +182,64 @@ export const App: React.FC = () => {
 
     setError(null);
     setSuccess(null);
+    setExistingResult(null);
+    setPendingPreview(null);
+    setVariants([]);
+    setRetextures([]);
+    setModelVariants([]);
+    cancelledRef.current = false;
+    failureRef.current = null;
     setAppState(prev => ({ ...prev, isGenerating: true }));
     setLoadingMessage('Initializing generation...');
 
     try {
       // Call the existing generation logic
-      await constructionApp.generateModel();
+      await constructionApp.generateModel({
+        mode: inputMode,
+        prompt,
+        imageUrl: inputMode === 'image' ? imageUrl : undefined,
+        reviewPreview: inputMode === 'text' && reviewPreview,
+        variantCount: inputMode === 'text' ? variantCount : 1,
+        settings: inputMode === 'text' ? appliedTemplate?.settings : undefined,
+        seed: inputMode === 'text' && variantCount <= 1 ? seed : undefined,
+        targetSize,
+        generateAnyway,
+      });
+
+      if (cancelledRef.current) {
+        setAppState(prev => ({ ...prev, isGenerating: false }));
+        return;
+      }
+
+      // Nothing was generated: the user decides whether to reuse the earlier result
+      const existing = constructionApp.getExistingResult();
+      if (existing) {
+        setExistingResult(existing);
+        setAppState(prev => ({ ...prev, isGenerating: false }));
+        return;
+      }
+
+      // Already shown by the failure listener; keep the failed project retryable
+      if (failureRef.current) {
+        setAppState(prev => ({
+          ...prev,
+          currentProject: constructionApp.getCurrentProject(),
+          isGenerating: false,
+        }));
+        return;
+      }
+
+      if (constructionApp.getVariants().some(variant => variant.status === 'ready')) {
+        setAppState(prev => ({ ...prev, currentTask: null, isGenerating: false }));
+        setSuccess('Variants ready - pick one to refine');
+        return;
+      }
+
+      if (constructionApp.getPreviewApproval().status === 'awaiting_approval') {
+        setAppState(prev => ({ ...prev, isGenerating: false }));
+        setSuccess('Preview ready - approve it to apply textures');
+        return;
+      }
 
       // Update state with current task
       const currentTask = constructionApp.getCurrentTask();
@@ -98,11 +263,333 @@ export const App: React.FC = () => {
       setAppState(prev => ({ ...prev, isGenerating: false }));
     } finally {
       setLoadingMessage('');
-      setProgressStage('');
-      setProgressValue(0);
     }
   };
 
+  // Prefers the classified failure over a handler's generic message
+  const showFailure = (fallback: string) => {
+    setError(failureRef.current?.message ?? fallback);
+  };
+
+  const handleApprovePreview = async () => {
+    setError(null);
+    setAppState(prev => ({ ...prev, isGenerating: true }));
+    setLoadingMessage('Applying textures...');
+    cancelledRef.current = false;
+    failureRef.current = null;
+
+    try {
+      await constructionApp.approvePreview();
+
+      if (cancelledRef.current) {
+        setPendingPreview(null);
+        setAppState(prev => ({ ...prev, isGenerating: false }));
+        return;
+      }
+
+      if (constructionApp.getPreviewApproval().status !== 'completed') {
+        showFailure('Failed to texture the preview. Please try again.');
+        setPendingPreview(null);
+        setAppState(prev => ({ ...prev, isGenerating: false }));
+        return;
+      }
+
+      setPendingPreview(null);
+      setAppState(prev => ({
+        ...prev,
+        currentTask: constructionApp.getCurrentTask(),
+        currentProject: constructionApp.getCurrentProject(),
+        isGenerating: false,
+      }));
+      setSuccess('3D model generated successfully!');
+      setModelInfo(constructionApp.getViewerStats());
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to texture the preview. Please try again.');
+      setAppState(prev => ({ ...prev, isGenerating: false }));
+    } finally {
+      setLoadingMessage('');
+    }
+  };
+
+  const handleRejectPreview = async () => {
+    setError(null);
+    setSuccess(null);
+    setPendingPreview(null);
+    setAppState(prev => ({ ...prev, isGenerating: true }));
+    setLoadingMessage('Regenerating preview...');
+    cancelledRef.current = false;
+    failureRef.current = null;
+
+    try {
+      await constructionApp.rejectPreview();
+
+      if (!cancelledRef.current && constructionApp.getPreviewApproval().status !== 'awaiting_approval') {
+        showFailure('Failed to regenerate the preview. Please try again.');
+      }
+      setAppState(prev => ({ ...prev, isGenerating: false }));
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to regenerate the preview. Please try again.');
+      setAppState(prev => ({ ...prev, isGenerating: false }));
+    } finally {
+      setLoadingMessage('');
+    }
+  };
+
+  const handleSelectVariant = async (variantId: string) => {
+    setError(null);
+    setSuccess(null);
+    setAppState(prev => ({ ...prev, isGenerating: true }));
+    setLoadingMessage('Applying textures...');
+
+    cancelledRef.current = false;
+    failureRef.current = null;
+
+    try {
+      await constructionApp.selectVariant(variantId);
+
+      if (cancelledRef.current) {
+        setAppState(prev => ({ ...prev, isGenerating: false }));
+        return;
+      }
+
+      const selected = constructionApp.getVariants().find(variant => variant.id === variantId);
+      if (selected?.status !== 'selected') {
+        showFailure(selected?.error || 'Failed to texture the selected variant. Please try again.');
+        setAppState(prev => ({ ...prev, isGenerating: false }));
+        return;
+      }
+
+      setAppState(prev => ({
+        ...prev,
+        currentTask: constructionApp.getCurrentTask(),
+        currentProject: constructionApp.getCurrentProject(),
+        isGenerating: false,
+      }));
+      setSuccess('3D model generated successfully!');
+      setModelInfo(constructionApp.getViewerStats());
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to texture the selected variant. Please try again.');
+      setAppState(prev => ({ ...prev, isGenerating: false }));
+    } finally {
+      setLoadingMessage('');
+    }
+  };
+
+  const handleRetry = async (mode: 'exact' | 'newSeed' | 'edited') => {
+    setError(null);
+    setSuccess(null);
+    setAppState(prev => ({ ...prev, isGenerating: true }));
+    setLoadingMessage('Retrying generation...');
+
+    const originalProject = constructionApp.getCurrentProject();
+    cancelledRef.current = false;
+    failureRef.current = null;
+
+    try {
+      await constructionApp.retryGeneration({
+        newSeed: mode !== 'exact',
+        tweaks: mode === 'edited' ? editedTweaks(originalProject) : undefined,
+      });
+      setRetextures(constructionApp.getRetextures());
+      setModelVariants(constructionApp.getModelVariants());
+
+      if (cancelledRef.current) {
+        setAppState(prev => ({ ...prev, currentProject: constructionApp.getCurrentProject(), isGenerating: false }));
+        return;
+      }
+
+      const currentProject = constructionApp.getCurrentProject();
+      const succeeded = currentProject !== originalProject && currentProject?.status === 'completed';
+
+      setAppState(prev => ({
+        ...prev,
+        currentTask: succeeded ? constructionApp.getCurrentTask() : prev.currentTask,
+        currentProject,
+        isGenerating: false,
+      }));
+
+      if (succeeded) {
+        setSuccess('3D model regenerated successfully!');
+        setModelInfo(constructionApp.getViewerStats());
+      } else {
+        showFailure('Retry failed. Please try again.');
+      }
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Retry failed. Please try again.');
+      setAppState(prev => ({ ...prev, isGenerating: false }));
+    } finally {
+      setLoadingMessage('');
+    }
+  };
+
+  // The prompt box edits whichever text the project was generated from
+  const editedTweaks = (project: ProjectRecord | null) => {
+    if (project?.input_mode === 'retexture') {
+      return { texturePrompt: prompt.trim() };
+    }
+    if (project?.input_mode === 'remesh') {
+      return undefined; // Nothing in a remesh comes from the prompt
+    }
+    return inputMode === 'image' ? { description: prompt.trim() || undefined } : { prompt: prompt.trim() };
+  };
+
+  const handleRetexture = async (texturePrompt: string) => {
+    setError(null);
+    setSuccess(null);
+    setAppState(prev => ({ ...prev, isGenerating: true }));
+    setLoadingMessage('Retexturing model...');
+
+    const originalProject = constructionApp.getCurrentProject();
+    cancelledRef.current = false;
+    failureRef.current = null;
+
+    try {
+      await constructionApp.retextureModel(texturePrompt);
+      setRetextures(constructionApp.getRetextures());
+      setModelVariants(constructionApp.getModelVariants());
+
+      const currentProject = constructionApp.getCurrentProject();
+      const succeeded = currentProject !== originalProject && currentProject?.status === 'completed';
+
+      setAppState(prev => ({
+        ...prev,
+        currentTask: succeeded ? constructionApp.getCurrentTask() : prev.currentTask,
+        currentProject,
+        isGenerating: false,
+      }));
+
+      if (cancelledRef.current) {
+        return;
+      }
+
+      if (succeeded) {
+        setSuccess('Model retextured successfully!');
+        setModelInfo(constructionApp.getViewerStats());
+      } else {
+        showFailure('Retexture failed. Please try again.');
+      }
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Retexture failed. Please try again.');
+      setAppState(prev => ({ ...prev, isGenerating: false }));
+    } finally {
+      setLoadingMessage('');
+    }
+  };
+
+  const handleRemesh = async (options: Pick<RemeshRequest, 'targetPolyCount' | 'topology'>) => {
+    setError(null);
+    setSuccess(null);
+    setAppState(prev => ({ ...prev, isGenerating: true }));
+    setLoadingMessage('Remeshing model...');
+
+    const originalProject = constructionApp.getCurrentProject();
+    cancelledRef.current = false;
+    failureRef.current = null;
+
+    try {
+      await constructionApp.remeshModel(options);
+      setRetextures(constructionApp.getRetextures());
+      setModelVariants(constructionApp.getModelVariants());
+
+      const currentProject = constructionApp.getCurrentProject();
+      const succeeded = currentProject !== originalProject && currentProject?.status === 'completed';
+
+      setAppState(prev => ({
+        ...prev,
+        currentTask: succeeded ? constructionApp.getCurrentTask() : prev.currentTask,
+        currentProject,
+        isGenerating: false,
+      }));
+
+      if (cancelledRef.current) {
+        return;
+      }
+
+      if (succeeded) {
+        setSuccess('New version of the model created!');
+        setModelInfo(constructionApp.getViewerStats());
+      } else {
+        showFailure('Remesh failed. Please try again.');
+      }
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Remesh failed. Please try again.');
+      setAppState(prev => ({ ...prev, isGenerating: false }));
+    } finally {
+      setLoadingMessage('');
+    }
+  };
+
+  const handleReuseExistingResult = async () => {
+    setExistingResult(null);
+    try {
+      await constructionApp.reuseExistingResult();
+      setAppState(prev => ({
+        ...prev,
+        currentTask: constructionApp.getCurrentTask(),
+        currentProject: constructionApp.getCurrentProject(),
+      }));
+      setModelInfo(constructionApp.getViewerStats());
+      setSuccess('Showing the model generated earlier for this request');
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to load the earlier model. Please try again.');
+    }
+  };
+
+  const handleStartBatch = async (rows: BatchRow[], name: string) => {
+    setError(null);
+    setSuccess(null);
+    setBatchSummary(null);
+    setAppState(prev => ({ ...prev, isGenerating: true }));
+
+    try {
+      const summary = await constructionApp.generateBatch(rows, name, setBatchItems);
+      setBatchSummary(summary);
+      if (summary && summary.succeeded > 0) {
+        setSuccess(`Batch finished: ${summary.succeeded} of ${summary.total} elements generated`);
+      } else if (summary && summary.status === 'failed') {
+        setError('No element in the batch could be generated. See the batch summary for why.');
+      }
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to run the batch. Please try again.');
+    } finally {
+      setAppState(prev => ({ ...prev, isGenerating: false }));
+    }
+  };
+
+  const handleCancelBatch = async () => {
+    try {
+      await constructionApp.cancelBatch();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to cancel batch. Please try again.');
+    }
+  };
+
+  const handleShowVariant = async (projectId: string) => {
+    try {
+      await constructionApp.showModelVariant(projectId);
+      setRetextures(constructionApp.getRetextures());
+      setAppState(prev => ({
+        ...prev,
+        currentTask: constructionApp.getCurrentTask(),
+        currentProject: constructionApp.getCurrentProject(),
+      }));
+      setModelInfo(constructionApp.getViewerStats());
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to show that version of the model');
+    }
+  };
+
+  const handleCancelGeneration = async () => {
+    cancelledRef.current = true;
+    setLoadingMessage('Cancelling...');
+
+    await constructionApp.cancelGeneration();
+
+    setVariants(constructionApp.getVariants());
+    setError(null);
+    setSuccess('Generation cancelled');
+  };
+
   const handleDownload = async (url: string, extension: string) => {
     try {
       await constructionApp.downloadModel(url, extension);
@@ -159,6 +646,40 @@ export const App: React.FC = () => {
     }
   };
 
+  const handleApplyTemplate = (template: PromptTemplate, compiled: CompiledTemplate) => {
+    setPrompt(compiled.prompt);
+    setAppliedTemplate({ name: template.name, settings: compiled.settings });
+  };
+
+  const handleSaveTemplate = async (draft: TemplateDraft) => {
+    setError(null);
+    try {
+      const template = await constructionApp.savePromptTemplate(draft);
+      setTemplates(prev => [...prev, template]);
+      setSuccess(`Template "${template.name}" added for your team`);
+      return true;
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to save template');
+      return false;
+    }
+  };
+
+  const handleRetryFailedWrite = async (id: string) => {
+    try {
+      await constructionApp.retryFailedWrite(id);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to retry the change. Please try again.');
+    }
+  };
+
+  const handleDiscardFailedWrite = async (id: string) => {
+    try {
+      await constructionApp.discardFailedWrite(id);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to discard the change. Please try again.');
+    }
+  };
+
   const handleLogout = () => {
     constructionApp.logout();
   };
@@ -167,6 +688,25 @@ export const App: React.FC = () => {
     setError(null);
   };
 
+  const handleErrorAction = () => {
+    const action = failure?.guidance.action;
+    setError(null);
+
+    // The prompt has to change first, so just clear the way to edit it
+    if (action === 'edit_prompt') {
+      return;
+    }
+
+    if (constructionApp.getCurrentProject()?.generation_request) {
+      handleRetry(action === 'retry_new_seed' ? 'newSeed' : 'exact');
+    } else {
+      handleGenerateModel();
+    }
+  };
+
+  // The action only belongs to the message it was reported with
+  const errorFailure = failure && failure.message === error ? failure : null;
+
   const handleDismissSuccess = () => {
     setSuccess(null);
   };
@@ -177,22 +717,80 @@ export const App: React.FC = () => {
       <Layout
         user={appState.currentUser}
         isAuthenticated={isAuthenticated}
-        isGenerating={appState.isGenerating}
-        isLoading={!!loadingMessage}
-        loadingMessage={loadingMessage}
-        progressStage={progressStage}
-        progressValue={progressValue}
+        isGenerating={isGenerating}
+        isLoading={!!loadingMessage || generationRunning}
+        loadingMessage={loadingMessage || 'Generating...'}
+        progressStage={generationRunning ? generation.stage : ''}
+        progressValue={generationRunning ? generation.progress : 0}
         prompt={prompt}
-        onPromptChange={setPrompt}
-        onGenerate={handleGenerateModel}
+        onPromptChange={(value) => {
+          setPrompt(value);
+          // The earlier result only matches the prompt it was found for
+          setExistingResult(null);
+        }}
+        inputMode={inputMode}
+        onInputModeChange={setInputMode}
+        imageUrl={imageUrl}
+        onImageUrlChange={setImageUrl}
+        templates={templates}
+        onApplyTemplate={handleApplyTemplate}
+        onSaveTemplate={handleSaveTemplate}
+        appliedTemplateName={appliedTemplate?.name}
+        onClearTemplate={() => setAppliedTemplate(null)}
+        targetSize={targetSize}
+        onTargetSizeChange={setTargetSize}
+        reviewPreview={reviewPreview}
+        onReviewPreviewChange={setReviewPreview}
+        pendingPreview={pendingPreview}
+        onApprovePreview={handleApprovePreview}
+        onRejectPreview={handleRejectPreview}
+        variantCount={variantCount}
+        onVariantCountChange={setVariantCount}
+        seed={seed}
+        onSeedChange={setSeed}
+        variants={variants}
+        onSelectVariant={handleSelectVariant}
+        canRetry={
+          !!appState.currentProject?.generation_request &&
+          appState.currentProject.status !== 'generating'
+        }
+        onRetry={handleRetry}
+        onCancelGeneration={handleCancelGeneration}
+        onGenerate={() => handleGenerateModel()}
+        costEstimate={constructionApp.estimateGenerationCost({
+          mode: inputMode,
+          variantCount: inputMode === 'text' ? variantCount : 1,
+        })}
+        creditsRemaining={monthlySpend && remainingCredits(monthlySpend)}
+        existingResult={existingResult}
+        onReuseExistingResult={handleReuseExistingResult}
+        onGenerateAnyway={() => handleGenerateModel(true)}
         onLogout={handleLogout}
+        pendingSyncCount={syncState.pendingWrites}
+        failedWrites={failedWrites}
+        onRetryFailedWrite={handleRetryFailedWrite}
+        onDiscardFailedWrite={handleDiscardFailedWrite}
         currentTask={appState.currentTask}
         modelInfo={modelInfo}
         onDownload={handleDownload}
         onDownloadForEngine={handleDownloadForEngine}
         onDownloadAll={handleDownloadAll}
+        retextures={retextures}
+        onRetexture={handleRetexture}
+        polygonCount={appState.currentProject?.polygon_count}
+        modelTargetSize={appState.currentProject?.target_size}
+        modelScale={appState.currentProject?.model_scale}
+        modelVariants={modelVariants}
+        onRemesh={handleRemesh}
+        onShowVariant={handleShowVariant}
+        batchItems={batchItems}
+        batchSummary={batchSummary}
+        onStartBatch={handleStartBatch}
+        onCancelBatch={handleCancelBatch}
         onViewerAction={handleViewerAction}
         error={error}
+        errorActionLabel={errorFailure?.guidance.actionLabel}
+        onErrorAction={errorFailure ? handleErrorAction : undefined}
         success={success}
         onDismissError={handleDismissError}
         onDismissSuccess={handleDismissSuccess}
@@ -0,0 +1,117 @@
+/**
+ * BatchImport Component Tests
+ * Copyright © 2024 Kris. All rights reserved.
+ * PROPRIETARY SOFTWARE - NOT OPEN SOURCE
+ */
+
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { ThemeProvider } from '@mui/material/styles';
+import { vi } from 'vitest';
+import { BatchImport } from './BatchImport';
+import { theme } from '../theme';
+import type { BatchItem, BatchRecord } from '../types';
+
+const renderWithTheme = (component: React.ReactElement) => {
+  return render(
+    <ThemeProvider theme={theme}>
+      {component}
+    </ThemeProvider>
+  );
+};
+
+const importFile = (name: string, content: string) => {
+  const input = document.querySelector('input[type="file"]') as HTMLInputElement;
+  const file = new File([content], name);
+  fireEvent.change(input, { target: { files: [file] } });
+};
+
+const row = (line: number, name: string) => ({ line, name, prompt: `steel ${name}`, settings: {} });
+
+describe('BatchImport', () => {
+  it('starts the valid rows of an imported schedule and lists the skipped ones', async () => {
+    const onStartBatch = vi.fn();
+    renderWithTheme(<BatchImport items={[]} summary={null} onStartBatch={onStartBatch} />);
+
+    importFile('site-package.csv', 'name,prompt\nFence,steel fence panel\nCabin,\n');
+
+    expect(await screen.findByText('Row 3 will be skipped: Prompt is required')).toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: 'Generate 1 element' }));
+
+    expect(onStartBatch).toHaveBeenCalledWith(
+      [expect.objectContaining({ line: 2, name: 'Fence', prompt: 'steel fence panel' })],
+      'site-package',
+    );
+  });
+
+  it('shows why a schedule could not be read', async () => {
+    renderWithTheme(<BatchImport items={[]} summary={null} onStartBatch={vi.fn()} />);
+
+    importFile('elements.json', '{"rows": 3}');
+
+    await waitFor(() => {
+      expect(screen.getByText('A JSON schedule must be an array of rows')).toBeInTheDocument();
+    });
+  });
+
+  it('shows each row’s status and the summary with links and failures', () => {
+    const items: BatchItem[] = [
+      {
+        id: 'b-1',
+        row: row(2, 'Fence'),
+        status: 'completed',
+        stage: 'Ready',
+        progress: 100,
+        project: {
+          user_email: 'test@example.com',
+          prompt: 'steel Fence',
+          status: 'completed',
+          created_at: '',
+          download_count: 0,
+          device_type: 'desktop',
+          art_style: 'realistic',
+          model_urls: { glb: 'https://example.com/fence.glb' },
+        },
+      },
+      { id: 'b-2', row: row(3, 'Cabin'), status: 'generating', stage: 'Generating preview...', progress: 40 },
+      { id: 'b-3', row: row(4, 'Sign'), status: 'failed', stage: 'Failed', progress: 0, error: 'Task failed' },
+    ];
+    const summary: BatchRecord = {
+      user_email: 'test@example.com',
+      name: 'site-package',
+      status: 'partial',
+      created_at: '',
+      completed_at: '',
+      total: 3,
+      succeeded: 1,
+      failed: 1,
+      items: [
+        { line: 2, name: 'Fence', prompt: 'steel Fence', status: 'completed', model_url: 'https://example.com/fence.glb' },
+        { line: 3, name: 'Cabin', prompt: 'steel Cabin', status: 'cancelled' },
+        { line: 4, name: 'Sign', prompt: 'steel Sign', status: 'failed', error: 'Task failed' },
+      ],
+    };
+
+    renderWithTheme(<BatchImport items={items} summary={summary} onStartBatch={vi.fn()} />);
+
+    expect(screen.getByRole('link', { name: 'Model' })).toHaveAttribute('href', 'https://example.com/fence.glb');
+    expect(screen.getByText('Generating preview...')).toBeInTheDocument();
+    expect(screen.getByText('site-package: 1 of 3 generated, 1 failed, 1 cancelled')).toBeInTheDocument();
+    expect(screen.getByText('Row 4 (Sign): Task failed')).toBeInTheDocument();
+  });
+
+  it('cancels a running batch', () => {
+    const onCancelBatch = vi.fn();
+    const items: BatchItem[] = [
+      { id: 'b-1', row: row(2, 'Fence'), status: 'generating', stage: 'Generating preview...', progress: 40 },
+      { id: 'b-2', row: row(3, 'Cabin'), status: 'queued', stage: 'Queued', progress: 0 },
+    ];
+
+    renderWithTheme(
+      <BatchImport items={items} summary={null} onStartBatch={vi.fn()} onCancelBatch={onCancelBatch} disabled />,
+    );
+    fireEvent.click(screen.getByRole('button', { name: 'Cancel batch' }));
+
+    expect(onCancelBatch).toHaveBeenCalled();
+  });
+});
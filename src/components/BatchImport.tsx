@@ -0,0 +1,189 @@
+/**
+ * Text-to-3D Construction Platform - Batch Import Component
+ * Copyright © 2024 Kris. All rights reserved.
+ * PROPRIETARY SOFTWARE - NOT OPEN SOURCE
+ */
+
+import React, { useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  Chip,
+  LinearProgress,
+  Link,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import { UploadFile as UploadFileIcon } from '@mui/icons-material';
+import { parseBatchSchedule } from '../batch/batch-schedule';
+import type { BatchItem, BatchRecord, BatchSchedule } from '../types';
+
+interface BatchImportProps {
+  items: BatchItem[];
+  summary: BatchRecord | null;
+  onStartBatch: (rows: BatchSchedule['rows'], name: string) => void;
+  onCancelBatch?: () => void;
+  disabled?: boolean;
+}
+
+const STATUS_COLORS: Record<BatchItem['status'], 'default' | 'info' | 'success' | 'error'> = {
+  queued: 'default',
+  generating: 'info',
+  completed: 'success',
+  failed: 'error',
+  cancelled: 'default',
+};
+
+export const BatchImport: React.FC<BatchImportProps> = ({
+  items,
+  summary,
+  onStartBatch,
+  onCancelBatch,
+  disabled = false,
+}) => {
+  const [schedule, setSchedule] = useState<BatchSchedule | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [parseError, setParseError] = useState<string | null>(null);
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setFileName(file.name);
+    try {
+      setSchedule(parseBatchSchedule(await file.text()));
+      setParseError(null);
+    } catch (error) {
+      setSchedule(null);
+      setParseError(error instanceof Error ? error.message : 'The schedule could not be read');
+    }
+  };
+
+  const handleStart = () => {
+    if (!schedule) return;
+    onStartBatch(schedule.rows, fileName.replace(/\.(csv|json)$/i, '') || 'Batch import');
+    setSchedule(null);
+  };
+
+  const failures = summary?.items.filter((item) => item.status === 'failed') || [];
+  const running = items.some((item) => item.status === 'queued' || item.status === 'generating');
+
+  return (
+    <Card>
+      <CardContent>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+          <Typography variant="h6">Batch Import</Typography>
+          <Button
+            component="label"
+            variant="outlined"
+            size="small"
+            startIcon={<UploadFileIcon />}
+            disabled={disabled}
+          >
+            Import schedule
+            <input hidden type="file" accept=".csv,.json,text/csv,application/json" onChange={handleFile} />
+          </Button>
+        </Box>
+
+        {!schedule && items.length === 0 && !parseError && (
+          <Typography variant="body2" color="text.secondary">
+            Generate many elements at once from a CSV or JSON schedule with a prompt per row and,
+            optionally, name, art style, topology, target poly count, PBR and size columns.
+          </Typography>
+        )}
+
+        {parseError && <Alert severity="error">{parseError}</Alert>}
+
+        {schedule && (
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
+            {schedule.errors.map((rowError) => (
+              <Alert key={rowError.line} severity="warning" sx={{ py: 0 }}>
+                Row {rowError.line} will be skipped: {rowError.message}
+              </Alert>
+            ))}
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+              <Button
+                variant="contained"
+                onClick={handleStart}
+                disabled={disabled || schedule.rows.length === 0}
+              >
+                Generate {schedule.rows.length} {schedule.rows.length === 1 ? 'element' : 'elements'}
+              </Button>
+              <Button onClick={() => setSchedule(null)}>Discard</Button>
+            </Box>
+          </Box>
+        )}
+
+        {running && onCancelBatch && (
+          <Button color="error" onClick={onCancelBatch} sx={{ mt: 1 }}>
+            Cancel batch
+          </Button>
+        )}
+
+        {items.length > 0 && (
+          <Table size="small" sx={{ mt: 2 }}>
+            <TableHead>
+              <TableRow>
+                <TableCell>Row</TableCell>
+                <TableCell>Element</TableCell>
+                <TableCell>Status</TableCell>
+                <TableCell sx={{ width: '30%' }}>Progress</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {items.map((item) => (
+                <TableRow key={item.id}>
+                  <TableCell>{item.row.line}</TableCell>
+                  <TableCell>{item.row.name}</TableCell>
+                  <TableCell>
+                    <Chip size="small" label={item.status} color={STATUS_COLORS[item.status]} />
+                  </TableCell>
+                  <TableCell>
+                    {item.status === 'generating' ? (
+                      <Box>
+                        <LinearProgress variant="determinate" value={item.progress} />
+                        <Typography variant="caption" color="text.secondary">
+                          {item.stage}
+                        </Typography>
+                      </Box>
+                    ) : item.project?.model_urls?.glb ? (
+                      <Link href={item.project.model_urls.glb} target="_blank" rel="noopener">
+                        Model
+                      </Link>
+                    ) : (
+                      <Typography variant="caption" color="text.secondary">
+                        {item.error || item.stage}
+                      </Typography>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        {summary && (
+          <Alert severity={summary.failed > 0 ? 'warning' : 'success'} sx={{ mt: 2 }}>
+            {summary.name}: {summary.succeeded} of {summary.total} generated
+            {summary.failed > 0 && `, ${summary.failed} failed`}
+            {summary.total - summary.succeeded - summary.failed > 0 &&
+              `, ${summary.total - summary.succeeded - summary.failed} cancelled`}
+            {failures.map((failure) => (
+              <Typography key={failure.line} variant="body2">
+                Row {failure.line} ({failure.name}): {failure.error}
+              </Typography>
+            ))}
+          </Alert>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -10,7 +10,7 @@ import { ThemeProvider } from '@mui/material/styles';
 import { DownloadPanel } from './DownloadPanel';
 import { theme } from '../theme';
 import { vi } from 'vitest';
-import type { MeshyTask } from '../types';
+import type { MeshyTask, ProjectRecord } from '../types';
 
 const mockTask: MeshyTask = {
   id: 'test-task-123',
@@ -160,6 +160,14 @@ describe('DownloadPanel', () => {
     expect(screen.queryByText('FBX')).not.toBeInTheDocument();
   });
 
+  it('hides formats that cannot be saved at the real-world size', () => {
+    renderWithTheme(<DownloadPanel {...mockProps} modelScale={{ x: 2, y: 3, z: 4 }} />);
+
+    expect(screen.getByText('Available Formats (2)')).toBeInTheDocument();
+    expect(screen.queryByText('Download FBX')).not.toBeInTheDocument();
+    expect(screen.getByText(/FBX, GLTF, USD can't be saved at the model's real-world size/)).toBeInTheDocument();
+  });
+
   it('closes dialogs when clicking close buttons', async () => {
     renderWithTheme(<DownloadPanel {...mockProps} />);
     
@@ -197,4 +205,56 @@ describe('DownloadPanel', () => {
     
     expect(mockProps.onDownloadForEngine).toHaveBeenCalledWith('unreal');
   });
-});
\ No newline at end of file
+
+  describe('retexturing', () => {
+    const baseProject: ProjectRecord = {
+      user_email: 'test@example.com',
+      prompt: 'timber cabin with painted pine cladding',
+      created_at: '2024-01-01T00:00:00Z',
+      status: 'completed',
+      download_count: 0,
+      device_type: 'desktop',
+      art_style: 'realistic',
+    };
+    const versions: ProjectRecord[] = [
+      { ...baseProject, id: 'rec-original', task_id: 'test-task-123', model_urls: { glb: 'https://cdn.meshy.ai/test/model.glb' } },
+      {
+        ...baseProject,
+        id: 'rec-cedar',
+        parent_id: 'rec-original',
+        prompt: 'weathered cedar',
+        task_id: 'retexture-1',
+        model_urls: { glb: 'https://cdn.meshy.ai/test/cedar.glb', fbx: 'https://cdn.meshy.ai/test/cedar.fbx' },
+      },
+      { ...baseProject, id: 'rec-larch', parent_id: 'rec-original', prompt: 'charred larch', status: 'failed' },
+    ];
+
+    it('submits the texture prompt', () => {
+      const onRetexture = vi.fn();
+      renderWithTheme(<DownloadPanel {...mockProps} onRetexture={onRetexture} />);
+
+      const retextureButton = screen.getByRole('button', { name: /retexture/i });
+      expect(retextureButton).toBeDisabled();
+
+      fireEvent.change(screen.getByPlaceholderText(/weathered cedar cladding/), {
+        target: { value: ' weathered cedar ' },
+      });
+      fireEvent.click(retextureButton);
+
+      expect(onRetexture).toHaveBeenCalledWith('weathered cedar');
+    });
+
+    it('lists the original and its retextures with their downloads', () => {
+      renderWithTheme(<DownloadPanel {...mockProps} retextures={versions} />);
+
+      expect(screen.getByText('Texture Versions (3)')).toBeInTheDocument();
+      expect(screen.getByText('Original: timber cabin with painted pine cladding')).toBeInTheDocument();
+      expect(screen.getByText('Shown above')).toBeInTheDocument();
+      expect(screen.getAllByText('Failed')).toHaveLength(2);
+
+      fireEvent.click(screen.getByRole('button', { name: 'FBX' }));
+
+      expect(mockProps.onDownload).toHaveBeenCalledWith('https://cdn.meshy.ai/test/cedar.fbx', 'fbx');
+    });
+  });
+});
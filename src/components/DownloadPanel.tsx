@@ -23,6 +23,7 @@ import {
   ListItemIcon,
   Divider,
   Grid,
+  TextField,
 } from '@mui/material';
 import {
   Download as DownloadIcon,
@@ -33,27 +34,48 @@ import {
   SportsEsports as UnityIcon,
   ThreeDRotation as BlenderIcon,
   ViewInAr as ThreeDRotationIcon,
+  Texture as TextureIcon,
 } from '@mui/icons-material';
-import type { MeshyTask } from '../types';
+import type { MeshyTask, ProjectRecord, ScaleFactors } from '../types';
+import { canScaleModelFile } from '../sizing/scale-model-file';
 
 interface DownloadPanelProps {
   task: MeshyTask;
   onDownload: (url: string, extension: string) => void;
   onDownloadForEngine: (engine: 'unreal' | 'unity' | 'blender') => void;
   onDownloadAll: () => void;
+  retextures?: ProjectRecord[]; // The original model first, then its retextures
+  onRetexture?: (texturePrompt: string) => void;
+  disabled?: boolean; // While a generation or retexture is running
+  modelScale?: ScaleFactors; // Set when downloads are rescaled to the project's real-world size
 }
 
+const RETEXTURE_STATUS_LABELS: Record<ProjectRecord['status'], string> = {
+  generating: 'Retexturing...',
+  completed: 'Ready',
+  failed: 'Failed',
+};
+
 export const DownloadPanel: React.FC<DownloadPanelProps> = ({
   task,
   onDownload,
   onDownloadForEngine,
   onDownloadAll,
+  retextures = [],
+  onRetexture,
+  disabled = false,
+  modelScale,
 }) => {
   const [showEngineDialog, setShowEngineDialog] = useState(false);
   const [showAllFormatsDialog, setShowAllFormatsDialog] = useState(false);
+  const [texturePrompt, setTexturePrompt] = useState('');
 
   const modelUrls = task.model_urls || {};
-  const availableFormats = Object.keys(modelUrls).filter(key => modelUrls[key as keyof typeof modelUrls]);
+  const generatedFormats = Object.keys(modelUrls).filter(key => modelUrls[key as keyof typeof modelUrls]);
+  const availableFormats = modelScale
+    ? generatedFormats.filter(format => canScaleModelFile(format, modelScale))
+    : generatedFormats;
+  const unscalableFormats = generatedFormats.filter(format => !availableFormats.includes(format));
 
   const getFormatIcon = (format: string) => {
     switch (format.toLowerCase()) {
@@ -127,6 +149,12 @@ export const DownloadPanel: React.FC<DownloadPanelProps> = ({
               />
             ))}
           </Box>
+          {unscalableFormats.length > 0 && (
+            <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 1 }}>
+              {unscalableFormats.map(format => format.toUpperCase()).join(', ')} can't be saved at the
+              model's real-world size, so {unscalableFormats.length === 1 ? "it isn't" : "they aren't"} offered
+            </Typography>
+          )}
         </Box>
 
         <Grid container spacing={2}>
@@ -213,6 +241,93 @@ export const DownloadPanel: React.FC<DownloadPanelProps> = ({
           </Grid>
         </Grid>
 
+        {/* Retexture */}
+        {onRetexture && (
+          <Box sx={{ mt: 3 }}>
+            <Divider sx={{ mb: 2 }} />
+            <Typography variant="subtitle2" gutterBottom>
+              Retexture
+            </Typography>
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+              Keep this geometry and describe a new finish.
+            </Typography>
+            <Box sx={{ display: 'flex', gap: 1 }}>
+              <TextField
+                fullWidth
+                size="small"
+                value={texturePrompt}
+                onChange={(e) => setTexturePrompt(e.target.value)}
+                placeholder="e.g. weathered cedar cladding"
+                disabled={disabled}
+                inputProps={{ maxLength: 600 }}
+              />
+              <Button
+                variant="outlined"
+                startIcon={<TextureIcon />}
+                onClick={() => onRetexture(texturePrompt.trim())}
+                disabled={disabled || !texturePrompt.trim()}
+              >
+                Retexture
+              </Button>
+            </Box>
+          </Box>
+        )}
+
+        {retextures.length > 0 && (
+          <Box sx={{ mt: 2 }}>
+            <Typography variant="subtitle2" gutterBottom>
+              Texture Versions ({retextures.length})
+            </Typography>
+            <List dense disablePadding>
+              {retextures.map((version) => {
+                const versionUrls = version.model_urls || {};
+                const versionFormats = Object.keys(versionUrls).filter(
+                  (key) => versionUrls[key as keyof typeof versionUrls],
+                );
+                const isShown = !!version.task_id && version.task_id === task.id;
+
+                return (
+                  <ListItem
+                    key={version.id}
+                    sx={{
+                      gap: 1,
+                      borderRadius: 1,
+                      bgcolor: isShown ? 'action.selected' : undefined,
+                    }}
+                  >
+                    <ListItemText
+                      primary={version.parent_id ? version.prompt : `Original: ${version.prompt}`}
+                      secondary={isShown ? 'Shown above' : RETEXTURE_STATUS_LABELS[version.status]}
+                    />
+                    {version.status === 'completed' ? (
+                      <Box sx={{ display: 'flex', gap: 0.5 }}>
+                        {versionFormats.map((format) => (
+                          <Button
+                            key={format}
+                            size="small"
+                            onClick={() =>
+                              onDownload(versionUrls[format as keyof typeof versionUrls] || '', format)
+                            }
+                          >
+                            {format.toUpperCase()}
+                          </Button>
+                        ))}
+                      </Box>
+                    ) : (
+                      <Chip
+                        size="small"
+                        label={RETEXTURE_STATUS_LABELS[version.status]}
+                        color={version.status === 'failed' ? 'error' : 'default'}
+                        variant="outlined"
+                      />
+                    )}
+                  </ListItem>
+                );
+              })}
+            </List>
+          </Box>
+        )}
+
         {/* Model Info */}
         {task.status === 'SUCCEEDED' && (
           <Box sx={{ mt: 2, p: 2, bgcolor: 'background.paper', borderRadius: 1 }}>
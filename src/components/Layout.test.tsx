@@ -144,6 +144,24 @@ describe('Layout', () => {
     });
   });
 
+  describe('Prompt Suggestions', () => {
+    it('suggests rewrites under the prompt field', () => {
+      renderWithTheme(<Layout {...mockProps} prompt="timber cabin with a steel crane, 6m x 2.4m" />);
+
+      expect(screen.getByText(/Describe the cabin and the crane in separate generations/)).toBeInTheDocument();
+
+      fireEvent.click(screen.getByRole('button', { name: 'Use this' }));
+
+      expect(mockProps.onPromptChange).toHaveBeenCalledWith('timber cabin, 6m x 2.4m');
+    });
+
+    it('shows no suggestions for a specific prompt', () => {
+      renderWithTheme(<Layout {...mockProps} prompt="precast concrete stair flight, 1.2m wide, 2.7m rise" />);
+
+      expect(screen.queryByRole('button', { name: 'Use this' })).not.toBeInTheDocument();
+    });
+  });
+
   describe('Generation', () => {
     it('handles generate button click', () => {
       const propsWithPrompt = { ...mockProps, prompt: 'Test prompt' };
@@ -178,6 +196,35 @@ describe('Layout', () => {
       const generateButton = screen.getByRole('button', { name: 'Generate 3D Model' });
       expect(generateButton).toBeDisabled();
     });
+
+    it('shows the estimated cost against the credits left this month', () => {
+      const costEstimate = {
+        stages: [
+          { stage: 'preview' as const, count: 2, credits: 10 },
+          { stage: 'refine' as const, count: 1, credits: 10 },
+        ],
+        total: 20,
+      };
+      renderWithTheme(<Layout {...mockProps} prompt="Test prompt" costEstimate={costEstimate} creditsRemaining={15} />);
+
+      expect(
+        screen.getByText('Estimated cost: 20 credits (2 previews 10 + refine 10) · 15 credits left this month'),
+      ).toBeInTheDocument();
+    });
+
+    it('pins a typed seed and clears it when emptied', () => {
+      const onSeedChange = vi.fn();
+      renderWithTheme(<Layout {...mockProps} seed={4242} onSeedChange={onSeedChange} />);
+
+      const seedInput = screen.getByLabelText('Seed');
+      expect(seedInput).toHaveValue(4242);
+
+      fireEvent.change(seedInput, { target: { value: '77' } });
+      fireEvent.change(seedInput, { target: { value: '' } });
+
+      expect(onSeedChange).toHaveBeenNthCalledWith(1, 77);
+      expect(onSeedChange).toHaveBeenNthCalledWith(2, undefined);
+    });
   });
 
   describe('Loading State', () => {
@@ -23,15 +23,46 @@ import {
   IconButton,
   Tooltip,
   Grid,
+  ToggleButtonGroup,
+  ToggleButton,
+  FormControlLabel,
+  Switch,
 } from '@mui/material';
 import {
   Logout as LogoutIcon,
   Person as PersonIcon,
   Build as BuildIcon,
+  TextFields as TextFieldsIcon,
+  Image as ImageIcon,
+  Upload as UploadIcon,
 } from '@mui/icons-material';
 import { ModelViewer } from './ModelViewer';
 import { DownloadPanel } from './DownloadPanel';
-import type { User, MeshyTask } from '../types';
+import { VariantGrid } from './VariantGrid';
+import { TemplatePicker } from './TemplatePicker';
+import { PromptSuggestions } from './PromptSuggestions';
+import { TargetSizeInputs } from './TargetSizeInputs';
+import { BatchImport } from './BatchImport';
+import { SyncStatus } from './SyncStatus';
+import { formatEstimate } from '../cost/credit-cost';
+import type {
+  User,
+  MeshyTask,
+  GenerationMode,
+  GenerationVariant,
+  ProjectRecord,
+  RemeshRequest,
+  CompiledTemplate,
+  PromptTemplate,
+  TargetSize,
+  ScaleFactors,
+  TemplateDraft,
+  BatchItem,
+  BatchRecord,
+  BatchRow,
+  CostEstimate,
+  DeadLetter,
+} from '../types';
 
 interface LayoutProps {
   user: User | null;
@@ -43,15 +74,63 @@ interface LayoutProps {
   progressValue: number;
   prompt: string;
   onPromptChange: (prompt: string) => void;
+  inputMode?: GenerationMode;
+  onInputModeChange?: (mode: GenerationMode) => void;
+  imageUrl?: string;
+  onImageUrlChange?: (imageUrl: string) => void;
+  templates?: PromptTemplate[];
+  onApplyTemplate?: (template: PromptTemplate, compiled: CompiledTemplate) => void;
+  onSaveTemplate?: (draft: TemplateDraft) => Promise<boolean>;
+  appliedTemplateName?: string; // Its recommended settings apply to the next generation
+  onClearTemplate?: () => void;
+  targetSize?: TargetSize; // Typed in; overrides a size read from the prompt
+  onTargetSizeChange?: (size: TargetSize) => void;
+  reviewPreview?: boolean;
+  onReviewPreviewChange?: (reviewPreview: boolean) => void;
+  pendingPreview?: MeshyTask | null;
+  onApprovePreview?: () => void;
+  onRejectPreview?: () => void;
+  variantCount?: number;
+  onVariantCountChange?: (count: number) => void;
+  seed?: number; // Pinned by the user; empty draws a random seed per generation
+  onSeedChange?: (seed: number | undefined) => void;
+  variants?: GenerationVariant[];
+  onSelectVariant?: (variantId: string) => void;
+  canRetry?: boolean;
+  onRetry?: (mode: 'exact' | 'newSeed' | 'edited') => void;
+  onCancelGeneration?: () => void;
   onGenerate: () => void;
+  costEstimate?: CostEstimate | null; // What the generation the form describes costs, if credits are charged
+  creditsRemaining?: number | null; // Left this month under the tighter of the user's and team's budgets
+  existingResult?: ProjectRecord | null; // Earlier model of the same request, offered before paying again
+  onReuseExistingResult?: () => void;
+  onGenerateAnyway?: () => void;
   onLogout: () => void;
+  pendingSyncCount?: number; // Airtable writes queued on this device, waiting to sync
+  failedWrites?: DeadLetter[];
+  onRetryFailedWrite?: (id: string) => void;
+  onDiscardFailedWrite?: (id: string) => void;
   currentTask: MeshyTask | null;
   modelInfo: any;
   onDownload: (url: string, extension: string) => void;
   onDownloadForEngine: (engine: 'unreal' | 'unity' | 'blender') => void;
   onDownloadAll: () => void;
+  retextures?: ProjectRecord[];
+  onRetexture?: (texturePrompt: string) => void;
+  polygonCount?: number;
+  modelTargetSize?: TargetSize; // Size the shown model was scaled to
+  modelScale?: ScaleFactors;
+  modelVariants?: ProjectRecord[];
+  onRemesh?: (options: Pick<RemeshRequest, 'targetPolyCount' | 'topology'>) => void;
+  onShowVariant?: (projectId: string) => void;
+  batchItems?: BatchItem[];
+  batchSummary?: BatchRecord | null;
+  onStartBatch?: (rows: BatchRow[], name: string) => void;
+  onCancelBatch?: () => void;
   onViewerAction: (action: string, ...args: any[]) => void;
   error: string | null;
+  errorActionLabel?: string; // e.g. "Retry with new seed" for a failed task
+  onErrorAction?: () => void;
   success: string | null;
   onDismissError: () => void;
   onDismissSuccess: () => void;
@@ -67,21 +146,84 @@ export const Layout: React.FC<LayoutProps> = ({
   progressValue,
   prompt,
   onPromptChange,
+  inputMode = 'text',
+  onInputModeChange,
+  imageUrl = '',
+  onImageUrlChange,
+  templates = [],
+  onApplyTemplate,
+  onSaveTemplate,
+  appliedTemplateName,
+  targetSize,
+  onTargetSizeChange,
+  onClearTemplate,
+  reviewPreview = false,
+  onReviewPreviewChange,
+  pendingPreview = null,
+  onApprovePreview,
+  onRejectPreview,
+  variantCount = 1,
+  onVariantCountChange,
+  seed,
+  onSeedChange,
+  variants = [],
+  onSelectVariant,
+  canRetry = false,
+  onRetry,
+  onCancelGeneration,
   onGenerate,
+  costEstimate = null,
+  creditsRemaining = null,
+  existingResult = null,
+  onReuseExistingResult,
+  onGenerateAnyway,
   onLogout,
+  pendingSyncCount = 0,
+  failedWrites = [],
+  onRetryFailedWrite,
+  onDiscardFailedWrite,
   currentTask,
   modelInfo,
   onDownload,
   onDownloadForEngine,
   onDownloadAll,
+  retextures = [],
+  onRetexture,
+  polygonCount,
+  modelTargetSize,
+  modelScale,
+  modelVariants = [],
+  onRemesh,
+  onShowVariant,
+  batchItems = [],
+  batchSummary = null,
+  onStartBatch,
+  onCancelBatch,
   onViewerAction,
   error,
+  errorActionLabel,
+  onErrorAction,
   success,
   onDismissError,
   onDismissSuccess,
 }) => {
   const charCount = prompt.length;
   const maxChars = 600;
+  const isImageMode = inputMode === 'image';
+  const hasInput = isImageMode ? !!imageUrl : !!prompt.trim();
+  const showVariants = variants.some((variant) =>
+    ['generating', 'ready', 'refining'].includes(variant.status),
+  );
+
+  const handleImageFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file || !onImageUrlChange) return;
+
+    // Meshy accepts base64 data URIs, so uploads never touch our storage
+    const reader = new FileReader();
+    reader.onload = () => onImageUrlChange(reader.result as string);
+    reader.readAsDataURL(file);
+  };
   
   const getCharCountColor = () => {
     if (charCount > 500) return 'error';
@@ -129,6 +271,14 @@ export const Layout: React.FC<LayoutProps> = ({
           
           {user && (
             <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+              {onRetryFailedWrite && onDiscardFailedWrite && (
+                <SyncStatus
+                  pendingCount={pendingSyncCount}
+                  failedWrites={failedWrites}
+                  onRetry={onRetryFailedWrite}
+                  onDiscard={onDiscardFailedWrite}
+                />
+              )}
               <Chip
                 avatar={<Avatar><PersonIcon /></Avatar>}
                 label={user.name || user.email}
@@ -155,35 +305,222 @@ export const Layout: React.FC<LayoutProps> = ({
                 <Typography variant="h5" gutterBottom>
                   Generate 3D Model
                 </Typography>
+
+                {onInputModeChange && (
+                  <ToggleButtonGroup
+                    value={inputMode}
+                    exclusive
+                    size="small"
+                    onChange={(_, mode) => mode && onInputModeChange(mode)}
+                    disabled={isGenerating}
+                    sx={{ mb: 2 }}
+                  >
+                    <ToggleButton value="text">
+                      <TextFieldsIcon sx={{ mr: 1 }} fontSize="small" />
+                      Text
+                    </ToggleButton>
+                    <ToggleButton value="image">
+                      <ImageIcon sx={{ mr: 1 }} fontSize="small" />
+                      Image
+                    </ToggleButton>
+                  </ToggleButtonGroup>
+                )}
+
+                {isImageMode && (
+                  <Box sx={{ mb: 2 }}>
+                    <Box sx={{ display: 'flex', gap: 1, mb: 1 }}>
+                      <TextField
+                        fullWidth
+                        size="small"
+                        value={imageUrl.startsWith('data:') ? '' : imageUrl}
+                        onChange={(e) => onImageUrlChange?.(e.target.value)}
+                        placeholder="https://example.com/site-photo.jpg"
+                        disabled={isGenerating}
+                      />
+                      <Button
+                        component="label"
+                        variant="outlined"
+                        startIcon={<UploadIcon />}
+                        disabled={isGenerating}
+                      >
+                        Upload
+                        <input
+                          hidden
+                          type="file"
+                          accept="image/png,image/jpeg"
+                          onChange={handleImageFile}
+                        />
+                      </Button>
+                    </Box>
+                    {imageUrl && (
+                      <Box
+                        component="img"
+                        src={imageUrl}
+                        alt="Reference"
+                        sx={{ maxHeight: 160, maxWidth: '100%', borderRadius: 1 }}
+                      />
+                    )}
+                  </Box>
+                )}
+
+                {!isImageMode && onApplyTemplate && templates.length > 0 && (
+                  <TemplatePicker
+                    templates={templates}
+                    onApply={onApplyTemplate}
+                    onSaveTemplate={onSaveTemplate}
+                    disabled={isGenerating}
+                  />
+                )}
                 
                 <TextField
                   fullWidth
                   multiline
-                  rows={6}
+                  rows={isImageMode ? 2 : 6}
                   value={prompt}
                   onChange={(e) => onPromptChange(e.target.value)}
-                  placeholder="Describe your construction project...&#10;Example: 2-bedroom prefab cabin with solar panels&#10;Max 600 characters"
+                  placeholder={
+                    isImageMode
+                      ? 'Optional description of the pictured element'
+                      : 'Describe your construction project...\nExample: 2-bedroom prefab cabin with solar panels\nMax 600 characters'
+                  }
                   disabled={isGenerating}
                   sx={{ mb: 2 }}
                   inputProps={{ maxLength: maxChars }}
                 />
+
+                {!isImageMode && (
+                  <PromptSuggestions prompt={prompt} onApply={onPromptChange} disabled={isGenerating} />
+                )}
+
+                {onTargetSizeChange && (
+                  <TargetSizeInputs
+                    prompt={prompt}
+                    value={targetSize}
+                    onChange={onTargetSizeChange}
+                    disabled={isGenerating}
+                  />
+                )}
                 
                 <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
                   <Typography variant="body2" color={getCharCountColor()}>
                     {charCount}/{maxChars} characters
                   </Typography>
+                  {!isImageMode && appliedTemplateName && (
+                    <Chip
+                      size="small"
+                      label={`Template settings: ${appliedTemplateName}`}
+                      onDelete={isGenerating ? undefined : onClearTemplate}
+                    />
+                  )}
+                  {!isImageMode && onReviewPreviewChange && (
+                    <FormControlLabel
+                      control={
+                        <Switch
+                          size="small"
+                          checked={reviewPreview}
+                          onChange={(e) => onReviewPreviewChange(e.target.checked)}
+                          disabled={isGenerating}
+                        />
+                      }
+                      label="Review preview before texturing"
+                    />
+                  )}
                 </Box>
+
+                {!isImageMode && onVariantCountChange && (
+                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 2 }}>
+                    <Typography variant="body2" color="text.secondary">
+                      Variants
+                    </Typography>
+                    <ToggleButtonGroup
+                      value={variantCount}
+                      exclusive
+                      size="small"
+                      onChange={(_, count) => count && onVariantCountChange(count)}
+                      disabled={isGenerating}
+                    >
+                      {[1, 2, 3, 4].map((count) => (
+                        <ToggleButton key={count} value={count}>
+                          {count}
+                        </ToggleButton>
+                      ))}
+                    </ToggleButtonGroup>
+                  </Box>
+                )}
+
+                {/* Variants each draw their own seed, so only a single generation can be pinned */}
+                {!isImageMode && onSeedChange && variantCount <= 1 && (
+                  <TextField
+                    size="small"
+                    type="number"
+                    label="Seed"
+                    value={seed ?? ''}
+                    onChange={(e) => {
+                      const value = parseInt(e.target.value, 10);
+                      onSeedChange(value > 0 ? value : undefined);
+                    }}
+                    helperText="Pin a seed to reproduce a model; leave empty for a random one"
+                    disabled={isGenerating}
+                    sx={{ mb: 2 }}
+                    inputProps={{ min: 1, max: 2147483647 }}
+                  />
+                )}
                 
                 <Button
                   fullWidth
                   variant="contained"
                   size="large"
                   onClick={onGenerate}
-                  disabled={isGenerating || !prompt.trim() || charCount > maxChars}
+                  disabled={isGenerating || !hasInput || charCount > maxChars}
                   sx={{ mb: 2 }}
                 >
                   {isGenerating ? 'Generating...' : 'Generate 3D Model'}
                 </Button>
+
+                {costEstimate && (
+                  <Typography
+                    variant="body2"
+                    color={creditsRemaining !== null && costEstimate.total > creditsRemaining ? 'error' : 'text.secondary'}
+                    sx={{ mt: -1, mb: 2 }}
+                  >
+                    Estimated cost: {costEstimate.total} credits ({formatEstimate(costEstimate)})
+                    {creditsRemaining !== null && ` · ${creditsRemaining} credits left this month`}
+                  </Typography>
+                )}
+
+                {existingResult && onReuseExistingResult && onGenerateAnyway && (
+                  <Alert
+                    severity="info"
+                    sx={{ mb: 2 }}
+                    action={
+                      <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
+                        <Button size="small" variant="contained" onClick={onReuseExistingResult} disabled={isGenerating}>
+                          Use existing result
+                        </Button>
+                        <Button size="small" color="inherit" onClick={onGenerateAnyway} disabled={isGenerating}>
+                          Generate anyway
+                        </Button>
+                      </Box>
+                    }
+                  >
+                    This exact request was generated on {new Date(existingResult.created_at).toLocaleDateString()}.
+                    Reuse that model, or pay to generate a new one with a different seed.
+                  </Alert>
+                )}
+
+                {canRetry && onRetry && (
+                  <Box sx={{ display: 'flex', gap: 1, mb: 2 }}>
+                    <Button size="small" variant="outlined" onClick={() => onRetry('exact')} disabled={isGenerating}>
+                      Retry exactly
+                    </Button>
+                    <Button size="small" variant="outlined" onClick={() => onRetry('newSeed')} disabled={isGenerating}>
+                      Retry with new seed
+                    </Button>
+                    <Button size="small" variant="outlined" onClick={() => onRetry('edited')} disabled={isGenerating || !hasInput}>
+                      Retry with edited prompt
+                    </Button>
+                  </Box>
+                )}
                 
                 {isLoading && (
                   <Box sx={{ width: '100%' }}>
@@ -200,6 +537,13 @@ export const Layout: React.FC<LayoutProps> = ({
                         {progressStage}
                       </Typography>
                     )}
+                    {isGenerating && onCancelGeneration && (
+                      <Box sx={{ mt: 1 }}>
+                        <Button size="small" color="inherit" variant="outlined" onClick={onCancelGeneration}>
+                          Cancel
+                        </Button>
+                      </Box>
+                    )}
                   </Box>
                 )}
               </CardContent>
@@ -215,15 +559,61 @@ export const Layout: React.FC<LayoutProps> = ({
                 </Typography>
                 
                 <ModelViewer
-                  task={currentTask}
+                  task={pendingPreview || currentTask}
                   modelInfo={modelInfo}
                   onViewerAction={onViewerAction}
                   isLoading={isLoading}
+                  polygonCount={polygonCount}
+                  targetSize={modelTargetSize}
+                  modelVariants={modelVariants}
+                  onRemesh={pendingPreview ? undefined : onRemesh}
+                  onShowVariant={onShowVariant}
+                  disabled={isGenerating}
                 />
+
+                {pendingPreview && (
+                  <Alert
+                    severity="info"
+                    sx={{ mt: 2 }}
+                    action={
+                      <Box sx={{ display: 'flex', gap: 1 }}>
+                        <Button
+                          color="inherit"
+                          size="small"
+                          onClick={onRejectPreview}
+                          disabled={isGenerating}
+                        >
+                          Regenerate
+                        </Button>
+                        <Button
+                          variant="contained"
+                          size="small"
+                          onClick={onApprovePreview}
+                          disabled={isGenerating}
+                        >
+                          Approve
+                        </Button>
+                      </Box>
+                    }
+                  >
+                    Untextured preview. Approve it to apply textures, or regenerate with a new seed.
+                  </Alert>
+                )}
               </CardContent>
             </Card>
           </Grid>
 
+          {/* Variant Comparison */}
+          {showVariants && onSelectVariant && (
+            <Grid size={{ xs: 12 }}>
+              <VariantGrid
+                variants={variants}
+                onSelectVariant={onSelectVariant}
+                disabled={isGenerating}
+              />
+            </Grid>
+          )}
+
           {/* Download Section */}
           {currentTask && (
             <Grid size={{ xs: 12 }}>
@@ -232,6 +622,23 @@ export const Layout: React.FC<LayoutProps> = ({
                 onDownload={onDownload}
                 onDownloadForEngine={onDownloadForEngine}
                 onDownloadAll={onDownloadAll}
+                retextures={retextures}
+                onRetexture={onRetexture}
+                disabled={isGenerating}
+                modelScale={modelScale}
+              />
+            </Grid>
+          )}
+
+          {/* Batch Import */}
+          {onStartBatch && (
+            <Grid size={{ xs: 12 }}>
+              <BatchImport
+                items={batchItems}
+                summary={batchSummary}
+                onStartBatch={onStartBatch}
+                onCancelBatch={onCancelBatch}
+                disabled={isGenerating}
               />
             </Grid>
           )}
@@ -241,12 +648,19 @@ export const Layout: React.FC<LayoutProps> = ({
       {/* Error Snackbar */}
       <Snackbar
         open={!!error}
-        autoHideDuration={6000}
+        autoHideDuration={onErrorAction ? null : 6000}
         onClose={onDismissError}
         anchorOrigin={{ vertical: 'bottom', horizontal: 'center' }}
       >
         <Alert onClose={onDismissError} severity="error" sx={{ width: '100%' }}>
           {error}
+          {onErrorAction && errorActionLabel && (
+            <Box sx={{ mt: 1 }}>
+              <Button size="small" variant="outlined" color="inherit" onClick={onErrorAction}>
+                {errorActionLabel}
+              </Button>
+            </Box>
+          )}
         </Alert>
       </Snackbar>
 
@@ -10,7 +10,7 @@ import { ThemeProvider } from '@mui/material/styles';
 import { ModelViewer } from './ModelViewer';
 import { theme } from '../theme';
 import { vi } from 'vitest';
-import type { MeshyTask } from '../types';
+import type { MeshyTask, ProjectRecord } from '../types';
 
 const mockTask: MeshyTask = {
   id: 'task-123',
@@ -219,6 +219,77 @@ describe('ModelViewer', () => {
     });
   });
 
+  describe('Remeshing', () => {
+    const version = (overrides: Partial<ProjectRecord>): ProjectRecord => ({
+      id: 'rec-original',
+      user_email: 'test@example.com',
+      prompt: 'Steel I-beam',
+      status: 'completed',
+      device_type: 'desktop',
+      art_style: 'realistic',
+      created_at: '2024-01-01T00:00:00Z',
+      download_count: 0,
+      polygon_count: 8000,
+      ...overrides,
+    });
+
+    it('suggests half the current faces for a lighter version', () => {
+      const onRemesh = vi.fn();
+      renderWithTheme(<ModelViewer {...mockProps} onRemesh={onRemesh} />);
+
+      fireEvent.click(screen.getByText('Create lighter version'));
+
+      expect(screen.getByLabelText('Target polygons')).toHaveValue(4000);
+
+      fireEvent.click(screen.getByText('Quads'));
+      fireEvent.click(screen.getByText('Create version'));
+
+      expect(onRemesh).toHaveBeenCalledWith({ targetPolyCount: 4000, topology: 'quad' });
+    });
+
+    it('does not create a version outside the supported polygon range', () => {
+      const onRemesh = vi.fn();
+      renderWithTheme(<ModelViewer {...mockProps} onRemesh={onRemesh} />);
+
+      fireEvent.click(screen.getByText('Create heavier version'));
+      fireEvent.change(screen.getByLabelText('Target polygons'), { target: { value: '50' } });
+
+      expect(screen.getByText('Create version').closest('button')).toBeDisabled();
+    });
+
+    it('lists mesh versions and shows another one on request', () => {
+      const onShowVariant = vi.fn();
+      renderWithTheme(
+        <ModelViewer
+          {...mockProps}
+          onRemesh={vi.fn()}
+          onShowVariant={onShowVariant}
+          modelVariants={[
+            version({ task_id: 'task-123' }),
+            version({
+              id: 'rec-lighter',
+              variant_of: 'rec-original',
+              input_mode: 'remesh',
+              polygon_count: 4000,
+              generation_request: { sourceTaskId: 'task-123', targetPolyCount: 4000, topology: 'quad' },
+              task_id: 'remesh-1',
+            }),
+            version({ id: 'rec-heavier', variant_of: 'rec-original', status: 'generating' }),
+          ]}
+        />
+      );
+
+      expect(screen.getByText('Mesh Versions (3)')).toBeInTheDocument();
+      expect(screen.getByText('Shown above')).toBeInTheDocument();
+      expect(screen.getByText('Remeshing...', { selector: '.MuiChip-label' })).toBeInTheDocument();
+
+      fireEvent.click(screen.getByText('View'));
+
+      expect(screen.getByText('4,000 polygons, quads')).toBeInTheDocument();
+      expect(onShowVariant).toHaveBeenCalledWith('rec-lighter');
+    });
+  });
+
   describe('Viewer Container', () => {
     it('sets correct container ID for GoogleModelViewer integration', () => {
       renderWithTheme(<ModelViewer {...mockProps} />);
@@ -18,6 +18,12 @@ import {
   Tooltip,
   CircularProgress,
   Grid,
+  List,
+  ListItem,
+  ListItemText,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
 } from '@mui/material';
 import {
   CameraAlt as CameraIcon,
@@ -25,13 +31,44 @@ import {
   RotateRight as RotateIcon,
   ViewInAr as ViewInArIcon,
 } from '@mui/icons-material';
-import type { MeshyTask } from '../types';
+import { REMESH_POLY_LIMITS } from '../meshy-api';
+import { formatSize, sizeOf } from '../sizing/real-world-size';
+import type { MeshyTask, ProjectRecord, RemeshRequest, TargetSize } from '../types';
+
+type RemeshOptions = Pick<RemeshRequest, 'targetPolyCount' | 'topology'>;
 
 interface ModelViewerProps {
   task: MeshyTask | null;
   modelInfo: any;
   onViewerAction: (action: string, ...args: any[]) => void;
   isLoading: boolean;
+  polygonCount?: number; // Requested count of the shown model, when the viewer can't count faces
+  targetSize?: TargetSize;
+  modelVariants?: ProjectRecord[];
+  onRemesh?: (options: RemeshOptions) => void;
+  onShowVariant?: (projectId: string) => void;
+  disabled?: boolean;
+}
+
+// Starting point for lighter/heavier suggestions when the model's count is unknown
+const DEFAULT_POLY_COUNT = 10000;
+
+const VARIANT_STATUS_LABELS: Record<ProjectRecord['status'], string> = {
+  generating: 'Remeshing...',
+  completed: 'Ready',
+  failed: 'Failed',
+};
+
+function variantLabel(variant: ProjectRecord): string {
+  const polygons = variant.polygon_count
+    ? `${variant.polygon_count.toLocaleString()} polygons`
+    : 'Polygon count unknown';
+  if (!variant.variant_of) {
+    return `Original: ${polygons}`;
+  }
+
+  const { topology } = (variant.generation_request || {}) as Partial<RemeshRequest>;
+  return topology ? `${polygons}, ${topology === 'quad' ? 'quads' : 'triangles'}` : polygons;
 }
 
 export const ModelViewer: React.FC<ModelViewerProps> = ({
@@ -39,11 +76,22 @@ export const ModelViewer: React.FC<ModelViewerProps> = ({
   modelInfo,
   onViewerAction,
   isLoading,
+  polygonCount,
+  targetSize,
+  modelVariants = [],
+  onRemesh,
+  onShowVariant,
+  disabled = false,
 }) => {
   const viewerContainerRef = useRef<HTMLDivElement>(null);
   const [exposure, setExposure] = useState(1.0);
   const [shadowIntensity, setShadowIntensity] = useState(0.3);
   const [viewMode, setViewMode] = useState<'perspective' | 'top' | 'front' | 'side'>('perspective');
+  // The lighter/heavier version being set up, if any
+  const [remeshDraft, setRemeshDraft] = useState<{
+    targetPolyCount: string;
+    topology: RemeshOptions['topology'];
+  } | null>(null);
 
   useEffect(() => {
     // The viewer container will be managed by the existing GoogleModelViewer
@@ -80,6 +128,28 @@ export const ModelViewer: React.FC<ModelViewerProps> = ({
     onViewerAction('toggleAutoRotate');
   };
 
+  const currentPolyCount = modelInfo?.faces || polygonCount || DEFAULT_POLY_COUNT;
+
+  const handleStartRemesh = (direction: 'lighter' | 'heavier') => {
+    const suggested =
+      direction === 'lighter'
+        ? Math.max(REMESH_POLY_LIMITS.min, Math.round(currentPolyCount / 2))
+        : Math.min(REMESH_POLY_LIMITS.max, currentPolyCount * 2);
+    setRemeshDraft({ targetPolyCount: String(suggested), topology: 'triangle' });
+  };
+
+  const draftPolyCount = Number(remeshDraft?.targetPolyCount);
+  const draftValid =
+    Number.isInteger(draftPolyCount) &&
+    draftPolyCount >= REMESH_POLY_LIMITS.min &&
+    draftPolyCount <= REMESH_POLY_LIMITS.max;
+
+  const handleCreateVersion = () => {
+    if (!remeshDraft || !draftValid || !onRemesh) return;
+    onRemesh({ targetPolyCount: draftPolyCount, topology: remeshDraft.topology });
+    setRemeshDraft(null);
+  };
+
   if (!task || !task.model_urls?.glb) {
     return (
       <Box
@@ -253,6 +323,130 @@ export const ModelViewer: React.FC<ModelViewerProps> = ({
               variant="outlined"
             />
           )}
+          {targetSize && (
+            <Chip
+              label={`Target: ${formatSize(targetSize)}`}
+              size="small"
+              variant="outlined"
+            />
+          )}
+          {targetSize && modelInfo.dimensions && (
+            <Chip
+              label={`Actual: ${formatSize(sizeOf(modelInfo.dimensions, targetSize.unit))}`}
+              size="small"
+              variant="outlined"
+            />
+          )}
+        </Box>
+      )}
+
+      {/* Lighter/heavier versions of the same model */}
+      {onRemesh && task.status === 'SUCCEEDED' && (
+        <Box sx={{ mt: 2 }}>
+          <Box sx={{ display: 'flex', gap: 1 }}>
+            <Button
+              size="small"
+              variant="outlined"
+              onClick={() => handleStartRemesh('lighter')}
+              disabled={disabled}
+            >
+              Create lighter version
+            </Button>
+            <Button
+              size="small"
+              variant="outlined"
+              onClick={() => handleStartRemesh('heavier')}
+              disabled={disabled}
+            >
+              Create heavier version
+            </Button>
+          </Box>
+
+          {remeshDraft && (
+            <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, alignItems: 'center', mt: 1 }}>
+              <TextField
+                size="small"
+                type="number"
+                label="Target polygons"
+                value={remeshDraft.targetPolyCount}
+                onChange={(e) => setRemeshDraft({ ...remeshDraft, targetPolyCount: e.target.value })}
+                error={!draftValid}
+                helperText={
+                  draftValid
+                    ? `Currently about ${currentPolyCount.toLocaleString()}`
+                    : `${REMESH_POLY_LIMITS.min.toLocaleString()} to ${REMESH_POLY_LIMITS.max.toLocaleString()}`
+                }
+                sx={{ width: 180 }}
+              />
+              <ToggleButtonGroup
+                size="small"
+                exclusive
+                value={remeshDraft.topology}
+                onChange={(_, topology) => topology && setRemeshDraft({ ...remeshDraft, topology })}
+              >
+                <ToggleButton value="triangle">Triangles</ToggleButton>
+                <ToggleButton value="quad">Quads</ToggleButton>
+              </ToggleButtonGroup>
+              <Button size="small" onClick={() => setRemeshDraft(null)}>
+                Cancel
+              </Button>
+              <Button
+                size="small"
+                variant="contained"
+                onClick={handleCreateVersion}
+                disabled={disabled || !draftValid}
+              >
+                Create version
+              </Button>
+            </Box>
+          )}
+        </Box>
+      )}
+
+      {modelVariants.length > 0 && (
+        <Box sx={{ mt: 2 }}>
+          <Typography variant="subtitle2" gutterBottom>
+            Mesh Versions ({modelVariants.length})
+          </Typography>
+          <List dense disablePadding>
+            {modelVariants.map((variant) => {
+              const isShown = !!variant.task_id && variant.task_id === task.id;
+
+              return (
+                <ListItem
+                  key={variant.id}
+                  sx={{
+                    gap: 1,
+                    borderRadius: 1,
+                    bgcolor: isShown ? 'action.selected' : undefined,
+                  }}
+                >
+                  <ListItemText
+                    primary={variantLabel(variant)}
+                    secondary={isShown ? 'Shown above' : VARIANT_STATUS_LABELS[variant.status]}
+                  />
+                  {variant.status === 'completed' ? (
+                    !isShown && onShowVariant && (
+                      <Button
+                        size="small"
+                        onClick={() => variant.id && onShowVariant(variant.id)}
+                        disabled={disabled}
+                      >
+                        View
+                      </Button>
+                    )
+                  ) : (
+                    <Chip
+                      size="small"
+                      label={VARIANT_STATUS_LABELS[variant.status]}
+                      color={variant.status === 'failed' ? 'error' : 'default'}
+                      variant="outlined"
+                    />
+                  )}
+                </ListItem>
+              );
+            })}
+          </List>
         </Box>
       )}
     </Box>
@@ -0,0 +1,57 @@
+/**
+ * Text-to-3D Construction Platform - Prompt Suggestions Component
+ * Copyright © 2024 Kris. All rights reserved.
+ * PROPRIETARY SOFTWARE - NOT OPEN SOURCE
+ */
+
+import React, { useMemo } from 'react';
+import { Alert, Box, Button, Typography } from '@mui/material';
+import { analyzePrompt } from '../prompt-analyzer';
+
+interface PromptSuggestionsProps {
+  prompt: string;
+  onApply: (rewrite: string) => void;
+  disabled?: boolean;
+}
+
+export const PromptSuggestions: React.FC<PromptSuggestionsProps> = ({
+  prompt,
+  onApply,
+  disabled = false,
+}) => {
+  const suggestions = useMemo(() => analyzePrompt(prompt), [prompt]);
+
+  if (suggestions.length === 0) return null;
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1, mb: 2 }}>
+      {suggestions.map((suggestion, index) => (
+        <Alert
+          key={`${suggestion.kind}-${index}`}
+          severity={suggestion.severity}
+          variant="outlined"
+          sx={{ py: 0 }}
+          action={
+            suggestion.rewrite && (
+              <Button
+                color="inherit"
+                size="small"
+                onClick={() => onApply(suggestion.rewrite!)}
+                disabled={disabled}
+              >
+                Use this
+              </Button>
+            )
+          }
+        >
+          <Typography variant="body2">{suggestion.message}</Typography>
+          {suggestion.rewrite && (
+            <Typography variant="caption" color="text.secondary">
+              "{suggestion.rewrite}"
+            </Typography>
+          )}
+        </Alert>
+      ))}
+    </Box>
+  );
+};
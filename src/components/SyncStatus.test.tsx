@@ -0,0 +1,61 @@
+/**
+ * SyncStatus Component Tests
+ * Copyright © 2024 Kris. All rights reserved.
+ * PROPRIETARY SOFTWARE - NOT OPEN SOURCE
+ */
+
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { ThemeProvider } from '@mui/material/styles';
+import { vi } from 'vitest';
+import { SyncStatus } from './SyncStatus';
+import { theme } from '../theme';
+import type { DeadLetter } from '../types';
+
+const deadLetter: DeadLetter = {
+  id: 'write_1',
+  table: 'Projects',
+  type: 'update',
+  recordId: 'rec123',
+  fields: { status: 'completed' },
+  createdAt: Date.parse('2024-01-01T00:00:00Z'),
+  attempts: 3,
+  lastError: 'Airtable unavailable',
+  failedAt: Date.parse('2024-01-01T00:05:00Z'),
+};
+
+const renderWithTheme = (component: React.ReactElement) =>
+  render(<ThemeProvider theme={theme}>{component}</ThemeProvider>);
+
+describe('SyncStatus', () => {
+  it('should render nothing when every write has synced', () => {
+    const { container } = renderWithTheme(
+      <SyncStatus pendingCount={0} failedWrites={[]} onRetry={vi.fn()} onDiscard={vi.fn()} />,
+    );
+
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it('should show how many writes are waiting', () => {
+    renderWithTheme(<SyncStatus pendingCount={2} failedWrites={[]} onRetry={vi.fn()} onDiscard={vi.fn()} />);
+
+    expect(screen.getByText('2 waiting to sync')).toBeInTheDocument();
+  });
+
+  it('should list failed writes to retry or discard', () => {
+    const onRetry = vi.fn();
+    const onDiscard = vi.fn();
+    renderWithTheme(<SyncStatus pendingCount={0} failedWrites={[deadLetter]} onRetry={onRetry} onDiscard={onDiscard} />);
+
+    fireEvent.click(screen.getByText('1 failed to sync'));
+
+    expect(screen.getByText('Update in Projects rec123')).toBeInTheDocument();
+    expect(screen.getByText(/Airtable unavailable/)).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Retry' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Discard' }));
+
+    expect(onRetry).toHaveBeenCalledWith('write_1');
+    expect(onDiscard).toHaveBeenCalledWith('write_1');
+  });
+});
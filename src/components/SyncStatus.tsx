@@ -0,0 +1,116 @@
+/**
+ * Sync Status Component
+ * Copyright © 2024 Kris. All rights reserved.
+ * PROPRIETARY SOFTWARE - NOT OPEN SOURCE
+ */
+
+import React, { useState } from 'react';
+import {
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  List,
+  ListItem,
+  ListItemText,
+  Stack,
+  Typography,
+} from '@mui/material';
+import {
+  CloudSync as CloudSyncIcon,
+  ErrorOutline as ErrorOutlineIcon,
+} from '@mui/icons-material';
+import type { DeadLetter } from '../types';
+
+interface SyncStatusProps {
+  pendingCount: number;
+  failedWrites: DeadLetter[];
+  onRetry: (id: string) => void;
+  onDiscard: (id: string) => void;
+}
+
+const WRITE_LABELS: Record<DeadLetter['type'], string> = {
+  create: 'New record',
+  update: 'Update',
+  delete: 'Delete',
+};
+
+function describeWrite(write: DeadLetter): string {
+  const record = write.recordId ? ` ${write.recordId}` : '';
+  return `${WRITE_LABELS[write.type]} in ${write.table}${record}`;
+}
+
+export const SyncStatus: React.FC<SyncStatusProps> = ({
+  pendingCount,
+  failedWrites,
+  onRetry,
+  onDiscard,
+}) => {
+  const [showFailed, setShowFailed] = useState(false);
+
+  if (pendingCount === 0 && failedWrites.length === 0) {
+    return null;
+  }
+
+  return (
+    <>
+      <Stack direction="row" spacing={1}>
+        {pendingCount > 0 && (
+          <Chip
+            icon={<CloudSyncIcon />}
+            label={`${pendingCount} waiting to sync`}
+            size="small"
+            variant="outlined"
+          />
+        )}
+        {failedWrites.length > 0 && (
+          <Chip
+            icon={<ErrorOutlineIcon />}
+            label={`${failedWrites.length} failed to sync`}
+            size="small"
+            color="warning"
+            onClick={() => setShowFailed(true)}
+          />
+        )}
+      </Stack>
+
+      <Dialog open={showFailed && failedWrites.length > 0} onClose={() => setShowFailed(false)} fullWidth>
+        <DialogTitle>Changes that failed to sync</DialogTitle>
+        <DialogContent>
+          <Typography variant="body2" color="text.secondary">
+            These changes could not be saved to Airtable. Retry them, or discard them to drop the change.
+          </Typography>
+          <List>
+            {failedWrites.map((write) => (
+              <ListItem
+                key={write.id}
+                divider
+                secondaryAction={
+                  <Stack direction="row" spacing={1}>
+                    <Button size="small" onClick={() => onRetry(write.id)}>
+                      Retry
+                    </Button>
+                    <Button size="small" color="error" onClick={() => onDiscard(write.id)}>
+                      Discard
+                    </Button>
+                  </Stack>
+                }
+              >
+                <ListItemText
+                  primary={describeWrite(write)}
+                  secondary={`${new Date(write.failedAt).toLocaleString()} · ${write.lastError || 'Unknown error'}`}
+                  sx={{ pr: 18 }}
+                />
+              </ListItem>
+            ))}
+          </List>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setShowFailed(false)}>Close</Button>
+        </DialogActions>
+      </Dialog>
+    </>
+  );
+};
@@ -0,0 +1,82 @@
+/**
+ * Text-to-3D Construction Platform - Target Size Inputs Component
+ * Copyright © 2024 Kris. All rights reserved.
+ * PROPRIETARY SOFTWARE - NOT OPEN SOURCE
+ */
+
+import React, { useMemo } from 'react';
+import { Box, MenuItem, TextField, Typography } from '@mui/material';
+import { hasTargetSize, parseTargetSize } from '../sizing/real-world-size';
+import type { LengthUnit, TargetSize } from '../sizing/real-world-size';
+
+interface TargetSizeInputsProps {
+  prompt: string;
+  value?: TargetSize;
+  onChange: (size: TargetSize) => void;
+  disabled?: boolean;
+}
+
+type SizeAxis = 'length' | 'width' | 'height';
+
+const AXES: { axis: SizeAxis; label: string }[] = [
+  { axis: 'length', label: 'Length' },
+  { axis: 'width', label: 'Width' },
+  { axis: 'height', label: 'Height' },
+];
+
+const UNITS: LengthUnit[] = ['mm', 'cm', 'm', 'in', 'ft'];
+
+export const TargetSizeInputs: React.FC<TargetSizeInputsProps> = ({
+  prompt,
+  value,
+  onChange,
+  disabled = false,
+}) => {
+  // Shown as placeholders so typed values only need to override what the prompt says
+  const parsed = useMemo(() => parseTargetSize(prompt), [prompt]);
+  const unit = value?.unit || parsed?.unit || 'm';
+
+  const handleAxisChange = (axis: SizeAxis, text: string) => {
+    const number = Number(text);
+    onChange({ ...value, unit, [axis]: text && number > 0 ? number : undefined });
+  };
+
+  return (
+    <Box sx={{ mb: 2 }}>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+        Real-world size {parsed && !hasTargetSize(value) ? '(read from the description)' : '(optional)'}
+      </Typography>
+      <Box sx={{ display: 'flex', gap: 1 }}>
+        {AXES.map(({ axis, label }) => (
+          <TextField
+            key={axis}
+            size="small"
+            type="number"
+            label={label}
+            value={value?.[axis] ?? ''}
+            placeholder={parsed?.[axis] !== undefined ? String(parsed[axis]) : undefined}
+            onChange={(e) => handleAxisChange(axis, e.target.value)}
+            disabled={disabled}
+            InputLabelProps={{ shrink: true }}
+            inputProps={{ min: 0, step: 'any' }}
+          />
+        ))}
+        <TextField
+          select
+          size="small"
+          label="Unit"
+          value={unit}
+          onChange={(e) => onChange({ ...value, unit: e.target.value as LengthUnit })}
+          disabled={disabled}
+          sx={{ minWidth: 80 }}
+        >
+          {UNITS.map((option) => (
+            <MenuItem key={option} value={option}>
+              {option}
+            </MenuItem>
+          ))}
+        </TextField>
+      </Box>
+    </Box>
+  );
+};
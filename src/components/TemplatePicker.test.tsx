@@ -0,0 +1,90 @@
+/**
+ * TemplatePicker Component Tests
+ * Copyright © 2024 Kris. All rights reserved.
+ * PROPRIETARY SOFTWARE - NOT OPEN SOURCE
+ */
+
+import React from 'react';
+import { render, screen, fireEvent, waitFor, within } from '@testing-library/react';
+import { ThemeProvider } from '@mui/material/styles';
+import { vi } from 'vitest';
+import { TemplatePicker } from './TemplatePicker';
+import { BUILT_IN_TEMPLATES } from '../templates/built-in-templates';
+import { theme } from '../theme';
+
+const renderWithTheme = (component: React.ReactElement) => {
+  return render(
+    <ThemeProvider theme={theme}>
+      {component}
+    </ThemeProvider>
+  );
+};
+
+const chooseTemplate = (name: string) => {
+  fireEvent.mouseDown(screen.getByRole('combobox', { name: 'Start from a template' }));
+  fireEvent.click(within(screen.getByRole('listbox')).getByText(name));
+};
+
+describe('TemplatePicker', () => {
+  it('lists templates under their categories', () => {
+    renderWithTheme(<TemplatePicker templates={BUILT_IN_TEMPLATES} onApply={vi.fn()} />);
+
+    fireEvent.mouseDown(screen.getByRole('combobox', { name: 'Start from a template' }));
+
+    const listbox = within(screen.getByRole('listbox'));
+    expect(listbox.getByText('Stairs')).toBeInTheDocument();
+    expect(listbox.getByText('Precast concrete stair')).toBeInTheDocument();
+  });
+
+  it('fills in slots and applies the compiled prompt with its settings', () => {
+    const onApply = vi.fn();
+    renderWithTheme(<TemplatePicker templates={BUILT_IN_TEMPLATES} onApply={onApply} />);
+
+    chooseTemplate('Precast concrete stair');
+    fireEvent.change(screen.getByLabelText('Steps'), { target: { value: '12' } });
+
+    expect(screen.getByText(/stair flight with 12 steps, 3.5m x 1.2m x 2.7m/)).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Use template' }));
+
+    expect(onApply).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'precast-stair' }),
+      {
+        prompt: 'precast concrete stair flight with 12 steps, 3.5m x 1.2m x 2.7m, smooth precast finish, modern',
+        settings: { artStyle: 'realistic', topology: 'quad', targetPolyCount: 10000 },
+      },
+    );
+  });
+
+  it('shows slot errors and blocks applying an invalid template', () => {
+    renderWithTheme(<TemplatePicker templates={BUILT_IN_TEMPLATES} onApply={vi.fn()} />);
+
+    chooseTemplate('Precast concrete stair');
+    fireEvent.change(screen.getByLabelText('Steps'), { target: { value: '40' } });
+
+    expect(screen.getByText('Steps must be a whole number from 3 to 20')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Use template' })).toBeDisabled();
+  });
+
+  it('saves a team template and closes the form', async () => {
+    const onSaveTemplate = vi.fn().mockResolvedValue(true);
+    renderWithTheme(
+      <TemplatePicker templates={BUILT_IN_TEMPLATES} onApply={vi.fn()} onSaveTemplate={onSaveTemplate} />
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: 'Team template' }));
+    fireEvent.change(screen.getByLabelText('Template name'), { target: { value: 'Hoarding panel' } });
+    fireEvent.change(screen.getByLabelText('Template text'), {
+      target: { value: '{material} hoarding panel, {dimensions}' },
+    });
+    fireEvent.click(screen.getByRole('button', { name: 'Save for my organisation' }));
+
+    await waitFor(() => {
+      expect(screen.queryByLabelText('Template name')).not.toBeInTheDocument();
+    });
+    expect(onSaveTemplate).toHaveBeenCalledWith({
+      name: 'Hoarding panel',
+      text: '{material} hoarding panel, {dimensions}',
+    });
+  });
+});
@@ -0,0 +1,281 @@
+/**
+ * Text-to-3D Construction Platform - Template Picker Component
+ * Copyright © 2024 Kris. All rights reserved.
+ * PROPRIETARY SOFTWARE - NOT OPEN SOURCE
+ */
+
+import React, { useMemo, useState } from 'react';
+import {
+  Box,
+  Button,
+  ListSubheader,
+  MenuItem,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { Add as AddIcon } from '@mui/icons-material';
+import {
+  compileTemplate,
+  CompiledTemplate,
+  Dimensions,
+  DimensionUnit,
+  SlotValues,
+  STANDARD_SLOTS,
+  TemplateSlot,
+} from '../templates/prompt-templates';
+import type { PromptTemplate, TemplateDraft } from '../types';
+
+interface TemplatePickerProps {
+  templates: PromptTemplate[];
+  onApply: (template: PromptTemplate, compiled: CompiledTemplate) => void;
+  onSaveTemplate?: (draft: TemplateDraft) => Promise<boolean>; // Resolves true once saved
+  disabled?: boolean;
+}
+
+const UNITS: DimensionUnit[] = ['m', 'mm', 'ft'];
+const DIMENSION_LABELS = { length: 'Length', width: 'Width', height: 'Height' } as const;
+
+export const TemplatePicker: React.FC<TemplatePickerProps> = ({
+  templates,
+  onApply,
+  onSaveTemplate,
+  disabled = false,
+}) => {
+  const [selectedId, setSelectedId] = useState('');
+  const [values, setValues] = useState<SlotValues>({});
+  const [draft, setDraft] = useState<TemplateDraft | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const selected = templates.find((template) => template.id === selectedId);
+
+  // Grouped under their categories, in the order the templates arrive
+  const categories = useMemo(
+    () => Array.from(new Set(templates.map((template) => template.category))),
+    [templates],
+  );
+
+  const compiled = useMemo((): { result?: CompiledTemplate; error?: string } => {
+    if (!selected) return {};
+    try {
+      return { result: compileTemplate(selected, values) };
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : 'Template could not be filled in' };
+    }
+  }, [selected, values]);
+
+  const handleSelect = (id: string) => {
+    setSelectedId(id);
+    setValues({});
+  };
+
+  const handleSave = async () => {
+    if (!draft || !onSaveTemplate) return;
+    setSaving(true);
+    try {
+      if (await onSaveTemplate(draft)) {
+        setDraft(null);
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderSlot = (name: keyof SlotValues, slot: TemplateSlot) => {
+    switch (slot.type) {
+      case 'material':
+      case 'style':
+        return (
+          <TextField
+            key={name}
+            select
+            size="small"
+            label={slot.label}
+            value={(values[name] as string | undefined) ?? slot.default}
+            onChange={(e) => setValues({ ...values, [name]: e.target.value })}
+            disabled={disabled}
+            sx={{ minWidth: 160 }}
+          >
+            {slot.options.map((option) => (
+              <MenuItem key={option} value={option}>
+                {option}
+              </MenuItem>
+            ))}
+          </TextField>
+        );
+      case 'dimensions': {
+        const dimensions: Dimensions = values.dimensions || slot.default;
+        const setDimension = (key: keyof Dimensions, value: string) =>
+          setValues({
+            ...values,
+            dimensions: {
+              ...dimensions,
+              [key]: key === 'unit' ? value : value === '' ? undefined : Number(value),
+            },
+          });
+
+        return (
+          <Box key={name} sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
+            {(Object.keys(DIMENSION_LABELS) as (keyof typeof DIMENSION_LABELS)[]).map((key) => (
+              <TextField
+                key={key}
+                size="small"
+                type="number"
+                label={DIMENSION_LABELS[key]}
+                value={dimensions[key] ?? ''}
+                onChange={(e) => setDimension(key, e.target.value)}
+                disabled={disabled}
+                sx={{ width: 100 }}
+              />
+            ))}
+            <TextField
+              select
+              size="small"
+              label="Unit"
+              value={dimensions.unit}
+              onChange={(e) => setDimension('unit', e.target.value)}
+              disabled={disabled}
+              sx={{ width: 80 }}
+            >
+              {UNITS.map((unit) => (
+                <MenuItem key={unit} value={unit}>
+                  {unit}
+                </MenuItem>
+              ))}
+            </TextField>
+          </Box>
+        );
+      }
+      case 'count':
+        return (
+          <TextField
+            key={name}
+            size="small"
+            type="number"
+            label={slot.label}
+            value={values.count ?? slot.default}
+            onChange={(e) => setValues({ ...values, count: Number(e.target.value) })}
+            inputProps={{ min: slot.min, max: slot.max }}
+            disabled={disabled}
+            sx={{ width: 100 }}
+          />
+        );
+    }
+  };
+
+  return (
+    <Box sx={{ mb: 2 }}>
+      <Box sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+        <TextField
+          select
+          fullWidth
+          size="small"
+          label="Start from a template"
+          value={selectedId}
+          onChange={(e) => handleSelect(e.target.value)}
+          disabled={disabled}
+        >
+          <MenuItem value="">
+            <em>No template</em>
+          </MenuItem>
+          {categories.flatMap((category) => [
+            <ListSubheader key={`category-${category}`}>{category}</ListSubheader>,
+            ...templates
+              .filter((template) => template.category === category)
+              .map((template) => (
+                <MenuItem key={template.id} value={template.id}>
+                  {template.name}
+                </MenuItem>
+              )),
+          ])}
+        </TextField>
+        {onSaveTemplate && (
+          <Button
+            size="small"
+            startIcon={<AddIcon />}
+            onClick={() => setDraft(draft ? null : { name: '', text: '' })}
+            disabled={disabled}
+            sx={{ whiteSpace: 'nowrap' }}
+          >
+            Team template
+          </Button>
+        )}
+      </Box>
+
+      {selected && (
+        <Box sx={{ mt: 1.5 }}>
+          {selected.description && (
+            <Typography variant="caption" color="text.secondary" component="p" sx={{ mb: 1 }}>
+              {selected.description}
+            </Typography>
+          )}
+          <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', mb: 1 }}>
+            {(Object.entries(selected.slots) as [keyof SlotValues, TemplateSlot][]).map(
+              ([name, slot]) => renderSlot(name, slot),
+            )}
+          </Box>
+          <Typography
+            variant="caption"
+            color={compiled.error ? 'error' : 'text.secondary'}
+            component="p"
+            sx={{ mb: 1 }}
+          >
+            {compiled.error || compiled.result?.prompt}
+          </Typography>
+          <Button
+            size="small"
+            variant="outlined"
+            onClick={() => compiled.result && onApply(selected, compiled.result)}
+            disabled={disabled || !compiled.result}
+          >
+            Use template
+          </Button>
+        </Box>
+      )}
+
+      {draft && (
+        <Box sx={{ mt: 1.5, display: 'flex', flexDirection: 'column', gap: 1 }}>
+          <Box sx={{ display: 'flex', gap: 1 }}>
+            <TextField
+              size="small"
+              label="Template name"
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              disabled={saving}
+              fullWidth
+            />
+            <TextField
+              size="small"
+              label="Category"
+              value={draft.category || ''}
+              onChange={(e) => setDraft({ ...draft, category: e.target.value })}
+              placeholder="Team templates"
+              disabled={saving}
+              fullWidth
+            />
+          </Box>
+          <TextField
+            size="small"
+            label="Template text"
+            value={draft.text}
+            onChange={(e) => setDraft({ ...draft, text: e.target.value })}
+            placeholder="e.g. {material} hoarding panel, {dimensions}, {style}"
+            helperText={`Slots: ${Object.keys(STANDARD_SLOTS).map((slot) => `{${slot}}`).join(' ')}`}
+            disabled={saving}
+            multiline
+            fullWidth
+          />
+          <Box>
+            <Button
+              size="small"
+              variant="contained"
+              onClick={handleSave}
+              disabled={saving || !draft.name.trim() || !draft.text.trim()}
+            >
+              Save for my organisation
+            </Button>
+          </Box>
+        </Box>
+      )}
+    </Box>
+  );
+};
@@ -0,0 +1,120 @@
+/**
+ * VariantGrid Component Tests
+ * Copyright © 2024 Kris. All rights reserved.
+ * PROPRIETARY SOFTWARE - NOT OPEN SOURCE
+ */
+
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { ThemeProvider } from '@mui/material/styles';
+import { vi } from 'vitest';
+import { VariantGrid } from './VariantGrid';
+import { theme } from '../theme';
+import type { GenerationVariant } from '../types';
+
+const { MockViewer, linkCameras } = vi.hoisted(() => {
+  const MockViewer = vi.fn().mockImplementation(() => ({
+    loadModel: vi.fn().mockResolvedValue({}),
+    dispose: vi.fn(),
+  }));
+  return { MockViewer, linkCameras: vi.fn().mockReturnValue(vi.fn()) };
+});
+
+vi.mock('../viewer/google-model-viewer', () => ({
+  GoogleModelViewer: Object.assign(MockViewer, { linkCameras }),
+}));
+
+const readyVariant = (id: string, seed: number): GenerationVariant => ({
+  id,
+  seed,
+  status: 'ready',
+  stage: 'Preview ready',
+  progress: 100,
+  previewTask: {
+    id: `preview-${id}`,
+    status: 'SUCCEEDED',
+    progress: 100,
+    model_urls: { glb: `https://cdn.meshy.ai/test/${id}.glb` },
+    thumbnail_url: `https://cdn.meshy.ai/test/${id}.png`,
+    created_at: '2024-01-01T00:00:00Z',
+  },
+});
+
+const variants: GenerationVariant[] = [
+  readyVariant('variant-1', 101),
+  readyVariant('variant-2', 202),
+  {
+    id: 'variant-3',
+    seed: 303,
+    status: 'generating',
+    stage: 'Processing geometry...',
+    progress: 40,
+    previewTask: null,
+  },
+  {
+    id: 'variant-4',
+    seed: 404,
+    status: 'failed',
+    stage: 'Failed',
+    progress: 0,
+    previewTask: null,
+    error: 'Meshy task failed',
+  },
+];
+
+const renderWithTheme = (component: React.ReactElement) => {
+  return render(
+    <ThemeProvider theme={theme}>
+      {component}
+    </ThemeProvider>
+  );
+};
+
+describe('VariantGrid', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('shows thumbnails for ready variants and status for the rest', () => {
+    renderWithTheme(<VariantGrid variants={variants} onSelectVariant={vi.fn()} />);
+
+    expect(screen.getByAltText('Variant 1')).toHaveAttribute('src', 'https://cdn.meshy.ai/test/variant-1.png');
+    expect(screen.getByAltText('Variant 2')).toBeInTheDocument();
+    expect(screen.getByText('Processing geometry...')).toBeInTheDocument();
+    expect(screen.getByText('Meshy task failed')).toBeInTheDocument();
+  });
+
+  it('only lets ready variants be refined', () => {
+    const onSelectVariant = vi.fn();
+    renderWithTheme(<VariantGrid variants={variants} onSelectVariant={onSelectVariant} />);
+
+    const buttons = screen.getAllByRole('button', { name: 'Refine this one' });
+    expect(buttons[0]).toBeEnabled();
+    expect(buttons[2]).toBeDisabled();
+    expect(buttons[3]).toBeDisabled();
+
+    fireEvent.click(buttons[1]);
+    expect(onSelectVariant).toHaveBeenCalledWith('variant-2');
+  });
+
+  it('hides discarded variants', () => {
+    renderWithTheme(
+      <VariantGrid
+        variants={[...variants.slice(0, 1), { ...variants[1], status: 'discarded' }]}
+        onSelectVariant={vi.fn()}
+      />
+    );
+
+    expect(screen.getAllByRole('button', { name: 'Refine this one' })).toHaveLength(1);
+  });
+
+  it('links live viewers for ready variants in linked camera mode', () => {
+    renderWithTheme(<VariantGrid variants={variants} onSelectVariant={vi.fn()} />);
+
+    fireEvent.click(screen.getByRole('button', { name: /Linked camera/ }));
+
+    expect(screen.getByTestId('variant-viewer-variant-1')).toBeInTheDocument();
+    expect(MockViewer).toHaveBeenCalledTimes(2);
+    expect(linkCameras).toHaveBeenCalledWith(expect.arrayContaining([expect.anything()]));
+  });
+});
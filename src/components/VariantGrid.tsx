@@ -0,0 +1,201 @@
+/**
+ * Variant Comparison Grid Component
+ * Copyright © 2024 Kris. All rights reserved.
+ * PROPRIETARY SOFTWARE - NOT OPEN SOURCE
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  Box,
+  Button,
+  Card,
+  CardContent,
+  Chip,
+  Grid,
+  LinearProgress,
+  ToggleButton,
+  Typography,
+} from '@mui/material';
+import {
+  Link as LinkIcon,
+  ViewInAr as ViewInArIcon,
+} from '@mui/icons-material';
+import { GoogleModelViewer } from '../viewer/google-model-viewer';
+import { logger } from '../utils/logger';
+import type { GenerationVariant } from '../types';
+
+interface VariantGridProps {
+  variants: GenerationVariant[];
+  onSelectVariant: (variantId: string) => void;
+  disabled?: boolean;
+}
+
+export const VariantGrid: React.FC<VariantGridProps> = ({
+  variants,
+  onSelectVariant,
+  disabled = false,
+}) => {
+  const [linkedCamera, setLinkedCamera] = useState(false);
+  const containerRefs = useRef<Record<string, HTMLDivElement | null>>({});
+
+  const visibleVariants = variants.filter((variant) => variant.status !== 'discarded');
+  const readyVariants = visibleVariants.filter(
+    (variant) => variant.status === 'ready' && variant.previewTask?.model_urls?.glb,
+  );
+  const readyKey = readyVariants.map((variant) => variant.id).join(',');
+
+  // In linked mode every ready variant gets a live viewer and the cameras move together
+  useEffect(() => {
+    if (!linkedCamera || readyVariants.length === 0) return;
+
+    const viewers = readyVariants
+      .map((variant) => {
+        const container = containerRefs.current[variant.id];
+        if (!container) return null;
+
+        const viewer = new GoogleModelViewer({
+          container,
+          height: 220,
+          backgroundColor: '#2a2a2a',
+          cameraControls: true,
+        });
+        viewer.loadModel(variant.previewTask!.model_urls!.glb!).catch((error) => {
+          logger.warn('Failed to load variant preview', 'VariantGrid', error);
+        });
+        return viewer;
+      })
+      .filter((viewer): viewer is GoogleModelViewer => viewer !== null);
+
+    const unlink = GoogleModelViewer.linkCameras(viewers);
+
+    return () => {
+      unlink();
+      viewers.forEach((viewer) => viewer.dispose());
+    };
+  }, [linkedCamera, readyKey]); // readyKey captures the set of ready variants
+
+  const getStatusColor = (status: GenerationVariant['status']) => {
+    switch (status) {
+      case 'ready':
+      case 'selected':
+        return 'success';
+      case 'failed':
+        return 'error';
+      case 'refining':
+        return 'info';
+      default:
+        return 'default';
+    }
+  };
+
+  return (
+    <Card>
+      <CardContent>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+          <Typography variant="h6">
+            Compare Variants
+          </Typography>
+          <ToggleButton
+            value="linked"
+            size="small"
+            selected={linkedCamera}
+            onChange={() => setLinkedCamera(!linkedCamera)}
+            disabled={readyVariants.length === 0}
+          >
+            <LinkIcon sx={{ mr: 1 }} fontSize="small" />
+            Linked camera
+          </ToggleButton>
+        </Box>
+
+        <Grid container spacing={2}>
+          {visibleVariants.map((variant, index) => {
+            const thumbnail = variant.previewTask?.thumbnail_url;
+            const isReady = variant.status === 'ready';
+
+            return (
+              <Grid key={variant.id} size={{ xs: 12, sm: 6, md: 12 / Math.min(visibleVariants.length, 4) }}>
+                <Card variant="outlined">
+                  <CardContent>
+                    <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1 }}>
+                      <Typography variant="subtitle2">
+                        Variant {index + 1}
+                      </Typography>
+                      <Chip
+                        label={variant.status}
+                        size="small"
+                        color={getStatusColor(variant.status)}
+                      />
+                    </Box>
+
+                    {linkedCamera && isReady ? (
+                      <Box
+                        ref={(element: HTMLDivElement | null) => {
+                          containerRefs.current[variant.id] = element;
+                        }}
+                        data-testid={`variant-viewer-${variant.id}`}
+                        sx={{ height: 220, borderRadius: 1, overflow: 'hidden' }}
+                      />
+                    ) : isReady && thumbnail ? (
+                      <Box
+                        component="img"
+                        src={thumbnail}
+                        alt={`Variant ${index + 1}`}
+                        sx={{ width: '100%', height: 220, objectFit: 'cover', borderRadius: 1 }}
+                      />
+                    ) : (
+                      <Box
+                        sx={{
+                          display: 'flex',
+                          flexDirection: 'column',
+                          alignItems: 'center',
+                          justifyContent: 'center',
+                          height: 220,
+                          backgroundColor: 'background.default',
+                          borderRadius: 1,
+                          px: 2,
+                        }}
+                      >
+                        <ViewInArIcon sx={{ fontSize: 40, color: 'text.secondary', mb: 1 }} />
+                        {variant.status === 'failed' ? (
+                          <Typography variant="body2" color="error" align="center">
+                            {variant.error || 'Generation failed'}
+                          </Typography>
+                        ) : (
+                          <Box sx={{ width: '100%' }}>
+                            <LinearProgress
+                              variant="determinate"
+                              value={variant.progress}
+                              sx={{ mb: 1 }}
+                            />
+                            <Typography variant="caption" color="text.secondary">
+                              {variant.stage}
+                            </Typography>
+                          </Box>
+                        )}
+                      </Box>
+                    )}
+
+                    <Typography variant="caption" color="text.secondary" display="block" sx={{ mt: 1 }}>
+                      Seed {variant.seed}
+                    </Typography>
+
+                    <Button
+                      fullWidth
+                      variant="contained"
+                      size="small"
+                      sx={{ mt: 1 }}
+                      disabled={disabled || !isReady}
+                      onClick={() => onSelectVariant(variant.id)}
+                    >
+                      Refine this one
+                    </Button>
+                  </CardContent>
+                </Card>
+              </Grid>
+            );
+          })}
+        </Grid>
+      </CardContent>
+    </Card>
+  );
+};
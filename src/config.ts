@@ -33,6 +33,74 @@ export const API_CONFIG = {
   USE_PROXY: true, // Always use proxy to avoid CORS issues and secure all credentials
 };
 
+// Meshy task polling: starts fast, backs off towards the max interval with
+// jitter, and gives up after an elapsed-time budget that depends on quality.
+// When streaming is on, status comes from the proxy's event stream and
+// polling is only the fallback.
+export const POLLING_CONFIG = {
+  USE_STREAMING: import.meta.env.VITE_MESHY_STREAMING !== 'false',
+  INITIAL_INTERVAL_MS: 1000,
+  MAX_INTERVAL_MS: 10000,
+  BACKOFF_FACTOR: 1.5,
+  JITTER_RATIO: 0.2,
+  TIMEOUT_MS: {
+    low: Number(import.meta.env.VITE_MESHY_TIMEOUT_LOW_MS) || 5 * 60 * 1000,
+    medium: Number(import.meta.env.VITE_MESHY_TIMEOUT_MEDIUM_MS) || 10 * 60 * 1000,
+    high: Number(import.meta.env.VITE_MESHY_TIMEOUT_HIGH_MS) || 15 * 60 * 1000,
+  },
+};
+
+// Which backend generates models. 'offline' builds placeholder GLBs in the
+// browser with simulated stage timings - no network, no Meshy credits.
+export const GENERATION_CONFIG = {
+  PROVIDER: (import.meta.env.VITE_GENERATION_PROVIDER === 'offline' ? 'offline' : 'meshy') as
+    | 'meshy'
+    | 'offline',
+  OFFLINE_STAGE_MS: {
+    preview: Number(import.meta.env.VITE_OFFLINE_PREVIEW_MS) || 4000,
+    refine: Number(import.meta.env.VITE_OFFLINE_REFINE_MS) || 6000,
+    image: Number(import.meta.env.VITE_OFFLINE_IMAGE_MS) || 8000,
+    retexture: Number(import.meta.env.VITE_OFFLINE_RETEXTURE_MS) || 6000,
+    remesh: Number(import.meta.env.VITE_OFFLINE_REMESH_MS) || 4000,
+  },
+};
+
+// Where projects, downloads and batches are stored. 'local' keeps them in
+// this browser's IndexedDB, so offline mode has a history without Airtable;
+// 'memory' keeps them only until the page is closed.
+const STORAGE_BACKENDS = ['airtable', 'local', 'memory'] as const;
+const storageBackend =
+  import.meta.env.VITE_STORAGE_BACKEND || (GENERATION_CONFIG.PROVIDER === 'offline' ? 'local' : 'airtable');
+
+export const STORAGE_CONFIG = {
+  BACKEND: (STORAGE_BACKENDS.includes(storageBackend) ? storageBackend : 'airtable') as
+    | (typeof STORAGE_BACKENDS)[number],
+};
+
+// Batch imports run a few generations at a time and space out their starts.
+// The Airtable proxy allows 5 requests a minute per IP, and each row writes
+// its project about three times (created with its preview task, then its
+// refine task and its result), so rows start at most once every 45 seconds.
+export const BATCH_CONFIG = {
+  MAX_CONCURRENT: Number(import.meta.env.VITE_BATCH_MAX_CONCURRENT) || 3,
+  START_INTERVAL_MS: Number(import.meta.env.VITE_BATCH_START_INTERVAL_MS) || 45000,
+};
+
+// Meshy credits each task costs, for estimates and the monthly budgets per
+// user and per team (email domain). A budget of 0 means no limit. The Meshy
+// proxy enforces the same budgets from its MESHY_* variables.
+export const CREDIT_CONFIG = {
+  COSTS: {
+    preview: Number(import.meta.env.VITE_CREDITS_PREVIEW) || 5,
+    refine: Number(import.meta.env.VITE_CREDITS_REFINE) || 10,
+    image: Number(import.meta.env.VITE_CREDITS_IMAGE) || 15,
+    retexture: Number(import.meta.env.VITE_CREDITS_RETEXTURE) || 10,
+    remesh: Number(import.meta.env.VITE_CREDITS_REMESH) || 5,
+  },
+  USER_MONTHLY_BUDGET: Number(import.meta.env.VITE_USER_MONTHLY_CREDITS ?? 1000) || 0,
+  TEAM_MONTHLY_BUDGET: Number(import.meta.env.VITE_TEAM_MONTHLY_CREDITS ?? 5000) || 0,
+};
+
 // API configuration validation (all sensitive data now validated server-side)
 export const validateConfig = () => {
   // All sensitive configuration is now handled server-side
@@ -6,13 +6,48 @@
 
 import { validateConfig } from '../config';
 import { AuthService } from '../auth';
-import { GoogleModelViewer } from '../viewer/google-model-viewer';
+import { GoogleModelViewer, ModelInfo } from '../viewer/google-model-viewer';
 import { UIManager } from './ui-manager';
-import { GenerationManager } from './generation-manager';
+import { GenerationManager, RemeshOptions, RetryOptions } from './generation-manager';
 import { DownloadManager } from './download-manager';
-import { AppState, ViewerSettings } from '../types';
-import type { MeshyTask } from '../types';
+import { AppState, ViewerSettings, GenerationInput } from '../types';
+import type {
+  BatchItem,
+  BatchRecord,
+  BatchRow,
+  CostEstimate,
+  DeadLetter,
+  MeshyTask,
+  MonthlySpend,
+  ProjectRecord,
+  GenerationVariant,
+  GenerationFailure,
+  GenerationState,
+  PromptTemplate,
+  SyncState,
+  TargetSize,
+  TemplateDraft,
+} from '../types';
+import { TemplateService } from '../services/template-service';
+import { createRepositories } from '../repositories/repository';
+import { AirtableProxyClient } from '../services/airtable-proxy-client';
+import type { GenerationJob } from '../services/job-queue';
+import { createGenerationProvider } from '../providers/generation-provider';
+import { summarizeBatch } from '../batch/batch-summary';
+import { organisationOf } from '../templates/prompt-templates';
+import {
+  hasTargetSize,
+  parseTargetSize,
+  scaleDimensions,
+  scaleToTarget,
+  sizeOf,
+} from '../sizing/real-world-size';
 import { logger } from '../utils/logger';
+import { isAbortError } from '../utils/abort';
+import { getErrorGuidance } from '../meshy-errors';
+
+// Progress reaches the UI through the generation state
+const noProgress = () => {};
 
 export class ConstructionApp {
   private state: AppState = {
@@ -20,14 +55,25 @@ export class ConstructionApp {
     currentTask: null,
     currentProject: null,
     generationStartTime: 0,
-    isGenerating: false,
-    isLoading: false,
   };
 
   private modelViewer: GoogleModelViewer | null = null;
   private uiManager: UIManager;
   private generationManager: GenerationManager;
   private downloadManager: DownloadManager;
+  private repositories = createRepositories();
+  private resumeListeners = new Set<
+    (task: MeshyTask, project: ProjectRecord) => void
+  >();
+  private previewListeners = new Set<
+    (previewTask: MeshyTask, project: ProjectRecord) => void
+  >();
+  private variantListeners = new Set<(variants: GenerationVariant[]) => void>();
+  // The project whose model the latest retexture or remesh started from
+  private modelSource: ProjectRecord | null = null;
+  // An earlier result of the request just submitted, waiting for reuse or "generate anyway"
+  private existingResult: { input: GenerationInput; project: ProjectRecord } | null = null;
+  private failureListeners = new Set<(failure: GenerationFailure) => void>();
   private viewerSettings: ViewerSettings = {
     viewMode: 'perspective',
     lodEnabled: true,
@@ -37,8 +83,11 @@ export class ConstructionApp {
 
   constructor() {
     this.uiManager = new UIManager();
-    this.generationManager = new GenerationManager(this.state);
-    this.downloadManager = new DownloadManager(this.state);
+    this.generationManager = new GenerationManager(this.state, createGenerationProvider(), this.repositories);
+    this.downloadManager = new DownloadManager(this.state, this.repositories);
+    this.generationManager.onGenerationStateChanged((state) =>
+      this.uiManager.renderGenerationState(state),
+    );
     
     // Add window resize listener
     window.addEventListener('resize', () => this.onWindowResize());
@@ -62,9 +111,124 @@ export class ConstructionApp {
 
     if (this.state.currentUser) {
       this.showMainInterface();
+      // Writes queued while offline or before the tab closed go out before anything new
+      if (this.repositories.backend === 'airtable') {
+        AirtableProxyClient.startPeriodicSync();
+      }
     }
 
     this.setupCharacterCounter();
+
+    // Resumed jobs can poll for minutes, so the UI doesn't wait on them
+    if (this.state.currentUser) {
+      this.resumePendingJobs().catch((error) => {
+        logger.error('Failed to resume unfinished generations', 'ConstructionApp', error);
+      });
+    }
+  }
+
+  // Resume generations that were still running when the page was closed
+  private async resumePendingJobs() {
+    const jobs = await this.generationManager.getResumableJobs();
+    if (jobs.length === 0) {
+      return;
+    }
+
+    logger.info('Resuming unfinished generations', 'ConstructionApp', {
+      count: jobs.length,
+    });
+
+    this.state.generationStartTime = Date.now();
+
+    // Competing variants come back together as one comparison grid
+    const variantGroups = new Map<string, typeof jobs>();
+    for (const job of jobs) {
+      if (job.variantGroupId) {
+        variantGroups.set(job.variantGroupId, [
+          ...(variantGroups.get(job.variantGroupId) || []),
+          job,
+        ]);
+      }
+    }
+
+    // Every unfinished job polls at once, so one slow task doesn't hold up the rest
+    await Promise.all([
+      ...Array.from(variantGroups.values(), (group) => this.resumeVariantGroup(group)),
+      ...jobs.filter((candidate) => !candidate.variantGroupId).map((job) => this.resumeSingleJob(job)),
+    ]);
+  }
+
+  private async resumeVariantGroup(group: GenerationJob[]) {
+    try {
+      await this.generationManager.resumeVariants(group, (variants) =>
+        this.showVariants(variants),
+      );
+    } catch (error) {
+      logger.error('Failed to resume variants', 'ConstructionApp', error);
+    }
+  }
+
+  private async resumeSingleJob(job: GenerationJob) {
+    try {
+      if (job.approvalRequired && !job.refineTaskId) {
+        // The user never approved this preview - show it again rather than refining
+        const preview = await this.generationManager.resumePreviewJob(job, noProgress);
+        await this.displayPreview(preview.previewTask, preview.project);
+        return;
+      }
+
+      const result = await this.generationManager.resumeJob(job, noProgress);
+
+      this.state.currentTask = result.task;
+      this.state.currentProject = result.project;
+      this.resumeListeners.forEach((listener) =>
+        listener(result.task, result.project),
+      );
+
+      await this.displayModel(result.task);
+      this.uiManager.showSuccess('Your previous generation has finished!');
+    } catch (error) {
+      if (this.isCancellation(error)) return;
+      logger.error('Failed to resume generation', 'ConstructionApp', error);
+      this.reportFailure('Failed to resume previous generation', error, (newSeed) =>
+        this.retryGeneration({ newSeed }),
+      );
+    }
+  }
+
+  onGenerationResumed(
+    listener: (task: MeshyTask, project: ProjectRecord) => void,
+  ): () => void {
+    this.resumeListeners.add(listener);
+    return () => this.resumeListeners.delete(listener);
+  }
+
+  onPreviewReady(
+    listener: (previewTask: MeshyTask, project: ProjectRecord) => void,
+  ): () => void {
+    this.previewListeners.add(listener);
+    return () => this.previewListeners.delete(listener);
+  }
+
+  onVariantsChanged(
+    listener: (variants: GenerationVariant[]) => void,
+  ): () => void {
+    this.variantListeners.add(listener);
+    return () => this.variantListeners.delete(listener);
+  }
+
+  // Every phase change and progress report of the generation on screen
+  onGenerationStateChanged(listener: (state: GenerationState) => void): () => void {
+    return this.generationManager.onGenerationStateChanged(listener);
+  }
+
+  getGenerationState(): GenerationState {
+    return this.generationManager.getGenerationState();
+  }
+
+  onGenerationFailed(listener: (failure: GenerationFailure) => void): () => void {
+    this.failureListeners.add(listener);
+    return () => this.failureListeners.delete(listener);
   }
 
   private setupCharacterCounter() {
@@ -131,16 +295,28 @@ export class ConstructionApp {
     }
   }
 
-  async generateModel() {
+  async generateModel(input?: GenerationInput) {
     if (!this.state.currentUser) {
       await this.authenticate();
       return;
     }
 
-    const prompt = this.uiManager.getPrompt();
+    // Starting another would clear the running generation from the screen
+    if (this.generationManager.isGenerationRunning()) {
+      this.uiManager.showError('A generation is already running. Wait for it to finish or cancel it first.');
+      return;
+    }
+
+    const generationInput = input || this.uiManager.getGenerationInput();
+    const prompt = generationInput.prompt.trim();
     const qualitySettings = this.uiManager.getQualitySettings();
 
-    if (!prompt) {
+    if (generationInput.mode === 'image') {
+      if (!generationInput.imageUrl) {
+        this.uiManager.showError('Please choose a reference image');
+        return;
+      }
+    } else if (!prompt) {
       this.uiManager.showError('Please enter a construction description');
       return;
     }
@@ -150,61 +326,558 @@ export class ConstructionApp {
       return;
     }
 
-    this.state.isGenerating = true;
+    // Sizes typed in win over ones read from the description
+    const targetSize = hasTargetSize(generationInput.targetSize)
+      ? generationInput.targetSize
+      : parseTargetSize(prompt) || undefined;
+
+    // Competing variants use their own seeds, so only single generations can match
+    this.existingResult = null;
+    this.uiManager.hideExistingResult();
+    if (
+      generationInput.mode === 'text' &&
+      (generationInput.variantCount || 1) <= 1 &&
+      !generationInput.generateAnyway
+    ) {
+      const existing = await this.generationManager.findExistingResult(
+        prompt,
+        qualitySettings,
+        generationInput.settings,
+        generationInput.seed,
+      );
+      if (existing) {
+        this.existingResult = { input: generationInput, project: existing };
+        this.uiManager.showExistingResult(existing);
+        return;
+      }
+    }
+
     this.state.generationStartTime = Date.now();
-    this.uiManager.showLoading('Initializing generation...');
     this.uiManager.hideViewer();
     this.uiManager.hideDownload();
+    this.uiManager.hidePreviewApproval();
+    this.uiManager.hideVariantGrid();
+    this.state.currentTask = null;
+
+    // Generating anyway asks for a different model, so a pinned seed is dropped too
+    const pinnedSeed = generationInput.generateAnyway ? undefined : generationInput.seed;
 
     try {
-      const result = await this.generationManager.generateModel(
-        prompt,
-        qualitySettings,
-        (stage, progress) => this.uiManager.updateProgress(stage, progress),
-      );
+      const variantCount = generationInput.variantCount || 1;
+      if (generationInput.mode === 'text' && variantCount > 1) {
+        const variants = await this.generationManager.generateVariants(
+          prompt,
+          qualitySettings,
+          variantCount,
+          (updated) => this.showVariants(updated),
+          generationInput.settings,
+          targetSize,
+        );
+
+        if (variants.every((variant) => variant.status === 'failed')) {
+          throw new Error(variants[0]?.error || 'All variants failed');
+        }
+        return;
+      }
+
+      if (generationInput.mode === 'text' && generationInput.reviewPreview) {
+        const preview = await this.generationManager.generatePreview(
+          prompt,
+          qualitySettings,
+          noProgress,
+          generationInput.settings,
+          targetSize,
+          pinnedSeed,
+        );
+        await this.displayPreview(preview.previewTask, preview.project);
+        return;
+      }
+
+      const result =
+        generationInput.mode === 'image' && generationInput.imageUrl
+          ? await this.generationManager.generateModelFromImage(
+              generationInput.imageUrl,
+              qualitySettings,
+              noProgress,
+              prompt || undefined,
+              targetSize,
+            )
+          : await this.generationManager.generateModel(
+              prompt,
+              qualitySettings,
+              noProgress,
+              generationInput.settings,
+              targetSize,
+              pinnedSeed,
+            );
 
       this.state.currentTask = result.task;
       this.state.currentProject = result.project;
 
       await this.displayModel(result.task);
     } catch (error) {
+      if (this.isCancellation(error)) return;
       logger.error('3D model generation failed', 'ConstructionApp', error);
-      this.uiManager.showError(
-        `Failed to generate model: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      this.reportFailure('Failed to generate model', error, (newSeed) =>
+        // A new seed needs the failed project; a plain retry resubmits the form
+        newSeed && this.state.currentProject?.status === 'failed'
+          ? this.retryGeneration({ newSeed })
+          : this.generateModel(generationInput),
+      );
+    }
+  }
+
+  // The earlier result found for the last request, if the user hasn't decided yet
+  getExistingResult(): ProjectRecord | null {
+    return this.existingResult?.project ?? null;
+  }
+
+  // Shows the earlier result instead of generating the same request again
+  async reuseExistingResult() {
+    const existing = this.existingResult;
+    if (!existing) return;
+
+    this.existingResult = null;
+    this.uiManager.hideExistingResult();
+    const project = existing.project;
+    logger.info('Reusing earlier generation', 'ConstructionApp', { projectId: project.id });
+
+    const task: MeshyTask = {
+      id: project.task_id || project.id || 'reused',
+      status: 'SUCCEEDED',
+      progress: 100,
+      model_urls: project.model_urls,
+      thumbnail_url: project.thumbnail_url,
+      created_at: project.created_at,
+    };
+
+    this.state.currentTask = task;
+    this.state.currentProject = { ...project };
+
+    await this.displayModel(task);
+  }
+
+  // Pays for a new model of the same request, with a new seed so it comes out different
+  async generateAnyway() {
+    const existing = this.existingResult;
+    if (!existing) return;
+
+    await this.generateModel({ ...existing.input, generateAnyway: true });
+  }
+
+  /**
+   * Generates every row of an imported schedule and saves a summary of the
+   * batch. The summary is returned even when it couldn't be saved.
+   */
+  async generateBatch(
+    rows: BatchRow[],
+    name: string,
+    onUpdate: (items: BatchItem[]) => void,
+  ): Promise<BatchRecord | null> {
+    if (!this.state.currentUser) {
+      await this.authenticate();
+      return null;
+    }
+
+    const createdAt = new Date().toISOString();
+    this.state.generationStartTime = Date.now();
+
+    let items: BatchItem[];
+    try {
+      items = await this.generationManager.generateBatch(
+        rows,
+        this.uiManager.getQualitySettings(),
+        onUpdate,
+      );
+    } catch (error) {
+      // Nothing was started, e.g. the batch doesn't fit the credit budget
+      logger.error('Batch generation failed to start', 'ConstructionApp', error);
+      this.reportFailure('Failed to start batch', error, async () => {
+        await this.generateBatch(rows, name, onUpdate);
+      });
+      return null;
+    }
+    const summary = summarizeBatch(items, this.state.currentUser.email, name, createdAt);
+
+    try {
+      return await this.repositories.batches.createBatch(summary);
+    } catch (error) {
+      logger.warn('Batch summary not saved', 'ConstructionApp', error);
+      this.uiManager.showError('The batch finished but its summary could not be saved.');
+      return summary;
+    }
+  }
+
+  async approvePreview() {
+    if (this.generationManager.getPreviewApproval().status !== 'awaiting_approval') {
+      this.uiManager.showError('There is no preview waiting for approval.');
+      return;
+    }
+
+    this.uiManager.hidePreviewApproval();
+
+    try {
+      const result = await this.generationManager.approvePreview(noProgress);
+
+      this.state.currentTask = result.task;
+      this.state.currentProject = result.project;
+
+      await this.displayModel(result.task);
+    } catch (error) {
+      if (this.isCancellation(error)) return;
+      logger.error('Refining approved preview failed', 'ConstructionApp', error);
+      this.reportFailure('Failed to texture model', error, (newSeed) => this.retryGeneration({ newSeed }));
+    }
+  }
+
+  async rejectPreview() {
+    if (this.generationManager.getPreviewApproval().status !== 'awaiting_approval') {
+      this.uiManager.showError('There is no preview waiting for approval.');
+      return;
+    }
+
+    this.state.generationStartTime = Date.now();
+    this.uiManager.hidePreviewApproval();
+    this.uiManager.hideViewer();
+
+    try {
+      const preview = await this.generationManager.rejectPreview(noProgress);
+      await this.displayPreview(preview.previewTask, preview.project);
+    } catch (error) {
+      if (this.isCancellation(error)) return;
+      logger.error('Preview regeneration failed', 'ConstructionApp', error);
+      this.reportFailure('Failed to regenerate preview', error, (newSeed) => this.retryGeneration({ newSeed }));
+    }
+  }
+
+  // New textures on the current model; the result becomes a child of its project
+  async retextureModel(texturePrompt: string) {
+    const project = this.getShownProject();
+    if (!project || project.status !== 'completed') {
+      this.uiManager.showError('There is no finished model to retexture.');
+      return;
+    }
+
+    if (!texturePrompt.trim()) {
+      this.uiManager.showError('Please describe the new texture');
+      return;
+    }
+
+    this.state.generationStartTime = Date.now();
+    this.modelSource = project;
+
+    try {
+      const result = await this.generationManager.retextureModel(
+        { project },
+        texturePrompt,
+        this.uiManager.getQualitySettings(),
+        noProgress,
+      );
+
+      this.state.currentTask = result.task;
+      this.state.currentProject = result.project;
+
+      await this.displayModel(result.task);
+    } catch (error) {
+      if (this.isCancellation(error)) return;
+      logger.error('Retexturing model failed', 'ConstructionApp', error);
+      // The failed retexture is the current project, so a retry re-runs it
+      this.reportFailure('Failed to retexture model', error, (newSeed) => this.retryGeneration({ newSeed }));
+    }
+  }
+
+  // The current project's original and retextured versions, once it has any
+  getRetextures() {
+    return this.generationManager.getRetextureFamily(this.state.currentProject);
+  }
+
+  // A lighter or heavier version of the current model; the result is a sibling version of it
+  async remeshModel(options: RemeshOptions) {
+    const project = this.getShownProject();
+    if (!project || project.status !== 'completed') {
+      this.uiManager.showError('There is no finished model to remesh.');
+      return;
+    }
+
+    this.state.generationStartTime = Date.now();
+    this.modelSource = project;
+
+    try {
+      const result = await this.generationManager.remeshModel(
+        project,
+        options,
+        this.uiManager.getQualitySettings(),
+        noProgress,
+      );
+
+      this.state.currentTask = result.task;
+      this.state.currentProject = result.project;
+
+      await this.displayModel(result.task);
+    } catch (error) {
+      if (this.isCancellation(error)) return;
+      logger.error('Remeshing model failed', 'ConstructionApp', error);
+      // The failed remesh is the current project, so a retry re-runs it
+      this.reportFailure('Failed to remesh model', error, (newSeed) => this.retryGeneration({ newSeed }));
+    }
+  }
+
+  // The current project's original and remeshed versions, once it has any
+  getModelVariants() {
+    return this.generationManager.getModelVariants(this.state.currentProject);
+  }
+
+  // Puts another finished version of the current model in the viewer
+  async showModelVariant(projectId: string) {
+    const variant = this.getModelVariants().find((project) => project.id === projectId);
+    if (!variant || variant.status !== 'completed' || !variant.model_urls?.glb) {
+      this.uiManager.showError('That version of the model is not available.');
+      return;
+    }
+
+    const task: MeshyTask = {
+      id: variant.task_id || projectId,
+      status: 'SUCCEEDED',
+      progress: 100,
+      model_urls: variant.model_urls,
+      thumbnail_url: variant.thumbnail_url,
+      created_at: variant.created_at,
+    };
+
+    this.state.currentTask = task;
+    this.state.currentProject = variant;
+
+    await this.displayModel(task);
+  }
+
+  // After a failed retexture or remesh the model on screen is still the one it started from
+  private getShownProject(): ProjectRecord | null {
+    const current = this.state.currentProject;
+    return current?.status === 'failed' &&
+      (current.input_mode === 'retexture' || current.input_mode === 'remesh')
+      ? this.modelSource
+      : current;
+  }
+
+  // Re-run the current project (completed or failed) from its stored settings
+  async retryGeneration(options: RetryOptions = {}) {
+    const project = this.state.currentProject;
+    if (!project?.id) {
+      this.uiManager.showError('There is no project to retry.');
+      return;
+    }
+
+    this.state.generationStartTime = Date.now();
+    this.uiManager.hideViewer();
+    this.uiManager.hideDownload();
+
+    try {
+      const result = await this.generationManager.retryGeneration(
+        project.id,
+        noProgress,
+        options,
+      );
+
+      this.state.currentTask = result.task;
+      this.state.currentProject = result.project;
+
+      await this.displayModel(result.task);
+    } catch (error) {
+      if (this.isCancellation(error)) return;
+      logger.error('Retrying generation failed', 'ConstructionApp', error);
+      this.reportFailure('Failed to retry generation', error, (newSeed) => this.retryGeneration({ newSeed }));
+    }
+  }
+
+  async selectVariant(variantId: string) {
+    this.state.generationStartTime = Date.now();
+    this.uiManager.hideVariantGrid();
+
+    try {
+      const result = await this.generationManager.selectVariant(variantId, noProgress);
+
+      this.state.currentTask = result.task;
+      this.state.currentProject = result.project;
+
+      await this.displayModel(result.task);
+    } catch (error) {
+      if (this.isCancellation(error)) return;
+      logger.error('Refining selected variant failed', 'ConstructionApp', error);
+      this.reportFailure('Failed to texture variant', error, (newSeed) => this.retryGeneration({ newSeed }));
+    }
+  }
+
+  getVariants() {
+    return this.generationManager.getVariants();
+  }
+
+  // Stops whatever is generating or loading and cancels the Meshy task behind it
+  async cancelGeneration() {
+    try {
+      await this.generationManager.cancelGeneration();
+      this.uiManager.hideLoading();
+      this.uiManager.hideVariantGrid();
+      this.uiManager.showSuccess('Generation cancelled.');
+    } catch (error) {
+      logger.error('Cancelling generation failed', 'ConstructionApp', error);
+      this.uiManager.showError('Failed to cancel generation. Please try again.');
+    }
+  }
+
+  // Stops the batch import only; the on-screen generation carries on
+  async cancelBatch() {
+    try {
+      await this.generationManager.cancelBatch();
+      this.uiManager.showSuccess('Batch cancelled.');
+    } catch (error) {
+      logger.error('Cancelling batch failed', 'ConstructionApp', error);
+      this.uiManager.showError('Failed to cancel batch. Please try again.');
+    }
+  }
+
+  // Cancelled work ends quietly - cancelGeneration() already told the user
+  private isCancellation(error: unknown): boolean {
+    if (!isAbortError(error)) {
+      return false;
+    }
+    logger.info('Generation cancelled', 'ConstructionApp');
+    return true;
+  }
+
+  /**
+   * Shows a failure with guidance for its cause and, unless the prompt itself
+   * has to change, a button that retries it.
+   */
+  private reportFailure(
+    context: string,
+    error: unknown,
+    retry: (newSeed: boolean) => Promise<void>,
+  ) {
+    const guidance = getErrorGuidance(error);
+    const failure: GenerationFailure = {
+      message: `${context}: ${guidance.title}. ${guidance.guidance}`,
+      guidance,
+    };
+
+    this.uiManager.showError(
+      failure.message,
+      guidance.action === 'edit_prompt'
+        ? undefined
+        : {
+            label: guidance.actionLabel,
+            onClick: () => retry(guidance.action === 'retry_new_seed'),
+          },
+    );
+    this.failureListeners.forEach((listener) => listener(failure));
+  }
+
+  private showVariants(variants: GenerationVariant[]) {
+    this.variantListeners.forEach((listener) => listener(variants));
+    this.uiManager.showVariantGrid(variants, this);
+  }
+
+  getPreviewApproval() {
+    return this.generationManager.getPreviewApproval();
+  }
+
+  private async displayPreview(previewTask: MeshyTask, project: ProjectRecord) {
+    this.state.currentProject = project;
+    this.previewListeners.forEach((listener) => listener(previewTask, project));
+
+    if (!previewTask.model_urls?.glb || !this.modelViewer) {
+      return;
+    }
+
+    try {
+      this.uiManager.showLoading('Loading preview...');
+
+      const modelInfo = await this.modelViewer.loadModel(
+        previewTask.model_urls.glb,
+        (progress) =>
+          this.uiManager.updateProgress('Loading preview...', progress),
+        this.generationManager.getAbortSignal(),
       );
+      this.applyRealWorldSize(project, modelInfo);
+
+      this.uiManager.showViewer();
+      this.uiManager.addViewerControls(this);
+      this.uiManager.showPreviewApproval(previewTask, this);
+    } catch (error) {
+      if (this.isCancellation(error)) return;
+      logger.error('Failed to display preview model', 'ConstructionApp', error);
+      this.uiManager.showError('Failed to load the preview model.');
     } finally {
-      this.state.isGenerating = false;
       this.uiManager.hideLoading();
     }
   }
 
+  // The last phase of a generation, or a model shown again outside of one
   private async displayModel(task: MeshyTask) {
     if (!task.model_urls?.glb || !this.modelViewer) {
       this.uiManager.showError('No model generated or viewer not initialized.');
+      this.generationManager.finishDownload(new Error('No model to load'));
       return;
     }
 
+    const downloading = this.generationManager.getGenerationState().phase === 'downloading';
     try {
-      this.uiManager.showLoading('Loading 3D model...');
+      if (!downloading) {
+        this.uiManager.showLoading('Loading 3D model...');
+      }
 
       const modelInfo = await this.modelViewer.loadModel(
         task.model_urls.glb,
         (progress) =>
-          this.uiManager.updateProgress('Loading model...', progress),
+          downloading
+            ? this.generationManager.updateDownload(progress)
+            : this.uiManager.updateProgress('Loading model...', progress),
+        this.generationManager.getAbortSignal(),
       );
+      this.generationManager.finishDownload();
 
       this.uiManager.showViewer();
       this.uiManager.addViewerControls(this);
-      this.uiManager.showModelInfo(modelInfo);
+      this.uiManager.showModelInfo(
+        modelInfo,
+        this.applyRealWorldSize(this.state.currentProject, modelInfo),
+      );
       this.uiManager.showDownloadOptions(task, this);
     } catch (error) {
+      this.generationManager.finishDownload(error);
+      if (this.isCancellation(error)) return;
       logger.error('Failed to display generated model', 'ConstructionApp', error);
       this.uiManager.showError(
         'Failed to load 3D model. Please try downloading the file directly.',
       );
     } finally {
-      this.uiManager.hideLoading();
+      if (!downloading) {
+        this.uiManager.hideLoading();
+      }
+    }
+  }
+
+  /**
+   * Scales the shown model to its project's real-world size. The scale is
+   * kept with the project so downloads are rescaled to match.
+   */
+  private applyRealWorldSize(
+    project: ProjectRecord | null,
+    modelInfo: ModelInfo,
+  ): { target: TargetSize; actual: TargetSize } | undefined {
+    const target = project?.target_size;
+    const scale =
+      target && modelInfo.dimensions ? scaleToTarget(target, modelInfo.dimensions) : null;
+    this.modelViewer?.setModelScale(scale);
+
+    if (!project || !target || !scale || !modelInfo.dimensions) {
+      return undefined;
     }
+
+    project.model_scale = scale;
+    return {
+      target,
+      actual: sizeOf(scaleDimensions(modelInfo.dimensions, scale), target.unit),
+    };
   }
 
   // Public methods for viewer controls
@@ -322,6 +995,62 @@ export class ConstructionApp {
     location.reload();
   }
 
+  // Built-in templates plus the ones the user's organisation has added
+  async getPromptTemplates(): Promise<PromptTemplate[]> {
+    return TemplateService.getTemplates(organisationOf(this.state.currentUser?.email || ''));
+  }
+
+  // Saves a template for the user's whole organisation; throws if it is invalid or can't be saved
+  async savePromptTemplate(draft: TemplateDraft): Promise<PromptTemplate> {
+    const email = this.state.currentUser?.email;
+    if (!email) {
+      throw new Error('Sign in to add team templates');
+    }
+    return TemplateService.saveTemplate(organisationOf(email), draft, email);
+  }
+
+  // Credits the generation the form describes costs; null when they aren't charged
+  estimateGenerationCost(input: Pick<GenerationInput, 'mode' | 'variantCount'>): CostEstimate | null {
+    return this.generationManager.estimateCost(input);
+  }
+
+  // Airtable writes waiting to sync and ones that were given up on
+  onSyncStateChanged(listener: (state: SyncState) => void): () => void {
+    AirtableProxyClient.on('sync-state', listener);
+    return () => AirtableProxyClient.off('sync-state', listener);
+  }
+
+  getSyncState(): SyncState {
+    return AirtableProxyClient.getSyncState();
+  }
+
+  getFailedWrites(): Promise<DeadLetter[]> {
+    return AirtableProxyClient.getDeadLetters();
+  }
+
+  async retryFailedWrite(id: string): Promise<void> {
+    try {
+      await AirtableProxyClient.retryDeadLetter(id);
+    } catch (error) {
+      logger.error('Retrying failed write failed', 'ConstructionApp', error);
+      throw new Error('Failed to retry the change. Please try again.');
+    }
+  }
+
+  async discardFailedWrite(id: string): Promise<void> {
+    try {
+      await AirtableProxyClient.discardDeadLetter(id);
+    } catch (error) {
+      logger.error('Discarding failed write failed', 'ConstructionApp', error);
+      throw new Error('Failed to discard the change. Please try again.');
+    }
+  }
+
+  // This month's spend against the budgets; refresh to pick up the rest of the team's
+  getMonthlySpend(refresh = false): Promise<MonthlySpend | null> {
+    return this.generationManager.getMonthlySpend(refresh);
+  }
+
   // Getters for internal state access
   getCurrentUser() {
     return this.state.currentUser;
@@ -6,8 +6,11 @@
 
 import { MeshyAPI } from '../meshy-api';
 import { DeviceUtils } from '../device-utils';
-import { AppState } from '../types';
+import { AppState, DownloadRecord } from '../types';
 import { logger } from '../utils/logger';
+import { canScaleModelFile, scaleModelFile } from '../sizing/scale-model-file';
+import { createRepositories, Repositories } from '../repositories/repository';
+import { isLocalProjectId } from '../repositories/fallback-repository';
 
 export interface DownloadOptions {
   format: string;
@@ -92,7 +95,10 @@ export class DownloadManager {
     }
   };
 
-  constructor(private state: AppState) {}
+  constructor(
+    private state: AppState,
+    private repositories: Repositories = createRepositories(),
+  ) {}
 
   async downloadModel(url: string, extension: string): Promise<void> {
     const options: DownloadOptions = {
@@ -134,6 +140,7 @@ export class DownloadManager {
         format: options.format,
         filename
       });
+      await this.recordDownload(options.format);
 
     } catch (error) {
       logger.error('Download failed', 'DownloadManager', error);
@@ -144,11 +151,38 @@ export class DownloadManager {
   private async downloadWithOptimizations(url: string, filename: string, options: DownloadOptions): Promise<void> {
     // Apply engine-specific optimizations to URL if needed
     const optimizedUrl = this.applyEngineOptimizations(url, options.optimizeForEngine);
+
+    if (this.state.currentProject?.model_scale) {
+      await this.downloadAtRealWorldSize(optimizedUrl, filename, options.format);
+      return;
+    }
     
     // Use the existing MeshyAPI download method
     await MeshyAPI.downloadModel(optimizedUrl, filename);
   }
 
+  // Rescales the file to the size the model is shown at before saving it
+  private async downloadAtRealWorldSize(url: string, filename: string, format: string): Promise<void> {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Download failed: ${response.statusText}`);
+    }
+
+    const scaled = scaleModelFile(await response.arrayBuffer(), format, this.state.currentProject!.model_scale!);
+    if (!scaled) {
+      throw new Error(`${format.toUpperCase()} can't be saved at the model's real-world size`);
+    }
+
+    MeshyAPI.saveFile(new Blob([scaled]), filename);
+  }
+
+  // With a real-world scale set, only formats that can be rescaled are offered
+  private downloadableUrls(urls: Record<string, string>): Record<string, string> {
+    const scale = this.state.currentProject?.model_scale;
+    if (!scale) return urls;
+    return Object.fromEntries(Object.entries(urls).filter(([format]) => canScaleModelFile(format, scale)));
+  }
+
   private applyEngineOptimizations(url: string, engine?: string): string {
     if (!engine) return url;
 
@@ -311,7 +345,7 @@ export class DownloadManager {
   }
 
   async downloadMultipleFormats(urls: Record<string, string>): Promise<void> {
-    const downloadPromises = Object.entries(urls).map(([format, url]) =>
+    const downloadPromises = Object.entries(this.downloadableUrls(urls)).map(([format, url]) =>
       this.downloadModel(url, format),
     );
 
@@ -320,7 +354,7 @@ export class DownloadManager {
 
   async downloadForEngine(urls: Record<string, string>, engine: 'unreal' | 'unity' | 'blender'): Promise<void> {
     const supportedFormats = DownloadManager.getFormatsForEngine(engine);
-    const availableFormats = Object.keys(urls).filter(format => supportedFormats.includes(format));
+    const availableFormats = Object.keys(this.downloadableUrls(urls)).filter(format => supportedFormats.includes(format));
     
     if (availableFormats.length === 0) {
       throw new Error(`No compatible formats available for ${engine}`);
@@ -358,10 +392,23 @@ export class DownloadManager {
     return availableFormats[0]; // Fallback to first available
   }
 
-  async getDownloadHistory(): Promise<any[]> {
-    // Self-contained mode: no download history available
-    logger.info('Download history not available in self-contained mode', 'DownloadManager');
-    return [];
+  // Counts the download against the project on screen, in whichever backend stores projects.
+  // Projects that only reached this device's fallback store have no record to count against.
+  private async recordDownload(format: string): Promise<void> {
+    const project = this.state.currentProject;
+    if (!project?.id || isLocalProjectId(project.id) || !this.state.currentUser) return;
+
+    await this.repositories.downloads.recordDownload({
+      project_id: project.id,
+      user_email: this.state.currentUser.email,
+      format,
+      device_type: DeviceUtils.getDeviceInfo().type,
+    });
+  }
+
+  async getDownloadHistory(): Promise<DownloadRecord[]> {
+    if (!this.state.currentUser) return [];
+    return this.repositories.downloads.getDownloadHistory(this.state.currentUser.email);
   }
 
   async generateDownloadLink(
@@ -4,17 +4,47 @@
  * PROPRIETARY SOFTWARE - NOT OPEN SOURCE
  */
 
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { GenerationManager } from './generation-manager';
+import { createRepositories, Repositories } from '../repositories/repository';
+import { CreditService } from '../services/credit-service';
+import { CREDIT_CONFIG } from '../config';
+import { BudgetExceededError } from '../meshy-errors';
+import { currentMonth } from '../cost/credit-cost';
 import { AppState, QualitySettings } from '../types';
-import { MeshyTask, ProjectRecord } from '../types';
+import { BatchItem, BatchRow, MeshyTask, ProjectRecord } from '../types';
 
-// Mock the dependencies
-vi.mock('../meshy-api', () => ({
-  MeshyAPI: {
+// Mock the dependencies: the staged workflows and the provider behind them
+const { pipeline, provider } = vi.hoisted(() => ({
+  pipeline: {
     generateModel: vi.fn(),
-    pollTaskUntilComplete: vi.fn(),
+    generateModelFromImage: vi.fn(),
+    generatePreview: vi.fn(),
+    refinePreview: vi.fn(),
+    pollPreviewStage: vi.fn(),
+    resumeGeneration: vi.fn(),
+    resumeImageGeneration: vi.fn(),
+    retextureModel: vi.fn(),
+    resumeRetexture: vi.fn(),
+    remeshModel: vi.fn(),
+    resumeRemesh: vi.fn(),
+  },
+  provider: {
+    name: 'meshy' as const,
+    createTask: vi.fn(),
     getTaskStatus: vi.fn(),
+    cancelTask: vi.fn(),
+    getResults: vi.fn(),
+  },
+}));
+
+vi.mock('./generation-pipeline', () => ({
+  GenerationPipeline: vi.fn(() => pipeline),
+}));
+
+vi.mock('../services/credit-service', () => ({
+  CreditService: {
+    getMonthlySpend: vi.fn(),
   },
 }));
 
@@ -37,6 +67,7 @@ vi.mock('../device-utils', () => ({
 describe('GenerationManager', () => {
   let generationManager: GenerationManager;
   let mockState: AppState;
+  let repositories: Repositories;
 
   beforeEach(() => {
     vi.clearAllMocks();
@@ -46,11 +77,10 @@ describe('GenerationManager', () => {
       currentTask: null,
       currentProject: null,
       generationStartTime: 0,
-      isGenerating: false,
-      isLoading: false,
     };
 
-    generationManager = new GenerationManager(mockState);
+    repositories = createRepositories('memory');
+    generationManager = new GenerationManager(mockState, provider, repositories);
   });
 
   describe('Model Generation', () => {
@@ -75,9 +105,7 @@ describe('GenerationManager', () => {
         finished_at: new Date().toISOString(),
       };
 
-      const { MeshyAPI } = await import('../meshy-api');
-      (MeshyAPI.generateModel as any).mockResolvedValue(mockTask);
-      (MeshyAPI.pollTaskUntilComplete as any).mockResolvedValue(mockTask);
+      (pipeline.generateModel as any).mockResolvedValue(mockTask);
 
       const result = await generationManager.generateModel(
         prompt,
@@ -101,8 +129,7 @@ describe('GenerationManager', () => {
       const progressCallback = vi.fn();
 
       // Mock generation failure
-      const { MeshyAPI } = await import('../meshy-api');
-      (MeshyAPI.generateModel as any).mockRejectedValue(new Error('Generation failed'));
+      (pipeline.generateModel as any).mockRejectedValue(new Error('Generation failed'));
 
       await expect(
         generationManager.generateModel(prompt, qualitySettings, progressCallback)
@@ -124,9 +151,7 @@ describe('GenerationManager', () => {
         created_at: new Date().toISOString(),
       };
 
-      const { MeshyAPI } = await import('../meshy-api');
-      (MeshyAPI.generateModel as any).mockResolvedValue(mockTask);
-      (MeshyAPI.pollTaskUntilComplete as any).mockResolvedValue(mockTask);
+      (pipeline.generateModel as any).mockResolvedValue(mockTask);
 
       const { DeviceUtils } = await import('../device-utils');
       
@@ -152,8 +177,7 @@ describe('GenerationManager', () => {
         created_at: new Date().toISOString(),
       };
 
-      const { MeshyAPI } = await import('../meshy-api');
-      (MeshyAPI.generateModel as any).mockImplementation(
+      (pipeline.generateModel as any).mockImplementation(
         (request: any, callback: (stage: string, progress: number) => void) => {
           // Simulate progress updates
           callback('Generating model...', 25);
@@ -188,9 +212,7 @@ describe('GenerationManager', () => {
         created_at: new Date().toISOString(),
       };
 
-      const { MeshyAPI } = await import('../meshy-api');
-      (MeshyAPI.generateModel as any).mockResolvedValue(mockTask);
-      (MeshyAPI.pollTaskUntilComplete as any).mockResolvedValue(mockTask);
+      (pipeline.generateModel as any).mockResolvedValue(mockTask);
 
       const result = await generationManager.generateModel(
         prompt,
@@ -212,6 +234,1181 @@ describe('GenerationManager', () => {
     });
   });
 
+  describe('Preview Approval', () => {
+    const qualitySettings: QualitySettings = {
+      quality: 'high',
+      prioritizeSpeed: false,
+    };
+    const previewTask: MeshyTask = {
+      id: 'preview-task-1',
+      status: 'SUCCEEDED',
+      progress: 100,
+      model_urls: { glb: 'https://example.com/preview.glb' },
+      created_at: new Date().toISOString(),
+    };
+
+    it('should stop after the preview and wait for approval', async () => {
+      (pipeline.generatePreview as any).mockResolvedValue(previewTask);
+
+      const result = await generationManager.generatePreview('steel beam', qualitySettings, vi.fn());
+
+      expect(result.previewTask).toEqual(previewTask);
+      expect(pipeline.refinePreview).not.toHaveBeenCalled();
+      expect(generationManager.getPreviewApproval()).toEqual(
+        expect.objectContaining({ status: 'awaiting_approval', previewTask, attempt: 1 }),
+      );
+    });
+
+    it('should refine the preview once approved', async () => {
+      const refinedTask: MeshyTask = {
+        ...previewTask,
+        id: 'refine-task-1',
+        model_urls: { glb: 'https://example.com/refined.glb' },
+      };
+      (pipeline.generatePreview as any).mockResolvedValue(previewTask);
+      (pipeline.refinePreview as any).mockResolvedValue(refinedTask);
+
+      await generationManager.generatePreview('steel beam', qualitySettings, vi.fn());
+      const result = await generationManager.approvePreview(vi.fn());
+
+      expect(pipeline.refinePreview).toHaveBeenCalledWith(
+        'preview-task-1',
+        expect.any(Function),
+        expect.objectContaining({ onTaskCreated: expect.any(Function) }),
+        'high',
+      );
+      expect(result.task).toEqual(refinedTask);
+      expect(result.project.status).toBe('completed');
+      expect(generationManager.getPreviewApproval().status).toBe('completed');
+    });
+
+    it('should regenerate with a new seed when the preview is rejected', async () => {
+      (pipeline.generatePreview as any).mockResolvedValue(previewTask);
+
+      await generationManager.generatePreview('steel beam', qualitySettings, vi.fn());
+      await generationManager.rejectPreview(vi.fn());
+
+      const firstSeed = (pipeline.generatePreview as any).mock.calls[0][0].seed;
+      const secondSeed = (pipeline.generatePreview as any).mock.calls[1][0].seed;
+
+      expect(firstSeed).toEqual(expect.any(Number));
+      expect(secondSeed).not.toBe(firstSeed);
+      expect(pipeline.refinePreview).not.toHaveBeenCalled();
+      expect(generationManager.getPreviewApproval().attempt).toBe(2);
+    });
+
+    it('should refuse to approve when no preview is pending', async () => {
+      await expect(generationManager.approvePreview(vi.fn())).rejects.toThrow(
+        'There is no preview waiting for approval',
+      );
+    });
+  });
+
+  describe('Multi-variant Generation', () => {
+    const qualitySettings: QualitySettings = {
+      quality: 'high',
+      prioritizeSpeed: false,
+    };
+    const previewFor = (request: { seed?: number }): MeshyTask => ({
+      id: `preview-${request.seed}`,
+      status: 'SUCCEEDED',
+      progress: 100,
+      model_urls: { glb: `https://example.com/${request.seed}.glb` },
+      thumbnail_url: `https://example.com/${request.seed}.png`,
+      created_at: new Date().toISOString(),
+    });
+
+    it('should fan out previews with distinct seeds', async () => {
+      (pipeline.generatePreview as any).mockImplementation(async (request: any) => previewFor(request));
+      const onUpdate = vi.fn();
+
+      const variants = await generationManager.generateVariants('precast stair', qualitySettings, 3, onUpdate);
+
+      const seeds = (pipeline.generatePreview as any).mock.calls.map((call: any[]) => call[0].seed);
+      expect(new Set(seeds).size).toBe(3);
+      expect(variants.map((variant) => variant.status)).toEqual(['ready', 'ready', 'ready']);
+      expect(variants[0].previewTask?.thumbnail_url).toBe(`https://example.com/${variants[0].seed}.png`);
+      expect(onUpdate).toHaveBeenCalled();
+      expect(pipeline.refinePreview).not.toHaveBeenCalled();
+    });
+
+    it('should keep other variants when one fails', async () => {
+      (pipeline.generatePreview as any)
+        .mockRejectedValueOnce(new Error('Meshy task failed'))
+        .mockImplementation(async (request: any) => previewFor(request));
+
+      const variants = await generationManager.generateVariants('precast stair', qualitySettings, 2, vi.fn());
+
+      expect(variants.map((variant) => variant.status)).toEqual(['failed', 'ready']);
+      expect(variants[0].error).toBe('Meshy task failed');
+    });
+
+    it('should refine only the selected variant and discard the rest', async () => {
+      (pipeline.generatePreview as any).mockImplementation(async (request: any) => previewFor(request));
+      (pipeline.refinePreview as any).mockImplementation(async (previewId: string) => ({
+        ...previewFor({}),
+        id: `refined-${previewId}`,
+      }));
+
+      const variants = await generationManager.generateVariants('precast stair', qualitySettings, 3, vi.fn());
+      const result = await generationManager.selectVariant(variants[1].id, vi.fn());
+
+      expect(pipeline.refinePreview).toHaveBeenCalledTimes(1);
+      expect(result.task.id).toBe(`refined-${variants[1].previewTask!.id}`);
+      expect(generationManager.getVariants().map((variant) => variant.status)).toEqual([
+        'discarded',
+        'selected',
+        'discarded',
+      ]);
+    });
+
+    it('should reject variant counts outside the supported range', async () => {
+      await expect(
+        generationManager.generateVariants('precast stair', qualitySettings, 5, vi.fn()),
+      ).rejects.toThrow('Variant count must be between 2 and 4');
+    });
+  });
+
+  describe('Retry Generation', () => {
+    const storedRequest = {
+      prompt: 'glulam portal frame',
+      artStyle: 'realistic' as const,
+      seed: 1234,
+      topology: 'quad' as const,
+      targetPolyCount: 30000,
+    };
+    const storedProject: ProjectRecord = {
+      id: 'rec123',
+      user_email: 'test@example.com',
+      prompt: storedRequest.prompt,
+      input_mode: 'text',
+      status: 'completed',
+      device_type: 'desktop',
+      art_style: 'realistic',
+      created_at: new Date().toISOString(),
+      download_count: 0,
+      generation_request: storedRequest,
+    };
+    const retriedTask: MeshyTask = {
+      id: 'retry-task-1',
+      status: 'SUCCEEDED',
+      progress: 100,
+      model_urls: { glb: 'https://example.com/retry.glb' },
+      created_at: new Date().toISOString(),
+    };
+
+    it('should re-run the stored request exactly and link the new project', async () => {
+      const stored = await repositories.projects.createProject(storedProject);
+      (pipeline.generateModel as any).mockResolvedValue(retriedTask);
+
+      const result = await generationManager.retryGeneration(stored.id!, vi.fn());
+
+      expect(result.project.id).not.toBe(stored.id);
+      expect(pipeline.generateModel).toHaveBeenCalledWith(
+        storedRequest,
+        expect.any(Function),
+        expect.objectContaining({ onTaskCreated: expect.any(Function) }),
+      );
+      expect(result.project).toEqual(
+        expect.objectContaining({
+          retry_of: stored.id,
+          status: 'completed',
+          generation_request: storedRequest,
+        }),
+      );
+      expect(await repositories.projects.getProject(result.project.id!)).toMatchObject({
+        retry_of: stored.id,
+        status: 'completed',
+        generation_request: storedRequest,
+      });
+    });
+
+    it('should apply tweaks and pick a new seed when asked', async () => {
+      const stored = await repositories.projects.createProject(storedProject);
+      (pipeline.generateModel as any).mockResolvedValue(retriedTask);
+
+      await generationManager.retryGeneration(stored.id!, vi.fn(), {
+        tweaks: { prompt: 'glulam portal frame with steel connectors', targetPolyCount: undefined },
+        newSeed: true,
+      });
+
+      const request = (pipeline.generateModel as any).mock.calls[0][0];
+      expect(request.prompt).toBe('glulam portal frame with steel connectors');
+      expect(request.targetPolyCount).toBe(30000);
+      expect(request.seed).not.toBe(1234);
+    });
+
+    it('should retry a failed current project without fetching it', async () => {
+      const getProject = vi.spyOn(repositories.projects, 'getProject');
+      (pipeline.generateModel as any)
+        .mockRejectedValueOnce(new Error('Meshy task failed'))
+        .mockResolvedValueOnce(retriedTask);
+
+      await expect(
+        generationManager.generateModel('timber deck', { quality: 'high', prioritizeSpeed: false }, vi.fn()),
+      ).rejects.toThrow('Meshy task failed');
+
+      const failedProject = mockState.currentProject!;
+      expect(failedProject.status).toBe('failed');
+
+      const result = await generationManager.retryGeneration(failedProject.id!, vi.fn());
+
+      expect(getProject).not.toHaveBeenCalled();
+      expect((pipeline.generateModel as any).mock.calls[1][0]).toEqual(
+        (pipeline.generateModel as any).mock.calls[0][0],
+      );
+      expect(result.project.retry_of).toBe(failedProject.id);
+    });
+
+    it('should refuse projects without stored generation settings', async () => {
+      const stored = await repositories.projects.createProject({ ...storedProject, generation_request: undefined });
+
+      await expect(generationManager.retryGeneration(stored.id!, vi.fn())).rejects.toThrow(
+        'Retry failed: project has no stored generation settings',
+      );
+    });
+  });
+
+  describe('Retexturing', () => {
+    const qualitySettings: QualitySettings = {
+      quality: 'medium',
+      prioritizeSpeed: false,
+    };
+    const original: ProjectRecord = {
+      id: 'rec-original',
+      user_email: 'test@example.com',
+      prompt: 'timber cabin with painted pine cladding',
+      input_mode: 'text',
+      status: 'completed',
+      device_type: 'desktop',
+      art_style: 'realistic',
+      created_at: new Date().toISOString(),
+      download_count: 0,
+      task_id: 'refine-task-1',
+      model_urls: { glb: 'https://example.com/cabin.glb' },
+    };
+    const retexturedTask = (id: string): MeshyTask => ({
+      id,
+      status: 'SUCCEEDED',
+      progress: 100,
+      model_urls: { glb: `https://example.com/${id}.glb` },
+      created_at: new Date().toISOString(),
+    });
+
+    it('should retexture from the source task and link the child to its original', async () => {
+      (pipeline.retextureModel as any).mockResolvedValue(retexturedTask('retexture-task-1'));
+
+      const result = await generationManager.retextureModel(
+        { project: original },
+        ' weathered cedar ',
+        qualitySettings,
+        vi.fn(),
+      );
+
+      expect(pipeline.retextureModel).toHaveBeenCalledWith(
+        expect.objectContaining({
+          sourceTaskId: 'refine-task-1',
+          texturePrompt: 'weathered cedar',
+          quality: 'medium',
+        }),
+        expect.any(Function),
+        expect.objectContaining({ onTaskCreated: expect.any(Function) }),
+      );
+      expect(result.project).toEqual(
+        expect.objectContaining({
+          parent_id: 'rec-original',
+          input_mode: 'retexture',
+          prompt: 'weathered cedar',
+          status: 'completed',
+          task_id: 'retexture-task-1',
+        }),
+      );
+    });
+
+    it('should hang retextures of a retexture off the same original', async () => {
+      (pipeline.retextureModel as any)
+        .mockResolvedValueOnce(retexturedTask('retexture-task-1'))
+        .mockResolvedValueOnce(retexturedTask('retexture-task-2'));
+
+      const first = await generationManager.retextureModel(
+        { project: original },
+        'weathered cedar',
+        qualitySettings,
+        vi.fn(),
+      );
+      const second = await generationManager.retextureModel(
+        { project: first.project },
+        'charred larch',
+        qualitySettings,
+        vi.fn(),
+      );
+
+      expect((pipeline.retextureModel as any).mock.calls[1][0].sourceTaskId).toBe('retexture-task-1');
+      expect(second.project.parent_id).toBe('rec-original');
+      expect(
+        generationManager.getRetextureFamily(second.project).map((member) => member.prompt),
+      ).toEqual([original.prompt, 'weathered cedar', 'charred larch']);
+    });
+
+    it('should send an uploaded model by URL', async () => {
+      (pipeline.retextureModel as any).mockResolvedValue(retexturedTask('retexture-task-1'));
+
+      const result = await generationManager.retextureModel(
+        { modelUrl: 'data:model/gltf-binary;base64,Z2xURg' },
+        'polished concrete',
+        qualitySettings,
+        vi.fn(),
+      );
+
+      const request = (pipeline.retextureModel as any).mock.calls[0][0];
+      expect(request.modelUrl).toBe('data:model/gltf-binary;base64,Z2xURg');
+      expect(request.sourceTaskId).toBeUndefined();
+      expect(result.project.parent_id).toBeUndefined();
+    });
+
+    it('should keep a failed retexture listed and retry it as a retexture', async () => {
+      (pipeline.retextureModel as any)
+        .mockRejectedValueOnce(new Error('3D model generation failed'))
+        .mockResolvedValueOnce(retexturedTask('retexture-task-2'));
+
+      await expect(
+        generationManager.retextureModel({ project: original }, 'weathered cedar', qualitySettings, vi.fn()),
+      ).rejects.toThrow('3D model generation failed');
+
+      const failed = mockState.currentProject!;
+      expect(generationManager.getRetextureFamily(original).map((member) => member.status)).toEqual([
+        'completed',
+        'failed',
+      ]);
+
+      const retried = await generationManager.retryGeneration(failed.id!, vi.fn());
+
+      expect((pipeline.retextureModel as any).mock.calls[1][0]).toEqual(
+        (pipeline.retextureModel as any).mock.calls[0][0],
+      );
+      expect(retried.project).toEqual(
+        expect.objectContaining({ retry_of: failed.id, parent_id: 'rec-original' }),
+      );
+    });
+
+    it('should refuse models that have not finished', async () => {
+      await expect(
+        generationManager.retextureModel(
+          { project: { ...original, status: 'generating' } },
+          'weathered cedar',
+          qualitySettings,
+          vi.fn(),
+        ),
+      ).rejects.toThrow('Only a finished model can be retextured');
+      expect(pipeline.retextureModel).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Remeshing', () => {
+    const qualitySettings: QualitySettings = {
+      quality: 'medium',
+      prioritizeSpeed: false,
+    };
+    const original: ProjectRecord = {
+      id: 'rec-original',
+      user_email: 'test@example.com',
+      prompt: 'Steel I-beam 6m x 0.3m x 0.5m',
+      input_mode: 'text',
+      status: 'completed',
+      device_type: 'desktop',
+      art_style: 'realistic',
+      created_at: new Date().toISOString(),
+      download_count: 0,
+      polygon_count: 30000,
+      task_id: 'refine-task-1',
+      model_urls: { glb: 'https://example.com/beam.glb' },
+    };
+    const remeshedTask = (id: string): MeshyTask => ({
+      id,
+      status: 'SUCCEEDED',
+      progress: 100,
+      model_urls: { glb: `https://example.com/${id}.glb` },
+      created_at: new Date().toISOString(),
+    });
+
+    it('should remesh from the source task and record the version against its original', async () => {
+      (pipeline.remeshModel as any).mockResolvedValue(remeshedTask('remesh-task-1'));
+
+      const result = await generationManager.remeshModel(
+        original,
+        { targetPolyCount: 15000, topology: 'quad' },
+        qualitySettings,
+        vi.fn(),
+      );
+
+      expect(pipeline.remeshModel).toHaveBeenCalledWith(
+        {
+          sourceTaskId: 'refine-task-1',
+          targetPolyCount: 15000,
+          topology: 'quad',
+          description: original.prompt,
+          quality: 'medium',
+        },
+        expect.any(Function),
+        expect.objectContaining({ onTaskCreated: expect.any(Function) }),
+      );
+      expect(pipeline.generateModel).not.toHaveBeenCalled();
+      expect(result.project).toEqual(
+        expect.objectContaining({
+          variant_of: 'rec-original',
+          input_mode: 'remesh',
+          prompt: original.prompt,
+          polygon_count: 15000,
+          status: 'completed',
+          task_id: 'remesh-task-1',
+        }),
+      );
+      expect(result.project.parent_id).toBeUndefined();
+    });
+
+    it('should carry the real-world size into the remeshed version', async () => {
+      const targetSize = { length: 6, width: 0.3, height: 0.5, unit: 'm' as const };
+      (pipeline.remeshModel as any).mockResolvedValue(remeshedTask('remesh-task-1'));
+
+      const result = await generationManager.remeshModel(
+        { ...original, target_size: targetSize },
+        { targetPolyCount: 15000, topology: 'quad' },
+        qualitySettings,
+        vi.fn(),
+      );
+
+      expect(pipeline.remeshModel).toHaveBeenCalledWith(
+        expect.objectContaining({ targetSize }),
+        expect.any(Function),
+        expect.anything(),
+      );
+      expect(result.project.target_size).toEqual(targetSize);
+    });
+
+    it('should list remeshes of a remesh as siblings of the same original', async () => {
+      (pipeline.remeshModel as any)
+        .mockResolvedValueOnce(remeshedTask('remesh-task-1'))
+        .mockResolvedValueOnce(remeshedTask('remesh-task-2'));
+
+      const lighter = await generationManager.remeshModel(
+        original,
+        { targetPolyCount: 15000, topology: 'triangle' },
+        qualitySettings,
+        vi.fn(),
+      );
+      const lightest = await generationManager.remeshModel(
+        lighter.project,
+        { targetPolyCount: 5000, topology: 'triangle' },
+        qualitySettings,
+        vi.fn(),
+      );
+
+      expect((pipeline.remeshModel as any).mock.calls[1][0].sourceTaskId).toBe('remesh-task-1');
+      expect(lightest.project.variant_of).toBe('rec-original');
+      expect(
+        generationManager.getModelVariants(original).map((member) => member.polygon_count),
+      ).toEqual([30000, 15000, 5000]);
+      expect(generationManager.getModelVariants(lightest.project)).toHaveLength(3);
+    });
+
+    it('should keep a failed remesh listed and retry it as a remesh', async () => {
+      (pipeline.remeshModel as any)
+        .mockRejectedValueOnce(new Error('3D model generation failed'))
+        .mockResolvedValueOnce(remeshedTask('remesh-task-2'));
+
+      await expect(
+        generationManager.remeshModel(
+          original,
+          { targetPolyCount: 60000, topology: 'quad' },
+          qualitySettings,
+          vi.fn(),
+        ),
+      ).rejects.toThrow('3D model generation failed');
+
+      const failed = mockState.currentProject!;
+      expect(generationManager.getModelVariants(original).map((member) => member.status)).toEqual([
+        'completed',
+        'failed',
+      ]);
+
+      const retried = await generationManager.retryGeneration(failed.id!, vi.fn());
+
+      expect((pipeline.remeshModel as any).mock.calls[1][0]).toEqual(
+        (pipeline.remeshModel as any).mock.calls[0][0],
+      );
+      expect(retried.project).toEqual(
+        expect.objectContaining({ retry_of: failed.id, variant_of: 'rec-original' }),
+      );
+    });
+
+    it('should refuse models that have not finished', async () => {
+      await expect(
+        generationManager.remeshModel(
+          { ...original, status: 'generating' },
+          { targetPolyCount: 15000, topology: 'quad' },
+          qualitySettings,
+          vi.fn(),
+        ),
+      ).rejects.toThrow('Only a finished model can be remeshed');
+      expect(pipeline.remeshModel).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Repeated Requests', () => {
+    const qualitySettings: QualitySettings = {
+      quality: 'high',
+      prioritizeSpeed: false,
+    };
+    const finishedTask: MeshyTask = {
+      id: 'repeat-task-1',
+      status: 'SUCCEEDED',
+      progress: 100,
+      model_urls: { glb: 'https://example.com/repeat.glb' },
+      created_at: new Date().toISOString(),
+    };
+
+    it('should draw a random seed but give identical requests the same request hash', async () => {
+      (pipeline.generateModel as any).mockResolvedValue(finishedTask);
+      vi.spyOn(Math, 'random').mockReturnValueOnce(0.25).mockReturnValueOnce(0.75);
+
+      const first = await generationManager.generateModel('Steel  lintel 2m', qualitySettings, vi.fn());
+      const second = await generationManager.generateModel('steel lintel 2m ', qualitySettings, vi.fn());
+
+      const seeds = (pipeline.generateModel as any).mock.calls.map((call: any[]) => call[0].seed);
+      expect(seeds[0]).toEqual(expect.any(Number));
+      expect(seeds[1]).not.toBe(seeds[0]);
+      expect(first.project.request_hash).toEqual(expect.any(String));
+      expect(second.project.request_hash).toBe(first.project.request_hash);
+    });
+
+    it('should keep a pinned seed and count it in the request hash', async () => {
+      (pipeline.generateModel as any).mockResolvedValue(finishedTask);
+
+      const unpinned = await generationManager.generateModel('timber lintel 2m', qualitySettings, vi.fn());
+      const pinned = await generationManager.generateModel(
+        'timber lintel 2m', qualitySettings, vi.fn(), {}, undefined, 4242,
+      );
+
+      expect((pipeline.generateModel as any).mock.calls[1][0]).toEqual(
+        expect.objectContaining({ seed: 4242, seedPinned: true }),
+      );
+      expect(pinned.project.request_hash).not.toBe(unpinned.project.request_hash);
+    });
+
+    it('should find an earlier result of the same request on this device', async () => {
+      const findCompletedProject = vi.spyOn(repositories.projects, 'findCompletedProject');
+      (pipeline.generateModel as any).mockResolvedValue(finishedTask);
+      await generationManager.generateModel('concrete lintel 2m', qualitySettings, vi.fn());
+
+      const existing = await generationManager.findExistingResult('Concrete lintel 2m', qualitySettings);
+
+      expect(existing?.model_urls?.glb).toBe('https://example.com/repeat.glb');
+      expect(findCompletedProject).not.toHaveBeenCalled();
+    });
+
+    it('should find an earlier result from the team', async () => {
+      const project: ProjectRecord = {
+        id: 'rec-earlier',
+        user_email: 'colleague@example.com',
+        prompt: 'brick lintel 2m',
+        status: 'completed',
+        created_at: '2024-05-01T10:00:00.000Z',
+        download_count: 3,
+        device_type: 'desktop',
+        art_style: 'realistic',
+        model_urls: { glb: 'https://example.com/brick.glb' },
+      };
+      const findCompletedProject = vi.spyOn(repositories.projects, 'findCompletedProject').mockResolvedValue(project);
+
+      const existing = await generationManager.findExistingResult('brick lintel 2m', qualitySettings);
+
+      expect(existing).toEqual(project);
+      expect(findCompletedProject).toHaveBeenCalledWith(expect.any(String));
+    });
+
+    it('should go ahead when earlier results cannot be looked up', async () => {
+      vi.spyOn(repositories.projects, 'findCompletedProject').mockRejectedValue(new Error('Airtable unavailable'));
+
+      await expect(generationManager.findExistingResult('stone lintel 2m', qualitySettings)).resolves.toBeNull();
+    });
+  });
+
+  describe('Credit Budgets', () => {
+    const qualitySettings: QualitySettings = {
+      quality: 'high',
+      prioritizeSpeed: false,
+    };
+    const finishedTask: MeshyTask = {
+      id: 'refine-task-1',
+      status: 'SUCCEEDED',
+      progress: 100,
+      model_urls: { glb: 'https://example.com/model.glb' },
+      created_at: new Date().toISOString(),
+    };
+    // Creates a preview and a refine task the way the pipeline reports them
+    const generateWithTasks = async (_request: unknown, _onProgress: unknown, hooks: any) => {
+      await hooks.onTaskCreated('preview', { ...finishedTask, id: 'preview-task-1' });
+      await hooks.onTaskCreated('refine', finishedTask);
+      return finishedTask;
+    };
+
+    beforeEach(() => {
+      CREDIT_CONFIG.USER_MONTHLY_BUDGET = 1000;
+    });
+
+    afterEach(() => {
+      CREDIT_CONFIG.USER_MONTHLY_BUDGET = 0;
+    });
+
+    it('should record the credits of every task created on the project', async () => {
+      (CreditService.getMonthlySpend as any).mockResolvedValue({ month: currentMonth(), user: 0, team: 0 });
+      (pipeline.generateModel as any).mockImplementation(generateWithTasks);
+
+      const result = await generationManager.generateModel('steel portal frame', qualitySettings, vi.fn());
+
+      expect(result.project.credits_spent).toBe(15);
+      expect(CreditService.getMonthlySpend).toHaveBeenCalledWith('test@example.com', currentMonth());
+    });
+
+    it('should refuse a generation the budget cannot cover before creating anything', async () => {
+      (CreditService.getMonthlySpend as any).mockResolvedValue({ month: currentMonth(), user: 990, team: 990 });
+
+      await expect(
+        generationManager.generateModel('steel portal frame', qualitySettings, vi.fn()),
+      ).rejects.toThrow(
+        new BudgetExceededError('This needs 15 credits, but only 10 of your 1000 monthly credits are left', 'user'),
+      );
+      expect(pipeline.generateModel).not.toHaveBeenCalled();
+      expect(mockState.currentProject).toBeNull();
+    });
+
+    it('should count tasks created since the spend was read', async () => {
+      (CreditService.getMonthlySpend as any).mockResolvedValue({ month: currentMonth(), user: 980, team: 980 });
+      (pipeline.generateModel as any).mockImplementation(generateWithTasks);
+
+      await generationManager.generateModel('steel portal frame', qualitySettings, vi.fn());
+
+      await expect(generationManager.getMonthlySpend()).resolves.toEqual(
+        expect.objectContaining({ user: 995, team: 995 }),
+      );
+      await expect(
+        generationManager.generateModel('timber portal frame', qualitySettings, vi.fn()),
+      ).rejects.toBeInstanceOf(BudgetExceededError);
+      expect(CreditService.getMonthlySpend).toHaveBeenCalledTimes(1);
+    });
+
+    it('should leave the check to the proxy when the spend cannot be read', async () => {
+      (CreditService.getMonthlySpend as any).mockRejectedValue(new Error('Failed to load credit usage'));
+      (pipeline.generateModel as any).mockResolvedValue(finishedTask);
+
+      const result = await generationManager.generateModel('steel portal frame', qualitySettings, vi.fn());
+
+      expect(result.project.status).toBe('completed');
+    });
+  });
+
+  describe('Batch Generation', () => {
+    const qualitySettings: QualitySettings = {
+      quality: 'medium',
+      prioritizeSpeed: false,
+    };
+    const rows: BatchRow[] = ['fence panel', 'welfare cabin', 'site sign', 'road barrier'].map((name, index) => ({
+      line: index + 2,
+      name,
+      prompt: `steel ${name}`,
+      settings: { topology: 'triangle' },
+    }));
+    const finishedTask = (id: string): MeshyTask => ({
+      id,
+      status: 'SUCCEEDED',
+      progress: 100,
+      model_urls: { glb: `https://example.com/${id}.glb` },
+      created_at: new Date().toISOString(),
+    });
+
+    it('should generate every row, no more than the configured number at once', async () => {
+      let running = 0;
+      let mostRunning = 0;
+      (pipeline.generateModel as any).mockImplementation(async (request: { prompt: string }) => {
+        running++;
+        mostRunning = Math.max(mostRunning, running);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        running--;
+        return finishedTask(request.prompt.replace(/ /g, '-'));
+      });
+      const onUpdate = vi.fn();
+
+      const items = await generationManager.generateBatch(rows, qualitySettings, onUpdate);
+
+      expect(mostRunning).toBe(2);
+      expect(pipeline.generateModel).toHaveBeenCalledTimes(4);
+      expect(pipeline.generateModel).toHaveBeenCalledWith(
+        expect.objectContaining({ prompt: 'steel site sign', topology: 'triangle' }),
+        expect.any(Function),
+        expect.anything(),
+      );
+      expect(items.map((item) => item.status)).toEqual(['completed', 'completed', 'completed', 'completed']);
+      expect(items[1].project?.model_urls?.glb).toBe('https://example.com/steel-welfare-cabin.glb');
+      expect(onUpdate.mock.calls[0][0].map((item: BatchItem) => item.status)).toEqual([
+        'queued',
+        'queued',
+        'queued',
+        'queued',
+      ]);
+    });
+
+    it('should create each row\'s project with its preview task', async () => {
+      const createProject = vi.spyOn(repositories.projects, 'createProject');
+      const updateProject = vi.spyOn(repositories.projects, 'updateProject');
+      (pipeline.generateModel as any).mockImplementation(async (_request: unknown, _onProgress: unknown, hooks: any) => {
+        await hooks.onTaskCreated('preview', finishedTask('preview-task-1'));
+        await hooks.onTaskCreated('refine', finishedTask('refine-task-1'));
+        return finishedTask('refine-task-1');
+      });
+
+      const items = await generationManager.generateBatch(rows.slice(0, 1), qualitySettings, vi.fn());
+
+      expect(createProject).toHaveBeenCalledTimes(1);
+      expect(createProject).toHaveBeenCalledWith(expect.objectContaining({ preview_task_id: 'preview-task-1' }));
+      expect(updateProject).toHaveBeenCalledTimes(2);
+      expect(updateProject).toHaveBeenCalledWith(items[0].project!.id, expect.objectContaining({ task_id: 'refine-task-1' }));
+    });
+
+    it('should keep going after a row fails', async () => {
+      (pipeline.generateModel as any).mockImplementation(async (request: { prompt: string }) => {
+        if (request.prompt === 'steel welfare cabin') {
+          throw new Error('Meshy task failed');
+        }
+        return finishedTask('task');
+      });
+
+      const items = await generationManager.generateBatch(rows, qualitySettings, vi.fn());
+
+      expect(items.map((item) => item.status)).toEqual(['completed', 'failed', 'completed', 'completed']);
+      expect(items[1].error).toBe('Meshy task failed');
+      // A failed row is not the current project the way a failed single generation is
+      expect(mockState.currentProject).toBeNull();
+    });
+
+    it('should leave rows not yet started cancelled', async () => {
+      (pipeline.generateModel as any).mockImplementation(
+        (_request: unknown, _onProgress: unknown, hooks: any) =>
+          new Promise((_resolve, reject) => {
+            hooks.signal.addEventListener('abort', () => {
+              const error = new Error('Generation cancelled');
+              error.name = 'AbortError';
+              reject(error);
+            });
+          }),
+      );
+
+      const batch = generationManager.generateBatch(rows, qualitySettings, vi.fn());
+      await vi.waitFor(() => expect(pipeline.generateModel).toHaveBeenCalledTimes(2));
+      await generationManager.cancelBatch();
+      const items = await batch;
+
+      expect(pipeline.generateModel).toHaveBeenCalledTimes(2);
+      expect(items.map((item) => item.status)).toEqual(['cancelled', 'cancelled', 'cancelled', 'cancelled']);
+      expect(items[0].error).toBeUndefined();
+    });
+
+    it('should keep the batch running when the on-screen generation is cancelled', async () => {
+      (pipeline.generateModel as any).mockImplementation(
+        (_request: unknown, _onProgress: unknown, hooks: any) =>
+          new Promise((_resolve, reject) => {
+            hooks.signal.addEventListener('abort', () => {
+              const error = new Error('Generation cancelled');
+              error.name = 'AbortError';
+              reject(error);
+            });
+          }),
+      );
+
+      const batch = generationManager.generateBatch(rows, qualitySettings, vi.fn());
+      await vi.waitFor(() => expect(pipeline.generateModel).toHaveBeenCalledTimes(2));
+      await generationManager.cancelGeneration();
+
+      const signals = (pipeline.generateModel as any).mock.calls.map((call: any[]) => call[2].signal);
+      expect(signals.some((signal: AbortSignal) => signal.aborted)).toBe(false);
+
+      await generationManager.cancelBatch();
+      await batch;
+    });
+  });
+
+  describe('Cancellation', () => {
+    const qualitySettings: QualitySettings = {
+      quality: 'high',
+      prioritizeSpeed: false,
+    };
+
+    let tasksReported = false;
+
+    beforeEach(() => {
+      tasksReported = false;
+    });
+
+    // Reports the given tasks as created, then waits until the signal aborts
+    const runUntilAborted = (...stages: Array<['preview' | 'refine', string]>) =>
+      async (_request: unknown, _onProgress: unknown, hooks: any) => {
+        for (const [stage, id] of stages) {
+          await hooks.onTaskCreated(stage, { id, status: 'PENDING', progress: 0, created_at: '' });
+        }
+        tasksReported = true;
+        return new Promise((_resolve, reject) => {
+          hooks.signal.addEventListener('abort', () => {
+            const error = new Error('Generation cancelled');
+            error.name = 'AbortError';
+            reject(error);
+          });
+        });
+      };
+
+    it('should abort the running workflow and cancel the refine task in flight', async () => {
+      (pipeline.generateModel as any).mockImplementation(
+        runUntilAborted(['preview', 'preview-task-1'], ['refine', 'refine-task-1']),
+      );
+      (provider.cancelTask as any).mockResolvedValue(undefined);
+
+      const generation = generationManager.generateModel('steel beam', qualitySettings, vi.fn());
+      const assertion = expect(generation).rejects.toThrow('Generation cancelled');
+      await vi.waitFor(() => expect(tasksReported).toBe(true));
+      const signal = (pipeline.generateModel as any).mock.calls[0][2].signal as AbortSignal;
+
+      await generationManager.cancelGeneration();
+      await assertion;
+
+      expect(signal.aborted).toBe(true);
+      expect(provider.cancelTask).toHaveBeenCalledTimes(1);
+      expect(provider.cancelTask).toHaveBeenCalledWith('refine-task-1', 'text');
+      expect(mockState.currentProject?.status).toBe('failed');
+    });
+
+    it('should cancel the preview task while the preview is still generating', async () => {
+      (pipeline.generatePreview as any).mockImplementation(
+        runUntilAborted(['preview', 'preview-task-1']),
+      );
+      (provider.cancelTask as any).mockResolvedValue(undefined);
+
+      const preview = generationManager.generatePreview('steel beam', qualitySettings, vi.fn());
+      const assertion = expect(preview).rejects.toThrow('Generation cancelled');
+      await vi.waitFor(() => expect(tasksReported).toBe(true));
+
+      await generationManager.cancelGeneration();
+      await assertion;
+
+      expect(provider.cancelTask).toHaveBeenCalledWith('preview-task-1', 'text');
+    });
+
+    it('should give later generations a fresh signal', async () => {
+      (provider.cancelTask as any).mockResolvedValue(undefined);
+      (pipeline.generateModel as any).mockImplementation(async (_request: unknown, _onProgress: unknown, hooks: any) => {
+        expect(hooks.signal.aborted).toBe(false);
+        return { id: 'task-1', status: 'SUCCEEDED', progress: 100, model_urls: { glb: 'https://example.com/model.glb' } };
+      });
+
+      await generationManager.cancelGeneration();
+      await generationManager.generateModel('steel beam', qualitySettings, vi.fn());
+
+      expect(provider.cancelTask).not.toHaveBeenCalled();
+      expect(pipeline.generateModel).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not submit a task when cancelled before it starts', async () => {
+      let releaseSpend!: () => void;
+      CREDIT_CONFIG.USER_MONTHLY_BUDGET = 1000;
+      (CreditService.getMonthlySpend as any).mockImplementationOnce(
+        () => new Promise((resolve) => (releaseSpend = () => resolve({ month: currentMonth(), user: 0, team: 0 }))),
+      );
+
+      try {
+        const generation = generationManager.generateModel('steel beam', qualitySettings, vi.fn());
+        const assertion = expect(generation).rejects.toThrow('Generation cancelled');
+        await vi.waitFor(() => expect(CreditService.getMonthlySpend).toHaveBeenCalled());
+
+        await generationManager.cancelGeneration();
+        releaseSpend();
+        await assertion;
+      } finally {
+        CREDIT_CONFIG.USER_MONTHLY_BUDGET = 0;
+      }
+
+      expect(pipeline.generateModel).not.toHaveBeenCalled();
+    });
+
+    it('should not fail the cancel when Meshy refuses to cancel a task', async () => {
+      (pipeline.generateModel as any).mockImplementation(runUntilAborted(['preview', 'preview-task-1']));
+      (provider.cancelTask as any).mockRejectedValue(new Error('Task already finished'));
+
+      const generation = generationManager.generateModel('steel beam', qualitySettings, vi.fn());
+      const assertion = expect(generation).rejects.toThrow('Generation cancelled');
+      await vi.waitFor(() => expect(tasksReported).toBe(true));
+
+      await expect(generationManager.cancelGeneration()).resolves.toBeUndefined();
+      await assertion;
+    });
+  });
+
+  describe('Generation State', () => {
+    const qualitySettings: QualitySettings = {
+      quality: 'high',
+      prioritizeSpeed: false,
+    };
+    const task = (id: string): MeshyTask => ({
+      id,
+      status: 'SUCCEEDED',
+      progress: 100,
+      model_urls: { glb: `https://example.com/${id}.glb` },
+      created_at: new Date().toISOString(),
+    });
+
+    afterEach(() => {
+      CREDIT_CONFIG.USER_MONTHLY_BUDGET = 0;
+    });
+
+    it('should walk a text generation through every phase to ready', async () => {
+      const progress: Array<{ stage: string; progress: number } | null> = [];
+      (pipeline.generateModel as any).mockImplementation(
+        async (_request: unknown, onProgress: (stage: string, progress: number) => void, hooks: any) => {
+          await hooks.onTaskCreated('preview', task('preview-task-1'));
+          onProgress('Processing geometry...', 40);
+          progress.push(generationManager.getGenerationProgress());
+          await hooks.onTaskCreated('refine', task('refine-task-1'));
+          onProgress('Finalizing model...', 85);
+          progress.push(generationManager.getGenerationProgress());
+          return task('refine-task-1');
+        },
+      );
+      const phases: string[] = [];
+      generationManager.onGenerationStateChanged((state) => {
+        if (phases[phases.length - 1] !== state.phase) phases.push(state.phase);
+      });
+
+      await generationManager.generateModel('steel beam', qualitySettings, vi.fn());
+      generationManager.updateDownload(50);
+      expect(generationManager.getGenerationProgress()).toEqual({ stage: 'Loading model...', progress: 50 });
+      generationManager.finishDownload();
+
+      expect(phases).toEqual(['queued', 'preview', 'preview_done', 'refining', 'downloading', 'ready']);
+      expect(progress).toEqual([
+        { stage: 'Processing geometry...', progress: 40 },
+        { stage: 'Finalizing model...', progress: 85 },
+      ]);
+      expect(generationManager.getGenerationProgress()).toBeNull();
+    });
+
+    it('should wait in preview_done until the preview is approved', async () => {
+      (pipeline.generatePreview as any).mockImplementation(async (_request: unknown, _onProgress: unknown, hooks: any) => {
+        await hooks.onTaskCreated('preview', task('preview-task-1'));
+        return task('preview-task-1');
+      });
+      (pipeline.refinePreview as any).mockImplementation(async (_id: string, _onProgress: unknown, hooks: any) => {
+        await hooks.onTaskCreated('refine', task('refine-task-1'));
+        return task('refine-task-1');
+      });
+
+      await generationManager.generatePreview('steel beam', qualitySettings, vi.fn());
+      expect(generationManager.getGenerationState().phase).toBe('preview_done');
+      expect(generationManager.getGenerationProgress()).toBeNull();
+
+      const phases: string[] = [];
+      generationManager.onGenerationStateChanged((state) => phases.push(state.phase));
+      await generationManager.approvePreview(vi.fn());
+
+      expect(phases).toEqual(['queued', 'refining', 'downloading']);
+    });
+
+    it('should end in failed with the error that stopped it', async () => {
+      (pipeline.generateModelFromImage as any).mockRejectedValue(new Error('Meshy task failed'));
+
+      await expect(
+        generationManager.generateModelFromImage('https://example.com/site.jpg', qualitySettings, vi.fn()),
+      ).rejects.toThrow('Meshy task failed');
+
+      expect(generationManager.getGenerationState()).toEqual(
+        expect.objectContaining({ phase: 'failed', error: 'Meshy task failed' }),
+      );
+    });
+
+    it('should fail a generation that does not fit the credit budget before anything starts', async () => {
+      CREDIT_CONFIG.USER_MONTHLY_BUDGET = 10;
+      (CreditService.getMonthlySpend as any).mockResolvedValue({ month: currentMonth(), user: 5, team: 5 });
+
+      await expect(generationManager.generateModel('steel beam', qualitySettings, vi.fn())).rejects.toThrow(
+        BudgetExceededError,
+      );
+
+      expect(generationManager.getGenerationState().phase).toBe('failed');
+      expect(pipeline.generateModel).not.toHaveBeenCalled();
+    });
+
+    it('should end in cancelled when the generation is cancelled', async () => {
+      let started = false;
+      (pipeline.remeshModel as any).mockImplementation(
+        (_request: unknown, _onProgress: unknown, hooks: any) =>
+          new Promise((_resolve, reject) => {
+            started = true;
+            hooks.signal.addEventListener('abort', () => {
+              const error = new Error('Generation cancelled');
+              error.name = 'AbortError';
+              reject(error);
+            });
+          }),
+      );
+      const source: ProjectRecord = {
+        id: 'rec-original',
+        user_email: 'test@example.com',
+        prompt: 'Steel I-beam 6m x 0.3m x 0.5m',
+        input_mode: 'text',
+        status: 'completed',
+        device_type: 'desktop',
+        art_style: 'realistic',
+        created_at: new Date().toISOString(),
+        download_count: 0,
+        task_id: 'refine-task-1',
+      };
+
+      const remesh = generationManager.remeshModel(
+        source,
+        { targetPolyCount: 5000, topology: 'triangle' },
+        qualitySettings,
+        vi.fn(),
+      );
+      const assertion = expect(remesh).rejects.toThrow('Generation cancelled');
+      await vi.waitFor(() => expect(started).toBe(true));
+
+      await generationManager.cancelGeneration();
+      await assertion;
+
+      expect(generationManager.getGenerationState().phase).toBe('cancelled');
+    });
+
+    it('should refuse a second generation while one is running', async () => {
+      let finish: (value: MeshyTask) => void = () => {};
+      (pipeline.generateModel as any).mockImplementationOnce(
+        () => new Promise<MeshyTask>((resolve) => { finish = resolve; }),
+      );
+
+      const first = generationManager.generateModel('steel beam', qualitySettings, vi.fn());
+      await vi.waitFor(() => expect(pipeline.generateModel).toHaveBeenCalledTimes(1));
+
+      expect(generationManager.isGenerationRunning()).toBe(true);
+      await expect(generationManager.generateModel('timber post', qualitySettings, vi.fn())).rejects.toThrow(
+        'A generation is already running',
+      );
+
+      finish(task('refine-task-1'));
+      await first;
+      expect(generationManager.isGenerationRunning()).toBe(false);
+      expect(pipeline.generateModel).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Project Records', () => {
+    const qualitySettings: QualitySettings = {
+      quality: 'high',
+      prioritizeSpeed: false,
+    };
+    const task = (id: string): MeshyTask => ({
+      id,
+      status: 'SUCCEEDED',
+      progress: 100,
+      model_urls: { glb: `https://example.com/${id}.glb` },
+      created_at: new Date().toISOString(),
+    });
+
+    it('should save the project as it starts and keep it on the latest task', async () => {
+      const createProject = vi.spyOn(repositories.projects, 'createProject');
+      const updateProject = vi.spyOn(repositories.projects, 'updateProject');
+      (pipeline.generateModel as any).mockImplementation(async (_request: unknown, _onProgress: unknown, hooks: any) => {
+        await hooks.onTaskCreated('preview', task('preview-task-1'));
+        await hooks.onTaskCreated('refine', task('refine-task-1'));
+        return task('refine-task-1');
+      });
+
+      const result = await generationManager.generateModel('steel beam', qualitySettings, vi.fn());
+
+      const id = result.project.id!;
+      expect(createProject).toHaveBeenCalledTimes(1);
+      expect(createProject).toHaveBeenCalledWith(
+        expect.objectContaining({ prompt: 'steel beam', input_mode: 'text' }),
+      );
+      expect(updateProject).toHaveBeenCalledWith(id, expect.objectContaining({ preview_task_id: 'preview-task-1' }));
+      expect(updateProject).toHaveBeenCalledWith(id, expect.objectContaining({ task_id: 'refine-task-1' }));
+      expect(updateProject).toHaveBeenLastCalledWith(
+        id,
+        expect.objectContaining({ status: 'completed', task_id: 'refine-task-1' }),
+      );
+      expect(await repositories.projects.getProject(id)).toMatchObject({
+        status: 'completed',
+        task_id: 'refine-task-1',
+      });
+    });
+
+    it('should finish the generation when its project cannot be saved', async () => {
+      vi.spyOn(repositories.projects, 'createProject').mockRejectedValueOnce(new Error('Failed to save project to database'));
+      const updateProject = vi.spyOn(repositories.projects, 'updateProject');
+      (pipeline.generateModel as any).mockImplementation(async (_request: unknown, _onProgress: unknown, hooks: any) => {
+        await hooks.onTaskCreated('refine', task('refine-task-1'));
+        return task('refine-task-1');
+      });
+
+      const result = await generationManager.generateModel('steel beam', qualitySettings, vi.fn());
+
+      expect(result.project.status).toBe('completed');
+      expect(result.project.id).toBeUndefined();
+      expect(updateProject).not.toHaveBeenCalled();
+    });
+
+    it('should mark the project failed with the reason', async () => {
+      (pipeline.generateModel as any).mockRejectedValue(new Error('Meshy task failed'));
+
+      await expect(generationManager.generateModel('steel beam', qualitySettings, vi.fn())).rejects.toThrow(
+        'Meshy task failed',
+      );
+
+      const id = mockState.currentProject!.id!;
+      expect(mockState.currentProject).toMatchObject({ status: 'failed' });
+      expect(await repositories.projects.getProject(id)).toMatchObject({
+        status: 'failed',
+        error_message: 'Meshy task failed',
+      });
+    });
+
+    it('should resume from a project the webhook already completed', async () => {
+      const completed = await repositories.projects.createProject({
+        user_email: 'test@example.com',
+        prompt: 'steel beam',
+        status: 'completed',
+        task_id: 'refine-task-1',
+        model_urls: { glb: 'https://example.com/refine-task-1.glb' },
+        device_type: 'desktop',
+        art_style: 'realistic',
+      });
+
+      const result = await generationManager.resumeJob(
+        {
+          id: 'job-1',
+          userEmail: 'test@example.com',
+          mode: 'text',
+          request: { prompt: 'steel beam' },
+          stage: 'refine',
+          previewTaskId: 'preview-task-1',
+          refineTaskId: 'refine-task-1',
+          projectId: completed.id,
+          createdAt: Date.now(),
+          updatedAt: Date.now(),
+        },
+        vi.fn(),
+      );
+
+      expect(pipeline.resumeGeneration).not.toHaveBeenCalled();
+      expect(result.task).toMatchObject({ id: 'refine-task-1', status: 'SUCCEEDED' });
+      expect(result.project.id).toBe(completed.id);
+      expect(generationManager.getGenerationState().phase).toBe('downloading');
+    });
+  });
+
   describe('Error Handling', () => {
     it('should handle network errors gracefully', async () => {
       const prompt = 'test prompt';
@@ -221,8 +1418,7 @@ describe('GenerationManager', () => {
       };
       const progressCallback = vi.fn();
 
-      const { MeshyAPI } = await import('../meshy-api');
-      (MeshyAPI.generateModel as any).mockRejectedValue(new Error('Network error'));
+      (pipeline.generateModel as any).mockRejectedValue(new Error('Network error'));
 
       await expect(
         generationManager.generateModel(prompt, qualitySettings, progressCallback)
@@ -244,8 +1440,7 @@ describe('GenerationManager', () => {
         created_at: new Date().toISOString(),
       };
 
-      const { MeshyAPI } = await import('../meshy-api');
-      (MeshyAPI.generateModel as any).mockRejectedValue(new Error('Polling failed'));
+      (pipeline.generateModel as any).mockRejectedValue(new Error('Polling failed'));
 
       await expect(
         generationManager.generateModel(prompt, qualitySettings, progressCallback)
@@ -260,8 +1455,7 @@ describe('GenerationManager', () => {
       };
       const progressCallback = vi.fn();
 
-      const { MeshyAPI } = await import('../meshy-api');
-      (MeshyAPI.generateModel as any).mockRejectedValue(new Error('Prompt is required'));
+      (pipeline.generateModel as any).mockRejectedValue(new Error('Prompt is required'));
 
       await expect(
         generationManager.generateModel(prompt, qualitySettings, progressCallback)
@@ -285,13 +1479,11 @@ describe('GenerationManager', () => {
         created_at: new Date().toISOString(),
       };
 
-      const { MeshyAPI } = await import('../meshy-api');
-      (MeshyAPI.generateModel as any).mockResolvedValue(mockTask);
-      (MeshyAPI.pollTaskUntilComplete as any).mockResolvedValue(mockTask);
+      (pipeline.generateModel as any).mockResolvedValue(mockTask);
 
       await generationManager.generateModel(prompt, qualitySettings, progressCallback);
 
-      expect(MeshyAPI.generateModel).toHaveBeenCalledWith(
+      expect(pipeline.generateModel).toHaveBeenCalledWith(
         expect.objectContaining({
           prompt: 'test prompt',
           artStyle: 'realistic',
@@ -300,7 +1492,8 @@ describe('GenerationManager', () => {
           topology: 'quad',
           enableRemesh: true,
         }),
-        expect.any(Function)
+        expect.any(Function),
+        expect.objectContaining({ onTaskCreated: expect.any(Function) })
       );
     });
 
@@ -319,13 +1512,11 @@ describe('GenerationManager', () => {
         created_at: new Date().toISOString(),
       };
 
-      const { MeshyAPI } = await import('../meshy-api');
-      (MeshyAPI.generateModel as any).mockResolvedValue(mockTask);
-      (MeshyAPI.pollTaskUntilComplete as any).mockResolvedValue(mockTask);
+      (pipeline.generateModel as any).mockResolvedValue(mockTask);
 
       await generationManager.generateModel(prompt, qualitySettings, progressCallback);
 
-      expect(MeshyAPI.generateModel).toHaveBeenCalledWith(
+      expect(pipeline.generateModel).toHaveBeenCalledWith(
         expect.objectContaining({
           prompt: 'test prompt',
           artStyle: 'realistic',
@@ -334,7 +1525,35 @@ describe('GenerationManager', () => {
           topology: 'quad',
           enableRemesh: true,
         }),
-        expect.any(Function)
+        expect.any(Function),
+        expect.objectContaining({ onTaskCreated: expect.any(Function) })
+      );
+    });
+
+    it('should apply template settings within the device polygon budget', async () => {
+      (pipeline.generateModel as any).mockResolvedValue({
+        id: 'test-task-123',
+        status: 'SUCCEEDED',
+        progress: 100,
+        created_at: new Date().toISOString(),
+      });
+
+      await generationManager.generateModel(
+        'steel I-beam, 6m x 0.3m x 0.5m',
+        { quality: 'high', prioritizeSpeed: false },
+        vi.fn(),
+        { artStyle: 'sculpture', topology: 'triangle', targetPolyCount: 50000, enablePBR: false }
+      );
+
+      expect(pipeline.generateModel).toHaveBeenCalledWith(
+        expect.objectContaining({
+          artStyle: 'sculpture',
+          enablePBR: false,
+          targetPolyCount: 30000,
+          topology: 'triangle',
+        }),
+        expect.any(Function),
+        expect.anything()
       );
     });
   });
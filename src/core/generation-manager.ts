@@ -4,115 +4,1733 @@
  * PROPRIETARY SOFTWARE - NOT OPEN SOURCE
  */
 
-import { MeshyAPI } from '../meshy-api';
+import { GenerationPipeline } from './generation-pipeline';
+import {
+  createGenerationProvider,
+  GenerationHooks,
+  GenerationProvider,
+  TaskStage,
+} from '../providers/generation-provider';
 import { DeviceUtils } from '../device-utils';
+import { BATCH_CONFIG } from '../config';
+import { JobQueue, GenerationJob } from '../services/job-queue';
+import { CacheManager } from '../services/cache-manager';
+import { createRepositories, Repositories } from '../repositories/repository';
+import { CreditService } from '../services/credit-service';
+import { logger } from '../utils/logger';
+import { abortableDelay, isAbortError, throwIfAborted } from '../utils/abort';
+import { hashGenerationRequest } from '../utils/request-hash';
+import {
+  GenerationState,
+  GenerationStateListener,
+  GenerationStateMachine,
+  isActivePhase,
+  isGenerationActive,
+} from './generation-state';
+import {
+  assertWithinBudget,
+  creditCost,
+  currentMonth,
+  estimateCredits,
+  estimateGenerationCost,
+  generationStages,
+  hasCreditBudget,
+} from '../cost/credit-cost';
 import {
   AppState,
+  BatchItem,
+  BatchRow,
+  CostEstimate,
+  GenerationInput,
+  MonthlySpend,
   QualitySettings,
   GenerationRequest,
+  GenerationVariant,
+  ImageGenerationRequest,
   MeshyTask,
+  MeshyTaskKind,
   ProjectRecord,
+  RecommendedSettings,
+  RemeshRequest,
+  RetextureRequest,
+  TargetSize,
 } from '../types';
 
+export type PreviewApprovalStatus =
+  | 'idle'
+  | 'previewing'
+  | 'awaiting_approval'
+  | 'refining'
+  | 'completed'
+  | 'failed';
+
+export interface PreviewApprovalState {
+  status: PreviewApprovalStatus;
+  request: GenerationRequest | null;
+  previewTask: MeshyTask | null;
+  project: ProjectRecord | null;
+  attempt: number; // 1 for the first preview, incremented on each rejection
+}
+
+interface PendingPreview {
+  job: GenerationJob | null;
+  request: GenerationRequest;
+  project: ProjectRecord;
+  startedAt: number;
+  attempt: number;
+}
+
+interface TrackedRun {
+  hooks: GenerationHooks;
+  finish: () => void;
+}
+
+type InFlightTask = { id: string; mode: MeshyTaskKind };
+
+// What cancelling stops: the on-screen generation, or a batch running beside it
+interface RunControls {
+  controller: AbortController;
+  tasks: Map<symbol, InFlightTask>;
+}
+
+interface VariantRun {
+  variant: GenerationVariant;
+  job: GenerationJob | null;
+  request: GenerationRequest;
+  project: ProjectRecord;
+  startedAt: number;
+}
+
+export const MAX_VARIANTS = 4;
+
+export interface RetryOptions {
+  tweaks?:
+    | Partial<GenerationRequest>
+    | Partial<ImageGenerationRequest>
+    | Partial<RetextureRequest>
+    | Partial<RemeshRequest>;
+  newSeed?: boolean; // Same settings, different geometry
+}
+
+// What to retexture: a completed project's model, or an uploaded GLB
+export interface RetextureSource {
+  project?: ProjectRecord;
+  modelUrl?: string;
+}
+
+// The new mesh density and layout for a remesh
+export type RemeshOptions = Pick<RemeshRequest, 'targetPolyCount' | 'topology'>;
+
+type ProjectLinks = Pick<ProjectRecord, 'retry_of' | 'parent_id' | 'variant_of'>;
+
 export class GenerationManager {
-  constructor(private state: AppState) {}
+  private jobQueue = JobQueue.getInstance();
+  private cacheManager = CacheManager.getInstance();
+  private pendingPreview: PendingPreview | null = null;
+  private variantRuns: VariantRun[] = [];
+  private notifyVariants: (variants: GenerationVariant[]) => void = () => {};
+  // Shared by every running workflow until cancelGeneration() aborts it; each
+  // generation gets a fresh one as it is queued, see queueGeneration()
+  private abortController = new AbortController();
+  // The provider task each running workflow is currently waiting on
+  private inFlightTasks = new Map<symbol, InFlightTask>();
+  // A batch import has its own, so cancelling one never stops the other
+  private batchRun: RunControls | null = null;
+  // Retextured children and the originals they came from, newest last
+  private retextures: ProjectRecord[] = [];
+  private retextureOriginals = new Map<string, ProjectRecord>();
+  // Remeshed versions and the projects they are versions of, newest last
+  private remeshes: ProjectRecord[] = [];
+  private remeshOriginals = new Map<string, ProjectRecord>();
+  // This month's spend, loaded once and then kept up to date as tasks are created
+  private monthlySpend: MonthlySpend | null = null;
+  // The generation on screen, from queued to ready; batch rows run outside it
+  private generation = new GenerationStateMachine();
+  private previewApproval: PreviewApprovalState = {
+    status: 'idle',
+    request: null,
+    previewTask: null,
+    project: null,
+    attempt: 0,
+  };
+
+  private provider: GenerationProvider;
+  private pipeline: GenerationPipeline;
+
+  constructor(
+    private state: AppState,
+    provider: GenerationProvider = createGenerationProvider(),
+    private repositories: Repositories = createRepositories(),
+  ) {
+    this.provider = provider;
+    this.pipeline = new GenerationPipeline(provider);
+  }
 
   async generateModel(
     prompt: string,
     qualitySettings: QualitySettings,
     progressCallback: (stage: string, progress: number) => void,
+    settings: RecommendedSettings = {},
+    targetSize?: TargetSize,
+    pinnedSeed?: number,
   ): Promise<{ task: MeshyTask; project: ProjectRecord }> {
-    const deviceSettings = DeviceUtils.getOptimizedSettings(qualitySettings);
-    const deviceInfo = DeviceUtils.getDeviceInfo();
+    const request = this.buildTextRequest(prompt, qualitySettings, settings, targetSize, pinnedSeed);
+    await this.beginGeneration('Initializing generation...', ['preview', 'refine']);
+    await this.discardUndecidedPreviews();
 
-    // Create in-memory project record (no database needed)
-    const project: ProjectRecord = {
-      id: `temp-${Date.now()}`, // Temporary ID for in-memory tracking
-      user_email: this.state.currentUser?.email || 'anonymous@local.dev',
-      prompt: prompt,
-      status: 'generating',
-      device_type: deviceInfo.type,
-      art_style: 'realistic',
-      polygon_count: deviceSettings.targetPolyCount,
-      created_at: new Date().toISOString(),
-      download_count: 0,
-    };
+    // The project record is saved to the repository as the generation starts, see startProject()
+    const project = this.buildProject(request, 'text');
+    const job = await this.queueJob(project.user_email, request, 'text');
 
-    const request: GenerationRequest = {
-      prompt: prompt,
-      artStyle: 'realistic',
+    // Generate the model with the configured provider, tracking progress
+    return this.runJob(job, project, this.state.generationStartTime, progressCallback, (onProgress, hooks) =>
+      this.pipeline.generateModel(request, onProgress, hooks),
+    );
+  }
+
+  async generateModelFromImage(
+    imageUrl: string,
+    qualitySettings: QualitySettings,
+    progressCallback: (stage: string, progress: number) => void,
+    description?: string,
+    targetSize?: TargetSize,
+  ): Promise<{ task: MeshyTask; project: ProjectRecord }> {
+    const deviceSettings = DeviceUtils.getOptimizedSettings(qualitySettings);
+
+    const request: ImageGenerationRequest = {
+      imageUrl,
+      description,
       enablePBR: deviceSettings.enablePBR,
       targetPolyCount: deviceSettings.targetPolyCount,
       topology: deviceSettings.topology,
       enableRemesh: deviceSettings.enableRemesh,
+      quality: qualitySettings.quality,
+      ...(targetSize && { targetSize }),
+    };
+    await this.beginGeneration('Initializing generation...', ['image']);
+    await this.discardUndecidedPreviews();
+
+    const project = this.buildProject(request, 'image');
+    const job = await this.queueJob(project.user_email, request, 'image');
+
+    return this.runJob(job, project, this.state.generationStartTime, progressCallback, (onProgress, hooks) =>
+      this.pipeline.generateModelFromImage(request, onProgress, hooks),
+    );
+  }
+
+  /**
+   * Puts new textures on existing geometry. A project's model becomes the
+   * child of its original project (retexturing a retexture still hangs the
+   * result off that original); an uploaded GLB has no parent.
+   */
+  async retextureModel(
+    source: RetextureSource,
+    texturePrompt: string,
+    qualitySettings: QualitySettings,
+    progressCallback: (stage: string, progress: number) => void,
+  ): Promise<{ task: MeshyTask; project: ProjectRecord }> {
+    const parent = source.project;
+    if (parent && parent.status !== 'completed') {
+      throw new Error('Only a finished model can be retextured');
+    }
+
+    const modelUrl = parent && !parent.task_id ? parent.model_urls?.glb : source.modelUrl;
+    if (!parent?.task_id && !modelUrl) {
+      throw new Error('Retexture failed: there is no model to retexture');
+    }
+
+    const deviceSettings = DeviceUtils.getOptimizedSettings(qualitySettings);
+    const request: RetextureRequest = {
+      ...(parent?.task_id ? { sourceTaskId: parent.task_id } : { modelUrl }),
+      texturePrompt: texturePrompt.trim(),
+      enablePBR: deviceSettings.enablePBR,
+      quality: qualitySettings.quality,
+      ...(parent?.target_size && { targetSize: parent.target_size }),
     };
 
+    await this.beginGeneration('Retexturing model...', ['retexture']);
+
+    const originalId = parent ? parent.parent_id || parent.id : undefined;
+    if (parent && !parent.parent_id && parent.id) {
+      this.retextureOriginals.set(parent.id, parent);
+    }
+
+    logger.info('Retexturing model', 'GenerationManager', {
+      parentId: originalId,
+      source: request.sourceTaskId ? 'task' : 'model',
+    });
+
+    const project = this.buildProject(request, 'retexture', parent?.user_email, {
+      parent_id: originalId,
+    });
+    const job = await this.queueJob(project.user_email, request, 'retexture', {
+      parentProjectId: originalId,
+    });
+
+    return this.runChild(this.retextures, project, () =>
+      this.runJob(job, project, this.state.generationStartTime, progressCallback, (onProgress, hooks) =>
+        this.pipeline.retextureModel(request, onProgress, hooks),
+      ),
+    );
+  }
+
+  /**
+   * Rebuilds a finished model's mesh at a new polygon count and topology,
+   * keeping its shape and textures. Every remesh is a sibling version of the
+   * project first remeshed, however many remeshes deep it starts from.
+   */
+  async remeshModel(
+    source: ProjectRecord,
+    options: RemeshOptions,
+    qualitySettings: QualitySettings,
+    progressCallback: (stage: string, progress: number) => void,
+  ): Promise<{ task: MeshyTask; project: ProjectRecord }> {
+    if (source.status !== 'completed') {
+      throw new Error('Only a finished model can be remeshed');
+    }
+    if (!source.task_id && !source.model_urls?.glb) {
+      throw new Error('Remesh failed: there is no model to remesh');
+    }
+
+    const request: RemeshRequest = {
+      ...(source.task_id ? { sourceTaskId: source.task_id } : { modelUrl: source.model_urls?.glb }),
+      targetPolyCount: Math.round(options.targetPolyCount),
+      topology: options.topology,
+      description: source.prompt,
+      quality: qualitySettings.quality,
+      ...(source.target_size && { targetSize: source.target_size }),
+    };
+
+    await this.beginGeneration('Remeshing model...', ['remesh']);
+
+    const originalId = source.variant_of || source.id;
+    if (!source.variant_of && source.id) {
+      this.remeshOriginals.set(source.id, source);
+    }
+
+    logger.info('Remeshing model', 'GenerationManager', {
+      variantOf: originalId,
+      polyCount: request.targetPolyCount,
+      topology: request.topology,
+    });
+
+    const project = this.buildProject(request, 'remesh', source.user_email, {
+      variant_of: originalId,
+    });
+    const job = await this.queueJob(project.user_email, request, 'remesh', {
+      parentProjectId: originalId,
+    });
+
+    return this.runChild(this.remeshes, project, () =>
+      this.runJob(job, project, this.state.generationStartTime, progressCallback, (onProgress, hooks) =>
+        this.pipeline.remeshModel(request, onProgress, hooks),
+      ),
+    );
+  }
+
+  /**
+   * The project first remeshed and every remeshed version of it, for any of
+   * those projects
+   */
+  getModelVariants(project: ProjectRecord | null): ProjectRecord[] {
+    const originalId = project?.variant_of || project?.id;
+    if (!originalId) return [];
+
+    const siblings = this.remeshes.filter((variant) => variant.variant_of === originalId);
+    if (siblings.length === 0) return [];
+
+    const original = this.remeshOriginals.get(originalId);
+    return [...(original ? [original] : []), ...siblings].map((member) => ({ ...member }));
+  }
+
+  /**
+   * The original project and its retextures, for the project or any of its
+   * retextured children
+   */
+  getRetextureFamily(project: ProjectRecord | null): ProjectRecord[] {
+    const originalId = project?.parent_id || project?.id;
+    if (!originalId) return [];
+
+    const children = this.retextures.filter((child) => child.parent_id === originalId);
+    if (children.length === 0) return [];
+
+    const original = this.retextureOriginals.get(originalId);
+    return [...(original ? [original] : []), ...children].map((member) => ({ ...member }));
+  }
+
+  // Lists a retexture or remesh as soon as it starts; a failed one stays listed as failed
+  private async runChild(
+    children: ProjectRecord[],
+    project: ProjectRecord,
+    run: () => Promise<{ task: MeshyTask; project: ProjectRecord }>,
+  ): Promise<{ task: MeshyTask; project: ProjectRecord }> {
+    children.push(project);
+
+    const result = await run();
+    children[children.indexOf(project)] = result.project;
+    return result;
+  }
+
+  /**
+   * A finished model of exactly this request - from this browser's cache or
+   * the team's projects - to offer before paying to generate it again
+   */
+  async findExistingResult(
+    prompt: string,
+    qualitySettings: QualitySettings,
+    settings: RecommendedSettings = {},
+    pinnedSeed?: number,
+  ): Promise<ProjectRecord | null> {
+    const requestHash = hashGenerationRequest(
+      this.buildTextRequest(prompt, qualitySettings, settings, undefined, pinnedSeed),
+    );
+
+    const cached = await this.cacheManager.getGenerationResult(requestHash);
+    if (cached?.model_urls?.glb) {
+      return cached;
+    }
+
     try {
-      // Generate the model using Meshy API with progress tracking
-      const task = await MeshyAPI.generateModel(request, progressCallback);
+      const project = await this.repositories.projects.findCompletedProject(requestHash);
+      return project?.model_urls?.glb ? project : null;
+    } catch (error) {
+      // Not knowing about an earlier result must never block a generation
+      logger.warn('Failed to look up earlier generations', 'GenerationManager', error);
+      return null;
+    }
+  }
 
-      // Update in-memory project with completion data
-      const generationTime = Math.round(
-        (Date.now() - this.state.generationStartTime) / 1000,
+  /**
+   * Generates only the untextured preview and stops there. The refine stage
+   * (which costs most of the credits) waits for approvePreview().
+   */
+  async generatePreview(
+    prompt: string,
+    qualitySettings: QualitySettings,
+    progressCallback: (stage: string, progress: number) => void,
+    settings: RecommendedSettings = {},
+    targetSize?: TargetSize,
+    pinnedSeed?: number,
+  ): Promise<{ previewTask: MeshyTask; project: ProjectRecord }> {
+    const request = this.buildTextRequest(prompt, qualitySettings, settings, targetSize, pinnedSeed);
+    await this.beginGeneration('Initializing generation...', ['preview']);
+    await this.discardUndecidedPreviews();
+
+    return this.startPreview(request, this.state.generationStartTime, 1, progressCallback);
+  }
+
+  async approvePreview(
+    progressCallback: (stage: string, progress: number) => void,
+  ): Promise<{ task: MeshyTask; project: ProjectRecord }> {
+    const pending = this.pendingPreview;
+    const previewTask = this.previewApproval.previewTask;
+    if (!pending || !previewTask || this.previewApproval.status !== 'awaiting_approval') {
+      throw new Error('There is no preview waiting for approval');
+    }
+    await this.beginGeneration('Applying textures...', ['refine']);
+
+    this.setPreviewApproval({ status: 'refining' });
+
+    try {
+      const result = await this.runJob(
+        pending.job,
+        pending.project,
+        pending.startedAt,
+        progressCallback,
+        (onProgress, hooks) =>
+          this.pipeline.refinePreview(previewTask.id, onProgress, hooks, pending.request.quality),
       );
-      
-      const completedProject: ProjectRecord = {
-        ...project,
-        status: 'completed',
-        model_urls: task.model_urls,
-        generation_time_seconds: generationTime,
-        thumbnail_url: task.thumbnail_url,
-      };
 
+      this.pendingPreview = null;
+      this.setPreviewApproval({ status: 'completed', project: result.project });
+      return result;
+    } catch (error) {
+      this.pendingPreview = null;
+      this.setPreviewApproval({ status: 'failed' });
+      throw error;
+    }
+  }
+
+  /**
+   * Discards the current preview and generates a new one with a different seed
+   */
+  async rejectPreview(
+    progressCallback: (stage: string, progress: number) => void,
+  ): Promise<{ previewTask: MeshyTask; project: ProjectRecord }> {
+    const pending = this.pendingPreview;
+    if (!pending || this.previewApproval.status !== 'awaiting_approval') {
+      throw new Error('There is no preview waiting for approval');
+    }
+    await this.beginGeneration('Regenerating preview...', ['preview']);
+
+    await this.updateJob(pending.job, { stage: 'cancelled', error: 'Preview rejected' });
+    await this.failProject(pending.project, 'Preview rejected');
+
+    logger.info('Preview rejected, regenerating', 'GenerationManager', {
+      attempt: pending.attempt,
+    });
+
+    const request: GenerationRequest = {
+      ...pending.request,
+      seed: this.nextSeed(pending.request.seed),
+      seedPinned: undefined,
+    };
+
+    return this.startPreview(request, Date.now(), pending.attempt + 1, progressCallback);
+  }
+
+  getPreviewApproval(): PreviewApprovalState {
+    return { ...this.previewApproval };
+  }
+
+  /**
+   * Fans out several previews of one prompt with different seeds. Variants
+   * are tracked independently - one failing doesn't fail the others - and
+   * none is refined until selectVariant().
+   */
+  async generateVariants(
+    prompt: string,
+    qualitySettings: QualitySettings,
+    count: number,
+    onUpdate: (variants: GenerationVariant[]) => void,
+    settings: RecommendedSettings = {},
+    targetSize?: TargetSize,
+  ): Promise<GenerationVariant[]> {
+    if (!Number.isInteger(count) || count < 2 || count > MAX_VARIANTS) {
+      throw new Error(`Variant count must be between 2 and ${MAX_VARIANTS}`);
+    }
+
+    const baseRequest = this.buildTextRequest(prompt, qualitySettings, settings, targetSize);
+    await this.beginGeneration('Initializing generation...', Array<TaskStage>(count).fill('preview'));
+    await this.discardUndecidedPreviews();
+
+    const seeds = new Set<number>();
+    while (seeds.size < count) {
+      seeds.add(this.nextSeed());
+    }
+
+    const variantGroupId = `variants_${Date.now()}`;
+    this.notifyVariants = onUpdate;
+    this.variantRuns = await Promise.all(
+      Array.from(seeds).map(async (seed, index) => {
+        const request: GenerationRequest = { ...baseRequest, seed };
+        const project = this.buildProject(request, 'text');
+        const job = await this.queueJob(project.user_email, request, 'text', {
+          approvalRequired: true,
+          variantGroupId,
+        });
+
+        return {
+          variant: this.createVariant(index, seed),
+          job,
+          request,
+          project,
+          startedAt: this.state.generationStartTime,
+        };
+      }),
+    );
+    onUpdate(this.getVariants());
+    this.startVariantPreviews(count);
+
+    await Promise.all(
+      this.variantRuns.map((run) =>
+        this.runVariant(run, (progressCallback, hooks) =>
+          this.pipeline.generatePreview(run.request, progressCallback, hooks),
+        ),
+      ),
+    );
+
+    this.settleVariantPreviews();
+    return this.getVariants();
+  }
+
+  /**
+   * Generates every row of a batch import, a few at a time, with task starts
+   * spaced out to stay inside the proxy's rate limit. A failed row doesn't
+   * stop the others; once cancelled, rows not yet started stay cancelled.
+   * Runs alongside any preview the user is deciding on.
+   */
+  async generateBatch(
+    rows: BatchRow[],
+    qualitySettings: QualitySettings,
+    onUpdate: (items: BatchItem[]) => void,
+  ): Promise<BatchItem[]> {
+    // The whole batch must fit the budget; the proxy still stops any row that doesn't
+    await this.checkBudget(rows.flatMap(() => generationStages({ mode: 'text' })));
+
+    const batchId = `batch_${Date.now()}`;
+    const items: BatchItem[] = rows.map((row, index) => ({
+      id: `${batchId}-${index + 1}`,
+      row,
+      status: 'queued',
+      stage: 'Queued',
+      progress: 0,
+    }));
+    const snapshot = () => items.map((item) => ({ ...item }));
+    const update = (index: number, updates: Partial<BatchItem>) => {
+      items[index] = { ...items[index], ...updates };
+      onUpdate(snapshot());
+    };
+    onUpdate(snapshot());
+
+    logger.info('Starting batch generation', 'GenerationManager', { batchId, rows: rows.length });
+
+    const batchRun: RunControls = { controller: new AbortController(), tasks: new Map() };
+    this.batchRun = batchRun;
+    const signal = batchRun.controller.signal;
+    let nextIndex = 0;
+    let nextStartAt = 0;
+    const worker = async () => {
+      while (nextIndex < items.length && !signal.aborted) {
+        const index = nextIndex++;
+        // Claim the next start slot before waiting so workers never start together
+        const startAt = Math.max(Date.now(), nextStartAt);
+        nextStartAt = startAt + BATCH_CONFIG.START_INTERVAL_MS;
+
+        try {
+          await abortableDelay(startAt - Date.now(), signal);
+        } catch {
+          return;
+        }
+        await this.runBatchItem(items[index].row, qualitySettings, batchRun, (updates) => update(index, updates));
+      }
+    };
+
+    try {
+      await Promise.all(
+        Array.from({ length: Math.min(BATCH_CONFIG.MAX_CONCURRENT, items.length) }, worker),
+      );
+    } finally {
+      if (this.batchRun === batchRun) {
+        this.batchRun = null;
+      }
+    }
+
+    items.forEach((item, index) => {
+      if (item.status === 'queued') {
+        update(index, { status: 'cancelled', stage: 'Cancelled' });
+      }
+    });
+    return snapshot();
+  }
+
+  /**
+   * Restores a multi-variant run from its persisted jobs (same variantGroupId)
+   */
+  async resumeVariants(
+    jobs: GenerationJob[],
+    onUpdate: (variants: GenerationVariant[]) => void,
+  ): Promise<GenerationVariant[]> {
+    this.queueResumedGeneration();
+    await this.discardUndecidedPreviews();
+
+    this.notifyVariants = onUpdate;
+    this.variantRuns = jobs.map((job, index) => {
+      const request = job.request as GenerationRequest;
       return {
-        task,
-        project: completedProject,
+        variant: this.createVariant(index, request.seed ?? 0),
+        job,
+        request,
+        project: { ...this.buildProject(request, 'text', job.userEmail), id: job.projectId },
+        startedAt: job.createdAt,
       };
+    });
+    onUpdate(this.getVariants());
+    this.startVariantPreviews(jobs.length);
+
+    await Promise.all(
+      this.variantRuns.map((run) => {
+        const previewTaskId = run.job?.previewTaskId;
+        return this.runVariant(run, (progressCallback, hooks) =>
+          previewTaskId
+            ? this.pipeline.pollPreviewStage(previewTaskId, progressCallback, run.request.quality, hooks.signal)
+            : Promise.reject(new Error('Generation was interrupted before it started')),
+        );
+      }),
+    );
+
+    this.settleVariantPreviews();
+    return this.getVariants();
+  }
+
+  /**
+   * Refines the chosen variant and drops the rest
+   */
+  async selectVariant(
+    variantId: string,
+    progressCallback: (stage: string, progress: number) => void,
+  ): Promise<{ task: MeshyTask; project: ProjectRecord }> {
+    const run = this.variantRuns.find((candidate) => candidate.variant.id === variantId);
+    const previewTask = run?.variant.previewTask;
+    if (!run || !previewTask || run.variant.status !== 'ready') {
+      throw new Error('That variant is not ready to refine');
+    }
+    await this.beginGeneration('Applying textures...', ['refine']);
+
+    for (const other of this.variantRuns) {
+      if (other !== run) {
+        await this.discardVariant(other, 'Variant not selected');
+      }
+    }
+
+    this.updateVariant(run, { status: 'refining', stage: 'Applying textures...' });
+
+    try {
+      const result = await this.runJob(run.job, run.project, run.startedAt, progressCallback, (onProgress, hooks) =>
+        this.pipeline.refinePreview(previewTask.id, onProgress, hooks, run.request.quality),
+      );
+
+      this.updateVariant(run, { status: 'selected', stage: 'Refined' });
+      return result;
     } catch (error) {
-      // Update in-memory project with failure status (for potential future use)
-      project.status = 'failed';
+      this.updateVariant(run, {
+        status: 'failed',
+        stage: 'Failed',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
       throw error;
     }
   }
 
-  async retryGeneration(
-    _projectId: string,
-    _progressCallback: (stage: string, progress: number) => void,
-  ): Promise<MeshyTask> {
-    // For self-contained mode, retry is not supported since we don't persist projects
-    throw new Error('Retry generation is not available in self-contained mode. Please create a new generation instead.');
+  getVariants(): GenerationVariant[] {
+    return this.variantRuns.map((run) => ({ ...run.variant }));
   }
 
-  async cancelGeneration(): Promise<void> {
-    if (this.state.currentTask) {
+  /**
+   * Jobs left running with the provider by a previous session of this user
+   */
+  async getResumableJobs(): Promise<GenerationJob[]> {
+    try {
+      return await this.jobQueue.getUnfinishedJobs(this.state.currentUser?.email);
+    } catch (error) {
+      logger.warn('Failed to read persisted generation jobs', 'GenerationManager', error);
+      return [];
+    }
+  }
+
+  async resumeJob(
+    job: GenerationJob,
+    progressCallback: (stage: string, progress: number) => void,
+  ): Promise<{ task: MeshyTask; project: ProjectRecord }> {
+    const mode = job.mode || 'text';
+    const project = {
+      ...this.buildProject(
+        job.request,
+        mode,
+        job.userEmail,
+        mode === 'remesh' ? { variant_of: job.parentProjectId } : { parent_id: job.parentProjectId },
+      ),
+      id: job.projectId,
+    };
+    const firstTaskId =
+      mode === 'image' ? job.imageTaskId
+      : mode === 'retexture' ? job.retextureTaskId
+      : mode === 'remesh' ? job.remeshTaskId
+      : job.previewTaskId;
+
+    this.queueResumedGeneration();
+    if (!firstTaskId) {
+      // The page went away before the provider returned a task ID - nothing to resume
+      await this.failProject(project, 'Generation was interrupted before a task was created');
+      await this.updateJob(job, {
+        stage: 'failed',
+        error: 'Generation was interrupted before a task was created',
+      });
+      const error = new Error('Generation was interrupted before it started. Please generate again.');
+      this.endGeneration(error);
+      throw error;
+    }
+
+    logger.info('Resuming persisted generation job', 'GenerationManager', {
+      jobId: job.id,
+      stage: job.stage,
+    });
+
+    if (mode === 'retexture' || mode === 'remesh') {
+      return this.runChild(mode === 'retexture' ? this.retextures : this.remeshes, project, () =>
+        this.resumeRun(
+          job,
+          project,
+          progressCallback,
+          (onProgress, hooks) =>
+            mode === 'retexture'
+              ? this.pipeline.resumeRetexture(firstTaskId, onProgress, job.request.quality, hooks.signal)
+              : this.pipeline.resumeRemesh(firstTaskId, onProgress, job.request.quality, hooks.signal),
+          { id: firstTaskId, mode },
+        ),
+      );
+    }
+
+    return this.resumeRun(
+      job,
+      project,
+      progressCallback,
+      (onProgress, hooks) =>
+        mode === 'image'
+          ? this.pipeline.resumeImageGeneration(
+              firstTaskId,
+              onProgress,
+              job.request.quality,
+              hooks.signal,
+            )
+          : this.pipeline.resumeGeneration(
+              { previewTaskId: firstTaskId, refineTaskId: job.refineTaskId },
+              onProgress,
+              hooks,
+              job.request.quality,
+            ),
+      { id: job.refineTaskId || firstTaskId, mode },
+    );
+  }
+
+  /**
+   * Polls a resumed job's task again, unless its Projects record shows the
+   * Meshy webhook already settled it while no tab was open
+   */
+  private async resumeRun(
+    job: GenerationJob,
+    project: ProjectRecord,
+    progressCallback: (stage: string, progress: number) => void,
+    run: (
+      progressCallback: (stage: string, progress: number) => void,
+      hooks: GenerationHooks,
+    ) => Promise<MeshyTask>,
+    resumedTask: { id: string; mode: MeshyTaskKind },
+  ): Promise<{ task: MeshyTask; project: ProjectRecord }> {
+    const record = job.projectId ? await this.repositories.projects.getProject(job.projectId) : null;
+
+    if (record?.status === 'completed' && record.model_urls?.glb) {
+      const task: MeshyTask = {
+        id: record.task_id || resumedTask.id,
+        status: 'SUCCEEDED',
+        progress: 100,
+        model_urls: record.model_urls,
+        thumbnail_url: record.thumbnail_url,
+        created_at: record.created_at,
+        finished_at: record.completed_at,
+      };
+      await this.updateJob(job, { stage: 'completed', result: task });
+      await this.cacheManager.cacheGenerationResult(record);
+      this.startDownload();
+      return { task, project: record };
+    }
+
+    if (record?.status === 'failed') {
+      const error = new Error(
+        `Generation failed while the app was closed: ${record.error_message || 'Unknown error'}. Please generate again.`,
+      );
+      this.state.currentProject = record;
+      this.endGeneration(error);
+      await this.updateJob(job, { stage: 'failed', error: error.message });
+      throw error;
+    }
+
+    return this.runJob(job, project, job.createdAt, progressCallback, run, resumedTask);
+  }
+
+  /**
+   * Restores a preview that was generated (or still generating) when the
+   * page went away, without starting the refine stage
+   */
+  async resumePreviewJob(
+    job: GenerationJob,
+    progressCallback: (stage: string, progress: number) => void,
+  ): Promise<{ previewTask: MeshyTask; project: ProjectRecord }> {
+    this.queueResumedGeneration();
+    if (!job.previewTaskId) {
+      await this.updateJob(job, {
+        stage: 'failed',
+        error: 'Generation was interrupted before a task was created',
+      });
+      const error = new Error('Generation was interrupted before it started. Please generate again.');
+      this.endGeneration(error);
+      throw error;
+    }
+
+    const request = job.request as GenerationRequest;
+    const project = { ...this.buildProject(request, 'text', job.userEmail), id: job.projectId };
+    this.pendingPreview = { job, request, project, startedAt: job.createdAt, attempt: 1 };
+    this.setPreviewApproval({ status: 'previewing', request, previewTask: null, project, attempt: 1 });
+
+    const previewTaskId = job.previewTaskId;
+    return this.awaitPreview(
+      progressCallback,
+      (onProgress, hooks) =>
+        this.pipeline.pollPreviewStage(previewTaskId, onProgress, request.quality, hooks.signal),
+      previewTaskId,
+    );
+  }
+
+  private async startPreview(
+    request: GenerationRequest,
+    startedAt: number,
+    attempt: number,
+    progressCallback: (stage: string, progress: number) => void,
+  ): Promise<{ previewTask: MeshyTask; project: ProjectRecord }> {
+    const project = this.buildProject(request, 'text');
+    const job = await this.queueJob(project.user_email, request, 'text', {
+      approvalRequired: true,
+    });
+
+    this.pendingPreview = { job, request, project, startedAt, attempt };
+    this.setPreviewApproval({ status: 'previewing', request, previewTask: null, project, attempt });
+
+    return this.awaitPreview(progressCallback, (onProgress, hooks) =>
+      this.pipeline.generatePreview(request, onProgress, hooks),
+    );
+  }
+
+  private async awaitPreview(
+    progressCallback: (stage: string, progress: number) => void,
+    preview: (
+      progressCallback: (stage: string, progress: number) => void,
+      hooks: GenerationHooks,
+    ) => Promise<MeshyTask>,
+    resumedTaskId?: string,
+  ): Promise<{ previewTask: MeshyTask; project: ProjectRecord }> {
+    const pending = this.pendingPreview!;
+    await this.startProject(pending.job, pending.project);
+    const tracked = this.trackRun(
+      pending.job,
+      pending.project,
+      resumedTaskId ? { id: resumedTaskId, mode: 'text' } : undefined,
+      (stage) => this.enterTaskStage(stage),
+    );
+    if (resumedTaskId) {
+      this.enterTaskStage('preview');
+    }
+
+    try {
+      throwIfAborted(tracked.hooks.signal);
+      const previewTask = await preview(this.trackProgress(progressCallback), tracked.hooks);
+      await this.updateJob(pending.job, { stage: 'awaiting_approval' });
+      if (previewTask.thumbnail_url) {
+        await this.saveProject(pending.project, { thumbnail_url: previewTask.thumbnail_url });
+      }
+      this.setPreviewApproval({ status: 'awaiting_approval', previewTask });
+      this.enterTaskStage('preview');
+      const { phase } = this.generation.getState();
+      if (phase === 'preview') {
+        this.generation.transition(phase, 'preview_done');
+      }
+      return { previewTask, project: pending.project };
+    } catch (error) {
+      this.pendingPreview = null;
+      this.setPreviewApproval({ status: 'failed' });
+      this.endGeneration(error);
+      await this.failProject(pending.project, error);
+      await this.updateJob(pending.job, {
+        stage: isAbortError(error) ? 'cancelled' : 'failed',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    } finally {
+      tracked.finish();
+    }
+  }
+
+  private async runVariant(
+    run: VariantRun,
+    preview: (
+      progressCallback: (stage: string, progress: number) => void,
+      hooks: GenerationHooks,
+    ) => Promise<MeshyTask>,
+  ): Promise<void> {
+    const isDiscarded = () => run.variant.status === 'discarded';
+    const resumedTaskId = run.job?.previewTaskId;
+    await this.startProject(run.job, run.project);
+    const tracked = this.trackRun(
+      run.job,
+      run.project,
+      resumedTaskId ? { id: resumedTaskId, mode: 'text' } : undefined,
+    );
+
+    try {
+      throwIfAborted(tracked.hooks.signal);
+      const previewTask = await preview(
+        (stage, progress) => {
+          // Preview progress runs 0-60% of a full generation; show it as 0-100%
+          if (!isDiscarded()) {
+            this.updateVariant(run, { stage, progress: Math.min(100, Math.round((progress / 60) * 100)) });
+          }
+        },
+        tracked.hooks,
+      );
+
+      if (isDiscarded()) return;
+      await this.updateJob(run.job, { stage: 'awaiting_approval' });
+      if (previewTask.thumbnail_url) {
+        await this.saveProject(run.project, { thumbnail_url: previewTask.thumbnail_url });
+      }
+      this.updateVariant(run, {
+        status: 'ready',
+        stage: 'Preview ready',
+        progress: 100,
+        previewTask,
+      });
+    } catch (error) {
+      if (isDiscarded()) return;
+      if (isAbortError(error)) {
+        await this.discardVariant(run, 'Generation cancelled');
+        return;
+      }
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      logger.warn('Variant preview failed', 'GenerationManager', {
+        variantId: run.variant.id,
+        error: message,
+      });
+      await this.updateJob(run.job, { stage: 'failed', error: message });
+      await this.failProject(run.project, error);
+      this.updateVariant(run, { status: 'failed', stage: 'Failed', error: message });
+    } finally {
+      tracked.finish();
+    }
+  }
+
+  // Like runJob, but a failure is recorded on the row rather than thrown
+  private async runBatchItem(
+    row: BatchRow,
+    qualitySettings: QualitySettings,
+    batchRun: RunControls,
+    update: (updates: Partial<BatchItem>) => void,
+  ): Promise<void> {
+    const request = this.buildTextRequest(row.prompt, qualitySettings, row.settings, row.targetSize);
+    const project = this.buildProject(request, 'text');
+    update({ status: 'generating', stage: 'Starting...', project });
+
+    const startedAt = Date.now();
+    const job = await this.queueJob(project.user_email, request, 'text');
+    const tracked = this.trackRun(job, project, undefined, undefined, batchRun);
+
+    try {
+      throwIfAborted(tracked.hooks.signal);
+      const task = await this.pipeline.generateModel(
+        request,
+        (stage, progress) => update({ stage, progress }),
+        tracked.hooks,
+      );
+
+      await this.updateJob(job, { stage: 'completed', result: task });
+
+      const completed = await this.finishProject(project, task, startedAt);
+      await this.cacheManager.cacheGenerationResult(completed);
+      update({ status: 'completed', stage: 'Ready', progress: 100, project: completed });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      const cancelled = isAbortError(error);
+      if (!cancelled) {
+        logger.warn('Batch row failed', 'GenerationManager', { line: row.line, error: message });
+      }
+
+      await this.updateJob(job, { stage: cancelled ? 'cancelled' : 'failed', error: message });
+      await this.failProject(project, error);
+      update({
+        status: cancelled ? 'cancelled' : 'failed',
+        stage: cancelled ? 'Cancelled' : 'Failed',
+        project: { ...project },
+        ...(!cancelled && { error: message }),
+      });
+    } finally {
+      tracked.finish();
+    }
+  }
+
+  private createVariant(index: number, seed: number): GenerationVariant {
+    return {
+      id: `variant-${index + 1}`,
+      seed,
+      status: 'generating',
+      stage: 'Queued',
+      progress: 0,
+      previewTask: null,
+    };
+  }
+
+  private updateVariant(run: VariantRun, updates: Partial<GenerationVariant>) {
+    run.variant = { ...run.variant, ...updates };
+    this.notifyVariants(this.getVariants());
+
+    // The previews together make up the preview phase
+    const state = this.generation.getState();
+    const running = this.variantRuns.filter(
+      (candidate) => candidate.variant.status === 'generating' || candidate.variant.status === 'ready',
+    );
+    if (state.phase === 'preview' && running.length > 0) {
+      const total = running.reduce((sum, candidate) => sum + candidate.variant.progress, 0);
+      this.generation.update(state.stage, total / running.length);
+    }
+  }
+
+  private startVariantPreviews(count: number) {
+    const { phase } = this.generation.getState();
+    if (phase === 'queued') {
+      this.generation.transition(phase, 'preview', `Generating ${count} previews...`);
+    }
+  }
+
+  // Done once any variant is ready to pick; failed only when every one of them failed
+  private settleVariantPreviews() {
+    const { phase } = this.generation.getState();
+    if (phase !== 'preview') return;
+
+    const variants = this.getVariants();
+    if (variants.some((variant) => variant.status === 'ready')) {
+      this.generation.transition(phase, 'preview_done', 'Variants ready');
+    } else {
+      const failed = variants.find((variant) => variant.status === 'failed');
+      this.generation.transition(phase, 'failed', 'Failed', failed?.error || 'All variants failed');
+    }
+  }
+
+  private async discardVariant(run: VariantRun, reason: string): Promise<void> {
+    if (run.variant.status !== 'generating' && run.variant.status !== 'ready') return;
+
+    this.updateVariant(run, { status: 'discarded', stage: 'Discarded' });
+    await this.updateJob(run.job, { stage: 'cancelled', error: reason });
+    await this.failProject(run.project, reason);
+  }
+
+  // A new generation replaces any previews the user never decided on
+  private async discardUndecidedPreviews(): Promise<void> {
+    for (const run of this.variantRuns) {
+      await this.discardVariant(run, 'Superseded by a new generation');
+    }
+    this.variantRuns = [];
+
+    if (!this.pendingPreview) return;
+
+    await this.updateJob(this.pendingPreview.job, {
+      stage: 'cancelled',
+      error: 'Preview superseded by a new generation',
+    });
+    await this.failProject(this.pendingPreview.project, 'Preview superseded by a new generation');
+    this.pendingPreview = null;
+    this.setPreviewApproval({ status: 'idle', request: null, previewTask: null, project: null, attempt: 0 });
+  }
+
+  private setPreviewApproval(updates: Partial<PreviewApprovalState>) {
+    this.previewApproval = { ...this.previewApproval, ...updates };
+  }
+
+  // Positive 32-bit seed (0 is treated as "no seed"); never repeats the rejected one
+  private nextSeed(previous?: number): number {
+    let seed = 1 + Math.floor(Math.random() * 2147483646);
+    if (seed === previous) {
+      seed = seed === 2147483647 ? 1 : seed + 1;
+    }
+    return seed;
+  }
+
+  // Template settings win over the quality defaults, within the device's polygon budget
+  private buildTextRequest(
+    prompt: string,
+    qualitySettings: QualitySettings,
+    settings: RecommendedSettings = {},
+    targetSize?: TargetSize,
+    pinnedSeed?: number,
+  ): GenerationRequest {
+    const deviceSettings = DeviceUtils.getOptimizedSettings(qualitySettings);
+    const request = {
+      prompt: prompt,
+      artStyle: settings.artStyle || 'realistic',
+      targetPolyCount: Math.min(
+        settings.targetPolyCount || deviceSettings.targetPolyCount,
+        deviceSettings.targetPolyCount,
+      ),
+      topology: settings.topology || deviceSettings.topology,
+    } as const;
+
+    // An explicit seed lets the project be re-run exactly later. It is random
+    // unless the user pinned one, so generating again gives a different model.
+    return {
+      ...request,
+      seed: pinnedSeed ?? this.nextSeed(),
+      ...(pinnedSeed !== undefined && { seedPinned: true }),
+      enablePBR: settings.enablePBR ?? deviceSettings.enablePBR,
+      enableRemesh: deviceSettings.enableRemesh,
+      quality: qualitySettings.quality,
+      ...(targetSize && { targetSize }),
+    };
+  }
+
+  // Runs a generation workflow while keeping its persisted job in step
+  private async runJob(
+    job: GenerationJob | null,
+    project: ProjectRecord,
+    startedAt: number,
+    progressCallback: (stage: string, progress: number) => void,
+    run: (
+      progressCallback: (stage: string, progress: number) => void,
+      hooks: GenerationHooks,
+    ) => Promise<MeshyTask>,
+    resumedTask?: { id: string; mode: MeshyTaskKind },
+  ): Promise<{ task: MeshyTask; project: ProjectRecord }> {
+    await this.startProject(job, project);
+    const tracked = this.trackRun(job, project, resumedTask, (stage) => this.enterTaskStage(stage));
+    if (resumedTask) {
+      this.enterTaskStage(
+        resumedTask.mode !== 'text' ? resumedTask.mode : job?.refineTaskId ? 'refine' : 'preview',
+      );
+    }
+
+    try {
+      // Cancelled while the budget check or the job write was still running
+      throwIfAborted(tracked.hooks.signal);
+      const task = await run(this.trackProgress(progressCallback), tracked.hooks);
+
+      await this.updateJob(job, { stage: 'completed', result: task });
+
+      const completed = await this.finishProject(project, task, startedAt);
+      await this.cacheManager.cacheGenerationResult(completed);
+      this.startDownload();
+      return { task, project: completed };
+    } catch (error) {
+      // Kept as the current project so the failed generation can be retried
+      this.state.currentProject = project;
+      this.endGeneration(error);
+      await this.failProject(project, error);
+      await this.updateJob(job, {
+        stage: isAbortError(error) ? 'cancelled' : 'failed',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    } finally {
+      tracked.finish();
+    }
+  }
+
+  // Signal for the running workflows, aborted by cancelGeneration()
+  getAbortSignal(): AbortSignal {
+    return this.abortController.signal;
+  }
+
+  /**
+   * Hooks for one generation workflow: task IDs are persisted to the job, the
+   * latest one is remembered as the task to cancel and each task's credits are
+   * added to the project, whose record follows the latest task for the Meshy
+   * webhook. Resumed workflows start out waiting on a task that
+   * already exists. onTaskStage hears of each task the workflow creates.
+   * Batch rows pass their batch's controls so only cancelBatch() stops them,
+   * and their record is only created with their first task, one write fewer
+   * against the Airtable proxy's rate limit.
+   */
+  private trackRun(
+    job: GenerationJob | null,
+    project: ProjectRecord,
+    resumedTask?: InFlightTask,
+    onTaskStage?: (stage: TaskStage) => void,
+    batchRun?: RunControls,
+  ): TrackedRun {
+    const key = Symbol('generation-run');
+    const tasks = batchRun ? batchRun.tasks : this.inFlightTasks;
+    if (resumedTask) {
+      tasks.set(key, resumedTask);
+    }
+
+    return {
+      hooks: {
+        signal: batchRun ? batchRun.controller.signal : this.getAbortSignal(),
+        onTaskCreated: async (stage, createdTask) => {
+          tasks.set(key, {
+            id: createdTask.id,
+            mode: stage === 'preview' || stage === 'refine' ? 'text' : stage,
+          });
+          this.recordSpend(project, stage);
+          onTaskStage?.(stage);
+          await this.recordTaskCreated(job, stage, createdTask);
+          const updates = stage === 'preview' ? { preview_task_id: createdTask.id } : { task_id: createdTask.id };
+          if (batchRun && !project.id) {
+            Object.assign(project, updates);
+            await this.startProject(job, project);
+          } else {
+            await this.saveProject(project, updates);
+          }
+        },
+      },
+      finish: () => {
+        tasks.delete(key);
+      },
+    };
+  }
+
+  private buildProject(
+    request: GenerationRequest | ImageGenerationRequest | RetextureRequest | RemeshRequest,
+    mode: MeshyTaskKind,
+    userEmail?: string,
+    links: ProjectLinks = {},
+  ): ProjectRecord {
+    const deviceInfo = DeviceUtils.getDeviceInfo();
+    const prompt =
+      'prompt' in request
+        ? request.prompt
+        : 'texturePrompt' in request
+          ? request.texturePrompt
+          : request.description || (mode === 'remesh' ? 'Remeshed model' : 'Image-to-3D generation');
+
+    // No ID until startProject() saves it
+    return {
+      user_email: userEmail || this.state.currentUser?.email || 'anonymous@local.dev',
+      prompt,
+      input_mode: mode,
+      status: 'generating',
+      device_type: deviceInfo.type,
+      art_style: 'artStyle' in request && request.artStyle ? request.artStyle : 'realistic',
+      polygon_count: 'targetPolyCount' in request ? request.targetPolyCount : undefined,
+      created_at: new Date().toISOString(),
+      download_count: 0,
+      generation_request: request,
+      ...(links.retry_of && { retry_of: links.retry_of }),
+      ...(links.parent_id && { parent_id: links.parent_id }),
+      ...(links.variant_of && { variant_of: links.variant_of }),
+      ...(request.targetSize && { target_size: request.targetSize }),
+      ...(mode === 'text' && 'prompt' in request && { request_hash: hashGenerationRequest(request) }),
+    };
+  }
+
+  private completeProject(
+    project: ProjectRecord,
+    task: MeshyTask,
+    startedAt: number,
+  ): ProjectRecord {
+    const generationTime = Math.round((Date.now() - startedAt) / 1000);
+
+    return {
+      ...project,
+      status: 'completed',
+      task_id: task.id,
+      model_urls: task.model_urls,
+      generation_time_seconds: generationTime,
+      thumbnail_url: task.thumbnail_url,
+      completed_at: new Date().toISOString(),
+    };
+  }
+
+  // Job persistence is best-effort: a storage failure must never fail a generation
+  private async queueJob(
+    userEmail: string,
+    request: GenerationRequest | ImageGenerationRequest | RetextureRequest | RemeshRequest,
+    mode: MeshyTaskKind,
+    options: Pick<GenerationJob, 'approvalRequired' | 'variantGroupId' | 'parentProjectId'> = {},
+  ): Promise<GenerationJob | null> {
+    try {
+      return await this.jobQueue.createJob(userEmail, request, mode, options);
+    } catch (error) {
+      logger.warn('Failed to persist generation job', 'GenerationManager', error);
+      return null;
+    }
+  }
+
+  private async recordTaskCreated(
+    job: GenerationJob | null,
+    stage: TaskStage,
+    task: MeshyTask,
+  ): Promise<void> {
+    if (stage === 'preview') {
+      await this.updateJob(job, { stage: 'preview', previewTaskId: task.id });
+    } else if (stage === 'refine') {
+      await this.updateJob(job, { stage: 'refine', refineTaskId: task.id });
+    } else if (stage === 'retexture') {
+      await this.updateJob(job, { stage: 'retexture', retextureTaskId: task.id });
+    } else if (stage === 'remesh') {
+      await this.updateJob(job, { stage: 'remesh', remeshTaskId: task.id });
+    } else {
+      await this.updateJob(job, { stage: 'image', imageTaskId: task.id });
+    }
+  }
+
+  /**
+   * Saves a new project to the project repository as its generation starts.
+   * The job remembers the record so a resumed run updates it rather than
+   * starting another.
+   */
+  private async startProject(job: GenerationJob | null, project: ProjectRecord): Promise<void> {
+    if (project.id) return;
+
+    try {
+      const record = await this.repositories.projects.createProject(project);
+      project.id = record.id;
+    } catch (error) {
+      logger.warn('Failed to save project', 'GenerationManager', error);
+      return;
+    }
+    await this.updateJob(job, { projectId: project.id });
+  }
+
+  /**
+   * Applies the updates to the in-memory project and its record. A
+   * generation never fails because its record couldn't be saved.
+   */
+  private async saveProject(project: ProjectRecord, updates: Partial<ProjectRecord>): Promise<void> {
+    Object.assign(project, updates);
+    if (!project.id) return;
+
+    try {
+      await this.repositories.projects.updateProject(project.id, {
+        ...updates,
+        ...(project.credits_spent && { credits_spent: project.credits_spent }),
+      });
+    } catch (error) {
+      logger.warn('Failed to update project', 'GenerationManager', error);
+    }
+  }
+
+  private async finishProject(
+    project: ProjectRecord,
+    task: MeshyTask,
+    startedAt: number,
+  ): Promise<ProjectRecord> {
+    const completed = this.completeProject(project, task, startedAt);
+    await this.saveProject(project, {
+      status: completed.status,
+      task_id: completed.task_id,
+      model_urls: completed.model_urls,
+      generation_time_seconds: completed.generation_time_seconds,
+      completed_at: completed.completed_at,
+      ...(completed.thumbnail_url && { thumbnail_url: completed.thumbnail_url }),
+    });
+    return completed;
+  }
+
+  // Failed with the reason, whether it was an error, a cancellation or the user discarding it
+  private async failProject(project: ProjectRecord, reason: unknown): Promise<void> {
+    await this.saveProject(project, {
+      status: 'failed',
+      error_message:
+        isAbortError(reason) ? 'Generation cancelled'
+        : reason instanceof Error ? reason.message
+        : typeof reason === 'string' ? reason
+        : 'Unknown error',
+      completed_at: new Date().toISOString(),
+    });
+  }
+
+  // Only Meshy tasks cost credits; the offline provider is free
+  private get chargesCredits(): boolean {
+    return this.provider.name === 'meshy';
+  }
+
+  /**
+   * What a generation from the form costs if it runs to the end, or null when
+   * the provider doesn't charge credits
+   */
+  estimateCost(input: Pick<GenerationInput, 'mode' | 'variantCount'>): CostEstimate | null {
+    return this.chargesCredits ? estimateGenerationCost(input) : null;
+  }
+
+  /**
+   * Credits the user and their team have spent this month, or null when no
+   * budget applies or the spend can't be read
+   */
+  async getMonthlySpend(refresh = false): Promise<MonthlySpend | null> {
+    const userEmail = this.state.currentUser?.email;
+    if (!this.chargesCredits || !hasCreditBudget() || !userEmail) {
+      return null;
+    }
+
+    const month = currentMonth();
+    if (refresh || this.monthlySpend?.month !== month) {
       try {
-        await MeshyAPI.cancelTask(this.state.currentTask.id);
-
-        // In self-contained mode, just update the in-memory state
-        this.state.currentTask = null;
-        this.state.isGenerating = false;
-        
-        // Update current project status if it exists
-        if (this.state.currentProject) {
-          this.state.currentProject.status = 'failed';
-        }
+        this.monthlySpend = await CreditService.getMonthlySpend(userEmail, month);
       } catch (error) {
-        console.error('Failed to cancel generation:', error);
-        throw error;
+        logger.warn('Failed to read monthly credit spend', 'GenerationManager', error);
+        return null;
       }
     }
+    return this.monthlySpend && { ...this.monthlySpend };
+  }
+
+  // Fails before anything is created; with the spend unknown, the proxy's check still applies
+  private async checkBudget(stages: TaskStage[]): Promise<void> {
+    const spend = await this.getMonthlySpend();
+    if (spend) {
+      assertWithinBudget(spend, estimateCredits(stages).total);
+    }
+  }
+
+  private recordSpend(project: ProjectRecord, stage: TaskStage) {
+    if (!this.chargesCredits) return;
+
+    const credits = creditCost(stage);
+    project.credits_spent = (project.credits_spent || 0) + credits;
+    if (this.monthlySpend?.month === currentMonth()) {
+      this.monthlySpend = {
+        ...this.monthlySpend,
+        user: this.monthlySpend.user + credits,
+        team: this.monthlySpend.team + credits,
+      };
+    }
+  }
+
+  private async updateJob(
+    job: GenerationJob | null,
+    updates: Partial<Omit<GenerationJob, 'id' | 'createdAt'>>,
+  ): Promise<void> {
+    if (!job) return;
+
+    try {
+      await this.jobQueue.updateJob(job.id, updates);
+    } catch (error) {
+      logger.warn('Failed to update generation job', 'GenerationManager', error);
+    }
+  }
+
+  /**
+   * Re-runs a project from its stored GenerationRequest, either exactly or
+   * with tweaks. The new project links back to the original via retry_of.
+   */
+  async retryGeneration(
+    projectId: string,
+    progressCallback: (stage: string, progress: number) => void,
+    options: RetryOptions = {},
+  ): Promise<{ task: MeshyTask; project: ProjectRecord }> {
+    const original =
+      this.state.currentProject?.id === projectId
+        ? this.state.currentProject
+        : await this.repositories.projects.getProject(projectId);
+
+    if (!original) {
+      throw new Error('Retry failed: project not found');
+    }
+    if (!original.generation_request) {
+      throw new Error('Retry failed: project has no stored generation settings');
+    }
+
+    const mode = original.input_mode || 'text';
+    const tweaks = Object.fromEntries(
+      Object.entries(options.tweaks || {}).filter(([, value]) => value !== undefined),
+    );
+    const request = {
+      ...original.generation_request,
+      ...tweaks,
+      ...(options.newSeed && mode === 'text' && {
+        seed: this.nextSeed((original.generation_request as GenerationRequest).seed),
+        seedPinned: undefined,
+      }),
+    };
+
+    await this.beginGeneration(
+      'Retrying generation...',
+      mode === 'image' || mode === 'retexture' || mode === 'remesh' ? [mode] : ['preview', 'refine'],
+    );
+
+    logger.info('Retrying generation', 'GenerationManager', {
+      projectId,
+      tweaked: Object.keys(tweaks),
+      newSeed: !!options.newSeed,
+    });
+
+    await this.discardUndecidedPreviews();
+
+    const project = this.buildProject(request, mode, original.user_email, {
+      retry_of: projectId,
+      parent_id: original.parent_id,
+      variant_of: original.variant_of,
+    });
+    const job = await this.queueJob(project.user_email, request, mode, {
+      parentProjectId: mode === 'remesh' ? original.variant_of : original.parent_id,
+    });
+
+    if (mode === 'retexture') {
+      return this.runChild(this.retextures, project, () =>
+        this.runJob(job, project, Date.now(), progressCallback, (onProgress, hooks) =>
+          this.pipeline.retextureModel(request as RetextureRequest, onProgress, hooks),
+        ),
+      );
+    }
+
+    if (mode === 'remesh') {
+      return this.runChild(this.remeshes, project, () =>
+        this.runJob(job, project, Date.now(), progressCallback, (onProgress, hooks) =>
+          this.pipeline.remeshModel(request as RemeshRequest, onProgress, hooks),
+        ),
+      );
+    }
+
+    return this.runJob(job, project, Date.now(), progressCallback, (onProgress, hooks) =>
+      mode === 'image'
+        ? this.pipeline.generateModelFromImage(request as ImageGenerationRequest, onProgress, hooks)
+        : this.pipeline.generateModel(request as GenerationRequest, onProgress, hooks),
+    );
+  }
+
+  /**
+   * Stops every running workflow at once - polling, stream reads and requests
+   * in flight - then asks the provider to cancel whichever preview, refine, image,
+   * retexture or remesh tasks those workflows were waiting on. A running
+   * batch carries on; cancelBatch() stops that.
+   */
+  async cancelGeneration(): Promise<void> {
+    const tasks = Array.from(this.inFlightTasks.values());
+    this.inFlightTasks.clear();
+    this.abortController.abort();
+    const { phase } = this.generation.getState();
+    if (isActivePhase(phase)) {
+      this.generation.transition(phase, 'cancelled');
+    }
+
+    logger.info('Cancelling generation', 'GenerationManager', {
+      taskIds: tasks.map((task) => task.id),
+    });
+
+    await this.cancelProviderTasks(tasks);
+  }
+
+  /**
+   * Stops the running batch: rows in progress are cancelled with their
+   * provider tasks and rows not yet started never start
+   */
+  async cancelBatch(): Promise<void> {
+    const batchRun = this.batchRun;
+    if (!batchRun) return;
+
+    const tasks = Array.from(batchRun.tasks.values());
+    batchRun.tasks.clear();
+    batchRun.controller.abort();
+
+    logger.info('Cancelling batch', 'GenerationManager', {
+      taskIds: tasks.map((task) => task.id),
+    });
+
+    await this.cancelProviderTasks(tasks);
+  }
+
+  private async cancelProviderTasks(tasks: InFlightTask[]): Promise<void> {
+    const results = await Promise.allSettled(
+      tasks.map((task) => this.provider.cancelTask(task.id, task.mode)),
+    );
+
+    // The local work has already stopped; a task the provider won't cancel just runs out
+    results.forEach((result, index) => {
+      if (result.status === 'rejected') {
+        logger.warn('Failed to cancel provider task', 'GenerationManager', {
+          taskId: tasks[index].id,
+          error: result.reason instanceof Error ? result.reason.message : result.reason,
+        });
+      }
+    });
   }
 
   getGenerationProgress(): { stage: string; progress: number } | null {
-    if (!this.state.currentTask || !this.state.isGenerating) {
+    const state = this.generation.getState();
+    if (!isGenerationActive(state)) {
       return null;
     }
 
-    // This would need to be implemented based on the Meshy API response
-    // For now, return a placeholder
-    return {
-      stage: 'Generating model...',
-      progress: 50,
+    return { stage: state.stage, progress: state.progress };
+  }
+
+  getGenerationState(): GenerationState {
+    return this.generation.getState();
+  }
+
+  // A model still loading into the viewer doesn't hold up the next generation
+  isGenerationRunning(): boolean {
+    const { phase } = this.generation.getState();
+    return isActivePhase(phase) && phase !== 'downloading';
+  }
+
+  onGenerationStateChanged(listener: GenerationStateListener): () => void {
+    return this.generation.subscribe(listener);
+  }
+
+  // Loading progress of the finished model into the viewer
+  updateDownload(progress: number): void {
+    if (this.generation.getState().phase === 'downloading') {
+      this.generation.update('Loading model...', progress);
+    }
+  }
+
+  /**
+   * Ends the generation once its model has loaded into the viewer, or with
+   * the error that stopped it loading
+   */
+  finishDownload(error?: unknown): void {
+    const { phase } = this.generation.getState();
+    if (phase !== 'downloading') return;
+
+    if (error) {
+      this.endGeneration(error);
+    } else {
+      this.generation.transition(phase, 'ready');
+    }
+  }
+
+  // Fails the new generation straight away when it doesn't fit the credit budget
+  private async beginGeneration(stage: string, stages: TaskStage[]): Promise<void> {
+    this.queueGeneration(stage);
+
+    try {
+      await this.checkBudget(stages);
+    } catch (error) {
+      this.endGeneration(error);
+      throw error;
+    }
+  }
+
+  // The model is finished; loading it into the viewer is all that is left
+  private startDownload() {
+    this.enterTaskStage('refine');
+    const { phase } = this.generation.getState();
+    if (phase === 'refining') {
+      this.generation.transition(phase, 'downloading');
+    }
+  }
+
+  /**
+   * Queues the next generation on screen. A model nobody reported loading has
+   * nothing left to load; anything else still running must finish or be
+   * cancelled first.
+   */
+  private queueGeneration(stage: string) {
+    this.finishDownload();
+    const { phase } = this.generation.getState();
+    if (isActivePhase(phase)) {
+      throw new Error('A generation is already running. Wait for it to finish or cancel it first.');
+    }
+    this.abortController = new AbortController();
+    this.generation.transition(phase, 'queued', stage);
+  }
+
+  // Jobs resumed together share the generation on screen; the first one queues it
+  private queueResumedGeneration() {
+    const { phase } = this.generation.getState();
+    if (!isActivePhase(phase)) {
+      this.queueGeneration('Resuming previous generation...');
+    }
+  }
+
+  // The phase each new provider task moves the generation to
+  private enterTaskStage(stage: TaskStage) {
+    const { phase } = this.generation.getState();
+    if (phase === 'queued' && stage === 'preview') {
+      this.generation.transition(phase, 'preview');
+    } else if (stage !== 'preview' && (phase === 'queued' || phase === 'preview_done')) {
+      this.generation.transition(phase, 'refining');
+    } else if (stage !== 'preview' && phase === 'preview') {
+      this.generation.transition(phase, 'preview_done');
+      this.generation.transition('preview_done', 'refining');
+    }
+  }
+
+  // Stops a running generation as cancelled when it was aborted, failed otherwise
+  private endGeneration(error: unknown) {
+    const { phase } = this.generation.getState();
+    if (!isActivePhase(phase)) return;
+
+    if (isAbortError(error)) {
+      this.generation.transition(phase, 'cancelled');
+    } else {
+      this.generation.transition(phase, 'failed', 'Failed', error instanceof Error ? error.message : 'Unknown error');
+    }
+  }
+
+  // Reports progress to the caller and to the generation on screen
+  private trackProgress(
+    progressCallback: (stage: string, progress: number) => void,
+  ): (stage: string, progress: number) => void {
+    return (stage, progress) => {
+      this.generation.update(stage, progress);
+      progressCallback(stage, progress);
     };
   }
 }
@@ -0,0 +1,89 @@
+/**
+ * Generation Pipeline Unit Tests
+ * Copyright © 2024 Kris. All rights reserved.
+ * PROPRIETARY SOFTWARE - NOT OPEN SOURCE
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { GenerationPipeline } from './generation-pipeline';
+import { MeshyProvider } from '../providers/meshy-provider';
+import { OfflineProvider } from '../providers/offline-provider';
+
+describe('GenerationPipeline', () => {
+  describe('Meshy Provider', () => {
+    const pipeline = new GenerationPipeline(new MeshyProvider());
+
+    it('should generate a model from an image URL', async () => {
+      const progressCallback = vi.fn();
+
+      const task = await pipeline.generateModelFromImage(
+        { imageUrl: 'https://example.com/site-photo.jpg' },
+        progressCallback,
+      );
+
+      expect(task.id).toBe('test-image-task-789');
+      expect(task.status).toBe('SUCCEEDED');
+      expect(task.model_urls?.glb).toBe('https://example.com/model.glb');
+      expect(progressCallback).toHaveBeenLastCalledWith('Model ready!', 100);
+    });
+
+    it('should report the image task ID as soon as it is created', async () => {
+      const onTaskCreated = vi.fn();
+
+      await pipeline.generateModelFromImage(
+        { imageUrl: 'https://example.com/site-photo.jpg' },
+        undefined,
+        { onTaskCreated },
+      );
+
+      expect(onTaskCreated).toHaveBeenCalledWith(
+        'image',
+        expect.objectContaining({ id: 'test-image-task-789' }),
+      );
+    });
+
+    it('should not start a Meshy task once cancelled', async () => {
+      const controller = new AbortController();
+      controller.abort();
+      const onTaskCreated = vi.fn();
+
+      await expect(
+        pipeline.generateModel({ prompt: 'steel beam' }, undefined, {
+          signal: controller.signal,
+          onTaskCreated,
+        }),
+      ).rejects.toMatchObject({ name: 'AbortError' });
+      expect(onTaskCreated).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Offline Provider', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should run preview and refine stages without touching the network', async () => {
+      vi.useFakeTimers();
+      const pipeline = new GenerationPipeline(
+        new OfflineProvider({ preview: 3000, refine: 4000, image: 5000, retexture: 4000, remesh: 3000 }),
+      );
+      const onTaskCreated = vi.fn();
+      const progressCallback = vi.fn();
+
+      const generation = pipeline.generateModel(
+        { prompt: 'timber beam 4m x 0.2m x 0.3m', seed: 42 },
+        progressCallback,
+        { onTaskCreated },
+      );
+      await vi.advanceTimersByTimeAsync(60_000);
+      const task = await generation;
+
+      expect(onTaskCreated.mock.calls.map(([stage]) => stage)).toEqual(['preview', 'refine']);
+      expect(task.status).toBe('SUCCEEDED');
+      expect(task.id).toMatch(/^offline\.refine\./);
+      expect(task.model_urls?.glb).toMatch(/^data:model\/gltf-binary;base64,/);
+      expect(progressCallback).toHaveBeenCalledWith('Creating textured model...', 60);
+      expect(progressCallback).toHaveBeenLastCalledWith('Model ready!', 100);
+    });
+  });
+});
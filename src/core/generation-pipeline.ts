@@ -0,0 +1,320 @@
+/**
+ * Text-to-3D Construction Platform - Generation Pipeline
+ * Copyright © 2024 Kris. All rights reserved.
+ * PROPRIETARY SOFTWARE - NOT OPEN SOURCE
+ *
+ * The staged workflows (preview, refine, image, retexture, remesh) with progress reporting,
+ * run against whichever GenerationProvider is configured.
+ */
+
+import { MeshyAPI } from '../meshy-api';
+import type {
+  GenerationRequest,
+  ImageGenerationRequest,
+  MeshyTask,
+  QualityLevel,
+  RemeshRequest,
+  RetextureRequest,
+} from '../meshy-api';
+import type {
+  GenerationHooks,
+  GenerationProvider,
+  TaskInput,
+  TaskStage,
+} from '../providers/generation-provider';
+import { logger } from '../utils/logger';
+import { isAbortError } from '../utils/abort';
+
+type ProgressCallback = (stage: string, progress: number) => void;
+
+export class GenerationPipeline {
+  constructor(private provider: GenerationProvider) {}
+
+  // Complete text-to-3D generation: preview, then refine
+  async generateModel(
+    request: GenerationRequest,
+    onProgress?: ProgressCallback,
+    hooks: GenerationHooks = {},
+  ): Promise<MeshyTask> {
+    try {
+      onProgress?.('Creating preview model...', 10);
+
+      const previewTask = await this.createTask({ stage: 'preview', request }, hooks);
+
+      onProgress?.('Generating geometry...', 20);
+
+      return await this.continueFromPreview(previewTask.id, onProgress, hooks, request.quality);
+    } catch (error) {
+      this.logFailure('Generation request failed', error);
+      throw error;
+    }
+  }
+
+  // Image-to-3D: single task that returns a textured model
+  async generateModelFromImage(
+    request: ImageGenerationRequest,
+    onProgress?: ProgressCallback,
+    hooks: GenerationHooks = {},
+  ): Promise<MeshyTask> {
+    try {
+      onProgress?.('Uploading reference image...', 10);
+
+      const imageTask = await this.createTask({ stage: 'image', request }, hooks);
+
+      return await this.resumeImageGeneration(
+        imageTask.id,
+        onProgress,
+        request.quality,
+        hooks.signal,
+      );
+    } catch (error) {
+      this.logFailure('Image-to-3D request failed', error);
+      throw error;
+    }
+  }
+
+  async resumeImageGeneration(
+    imageTaskId: string,
+    onProgress?: ProgressCallback,
+    quality?: QualityLevel,
+    signal?: AbortSignal,
+  ): Promise<MeshyTask> {
+    onProgress?.('Reconstructing geometry from image...', 20);
+
+    const completed = await this.waitForTask(imageTaskId, 'image', quality, signal, (progress) => {
+      onProgress?.('Reconstructing geometry from image...', 20 + progress * 80); // 20-100%
+    });
+
+    onProgress?.('Model ready!', 100);
+
+    return completed;
+  }
+
+  // New textures on an existing model: a single task, like image-to-3D
+  async retextureModel(
+    request: RetextureRequest,
+    onProgress?: ProgressCallback,
+    hooks: GenerationHooks = {},
+  ): Promise<MeshyTask> {
+    try {
+      onProgress?.('Preparing model for retexturing...', 10);
+
+      const retextureTask = await this.createTask({ stage: 'retexture', request }, hooks);
+
+      return await this.resumeRetexture(
+        retextureTask.id,
+        onProgress,
+        request.quality,
+        hooks.signal,
+      );
+    } catch (error) {
+      this.logFailure('Retexture request failed', error);
+      throw error;
+    }
+  }
+
+  async resumeRetexture(
+    retextureTaskId: string,
+    onProgress?: ProgressCallback,
+    quality?: QualityLevel,
+    signal?: AbortSignal,
+  ): Promise<MeshyTask> {
+    onProgress?.('Applying new textures...', 20);
+
+    const completed = await this.waitForTask(retextureTaskId, 'retexture', quality, signal, (progress) => {
+      onProgress?.('Applying new textures...', 20 + progress * 80); // 20-100%
+    });
+
+    onProgress?.('Model ready!', 100);
+
+    return completed;
+  }
+
+  // New topology for an existing model; geometry and textures are kept
+  async remeshModel(
+    request: RemeshRequest,
+    onProgress?: ProgressCallback,
+    hooks: GenerationHooks = {},
+  ): Promise<MeshyTask> {
+    try {
+      onProgress?.('Preparing model for remeshing...', 10);
+
+      const remeshTask = await this.createTask({ stage: 'remesh', request }, hooks);
+
+      return await this.resumeRemesh(remeshTask.id, onProgress, request.quality, hooks.signal);
+    } catch (error) {
+      this.logFailure('Remesh request failed', error);
+      throw error;
+    }
+  }
+
+  async resumeRemesh(
+    remeshTaskId: string,
+    onProgress?: ProgressCallback,
+    quality?: QualityLevel,
+    signal?: AbortSignal,
+  ): Promise<MeshyTask> {
+    onProgress?.('Rebuilding mesh...', 20);
+
+    const completed = await this.waitForTask(remeshTaskId, 'remesh', quality, signal, (progress) => {
+      onProgress?.('Rebuilding mesh...', 20 + progress * 80); // 20-100%
+    });
+
+    onProgress?.('Model ready!', 100);
+
+    return completed;
+  }
+
+  // Pick up a generation whose task IDs were persisted before a page reload
+  async resumeGeneration(
+    taskIds: { previewTaskId: string; refineTaskId?: string },
+    onProgress?: ProgressCallback,
+    hooks: GenerationHooks = {},
+    quality?: QualityLevel,
+  ): Promise<MeshyTask> {
+    try {
+      if (taskIds.refineTaskId) {
+        onProgress?.('Applying textures...', 70);
+        return await this.pollRefineStage(taskIds.refineTaskId, onProgress, quality, hooks.signal);
+      }
+
+      onProgress?.('Generating geometry...', 20);
+      return await this.continueFromPreview(taskIds.previewTaskId, onProgress, hooks, quality);
+    } catch (error) {
+      this.logFailure('Failed to resume generation', error);
+      throw error;
+    }
+  }
+
+  // Stage 1 only: create a preview and wait for its untextured geometry
+  async generatePreview(
+    request: GenerationRequest,
+    onProgress?: ProgressCallback,
+    hooks: GenerationHooks = {},
+  ): Promise<MeshyTask> {
+    try {
+      onProgress?.('Creating preview model...', 10);
+
+      const previewTask = await this.createTask({ stage: 'preview', request }, hooks);
+
+      onProgress?.('Generating geometry...', 20);
+
+      const completedPreview = await this.pollPreviewStage(
+        previewTask.id,
+        onProgress,
+        request.quality,
+        hooks.signal,
+      );
+      onProgress?.('Preview ready for review', 60);
+
+      return completedPreview;
+    } catch (error) {
+      this.logFailure('Preview request failed', error);
+      throw error;
+    }
+  }
+
+  // Stage 2 only: texture a preview the user has approved
+  async refinePreview(
+    previewTaskId: string,
+    onProgress?: ProgressCallback,
+    hooks: GenerationHooks = {},
+    quality?: QualityLevel,
+  ): Promise<MeshyTask> {
+    try {
+      onProgress?.('Creating textured model...', 60);
+
+      const refineTask = await this.createTask({ stage: 'refine', previewTaskId }, hooks);
+
+      onProgress?.('Applying textures...', 70);
+
+      return await this.pollRefineStage(refineTask.id, onProgress, quality, hooks.signal);
+    } catch (error) {
+      this.logFailure('Refine request failed', error);
+      throw error;
+    }
+  }
+
+  async pollPreviewStage(
+    previewTaskId: string,
+    onProgress?: ProgressCallback,
+    quality?: QualityLevel,
+    signal?: AbortSignal,
+  ): Promise<MeshyTask> {
+    return this.waitForTask(previewTaskId, 'preview', quality, signal, (progress) => {
+      onProgress?.('Processing geometry...', 20 + progress * 40); // 20-60%
+    });
+  }
+
+  private async continueFromPreview(
+    previewTaskId: string,
+    onProgress?: ProgressCallback,
+    hooks: GenerationHooks = {},
+    quality?: QualityLevel,
+  ): Promise<MeshyTask> {
+    const completedPreview = await this.pollPreviewStage(
+      previewTaskId,
+      onProgress,
+      quality,
+      hooks.signal,
+    );
+
+    onProgress?.('Creating textured model...', 60);
+
+    // Stage 2: Create refine task
+    const refineTask = await this.createTask(
+      { stage: 'refine', previewTaskId: completedPreview.id },
+      hooks,
+    );
+
+    onProgress?.('Applying textures...', 70);
+
+    return this.pollRefineStage(refineTask.id, onProgress, quality, hooks.signal);
+  }
+
+  private async pollRefineStage(
+    refineTaskId: string,
+    onProgress?: ProgressCallback,
+    quality?: QualityLevel,
+    signal?: AbortSignal,
+  ): Promise<MeshyTask> {
+    const completedRefine = await this.waitForTask(refineTaskId, 'refine', quality, signal, (progress) => {
+      onProgress?.('Finalizing model...', 70 + progress * 30); // 70-100%
+    });
+
+    onProgress?.('Model ready!', 100);
+
+    return completedRefine;
+  }
+
+  private async createTask(input: TaskInput, hooks: GenerationHooks): Promise<MeshyTask> {
+    const task = await this.provider.createTask(input, hooks.signal);
+    await hooks.onTaskCreated?.(input.stage, task);
+    return task;
+  }
+
+  // Streams status when the provider offers a stream, polls otherwise
+  private async waitForTask(
+    taskId: string,
+    stage: TaskStage,
+    quality: QualityLevel | undefined,
+    signal: AbortSignal | undefined,
+    onProgress: (progress: number) => void,
+  ): Promise<MeshyTask> {
+    const completed = await MeshyAPI.waitForCompletion(taskId, {
+      quality,
+      signal,
+      onProgress,
+      fetchStatus: (id, statusSignal) => this.provider.getTaskStatus(id, stage, statusSignal),
+      stream: this.provider.getTaskStream?.(taskId, stage),
+    });
+
+    return { ...completed, ...(await this.provider.getResults(completed, stage)) };
+  }
+
+  private logFailure(message: string, error: unknown) {
+    if (!isAbortError(error)) {
+      logger.error(message, 'GenerationPipeline', { provider: this.provider.name, error });
+    }
+  }
+}
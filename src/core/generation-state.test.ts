@@ -0,0 +1,79 @@
+/**
+ * Generation State Unit Tests
+ * Copyright © 2024 Kris. All rights reserved.
+ * PROPRIETARY SOFTWARE - NOT OPEN SOURCE
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { canTransition, GenerationStateMachine, isActivePhase, isGenerationActive } from './generation-state';
+
+describe('GenerationStateMachine', () => {
+  it('should start idle with nothing running', () => {
+    const machine = new GenerationStateMachine();
+
+    expect(machine.getState()).toEqual(expect.objectContaining({ phase: 'idle', progress: 0 }));
+    expect(isGenerationActive(machine.getState())).toBe(false);
+  });
+
+  it('should notify subscribers of every transition and progress report', () => {
+    const machine = new GenerationStateMachine();
+    const listener = vi.fn();
+    const unsubscribe = machine.subscribe(listener);
+
+    machine.transition('idle', 'queued');
+    machine.transition('queued', 'preview');
+    machine.update('Processing geometry...', 42.4);
+    unsubscribe();
+    machine.transition('preview', 'preview_done');
+
+    expect(listener.mock.calls.map(([state]) => [state.phase, state.stage, state.progress])).toEqual([
+      ['queued', 'Queued...', 0],
+      ['preview', 'Generating preview...', 0],
+      ['preview', 'Processing geometry...', 42],
+    ]);
+  });
+
+  it('should reject transitions that skip or reverse a phase', () => {
+    const machine = new GenerationStateMachine();
+
+    // @ts-expect-error refining never follows idle
+    expect(() => machine.transition('idle', 'refining')).toThrow('Invalid generation transition: idle → refining');
+
+    machine.transition('idle', 'queued');
+    machine.transition('queued', 'refining');
+    expect(() => machine.transition('queued', 'preview')).toThrow('Invalid generation transition: refining → preview');
+    expect(canTransition('ready', 'downloading')).toBe(false);
+    expect(canTransition('preview_done', 'queued')).toBe(true);
+  });
+
+  it('should only let a running phase be cancelled or failed without knowing which it is', () => {
+    const machine = new GenerationStateMachine();
+    machine.transition('idle', 'queued');
+
+    const { phase } = machine.getState();
+    if (!isActivePhase(phase)) throw new Error('Expected a running generation');
+
+    // @ts-expect-error only downloading may be followed by ready
+    expect(() => machine.transition(phase, 'ready')).toThrow('Invalid generation transition: queued → ready');
+    expect(machine.transition(phase, 'cancelled').phase).toBe('cancelled');
+  });
+
+  it('should keep the error of a failed generation and start the next one from zero', () => {
+    const machine = new GenerationStateMachine();
+    machine.transition('idle', 'queued');
+    machine.transition('queued', 'refining');
+    machine.update('Rebuilding mesh...', 60);
+
+    expect(machine.transition('refining', 'failed', 'Failed', 'Meshy task failed')).toEqual(
+      expect.objectContaining({ phase: 'failed', progress: 60, error: 'Meshy task failed' }),
+    );
+
+    machine.update('Rebuilding mesh...', 80);
+    expect(machine.getState().progress).toBe(60);
+
+    expect(machine.transition('failed', 'queued')).toEqual(
+      expect.not.objectContaining({ error: expect.anything() }),
+    );
+    expect(machine.getState().progress).toBe(0);
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * Text-to-3D Construction Platform - Generation State
+ * Copyright © 2024 Kris. All rights reserved.
+ * PROPRIETARY SOFTWARE - NOT OPEN SOURCE
+ *
+ * The generation on screen as an explicit state machine. A text generation
+ * runs queued → preview → preview_done → refining → downloading → ready;
+ * image, retexture and remesh runs have a single task and go straight from
+ * queued to refining. Any running phase can end in failed or cancelled.
+ */
+
+export type GenerationPhase =
+  | 'idle'
+  | 'queued'
+  | 'preview'
+  | 'preview_done' // The preview is shown, waiting for approval or the refine stage
+  | 'refining' // The task that produces the final model
+  | 'downloading' // Loading the finished model into the viewer
+  | 'ready'
+  | 'failed'
+  | 'cancelled';
+
+export const GENERATION_TRANSITIONS = {
+  idle: ['queued'],
+  queued: ['preview', 'refining', 'failed', 'cancelled'],
+  preview: ['preview_done', 'failed', 'cancelled'],
+  preview_done: ['queued', 'refining', 'cancelled'],
+  refining: ['downloading', 'failed', 'cancelled'],
+  downloading: ['ready', 'failed', 'cancelled'],
+  ready: ['queued'],
+  failed: ['queued'],
+  cancelled: ['queued'],
+} as const satisfies Record<GenerationPhase, readonly GenerationPhase[]>;
+
+// The phases that may move to `To`
+type PreviousGenerationPhase<To extends GenerationPhase> = {
+  [From in GenerationPhase]: To extends (typeof GENERATION_TRANSITIONS)[From][number] ? From : never;
+}[GenerationPhase];
+
+// The phases a generation in `From` may move to next; for several phases, those every one of them may
+export type NextGenerationPhase<From extends GenerationPhase> = {
+  [To in GenerationPhase]: [From] extends [PreviousGenerationPhase<To>] ? To : never;
+}[GenerationPhase];
+
+export interface GenerationState {
+  phase: GenerationPhase;
+  stage: string; // What is happening now, in words
+  progress: number; // 0-100 within the whole generation
+  error?: string; // Only when failed
+  updatedAt: number;
+}
+
+export type GenerationStateListener = (state: GenerationState) => void;
+
+// Phases with work under way, during which a new generation can't start
+const ACTIVE_PHASES = ['queued', 'preview', 'refining', 'downloading'] as const;
+
+export type ActiveGenerationPhase = (typeof ACTIVE_PHASES)[number];
+
+export function isActivePhase(phase: GenerationPhase): phase is ActiveGenerationPhase {
+  return (ACTIVE_PHASES as readonly GenerationPhase[]).includes(phase);
+}
+
+export function isGenerationActive(state: Pick<GenerationState, 'phase'>): boolean {
+  return isActivePhase(state.phase);
+}
+
+export function canTransition(from: GenerationPhase, to: GenerationPhase): boolean {
+  return (GENERATION_TRANSITIONS[from] as readonly GenerationPhase[]).includes(to);
+}
+
+const PHASE_STAGES: Record<GenerationPhase, string> = {
+  idle: '',
+  queued: 'Queued...',
+  preview: 'Generating preview...',
+  preview_done: 'Preview ready',
+  refining: 'Generating model...',
+  downloading: 'Loading model...',
+  ready: 'Ready',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+export class GenerationStateMachine {
+  private state: GenerationState = {
+    phase: 'idle',
+    stage: '',
+    progress: 0,
+    updatedAt: Date.now(),
+  };
+  private listeners = new Set<GenerationStateListener>();
+
+  getState(): GenerationState {
+    return { ...this.state };
+  }
+
+  /**
+   * Moves from the phase the caller found the generation in to one that may
+   * follow it, so the compiler checks the move against GENERATION_TRANSITIONS.
+   * Throws when the generation has since moved on or the move isn't allowed.
+   * Progress starts again at 0 when the next run is queued.
+   */
+  transition<From extends GenerationPhase>(
+    from: From,
+    to: NextGenerationPhase<From>,
+    stage: string = PHASE_STAGES[to],
+    error?: string,
+  ): GenerationState {
+    const current = this.state.phase;
+    if (current !== from || !canTransition(from, to)) {
+      throw new Error(`Invalid generation transition: ${current} → ${to}`);
+    }
+
+    const progress =
+      to === 'queued' ? 0
+      : to === 'ready' ? 100
+      : this.state.progress;
+
+    this.setState({
+      phase: to,
+      stage,
+      progress,
+      ...(to === 'failed' && { error: error || 'Unknown error' }),
+      updatedAt: Date.now(),
+    });
+    return this.getState();
+  }
+
+  // Progress within the current phase; late reports after a run ended are ignored
+  update(stage: string, progress: number): void {
+    const { phase } = this.state;
+    if (phase === 'idle' || phase === 'ready' || phase === 'failed' || phase === 'cancelled') {
+      return;
+    }
+
+    this.setState({
+      ...this.state,
+      stage,
+      progress: Math.min(100, Math.max(0, Math.round(progress))),
+      updatedAt: Date.now(),
+    });
+  }
+
+  subscribe(listener: GenerationStateListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private setState(state: GenerationState) {
+    this.state = state;
+    const snapshot = this.getState();
+    this.listeners.forEach((listener) => listener(snapshot));
+  }
+}
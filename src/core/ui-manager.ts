@@ -4,9 +4,18 @@
  * PROPRIETARY SOFTWARE - NOT OPEN SOURCE
  */
 
-import type { MeshyTask } from '../types';
+import type {
+  MeshyTask,
+  GenerationInput,
+  GenerationState,
+  GenerationVariant,
+  ProjectRecord,
+  TargetSize,
+} from '../types';
 import type { ModelInfo } from '../viewer/google-model-viewer';
 import type { ConstructionApp } from './app';
+import { formatSize } from '../sizing/real-world-size';
+import { isGenerationActive } from './generation-state';
 import { DownloadManager } from './download-manager';
 
 export interface QualitySettings {
@@ -31,7 +40,7 @@ export class UIManager {
     this.downloadSection = document.getElementById('download-section');
   }
 
-  showError(message: string): void {
+  showError(message: string, action?: { label: string; onClick: () => void }): void {
     // Create or update error message element
     let errorElement = document.querySelector('.error-message') as HTMLElement;
     if (!errorElement) {
@@ -46,6 +55,19 @@ export class UIManager {
     
     errorElement.textContent = message;
     errorElement.style.display = 'block';
+
+    // Errors the user can act on stay up until the button is used
+    if (action) {
+      const button = document.createElement('button');
+      button.className = 'viewer-btn error-action-btn';
+      button.textContent = action.label;
+      button.addEventListener('click', () => {
+        errorElement.style.display = 'none';
+        action.onClick();
+      });
+      errorElement.appendChild(button);
+      return;
+    }
     
     // Auto-hide after 5 seconds
     setTimeout(() => {
@@ -134,6 +156,23 @@ export class UIManager {
     return promptElement ? promptElement.value.trim() : '';
   }
 
+  getGenerationInput(): GenerationInput {
+    const modeElement = document.querySelector(
+      'input[name="input-mode"]:checked',
+    ) as HTMLInputElement | null;
+    const imageElement = document.getElementById('image-url') as HTMLInputElement | null;
+    const reviewElement = document.getElementById('review-preview') as HTMLInputElement | null;
+    const variantElement = document.getElementById('variant-count') as HTMLSelectElement | null;
+
+    return {
+      mode: modeElement?.value === 'image' ? 'image' : 'text',
+      prompt: this.getPrompt(),
+      imageUrl: imageElement?.value.trim() || undefined,
+      reviewPreview: reviewElement?.checked || false,
+      variantCount: variantElement ? parseInt(variantElement.value, 10) || 1 : 1,
+    };
+  }
+
   getQualitySettings(): QualitySettings {
     // For now, return default settings
     // These would be configurable in a future UI
@@ -155,6 +194,7 @@ export class UIManager {
             <div class="progress-fill" style="width: 0%"></div>
           </div>
           <div class="progress-text">0%</div>
+          <button class="viewer-btn cancel-btn" onclick="app.cancelGeneration()">Cancel</button>
         </div>
       `;
       
@@ -187,6 +227,19 @@ export class UIManager {
     }
   }
 
+  // The loading panel follows the generation: shown while it runs, hidden once it stops
+  renderGenerationState(state: GenerationState): void {
+    if (!isGenerationActive(state)) {
+      this.hideLoading();
+      return;
+    }
+
+    if (this.loadingElement?.style.display !== 'block') {
+      this.showLoading(state.stage);
+    }
+    this.updateProgress(state.stage, state.progress);
+  }
+
   showViewer(): void {
     if (this.viewerContainer) {
       this.viewerContainer.style.display = 'block';
@@ -232,7 +285,7 @@ export class UIManager {
     this.viewerContainer.appendChild(controlsDiv);
   }
 
-  showModelInfo(modelInfo: ModelInfo): void {
+  showModelInfo(modelInfo: ModelInfo, size?: { target: TargetSize; actual: TargetSize }): void {
     // Create model info section
     let modelInfoSection = document.querySelector('.model-info');
     if (!modelInfoSection) {
@@ -257,11 +310,104 @@ export class UIManager {
             <label>Status</label>
             <span style="color: #4CAF50;">Ready</span>
           </div>
+          ${size ? `
+          <div class="stat">
+            <label>Target Size</label>
+            <span>${formatSize(size.target)}</span>
+          </div>
+          <div class="stat">
+            <label>Actual Size</label>
+            <span>${formatSize(size.actual)}</span>
+          </div>` : ''}
         </div>
       </div>
     `;
   }
 
+  showPreviewApproval(_previewTask: MeshyTask, _app: ConstructionApp): void {
+    if (!this.viewerContainer) return;
+
+    this.hidePreviewApproval();
+
+    const approvalDiv = document.createElement('div');
+    approvalDiv.className = 'preview-approval';
+    approvalDiv.innerHTML = `
+      <p>This is the untextured preview. Approve it to apply textures, or regenerate with a new seed.</p>
+      <div class="control-group">
+        <button class="viewer-btn approve-btn" onclick="app.approvePreview()">Approve &amp; Texture</button>
+        <button class="viewer-btn" onclick="app.rejectPreview()">Regenerate</button>
+      </div>
+    `;
+
+    this.viewerContainer.appendChild(approvalDiv);
+  }
+
+  hidePreviewApproval(): void {
+    this.viewerContainer?.querySelector('.preview-approval')?.remove();
+  }
+
+  showExistingResult(project: ProjectRecord): void {
+    const outputSection = document.querySelector('.output-section');
+    if (!outputSection) return;
+
+    this.hideExistingResult();
+
+    const notice = document.createElement('div');
+    notice.className = 'existing-result';
+    notice.innerHTML = `
+      <p>This exact request was generated on ${new Date(project.created_at).toLocaleDateString()}. Reuse that model, or pay to generate a new one with a different seed.</p>
+      <div class="control-group">
+        <button class="viewer-btn approve-btn" onclick="app.reuseExistingResult()">Use existing result</button>
+        <button class="viewer-btn" onclick="app.generateAnyway()">Generate anyway</button>
+      </div>
+    `;
+
+    outputSection.insertBefore(notice, outputSection.firstChild);
+  }
+
+  hideExistingResult(): void {
+    document.querySelector('.existing-result')?.remove();
+  }
+
+  showVariantGrid(variants: GenerationVariant[], _app: ConstructionApp): void {
+    const outputSection = document.querySelector('.output-section');
+    if (!outputSection) return;
+
+    let grid = outputSection.querySelector('.variant-grid');
+    if (!grid) {
+      grid = document.createElement('div');
+      grid.className = 'variant-grid';
+      outputSection.insertBefore(grid, outputSection.firstChild);
+    }
+
+    grid.innerHTML = variants
+      .filter((variant) => variant.status !== 'discarded')
+      .map((variant, index) => {
+        const thumbnail = variant.previewTask?.thumbnail_url;
+        const body =
+          variant.status === 'ready' && thumbnail
+            ? `<img src="${thumbnail}" alt="Variant ${index + 1}">`
+            : `<span>${variant.status === 'failed' ? variant.error || 'Failed' : `${variant.stage} (${variant.progress}%)`}</span>`;
+        const action =
+          variant.status === 'ready'
+            ? `<button class="viewer-btn" onclick="app.selectVariant('${variant.id}')">Refine this one</button>`
+            : '';
+
+        return `
+          <div class="variant-card">
+            <h4>Variant ${index + 1}</h4>
+            ${body}
+            ${action}
+          </div>
+        `;
+      })
+      .join('');
+  }
+
+  hideVariantGrid(): void {
+    document.querySelector('.variant-grid')?.remove();
+  }
+
   showDownloadOptions(task: MeshyTask, app: ConstructionApp): void {
     if (!this.downloadSection) return;
     
@@ -0,0 +1,91 @@
+/**
+ * Credit Costs and Budgets Unit Tests
+ * Copyright © 2024 Kris. All rights reserved.
+ * PROPRIETARY SOFTWARE - NOT OPEN SOURCE
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { CREDIT_CONFIG } from '../config';
+import { BudgetExceededError } from '../meshy-errors';
+import {
+  assertWithinBudget,
+  currentMonth,
+  estimateGenerationCost,
+  formatEstimate,
+  remainingCredits,
+} from './credit-cost';
+
+describe('estimateGenerationCost', () => {
+  it('should count a preview and a refine for a text generation', () => {
+    const estimate = estimateGenerationCost({ mode: 'text' });
+
+    expect(estimate.total).toBe(15);
+    expect(formatEstimate(estimate)).toBe('preview 5 + refine 10');
+  });
+
+  it('should count a preview per variant and a single refine', () => {
+    const estimate = estimateGenerationCost({ mode: 'text', variantCount: 3 });
+
+    expect(estimate.total).toBe(25);
+    expect(formatEstimate(estimate)).toBe('3 previews 15 + refine 10');
+  });
+
+  it('should count one image-to-3D task for an image generation', () => {
+    expect(estimateGenerationCost({ mode: 'image', variantCount: 1 })).toEqual({
+      stages: [{ stage: 'image', count: 1, credits: 15 }],
+      total: 15,
+    });
+  });
+});
+
+describe('monthly budgets', () => {
+  const spend = { month: '2024-05', user: 990, team: 4000 };
+
+  afterEach(() => {
+    CREDIT_CONFIG.USER_MONTHLY_BUDGET = 0;
+    CREDIT_CONFIG.TEAM_MONTHLY_BUDGET = 0;
+  });
+
+  it('should not limit anything without a budget', () => {
+    expect(remainingCredits(spend)).toBeNull();
+    expect(() => assertWithinBudget(spend, 1000000)).not.toThrow();
+  });
+
+  it('should leave the tighter of the user and team budgets', () => {
+    CREDIT_CONFIG.USER_MONTHLY_BUDGET = 1000;
+    CREDIT_CONFIG.TEAM_MONTHLY_BUDGET = 5000;
+
+    expect(remainingCredits(spend)).toBe(10);
+    expect(remainingCredits({ ...spend, team: 4995 })).toBe(5);
+    expect(remainingCredits({ ...spend, user: 1200 })).toBe(0);
+  });
+
+  it('should allow spending up to the budget and no further', () => {
+    CREDIT_CONFIG.USER_MONTHLY_BUDGET = 1000;
+
+    expect(() => assertWithinBudget(spend, 10)).not.toThrow();
+    expect(() => assertWithinBudget(spend, 15)).toThrow(
+      new BudgetExceededError('This needs 15 credits, but only 10 of your 1000 monthly credits are left', 'user'),
+    );
+  });
+
+  it('should say when the team budget is the one that ran out', () => {
+    CREDIT_CONFIG.TEAM_MONTHLY_BUDGET = 4005;
+
+    try {
+      assertWithinBudget(spend, 15);
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(BudgetExceededError);
+      expect((error as BudgetExceededError).scope).toBe('team');
+      expect((error as Error).message).toBe(
+        "This needs 15 credits, but only 5 of your team's 4005 monthly credits are left",
+      );
+    }
+  });
+
+  it('should count spend per UTC calendar month', () => {
+    expect(currentMonth(new Date('2024-05-31T23:30:00Z'))).toBe('2024-05');
+    expect(currentMonth(new Date('2024-06-01T00:00:00Z'))).toBe('2024-06');
+  });
+});
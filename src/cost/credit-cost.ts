@@ -0,0 +1,112 @@
+/**
+ * Text-to-3D Construction Platform - Credit Costs and Budgets
+ * Copyright © 2024 Kris. All rights reserved.
+ * PROPRIETARY SOFTWARE - NOT OPEN SOURCE
+ *
+ * What each Meshy task costs in credits, estimates for a whole generation,
+ * and the monthly budgets per user and per team. Spend is counted per
+ * calendar month (UTC), the same way the Meshy proxy counts it.
+ */
+
+import { CREDIT_CONFIG } from '../config';
+import { BudgetExceededError } from '../meshy-errors';
+import type { TaskStage } from '../providers/generation-provider';
+import type { GenerationInput } from '../types';
+
+export interface CostEstimate {
+  stages: { stage: TaskStage; count: number; credits: number }[];
+  total: number;
+}
+
+// Credits spent in one month by the user and by their whole team
+export interface MonthlySpend {
+  month: string; // YYYY-MM
+  user: number;
+  team: number;
+}
+
+const STAGE_ORDER: TaskStage[] = ['preview', 'refine', 'image', 'retexture', 'remesh'];
+
+export function creditCost(stage: TaskStage): number {
+  return CREDIT_CONFIG.COSTS[stage];
+}
+
+// One entry per task about to be created; repeated stages are counted together
+export function estimateCredits(stages: TaskStage[]): CostEstimate {
+  const counted = STAGE_ORDER.map((stage) => {
+    const count = stages.filter((candidate) => candidate === stage).length;
+    return { stage, count, credits: count * creditCost(stage) };
+  }).filter((entry) => entry.count > 0);
+
+  return {
+    stages: counted,
+    total: counted.reduce((sum, entry) => sum + entry.credits, 0),
+  };
+}
+
+/**
+ * Every task a generation from the form creates if it runs to the end: one
+ * preview per variant and a single refine, or one image-to-3D task
+ */
+export function generationStages(
+  input: Pick<GenerationInput, 'mode' | 'variantCount'>,
+): TaskStage[] {
+  if (input.mode === 'image') {
+    return ['image'];
+  }
+
+  const previews = Math.max(1, input.variantCount || 1);
+  return [...Array<TaskStage>(previews).fill('preview'), 'refine'];
+}
+
+export function estimateGenerationCost(
+  input: Pick<GenerationInput, 'mode' | 'variantCount'>,
+): CostEstimate {
+  return estimateCredits(generationStages(input));
+}
+
+// "3 previews 15 + refine 10"
+export function formatEstimate(estimate: CostEstimate): string {
+  return estimate.stages
+    .map(({ stage, count, credits }) => `${count > 1 ? `${count} ${stage}s` : stage} ${credits}`)
+    .join(' + ');
+}
+
+export function currentMonth(date: Date = new Date()): string {
+  return date.toISOString().slice(0, 7);
+}
+
+export function hasCreditBudget(): boolean {
+  return CREDIT_CONFIG.USER_MONTHLY_BUDGET > 0 || CREDIT_CONFIG.TEAM_MONTHLY_BUDGET > 0;
+}
+
+// Credits left this month under the tighter of the two budgets; null when there is no budget
+export function remainingCredits(spend: MonthlySpend): number | null {
+  const remaining = [
+    CREDIT_CONFIG.USER_MONTHLY_BUDGET > 0 ? CREDIT_CONFIG.USER_MONTHLY_BUDGET - spend.user : null,
+    CREDIT_CONFIG.TEAM_MONTHLY_BUDGET > 0 ? CREDIT_CONFIG.TEAM_MONTHLY_BUDGET - spend.team : null,
+  ].filter((value): value is number => value !== null);
+
+  return remaining.length > 0 ? Math.max(0, Math.min(...remaining)) : null;
+}
+
+/**
+ * Throws when spending `credits` more would take the user or their team
+ * over this month's budget
+ */
+export function assertWithinBudget(spend: MonthlySpend, credits: number): void {
+  const budgets = [
+    { scope: 'user' as const, budget: CREDIT_CONFIG.USER_MONTHLY_BUDGET, spent: spend.user, owner: 'your' },
+    { scope: 'team' as const, budget: CREDIT_CONFIG.TEAM_MONTHLY_BUDGET, spent: spend.team, owner: "your team's" },
+  ];
+
+  for (const { scope, budget, spent, owner } of budgets) {
+    if (budget > 0 && spent + credits > budget) {
+      const left = Math.max(0, budget - spent);
+      throw new BudgetExceededError(
+        `This needs ${credits} credits, but only ${left} of ${owner} ${budget} monthly credits are left`,
+        scope,
+      );
+    }
+  }
+}
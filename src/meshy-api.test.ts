@@ -4,9 +4,11 @@
  * PROPRIETARY SOFTWARE - NOT OPEN SOURCE
  */
 
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { MeshyAPI, GenerationRequest, MeshyTask } from './meshy-api';
 import { createMockTask, createSuccessfulTask, createFailedTask, createInProgressTask } from './test/mocks/handlers/meshy';
+import { fakeTaskStream } from './test/mocks/handlers/meshy-stream';
+import { TaskFailedError } from './meshy-errors';
 import { server } from './test/mocks/server';
 import { http, HttpResponse } from 'msw';
 
@@ -137,6 +139,195 @@ describe('MeshyAPI', () => {
     });
   });
 
+  describe('Image-to-3D Generation', () => {
+    it('should map epoch timestamps to ISO strings', async () => {
+      const task = await MeshyAPI.getImageTaskStatus('test-image-task-789');
+
+      expect(new Date(task.created_at).toISOString()).toBe(task.created_at);
+      expect(task.finished_at).toBeDefined();
+    });
+
+    it('should reject unsupported image types', async () => {
+      await expect(
+        MeshyAPI.createImageTask({ imageUrl: 'data:image/gif;base64,R0lGODlh' })
+      ).rejects.toThrow('Only PNG and JPEG images are supported');
+    });
+
+    it('should reject non-http image URLs', async () => {
+      await expect(
+        MeshyAPI.createImageTask({ imageUrl: 'ftp://example.com/photo.jpg' })
+      ).rejects.toThrow('Image URL must be a valid http(s) address');
+    });
+  });
+
+  describe('Retexturing', () => {
+    // Captures the proxied POST to the retexture endpoint
+    const captureRetexture = () => {
+      const captured: { body?: any } = {};
+      server.use(
+        http.post('/.netlify/functions/meshy-proxy', async ({ request }) => {
+          const body = (await request.clone().json()) as { path?: string; method?: string; body?: any };
+          if (body.path !== '/openapi/v1/retexture') return undefined;
+          captured.body = body.body;
+          return HttpResponse.json({ success: true, status: 202, data: { result: 'retexture-task-1' } });
+        }),
+      );
+      return captured;
+    };
+
+    it('should retexture a completed task by its ID', async () => {
+      const captured = captureRetexture();
+
+      const task = await MeshyAPI.createRetextureTask({
+        sourceTaskId: 'refine-task-1',
+        texturePrompt: 'weathered cedar',
+      });
+
+      expect(task.id).toBe('retexture-task-1');
+      expect(captured.body).toEqual(
+        expect.objectContaining({
+          input_task_id: 'refine-task-1',
+          text_style_prompt: 'weathered cedar',
+          enable_original_uv: true,
+          enable_pbr: true,
+        }),
+      );
+      expect(captured.body.model_url).toBeUndefined();
+    });
+
+    it('should send an uploaded GLB as the model URL', async () => {
+      const captured = captureRetexture();
+
+      await MeshyAPI.createRetextureTask({
+        modelUrl: 'data:model/gltf-binary;base64,Z2xURg',
+        texturePrompt: 'painted pine',
+        enablePBR: false,
+      });
+
+      expect(captured.body.model_url).toBe('data:model/gltf-binary;base64,Z2xURg');
+      expect(captured.body.enable_pbr).toBe(false);
+    });
+
+    it('should reject an empty texture prompt', async () => {
+      await expect(
+        MeshyAPI.createRetextureTask({ sourceTaskId: 'refine-task-1', texturePrompt: '  ' }),
+      ).rejects.toThrow('Texture prompt is required');
+    });
+
+    it('should reject uploads that are not GLB', async () => {
+      await expect(
+        MeshyAPI.createRetextureTask({
+          modelUrl: 'data:image/png;base64,iVBORw0KGgo',
+          texturePrompt: 'weathered cedar',
+        }),
+      ).rejects.toThrow('Only GLB models can be uploaded for retexturing');
+    });
+
+    it('should use the retexture endpoints for status streams and cancellation', async () => {
+      let deletedPath: string | undefined;
+      server.use(
+        http.post('/.netlify/functions/meshy-proxy', async ({ request }) => {
+          const body = (await request.clone().json()) as { path?: string; method?: string };
+          if (body.method !== 'DELETE') return undefined;
+          deletedPath = body.path;
+          return HttpResponse.json({ success: true, status: 200, data: {} });
+        }),
+      );
+
+      await MeshyAPI.cancelTask('retexture-task-1', 'retexture');
+
+      expect(deletedPath).toBe('/openapi/v1/retexture/retexture-task-1');
+      expect(MeshyAPI.getTaskStream('retexture-task-1', 'retexture').path).toBe(
+        '/openapi/v1/retexture/retexture-task-1/stream',
+      );
+    });
+  });
+
+  describe('Remeshing', () => {
+    // Captures the proxied POST to the remesh endpoint
+    const captureRemesh = () => {
+      const captured: { body?: any } = {};
+      server.use(
+        http.post('/.netlify/functions/meshy-proxy', async ({ request }) => {
+          const body = (await request.clone().json()) as { path?: string; method?: string; body?: any };
+          if (body.path !== '/openapi/v1/remesh') return undefined;
+          captured.body = body.body;
+          return HttpResponse.json({ success: true, status: 202, data: { result: 'remesh-task-1' } });
+        }),
+      );
+      return captured;
+    };
+
+    it('should remesh a completed task to the requested polygon count and topology', async () => {
+      const captured = captureRemesh();
+
+      const task = await MeshyAPI.createRemeshTask({
+        sourceTaskId: 'refine-task-1',
+        targetPolyCount: 5000,
+        topology: 'quad',
+        description: 'Steel beam',
+      });
+
+      expect(task.id).toBe('remesh-task-1');
+      expect(captured.body).toEqual({
+        input_task_id: 'refine-task-1',
+        target_formats: ['glb', 'fbx', 'obj', 'usdz'],
+        topology: 'quad',
+        target_polycount: 5000,
+      });
+    });
+
+    it('should reject polygon counts outside the supported range', async () => {
+      await expect(
+        MeshyAPI.createRemeshTask({ sourceTaskId: 'refine-task-1', targetPolyCount: 50, topology: 'triangle' }),
+      ).rejects.toThrow('Target polygon count must be a whole number between 100 and 300000');
+      await expect(
+        MeshyAPI.createRemeshTask({ sourceTaskId: 'refine-task-1', targetPolyCount: 400000, topology: 'triangle' }),
+      ).rejects.toThrow('between 100 and 300000');
+    });
+
+    it('should require a source task or model', async () => {
+      await expect(
+        MeshyAPI.createRemeshTask({ targetPolyCount: 5000, topology: 'triangle' }),
+      ).rejects.toThrow('A source task or model is required for remeshing');
+    });
+
+    it('should use the remesh endpoints for status, streams and cancellation', async () => {
+      let deletedPath: string | undefined;
+      server.use(
+        http.post('/.netlify/functions/meshy-proxy', async ({ request }) => {
+          const body = (await request.clone().json()) as { path?: string; method?: string };
+          if (body.path === '/openapi/v1/remesh/remesh-task-1' && body.method === 'GET') {
+            return HttpResponse.json({
+              success: true,
+              status: 200,
+              data: {
+                id: 'remesh-task-1',
+                status: 'SUCCEEDED',
+                progress: 100,
+                model_urls: { glb: 'https://assets.meshy.ai/remesh.glb' },
+                created_at: 1700000000000,
+              },
+            });
+          }
+          if (body.method !== 'DELETE') return undefined;
+          deletedPath = body.path;
+          return HttpResponse.json({ success: true, status: 200, data: {} });
+        }),
+      );
+
+      const task = await MeshyAPI.getRemeshTaskStatus('remesh-task-1');
+      await MeshyAPI.cancelTask('remesh-task-1', 'remesh');
+
+      expect(task.status).toBe('SUCCEEDED');
+      expect(task.model_urls?.glb).toBe('https://assets.meshy.ai/remesh.glb');
+      expect(deletedPath).toBe('/openapi/v1/remesh/remesh-task-1');
+      expect(MeshyAPI.getTaskStream('remesh-task-1', 'remesh').path).toBe(
+        '/openapi/v1/remesh/remesh-task-1/stream',
+      );
+    });
+  });
+
   describe('Task Polling', () => {
     it('should poll task status successfully', async () => {
       const taskId = 'test-task-123';
@@ -172,6 +363,297 @@ describe('MeshyAPI', () => {
     });
   });
 
+  describe('Adaptive Polling', () => {
+    const statusSequence = (...tasks: Partial<MeshyTask>[]) => {
+      const fetchStatus = vi.fn();
+      tasks.forEach((task) =>
+        fetchStatus.mockResolvedValueOnce({
+          id: 'poll-task',
+          status: 'IN_PROGRESS',
+          progress: 0,
+          created_at: new Date().toISOString(),
+          ...task,
+        }),
+      );
+      return fetchStatus;
+    };
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should report the progress Meshy returns', async () => {
+      vi.useFakeTimers();
+      const onProgress = vi.fn();
+      const fetchStatus = statusSequence(
+        { progress: 15 },
+        { progress: 60 },
+        { progress: 40 }, // Out-of-order report must not move the bar backwards
+        { status: 'SUCCEEDED', progress: 100 },
+      );
+
+      const polling = MeshyAPI.pollForCompletion('poll-task', { fetchStatus, onProgress });
+      await vi.runAllTimersAsync();
+      const task = await polling;
+
+      expect(task.status).toBe('SUCCEEDED');
+      expect(onProgress.mock.calls.map(([progress]) => progress)).toEqual([0.15, 0.6, 0.6, 1]);
+    });
+
+    it('should back off from fast early polls to the max interval', () => {
+      const noJitter = () => 0.5;
+
+      expect(MeshyAPI.getPollDelay(0, noJitter)).toBe(1000);
+      expect(MeshyAPI.getPollDelay(1, noJitter)).toBe(1500);
+      expect(MeshyAPI.getPollDelay(2, noJitter)).toBe(2250);
+      expect(MeshyAPI.getPollDelay(20, noJitter)).toBe(10000);
+    });
+
+    it('should add bounded jitter to the poll interval', () => {
+      expect(MeshyAPI.getPollDelay(20, () => 0)).toBe(8000);
+      expect(MeshyAPI.getPollDelay(20, () => 1)).toBe(12000);
+    });
+
+    it('should time out on elapsed time rather than attempt count', async () => {
+      vi.useFakeTimers();
+      const fetchStatus = vi.fn().mockResolvedValue({
+        id: 'poll-task',
+        status: 'IN_PROGRESS',
+        progress: 10,
+        created_at: new Date().toISOString(),
+      });
+
+      const polling = MeshyAPI.pollForCompletion('poll-task', { fetchStatus, timeoutMs: 30000 });
+      const assertion = expect(polling).rejects.toThrow('timed out');
+      await vi.advanceTimersByTimeAsync(31000);
+      await assertion;
+
+      // Roughly 1s, 1.5s, 2.25s... adds up to 30s in far fewer than 60 polls
+      expect(fetchStatus.mock.calls.length).toBeGreaterThan(5);
+      expect(fetchStatus.mock.calls.length).toBeLessThan(15);
+    });
+
+    it('should use the timeout configured for the quality level', async () => {
+      vi.useFakeTimers();
+      const fetchStatus = vi.fn().mockResolvedValue({
+        id: 'poll-task',
+        status: 'IN_PROGRESS',
+        progress: 10,
+        created_at: new Date().toISOString(),
+      });
+
+      const polling = MeshyAPI.pollForCompletion('poll-task', { fetchStatus, quality: 'low' });
+      const assertion = expect(polling).rejects.toThrow('timed out after 5 minutes');
+      await vi.advanceTimersByTimeAsync(5 * 60 * 1000 + 1000);
+      await assertion;
+    });
+
+    it('should fail immediately when the task fails', async () => {
+      const fetchStatus = statusSequence({ status: 'FAILED' });
+
+      await expect(MeshyAPI.pollForCompletion('poll-task', { fetchStatus })).rejects.toThrow(
+        '3D model generation failed',
+      );
+      expect(fetchStatus).toHaveBeenCalledTimes(1);
+    });
+
+    it('should surface the server task error when the task fails', async () => {
+      const fetchStatus = statusSequence({
+        status: 'FAILED',
+        task_error: { message: 'Mesh generation ran out of memory' },
+      });
+
+      const failure = await MeshyAPI.pollForCompletion('poll-task', { fetchStatus }).catch(
+        (error) => error,
+      );
+
+      expect(failure).toBeInstanceOf(TaskFailedError);
+      expect(failure.taskId).toBe('poll-task');
+      expect(failure.message).toBe('3D model generation failed: Mesh generation ran out of memory');
+    });
+  });
+
+  describe('Cancellation', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should stop polling as soon as the signal aborts', async () => {
+      vi.useFakeTimers();
+      const controller = new AbortController();
+      const fetchStatus = vi.fn().mockResolvedValue({
+        id: 'poll-task',
+        status: 'IN_PROGRESS',
+        progress: 10,
+        created_at: new Date().toISOString(),
+      });
+
+      const polling = MeshyAPI.pollForCompletion('poll-task', {
+        fetchStatus,
+        signal: controller.signal,
+      });
+      const assertion = expect(polling).rejects.toMatchObject({ name: 'AbortError' });
+      await vi.advanceTimersByTimeAsync(0);
+
+      controller.abort();
+      await assertion;
+
+      expect(fetchStatus).toHaveBeenCalledTimes(1);
+      expect(fetchStatus).toHaveBeenCalledWith('poll-task', controller.signal);
+    });
+
+    it('should cancel image tasks on the image-to-3D endpoint', async () => {
+      let deletedPath: string | undefined;
+      server.use(
+        http.post('/.netlify/functions/meshy-proxy', async ({ request }) => {
+          const body = (await request.clone().json()) as { path?: string; method?: string };
+          if (body.method !== 'DELETE') return undefined;
+          deletedPath = body.path;
+          return HttpResponse.json({ success: true, status: 200, data: {} });
+        }),
+      );
+
+      await MeshyAPI.cancelTask('image-task-1', 'image');
+
+      expect(deletedPath).toBe('/openapi/v1/image-to-3d/image-task-1');
+    });
+  });
+
+  describe('Streaming Status', () => {
+    const streamPath = '/openapi/v2/text-to-3d/stream-task/stream';
+    const succeededTask: MeshyTask = {
+      id: 'stream-task',
+      status: 'SUCCEEDED',
+      progress: 100,
+      model_urls: { glb: 'https://example.com/model.glb' },
+      created_at: new Date().toISOString(),
+    };
+
+    beforeEach(() => {
+      MeshyAPI['streamingUnavailable'] = false;
+    });
+
+    it('should resolve from streamed task events without polling', async () => {
+      const { handler, requestedPaths } = fakeTaskStream([
+        [{ progress: 20 }, { progress: 50 }, { status: 'SUCCEEDED', progress: 100 }],
+      ]);
+      server.use(handler);
+      const fetchStatus = vi.fn();
+      const onProgress = vi.fn();
+
+      const task = await MeshyAPI.waitForCompletion('stream-task', {
+        streaming: true,
+        stream: { path: streamPath },
+        fetchStatus,
+        onProgress,
+      });
+
+      expect(task.status).toBe('SUCCEEDED');
+      expect(requestedPaths).toEqual([streamPath]);
+      expect(fetchStatus).not.toHaveBeenCalled();
+      expect(onProgress.mock.calls.map(([progress]) => progress)).toEqual([0.2, 0.5, 1]);
+    });
+
+    it('should reconnect when the relay window closes before the task finishes', async () => {
+      const { handler, requestedPaths } = fakeTaskStream([
+        [{ progress: 30 }],
+        [],
+        [{ progress: 80 }, { status: 'SUCCEEDED', progress: 100 }],
+      ]);
+      server.use(handler);
+      const fetchStatus = vi.fn();
+
+      const task = await MeshyAPI.waitForCompletion('stream-task', {
+        streaming: true,
+        stream: { path: streamPath },
+        fetchStatus,
+      });
+
+      expect(task.status).toBe('SUCCEEDED');
+      expect(requestedPaths).toHaveLength(3);
+      expect(fetchStatus).not.toHaveBeenCalled();
+    });
+
+    it('should fall back to polling when the proxy cannot stream', async () => {
+      let streamRequests = 0;
+      server.use(
+        http.post('/.netlify/functions/meshy-proxy', async ({ request }) => {
+          const body = (await request.clone().json()) as { stream?: boolean };
+          if (!body?.stream) return undefined;
+          streamRequests++;
+          return HttpResponse.json({ error: 'Missing required field: path' }, { status: 400 });
+        }),
+      );
+      const fetchStatus = vi.fn().mockResolvedValue(succeededTask);
+
+      await MeshyAPI.waitForCompletion('stream-task', {
+        streaming: true,
+        stream: { path: streamPath },
+        fetchStatus,
+      });
+      await MeshyAPI.waitForCompletion('stream-task', {
+        streaming: true,
+        stream: { path: streamPath },
+        fetchStatus,
+      });
+
+      // The unsupported proxy is remembered, so the second task polls straight away
+      expect(streamRequests).toBe(1);
+      expect(fetchStatus).toHaveBeenCalledTimes(2);
+    });
+
+    it('should fall back to polling when the stream reports an error', async () => {
+      const { handler } = fakeTaskStream([[{ progress: 40 }]], { errorEvent: true });
+      server.use(handler);
+      const fetchStatus = vi.fn().mockResolvedValue(succeededTask);
+      const onProgress = vi.fn();
+
+      const task = await MeshyAPI.waitForCompletion('stream-task', {
+        streaming: true,
+        stream: { path: streamPath },
+        fetchStatus,
+        onProgress,
+      });
+
+      expect(task.status).toBe('SUCCEEDED');
+      expect(fetchStatus).toHaveBeenCalledTimes(1);
+      expect(onProgress).toHaveBeenCalledWith(0.4);
+    });
+
+    it('should fail when the streamed task fails', async () => {
+      const { handler } = fakeTaskStream([[{ progress: 10 }, { status: 'FAILED' }]]);
+      server.use(handler);
+      const fetchStatus = vi.fn();
+
+      await expect(
+        MeshyAPI.waitForCompletion('stream-task', {
+          streaming: true,
+          stream: { path: streamPath },
+          fetchStatus,
+        }),
+      ).rejects.toThrow('3D model generation failed');
+      expect(fetchStatus).not.toHaveBeenCalled();
+    });
+
+    it('should map image task events from the stream', async () => {
+      const { handler, requestedPaths } = fakeTaskStream([
+        [{ status: 'SUCCEEDED' as MeshyTask['status'], progress: 100, created_at: 1700000000000 as any }],
+      ]);
+      server.use(handler);
+
+      const task = await MeshyAPI.waitForCompletion('image-task', {
+        streaming: true,
+        stream: {
+          path: '/openapi/v1/image-to-3d/image-task/stream',
+          mapTask: (data) => ({ ...data, created_at: new Date(data.created_at).toISOString() }),
+        },
+      });
+
+      expect(requestedPaths).toEqual(['/openapi/v1/image-to-3d/image-task/stream']);
+      expect(task.created_at).toBe('2023-11-14T22:13:20.000Z');
+    });
+  });
+
   describe('Model Downloads', () => {
     it('should download GLB model successfully', async () => {
       const task = createSuccessfulTask();
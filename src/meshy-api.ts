@@ -5,7 +5,18 @@
  */
 
 import { ApiClient } from './api-client';
+import { POLLING_CONFIG } from './config';
 import { logger } from './utils/logger';
+import { readEventStream } from './utils/sse';
+import { abortableDelay, isAbortError, throwIfAborted } from './utils/abort';
+import {
+  GenerationTimeoutError,
+  InvalidPromptError,
+  MeshyError,
+  meshyErrorFromResponse,
+  taskFailureError,
+} from './meshy-errors';
+import type { TargetSize } from './sizing/real-world-size';
 
 export interface MeshyTask {
   id: string;
@@ -20,6 +31,7 @@ export interface MeshyTask {
   thumbnail_url?: string;
   created_at: string;
   finished_at?: string;
+  task_error?: { message?: string } | null; // Meshy's reason when status is FAILED
 }
 
 export interface GenerationRequest {
@@ -27,11 +39,73 @@ export interface GenerationRequest {
   artStyle?: 'realistic' | 'sculpture';
   enablePBR?: boolean;
   seed?: number;
+  seedPinned?: boolean; // Client-side only: the user chose the seed, so it's part of what identifies the request
   targetPolyCount?: number;
   topology?: 'quad' | 'triangle';
   enableRemesh?: boolean;
+  targetSize?: TargetSize; // Stored with the project only: the real-world size to scale the model to
+  quality?: QualityLevel; // Client-side only: selects the polling timeout
 }
 
+export type GenerationMode = 'text' | 'image';
+
+// Meshy endpoint family a task belongs to; preview and refine tasks are 'text'
+export type MeshyTaskKind = GenerationMode | 'retexture' | 'remesh';
+
+export type QualityLevel = 'low' | 'medium' | 'high';
+
+export interface PollOptions {
+  quality?: QualityLevel;
+  timeoutMs?: number; // Overrides the per-quality timeout
+  onProgress?: (progress: number) => void; // 0-1, as reported by Meshy
+  fetchStatus?: (taskId: string, signal?: AbortSignal) => Promise<MeshyTask>;
+  signal?: AbortSignal; // Stops the wait and any request in flight
+  stream?: TaskStream; // Stream status through the proxy instead of polling
+  streaming?: boolean; // Overrides POLLING_CONFIG.USE_STREAMING
+  startedAt?: number; // Start of the timeout budget when polling takes over from a stream
+}
+
+export interface TaskStream {
+  path: string; // Meshy's SSE endpoint for the task
+  mapTask?: (data: any) => MeshyTask;
+}
+
+export interface ImageGenerationRequest {
+  imageUrl: string; // Public http(s) URL or a base64 data URI (png/jpeg)
+  description?: string; // Stored with the project only, not sent to Meshy
+  enablePBR?: boolean;
+  targetPolyCount?: number;
+  topology?: 'quad' | 'triangle';
+  enableRemesh?: boolean;
+  targetSize?: TargetSize; // Stored with the project only, like the text request's
+  quality?: QualityLevel; // Client-side only: selects the polling timeout
+}
+
+// New textures for a model Meshy already has (sourceTaskId) or an uploaded GLB
+export interface RetextureRequest {
+  sourceTaskId?: string; // Completed text-to-3D, image-to-3D or retexture task
+  modelUrl?: string; // Public http(s) URL or a base64 GLB data URI
+  texturePrompt: string; // e.g. "weathered cedar cladding"
+  enablePBR?: boolean;
+  enableOriginalUV?: boolean; // Keep the source UVs instead of re-unwrapping
+  targetSize?: TargetSize; // The source project's, so the new textures keep its size
+  quality?: QualityLevel; // Client-side only: selects the polling timeout
+}
+
+// New topology for a model Meshy already has, keeping its shape and textures
+export interface RemeshRequest {
+  sourceTaskId?: string; // Completed text-to-3D, image-to-3D, retexture or remesh task
+  modelUrl?: string; // Public http(s) URL or a base64 GLB data URI
+  targetPolyCount: number;
+  topology: 'quad' | 'triangle';
+  description?: string; // Stored with the project only, not sent to Meshy
+  targetSize?: TargetSize; // The source project's, so every version keeps its size
+  quality?: QualityLevel; // Client-side only: selects the polling timeout
+}
+
+// Meshy's accepted range for target_polycount
+export const REMESH_POLY_LIMITS = { min: 100, max: 300000 };
+
 export interface DeviceCapabilities {
   isMobile: boolean;
   maxPolyCount: number;
@@ -56,6 +130,7 @@ export class MeshyAPI {
   // Stage 1: Create preview task
   static async createPreviewTask(
     request: GenerationRequest,
+    signal?: AbortSignal,
   ): Promise<MeshyTask> {
     const capabilities = this.getDeviceCapabilities();
     const optimizedPolyCount = Math.min(
@@ -79,7 +154,7 @@ export class MeshyAPI {
       capabilities
     });
 
-    const response = await ApiClient.post<{result: string}>('/openapi/v2/text-to-3d', payload);
+    const response = await ApiClient.post<{result: string}>('/openapi/v2/text-to-3d', payload, signal);
 
     if (!response.success) {
       logger.error('Meshy API createPreviewTask failed', undefined, {
@@ -88,16 +163,15 @@ export class MeshyAPI {
         message: response.message,
         data: response.data
       });
-      
-      const errorMessage = response.error || response.message || `HTTP ${response.status}` || 'Unknown error';
-      throw new Error(`Preview task failed: ${errorMessage}`);
+
+      throw meshyErrorFromResponse(response, 'Preview task failed');
     }
 
     // Meshy API returns {result: "task-id"}, but we need a MeshyTask object
     // Create a minimal task object with the ID
     const taskId = response.data.result;
     if (!taskId) {
-      throw new Error('Preview task failed: No task ID returned from API');
+      throw new MeshyError('Preview task failed: No task ID returned from API');
     }
 
     logger.info('Preview task created', undefined, { taskId });
@@ -111,7 +185,10 @@ export class MeshyAPI {
   }
 
   // Stage 2: Create refine task
-  static async createRefineTask(previewTaskId: string): Promise<MeshyTask> {
+  static async createRefineTask(
+    previewTaskId: string,
+    signal?: AbortSignal,
+  ): Promise<MeshyTask> {
     const payload = {
       mode: 'refine',
       preview_task_id: previewTaskId,
@@ -119,18 +196,16 @@ export class MeshyAPI {
       ai_model: 'meshy-4', // Required for PBR support
     };
 
-    const response = await ApiClient.post<{result: string}>('/openapi/v2/text-to-3d', payload);
+    const response = await ApiClient.post<{result: string}>('/openapi/v2/text-to-3d', payload, signal);
 
     if (!response.success) {
-      throw new Error(
-        `Refine task failed: ${response.error || response.message || 'Unknown error'}`,
-      );
+      throw meshyErrorFromResponse(response, 'Refine task failed');
     }
 
     // Meshy API returns {result: "task-id"}, extract the task ID
     const taskId = response.data.result;
     if (!taskId) {
-      throw new Error('Refine task failed: No task ID returned from API');
+      throw new MeshyError('Refine task failed: No task ID returned from API');
     }
 
     logger.info('Refine task created', undefined, { taskId });
@@ -143,11 +218,289 @@ export class MeshyAPI {
     } as MeshyTask;
   }
 
+  // Image-to-3D: single task that returns a textured model
+  static async createImageTask(
+    request: ImageGenerationRequest,
+    signal?: AbortSignal,
+  ): Promise<MeshyTask> {
+    this.validateImageUrl(request.imageUrl);
+
+    const capabilities = this.getDeviceCapabilities();
+    const optimizedPolyCount = Math.min(
+      request.targetPolyCount || capabilities.maxPolyCount,
+      capabilities.maxPolyCount,
+    );
+
+    const payload = {
+      image_url: request.imageUrl,
+      enable_pbr: request.enablePBR !== false,
+      should_remesh: request.enableRemesh !== false,
+      should_texture: true,
+      topology: request.topology || 'triangle',
+      target_polycount: optimizedPolyCount,
+      ai_model: 'meshy-4',
+    };
+
+    logger.info('Creating Meshy image-to-3D task', undefined, {
+      source: request.imageUrl.startsWith('data:') ? 'upload' : 'url',
+      polyCount: optimizedPolyCount,
+    });
+
+    const response = await ApiClient.post<{result: string}>('/openapi/v1/image-to-3d', payload, signal);
+
+    if (!response.success) {
+      throw meshyErrorFromResponse(response, 'Image task failed');
+    }
+
+    const taskId = response.data.result;
+    if (!taskId) {
+      throw new MeshyError('Image task failed: No task ID returned from API');
+    }
+
+    logger.info('Image task created', undefined, { taskId });
+
+    return {
+      id: taskId,
+      status: 'PENDING',
+      progress: 0,
+      created_at: Date.now().toString(),
+    } as MeshyTask;
+  }
+
+  // Get image-to-3D task status
+  static async getImageTaskStatus(taskId: string, signal?: AbortSignal): Promise<MeshyTask> {
+    const response = await ApiClient.get(`/openapi/v1/image-to-3d/${taskId}`, signal);
+
+    if (!response.success) {
+      throw meshyErrorFromResponse(response, 'Image task status failed');
+    }
+
+    return this.mapV1Task(response.data);
+  }
+
+  // Retexture: new textures on existing geometry, as a single task
+  static async createRetextureTask(
+    request: RetextureRequest,
+    signal?: AbortSignal,
+  ): Promise<MeshyTask> {
+    const texturePrompt = request.texturePrompt?.trim();
+    if (!texturePrompt) {
+      throw new InvalidPromptError('Texture prompt is required');
+    }
+    if (texturePrompt.length > 600) {
+      throw new InvalidPromptError('Texture prompt must be 600 characters or less');
+    }
+    if (!request.sourceTaskId) {
+      this.validateModelUrl(request.modelUrl, 'retexturing');
+    }
+
+    const payload = {
+      ...(request.sourceTaskId
+        ? { input_task_id: request.sourceTaskId }
+        : { model_url: request.modelUrl }),
+      text_style_prompt: texturePrompt,
+      enable_original_uv: request.enableOriginalUV !== false,
+      enable_pbr: request.enablePBR !== false,
+      ai_model: 'meshy-4',
+    };
+
+    logger.info('Creating Meshy retexture task', undefined, {
+      source: request.sourceTaskId
+        ? 'task'
+        : request.modelUrl?.startsWith('data:') ? 'upload' : 'url',
+      texturePrompt,
+    });
+
+    const response = await ApiClient.post<{result: string}>('/openapi/v1/retexture', payload, signal);
+
+    if (!response.success) {
+      throw meshyErrorFromResponse(response, 'Retexture task failed');
+    }
+
+    const taskId = response.data.result;
+    if (!taskId) {
+      throw new MeshyError('Retexture task failed: No task ID returned from API');
+    }
+
+    logger.info('Retexture task created', undefined, { taskId });
+
+    return {
+      id: taskId,
+      status: 'PENDING',
+      progress: 0,
+      created_at: Date.now().toString(),
+    } as MeshyTask;
+  }
+
+  static async getRetextureTaskStatus(taskId: string, signal?: AbortSignal): Promise<MeshyTask> {
+    const response = await ApiClient.get(`/openapi/v1/retexture/${taskId}`, signal);
+
+    if (!response.success) {
+      throw meshyErrorFromResponse(response, 'Retexture task status failed');
+    }
+
+    return this.mapV1Task(response.data);
+  }
+
+  // Remesh: a lighter or heavier version of a finished model, without regenerating it
+  static async createRemeshTask(
+    request: RemeshRequest,
+    signal?: AbortSignal,
+  ): Promise<MeshyTask> {
+    const { min, max } = REMESH_POLY_LIMITS;
+    if (
+      !Number.isInteger(request.targetPolyCount) ||
+      request.targetPolyCount < min ||
+      request.targetPolyCount > max
+    ) {
+      throw new Error(`Target polygon count must be a whole number between ${min} and ${max}`);
+    }
+    if (request.topology !== 'quad' && request.topology !== 'triangle') {
+      throw new Error('Topology must be quad or triangle');
+    }
+    if (!request.sourceTaskId) {
+      this.validateModelUrl(request.modelUrl, 'remeshing');
+    }
+
+    const payload = {
+      ...(request.sourceTaskId
+        ? { input_task_id: request.sourceTaskId }
+        : { model_url: request.modelUrl }),
+      target_formats: ['glb', 'fbx', 'obj', 'usdz'],
+      topology: request.topology,
+      target_polycount: request.targetPolyCount,
+    };
+
+    logger.info('Creating Meshy remesh task', undefined, {
+      source: request.sourceTaskId
+        ? 'task'
+        : request.modelUrl?.startsWith('data:') ? 'upload' : 'url',
+      polyCount: request.targetPolyCount,
+      topology: request.topology,
+    });
+
+    const response = await ApiClient.post<{result: string}>('/openapi/v1/remesh', payload, signal);
+
+    if (!response.success) {
+      throw meshyErrorFromResponse(response, 'Remesh task failed');
+    }
+
+    const taskId = response.data.result;
+    if (!taskId) {
+      throw new MeshyError('Remesh task failed: No task ID returned from API');
+    }
+
+    logger.info('Remesh task created', undefined, { taskId });
+
+    return {
+      id: taskId,
+      status: 'PENDING',
+      progress: 0,
+      created_at: Date.now().toString(),
+    } as MeshyTask;
+  }
+
+  static async getRemeshTaskStatus(taskId: string, signal?: AbortSignal): Promise<MeshyTask> {
+    const response = await ApiClient.get(`/openapi/v1/remesh/${taskId}`, signal);
+
+    if (!response.success) {
+      throw meshyErrorFromResponse(response, 'Remesh task status failed');
+    }
+
+    return this.mapV1Task(response.data);
+  }
+
+  // Status stream for a task; text-to-3D preview and refine tasks share one endpoint
+  static getTaskStream(taskId: string, kind: MeshyTaskKind = 'text'): TaskStream {
+    return kind === 'text'
+      ? { path: `/openapi/v2/text-to-3d/${taskId}/stream` }
+      : {
+          path: `${this.getTaskPath(taskId, kind)}/stream`,
+          mapTask: (data) => this.mapV1Task(data),
+        };
+  }
+
+  private static getTaskPath(taskId: string, kind: MeshyTaskKind): string {
+    switch (kind) {
+      case 'image':
+        return `/openapi/v1/image-to-3d/${taskId}`;
+      case 'retexture':
+        return `/openapi/v1/retexture/${taskId}`;
+      case 'remesh':
+        return `/openapi/v1/remesh/${taskId}`;
+      default:
+        return `/openapi/v2/text-to-3d/${taskId}`;
+    }
+  }
+
+  // Image-to-3D, retexture and remesh responses use epoch timestamps and extra terminal states
+  private static mapV1Task(data: any): MeshyTask {
+    const status: MeshyTask['status'] =
+      data.status === 'SUCCEEDED' || data.status === 'IN_PROGRESS' || data.status === 'PENDING'
+        ? data.status
+        : 'FAILED'; // FAILED, CANCELED and EXPIRED all end the task
+
+    return {
+      id: data.id,
+      status,
+      progress: data.progress || 0,
+      model_urls: data.model_urls,
+      thumbnail_url: data.thumbnail_url,
+      created_at: new Date(data.created_at || Date.now()).toISOString(),
+      finished_at: data.finished_at
+        ? new Date(data.finished_at).toISOString()
+        : undefined,
+      task_error: data.task_error,
+    };
+  }
+
+  private static validateImageUrl(imageUrl: string): void {
+    if (!imageUrl || imageUrl.trim() === '') {
+      throw new Error('An image is required for image-to-3D generation');
+    }
+
+    if (imageUrl.startsWith('data:')) {
+      if (!/^data:image\/(png|jpe?g);base64,/i.test(imageUrl)) {
+        throw new Error('Only PNG and JPEG images are supported');
+      }
+      // Keep uploads well under the 6MB Netlify function payload limit
+      if (imageUrl.length > 5 * 1024 * 1024) {
+        throw new Error('Image is too large. Please use an image under 3.5MB');
+      }
+      return;
+    }
+
+    if (!this.isValidUrl(imageUrl) || !/^https?:/i.test(imageUrl)) {
+      throw new Error('Image URL must be a valid http(s) address');
+    }
+  }
+
+  private static validateModelUrl(modelUrl: string | undefined, purpose: string): void {
+    if (!modelUrl || modelUrl.trim() === '') {
+      throw new Error(`A source task or model is required for ${purpose}`);
+    }
+
+    if (modelUrl.startsWith('data:')) {
+      if (!/^data:(model\/gltf-binary|application\/octet-stream);base64,/i.test(modelUrl)) {
+        throw new Error(`Only GLB models can be uploaded for ${purpose}`);
+      }
+      // Same Netlify function payload limit as image uploads
+      if (modelUrl.length > 5 * 1024 * 1024) {
+        throw new Error('Model is too large. Please use a GLB under 3.5MB');
+      }
+      return;
+    }
+
+    if (!this.isValidUrl(modelUrl) || !/^https?:/i.test(modelUrl)) {
+      throw new Error('Model URL must be a valid http(s) address');
+    }
+  }
+
   // Get task status
-  static async getTaskStatus(taskId: string): Promise<MeshyTask> {
+  static async getTaskStatus(taskId: string, signal?: AbortSignal): Promise<MeshyTask> {
     logger.info('Getting task status', undefined, { taskId });
     
-    const response = await ApiClient.get<MeshyTask>(`/openapi/v2/text-to-3d/${taskId}`);
+    const response = await ApiClient.get<MeshyTask>(`/openapi/v2/text-to-3d/${taskId}`, signal);
 
     if (!response.success) {
       logger.error('Task status failed', undefined, {
@@ -158,9 +511,7 @@ export class MeshyAPI {
         data: response.data
       });
       
-      throw new Error(
-        `Task status failed: ${response.error || response.message || 'Unknown error'}`,
-      );
+      throw meshyErrorFromResponse(response, 'Task status failed');
     }
 
     logger.info('Task status retrieved', undefined, { 
@@ -178,7 +529,7 @@ export class MeshyAPI {
     progressCallback?: (stage: string, progress: number) => void
   ): Promise<MeshyTask> {
     if (!request.prompt || request.prompt.trim() === '') {
-      throw new Error('Prompt is required');
+      throw new InvalidPromptError('Prompt is required');
     }
 
     const payload = {
@@ -196,14 +547,12 @@ export class MeshyAPI {
     const response = await ApiClient.post<{result: string}>('/openapi/v2/text-to-3d', payload);
 
     if (!response.success) {
-      throw new Error(
-        `Model generation failed: ${response.error || response.message || 'Unknown error'}`,
-      );
+      throw meshyErrorFromResponse(response, 'Model generation failed');
     }
 
     const taskId = response.data.result;
     if (!taskId) {
-      throw new Error('Model generation failed: No task ID returned from API');
+      throw new MeshyError('Model generation failed: No task ID returned from API');
     }
 
     const task = {
@@ -234,36 +583,17 @@ export class MeshyAPI {
     return response.blob();
   }
 
-  // Poll task until completion
+  // Poll task until completion, reporting Meshy's own 0-100 progress
   static async pollTaskUntilComplete(
     taskId: string,
     progressCallback?: (progress: number) => void,
-    maxAttempts: number = 60,
+    quality?: QualityLevel,
   ): Promise<MeshyTask> {
-    let attempts = 0;
-
-    while (attempts < maxAttempts) {
-      const task = await this.getTaskStatus(taskId);
-
-      if (task.status === 'SUCCEEDED') {
-        return task;
-      }
-
-      if (task.status === 'FAILED') {
-        throw new Error('3D model generation failed');
-      }
-
-      // Report progress
-      if (progressCallback) {
-        progressCallback(task.progress || 0);
-      }
-
-      // Wait 2 seconds before next poll
-      await new Promise((resolve) => setTimeout(resolve, 2000));
-      attempts++;
-    }
-
-    throw new Error('Task polling timed out');
+    return this.waitForCompletion(taskId, {
+      quality,
+      onProgress: progressCallback && ((progress) => progressCallback(Math.round(progress * 100))),
+      stream: this.getTaskStream(taskId),
+    });
   }
 
   // Validate model URLs
@@ -298,9 +628,7 @@ export class MeshyAPI {
     const response = await ApiClient.delete(`/openapi/v2/text-to-3d/${taskId}`);
     
     if (!response.success) {
-      throw new Error(
-        `Failed to cancel task: ${response.error || response.message || 'Unknown error'}`,
-      );
+      throw meshyErrorFromResponse(response, 'Failed to cancel task');
     }
   }
 
@@ -314,92 +642,185 @@ export class MeshyAPI {
     }
   }
 
-  // Poll for task completion
+  /**
+   * Polls a task until it succeeds, fails or runs out of time. Progress comes
+   * from the task itself; the interval starts short and backs off with
+   * jitter, and the timeout is an elapsed-time budget per quality level.
+   */
   static async pollForCompletion(
     taskId: string,
-    maxAttempts: number = 60,
-    onProgress?: (progress: number) => void,
+    options: PollOptions = {},
   ): Promise<MeshyTask> {
-    let attempts = 0;
-
-    while (attempts < maxAttempts) {
-      const task = await this.getTaskStatus(taskId);
+    const fetchStatus =
+      options.fetchStatus || ((id: string, signal?: AbortSignal) => this.getTaskStatus(id, signal));
+    const timeoutMs =
+      options.timeoutMs ?? POLLING_CONFIG.TIMEOUT_MS[options.quality || 'medium'];
+    const startedAt = options.startedAt ?? Date.now();
+    let attempt = 0;
+    let lastProgress = 0;
+
+    while (true) {
+      throwIfAborted(options.signal);
+      const task = await fetchStatus(taskId, options.signal);
 
       if (task.status === 'SUCCEEDED') {
+        options.onProgress?.(1);
         return task;
       }
 
       if (task.status === 'FAILED') {
-        throw new Error('3D model generation failed');
+        throw taskFailureError(task.id || taskId, task.task_error?.message);
       }
 
-      // Report progress
-      const progress = Math.min(attempts / maxAttempts, 0.9); // Cap at 90% until complete
-      onProgress?.(progress);
+      // Never let the bar move backwards if Meshy reports a lower value
+      lastProgress = Math.max(lastProgress, Math.min((task.progress || 0) / 100, 1));
+      options.onProgress?.(lastProgress);
 
-      // Wait 5 seconds before next poll
-      await new Promise((resolve) => setTimeout(resolve, 5000));
-      attempts++;
-    }
+      const remaining = timeoutMs - (Date.now() - startedAt);
+      if (remaining <= 0) {
+        throw new GenerationTimeoutError(timeoutMs);
+      }
 
-    throw new Error('3D model generation timed out');
+      const delay = Math.min(this.getPollDelay(attempt), remaining);
+      await abortableDelay(delay, options.signal);
+      attempt++;
+    }
   }
 
-  // Complete text-to-3D generation workflow with progress callbacks
-  static async generateModel(
-    request: GenerationRequest,
-    onProgress?: (stage: string, progress: number) => void,
+  /**
+   * Waits for a task over the proxy's event stream when one is configured,
+   * falling back to polling if the proxy cannot stream or the stream breaks.
+   * Both share one timeout budget.
+   */
+  static async waitForCompletion(
+    taskId: string,
+    options: PollOptions = {},
   ): Promise<MeshyTask> {
-    try {
-      onProgress?.('Creating preview model...', 10);
-
-      // Stage 1: Create preview
-      const previewTask = await this.createPreviewTask(request);
+    const streaming = options.streaming ?? POLLING_CONFIG.USE_STREAMING;
+    const timeoutMs =
+      options.timeoutMs ?? POLLING_CONFIG.TIMEOUT_MS[options.quality || 'medium'];
+    const startedAt = options.startedAt ?? Date.now();
+
+    if (options.stream && streaming && !this.streamingUnavailable) {
+      const streamed = await this.streamForCompletion(taskId, options.stream, {
+        ...options,
+        timeoutMs,
+        startedAt,
+      });
+      if (streamed) {
+        return streamed;
+      }
+    }
 
-      onProgress?.('Generating geometry...', 20);
+    return this.pollForCompletion(taskId, { ...options, timeoutMs, startedAt });
+  }
 
-      // Poll for preview completion
-      const completedPreview = await this.pollForCompletion(
-        previewTask.id,
-        60,
-        (progress) => {
-          onProgress?.('Processing geometry...', 20 + progress * 0.4); // 20-60%
-        },
-      );
+  // Set once the proxy answers a stream request with something else, so
+  // later tasks go straight to polling
+  private static streamingUnavailable = false;
 
-      onProgress?.('Creating textured model...', 60);
+  /**
+   * Follows a task's event stream, reconnecting each time the proxy's relay
+   * window closes. Resolves with null when streaming is unavailable so the
+   * caller can poll instead; task failures and timeouts still throw.
+   */
+  private static async streamForCompletion(
+    taskId: string,
+    stream: TaskStream,
+    options: PollOptions & { timeoutMs: number; startedAt: number },
+  ): Promise<MeshyTask | null> {
+    const mapTask = stream.mapTask || ((data: any) => data as MeshyTask);
+    let lastProgress = 0;
+
+    while (Date.now() - options.startedAt < options.timeoutMs) {
+      throwIfAborted(options.signal);
+
+      let response: Response | null;
+      try {
+        response = await ApiClient.openStream(stream.path, options.signal);
+      } catch (error) {
+        if (isAbortError(error)) throw error;
+        logger.warn('Task stream request failed, polling instead', 'MeshyAPI', { taskId, error });
+        return null;
+      }
 
-      // Stage 2: Create refine task
-      const refineTask = await this.createRefineTask(completedPreview.id);
+      if (!response) {
+        this.streamingUnavailable = true;
+        logger.info('Proxy does not stream task status, polling instead', 'MeshyAPI');
+        return null;
+      }
 
-      onProgress?.('Applying textures...', 70);
+      const outcome: { task?: MeshyTask; streamError?: boolean; received: number } = {
+        received: 0,
+      };
+      let retryMs: number | undefined;
+
+      try {
+        retryMs = await readEventStream(response, (event) => {
+          if (event.event === 'error') {
+            outcome.streamError = true;
+            return true;
+          }
+
+          const task = mapTask(JSON.parse(event.data));
+          outcome.received++;
+
+          if (task.status !== 'PENDING' && task.status !== 'IN_PROGRESS') {
+            outcome.task = task;
+            return true;
+          }
+
+          // Never let the bar move backwards if Meshy reports a lower value
+          lastProgress = Math.max(lastProgress, Math.min((task.progress || 0) / 100, 1));
+          options.onProgress?.(lastProgress);
+        });
+      } catch (error) {
+        if (isAbortError(error) || options.signal?.aborted) throw error;
+        logger.warn('Task stream interrupted, polling instead', 'MeshyAPI', { taskId, error });
+        return null;
+      }
 
-      // Poll for refine completion
-      const completedRefine = await this.pollForCompletion(
-        refineTask.id,
-        60,
-        (progress) => {
-          onProgress?.('Finalizing model...', 70 + progress * 0.3); // 70-100%
-        },
-      );
+      if (outcome.streamError) {
+        logger.warn('Task stream reported an error, polling instead', 'MeshyAPI', { taskId });
+        return null;
+      }
 
-      onProgress?.('Model ready!', 100);
+      if (outcome.task) {
+        if (outcome.task.status !== 'SUCCEEDED') {
+          throw taskFailureError(outcome.task.id || taskId, outcome.task.task_error?.message);
+        }
+        options.onProgress?.(1);
+        return outcome.task;
+      }
 
-      return completedRefine;
-    } catch (error) {
-      logger.error('Meshy API request failed', 'MeshyAPI', error);
-      throw error;
+      // The relay window closed before the task finished; an empty window
+      // waits for the server's retry hint so a stalled stream cannot spin
+      if (outcome.received === 0) {
+        const remaining = options.timeoutMs - (Date.now() - options.startedAt);
+        const delay = Math.min(retryMs ?? POLLING_CONFIG.INITIAL_INTERVAL_MS, remaining);
+        await abortableDelay(Math.max(delay, 0), options.signal);
+      }
     }
+
+    throw new GenerationTimeoutError(options.timeoutMs);
   }
 
-  // Cancel task
-  static async cancelTask(taskId: string): Promise<void> {
-    const response = await ApiClient.delete(`/openapi/v2/text-to-3d/${taskId}`);
+  // Exponential backoff from the initial to the max interval, +/- jitter
+  static getPollDelay(attempt: number, random: () => number = Math.random): number {
+    const base = Math.min(
+      POLLING_CONFIG.INITIAL_INTERVAL_MS * Math.pow(POLLING_CONFIG.BACKOFF_FACTOR, attempt),
+      POLLING_CONFIG.MAX_INTERVAL_MS,
+    );
+    const jitter = base * POLLING_CONFIG.JITTER_RATIO * (random() * 2 - 1);
+    return Math.round(base + jitter);
+  }
+
+  // Cancel task (text-to-3D preview/refine tasks, or an image-to-3D, retexture or remesh task)
+  static async cancelTask(taskId: string, kind: MeshyTaskKind = 'text'): Promise<void> {
+    const response = await ApiClient.delete(this.getTaskPath(taskId, kind));
 
     if (!response.success) {
-      throw new Error(
-        `Cancel task failed: ${response.error || response.message || 'Unknown error'}`,
-      );
+      throw meshyErrorFromResponse(response, 'Cancel task failed');
     }
   }
 
@@ -410,7 +831,11 @@ export class MeshyAPI {
       throw new Error(`Download failed: ${response.statusText}`);
     }
 
-    const blob = await response.blob();
+    this.saveFile(await response.blob(), filename);
+  }
+
+  // Save a blob through a temporary download link
+  static saveFile(blob: Blob, filename: string): void {
     const downloadUrl = URL.createObjectURL(blob);
 
     const a = document.createElement('a');
@@ -0,0 +1,172 @@
+/**
+ * Meshy Error Classification Tests
+ * Copyright © 2024 Kris. All rights reserved.
+ * PROPRIETARY SOFTWARE - NOT OPEN SOURCE
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  BudgetExceededError,
+  CircuitOpenError,
+  ContentModerationError,
+  GenerationTimeoutError,
+  InvalidPromptError,
+  MeshyError,
+  NetworkError,
+  QuotaExhaustedError,
+  TaskFailedError,
+  getErrorGuidance,
+  meshyErrorFromResponse,
+  taskFailureError,
+} from './meshy-errors';
+import type { ApiResponse } from './api-client';
+
+const failedResponse = (overrides: Partial<ApiResponse>): ApiResponse => ({
+  success: false,
+  status: 500,
+  data: null,
+  ...overrides,
+});
+
+describe('Meshy Errors', () => {
+  describe('meshyErrorFromResponse', () => {
+    it('should keep the request context in the message', () => {
+      const error = meshyErrorFromResponse(
+        failedResponse({ error: 'Internal server error' }),
+        'Preview task failed',
+      );
+
+      expect(error).toBeInstanceOf(MeshyError);
+      expect(error.code).toBe('request_failed');
+      expect(error.message).toBe('Preview task failed: Internal server error');
+    });
+
+    it('should classify payment required as exhausted credits', () => {
+      const error = meshyErrorFromResponse(
+        failedResponse({ status: 402, error: 'Payment required' }),
+        'Preview task failed',
+      );
+
+      expect(error).toBeInstanceOf(QuotaExhaustedError);
+      expect((error as QuotaExhaustedError).reason).toBe('credits');
+    });
+
+    it('should tell rate limits apart from an empty credit balance', () => {
+      const rateLimited = meshyErrorFromResponse(
+        failedResponse({ status: 429, error: 'Rate limit exceeded' }),
+        'Preview task failed',
+      );
+      const outOfCredits = meshyErrorFromResponse(
+        failedResponse({ status: 429, error: 'Insufficient credits' }),
+        'Preview task failed',
+      );
+
+      expect((rateLimited as QuotaExhaustedError).reason).toBe('rate_limit');
+      expect((outOfCredits as QuotaExhaustedError).reason).toBe('credits');
+    });
+
+    it('should classify moderation and prompt rejections', () => {
+      const moderated = meshyErrorFromResponse(
+        failedResponse({ status: 400, error: 'Prompt violates content moderation policy' }),
+        'Preview task failed',
+      );
+      const invalid = meshyErrorFromResponse(
+        failedResponse({ status: 422, data: { message: 'Prompt is too long' } }),
+        'Preview task failed',
+      );
+
+      expect(moderated).toBeInstanceOf(ContentModerationError);
+      expect(invalid).toBeInstanceOf(InvalidPromptError);
+    });
+
+    it('should classify requests that never reached Meshy', () => {
+      const circuitOpen = meshyErrorFromResponse(
+        failedResponse({
+          status: 503,
+          error: 'Service temporarily unavailable',
+          errorCode: 'circuit_open',
+        }),
+        'Task status failed',
+      );
+      const offline = meshyErrorFromResponse(
+        failedResponse({ status: 0, error: 'Network error', errorCode: 'network' }),
+        'Task status failed',
+      );
+
+      expect(circuitOpen).toBeInstanceOf(CircuitOpenError);
+      expect(offline).toBeInstanceOf(NetworkError);
+      expect(offline.message).toBe('Task status failed: Network error');
+    });
+
+    it('should tell a spent budget apart from an empty Meshy balance', () => {
+      const error = meshyErrorFromResponse(
+        failedResponse({
+          status: 402,
+          error: "This needs 10 credits, but only 4 of your team's 5000 monthly credits are left",
+          errorCode: 'budget_exceeded',
+          data: { scope: 'team', budget: 5000, spent: 4996, credits: 10 },
+        }),
+        'Refine task failed',
+      );
+
+      expect(error).toBeInstanceOf(BudgetExceededError);
+      expect((error as BudgetExceededError).scope).toBe('team');
+      expect(getErrorGuidance(error)).toEqual(
+        expect.objectContaining({
+          title: 'Monthly credit budget reached',
+          guidance: expect.stringContaining('only 4 of your team'),
+        }),
+      );
+    });
+  });
+
+  describe('taskFailureError', () => {
+    it('should carry the server task error', () => {
+      const error = taskFailureError('task-1', 'Mesh generation ran out of memory');
+
+      expect(error).toBeInstanceOf(TaskFailedError);
+      expect((error as TaskFailedError).taskId).toBe('task-1');
+      expect(error.message).toBe('3D model generation failed: Mesh generation ran out of memory');
+    });
+
+    it('should report moderated tasks as content rejections', () => {
+      expect(taskFailureError('task-1', 'Input flagged as inappropriate')).toBeInstanceOf(
+        ContentModerationError,
+      );
+    });
+  });
+
+  describe('getErrorGuidance', () => {
+    it('should suggest a new seed for failed tasks', () => {
+      const guidance = getErrorGuidance(new TaskFailedError('task-1', 'Geometry collapsed'));
+
+      expect(guidance.action).toBe('retry_new_seed');
+      expect(guidance.guidance).toContain('Geometry collapsed');
+    });
+
+    it('should ask for a new prompt instead of a retry when the prompt is the problem', () => {
+      expect(getErrorGuidance(new ContentModerationError('rejected')).action).toBe('edit_prompt');
+      expect(getErrorGuidance(new InvalidPromptError('Prompt is required')).action).toBe(
+        'edit_prompt',
+      );
+    });
+
+    it('should offer a plain retry for transient failures', () => {
+      for (const error of [
+        new GenerationTimeoutError(5 * 60 * 1000),
+        new CircuitOpenError(),
+        new NetworkError(),
+        new QuotaExhaustedError('Rate limit exceeded', 'rate_limit', 429),
+      ]) {
+        expect(getErrorGuidance(error).action).toBe('retry');
+      }
+    });
+
+    it('should fall back to the raw message for unclassified errors', () => {
+      const guidance = getErrorGuidance(new Error('Viewer not initialized.'));
+
+      expect(guidance.code).toBe('request_failed');
+      expect(guidance.title).toBe('Viewer not initialized');
+    });
+  });
+});
@@ -0,0 +1,272 @@
+/**
+ * Text-to-3D Construction Platform - Meshy Error Types
+ * Copyright © 2024 Kris. All rights reserved.
+ * PROPRIETARY SOFTWARE - NOT OPEN SOURCE
+ *
+ * Typed failures for the Meshy pipeline, so the UI can tell a user what
+ * went wrong and what to do next instead of printing a raw message.
+ */
+
+import type { ApiResponse } from './api-client';
+
+export type MeshyErrorCode =
+  | 'quota_exhausted'
+  | 'budget_exceeded'
+  | 'content_rejected'
+  | 'invalid_prompt'
+  | 'task_failed'
+  | 'timeout'
+  | 'circuit_open'
+  | 'network'
+  | 'request_failed';
+
+// What the user can do about a failure
+export type RecoveryAction = 'retry' | 'retry_new_seed' | 'edit_prompt';
+
+export interface ErrorGuidance {
+  code: MeshyErrorCode;
+  title: string; // Unclassified errors use their own message here
+  guidance: string;
+  action: RecoveryAction;
+  actionLabel: string;
+}
+
+export class MeshyError extends Error {
+  constructor(
+    message: string,
+    public readonly code: MeshyErrorCode = 'request_failed',
+    public readonly status?: number,
+  ) {
+    super(message);
+    this.name = 'MeshyError';
+  }
+}
+
+export class QuotaExhaustedError extends MeshyError {
+  constructor(
+    message: string,
+    public readonly reason: 'credits' | 'rate_limit',
+    status?: number,
+  ) {
+    super(message, 'quota_exhausted', status);
+    this.name = 'QuotaExhaustedError';
+  }
+}
+
+// The user's or team's monthly credit budget can't cover the task
+export class BudgetExceededError extends MeshyError {
+  constructor(
+    message: string,
+    public readonly scope: 'user' | 'team',
+    status = 402,
+  ) {
+    super(message, 'budget_exceeded', status);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+export class ContentModerationError extends MeshyError {
+  constructor(message: string, status?: number) {
+    super(message, 'content_rejected', status);
+    this.name = 'ContentModerationError';
+  }
+}
+
+export class InvalidPromptError extends MeshyError {
+  constructor(message: string, status?: number) {
+    super(message, 'invalid_prompt', status);
+    this.name = 'InvalidPromptError';
+  }
+}
+
+// Meshy accepted the task but it ended FAILED; taskError is Meshy's own reason
+export class TaskFailedError extends MeshyError {
+  constructor(
+    public readonly taskId: string,
+    public readonly taskError?: string,
+  ) {
+    super(
+      taskError ? `3D model generation failed: ${taskError}` : '3D model generation failed',
+      'task_failed',
+    );
+    this.name = 'TaskFailedError';
+  }
+}
+
+export class GenerationTimeoutError extends MeshyError {
+  constructor(public readonly timeoutMs: number) {
+    super(
+      `3D model generation timed out after ${Math.round(timeoutMs / 60000)} minutes`,
+      'timeout',
+    );
+    this.name = 'GenerationTimeoutError';
+  }
+}
+
+export class CircuitOpenError extends MeshyError {
+  constructor(message = 'Service temporarily unavailable') {
+    super(message, 'circuit_open', 503);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+export class NetworkError extends MeshyError {
+  constructor(message = 'Network error') {
+    super(message, 'network', 0);
+    this.name = 'NetworkError';
+  }
+}
+
+const MODERATION_PATTERN = /moderation|inappropriate|violat|not allowed|nsfw|unsafe/i;
+const PROMPT_PATTERN = /prompt/i;
+const CREDITS_PATTERN = /credit|balance|payment|quota/i;
+
+/**
+ * Turns a failed proxy response into a typed error. `context` prefixes the
+ * message the same way the plain errors did ("Preview task failed: ...").
+ */
+export function meshyErrorFromResponse(response: ApiResponse, context: string): MeshyError {
+  const detail =
+    response.error || response.message || (response.status ? `HTTP ${response.status}` : 'Unknown error');
+  const message = `${context}: ${detail}`;
+  const upstream = [response.error, response.message, response.data?.message]
+    .filter(Boolean)
+    .join(' ');
+
+  if (response.errorCode === 'budget_exceeded') {
+    // The proxy's own message already says which budget and by how much
+    return new BudgetExceededError(
+      response.error || message,
+      response.data?.scope === 'team' ? 'team' : 'user',
+      response.status,
+    );
+  }
+  if (response.errorCode === 'circuit_open') {
+    return new CircuitOpenError(message);
+  }
+  if (response.errorCode === 'network') {
+    return new NetworkError(message);
+  }
+
+  switch (response.status) {
+    case 402:
+      return new QuotaExhaustedError(message, 'credits', 402);
+    case 429:
+      return new QuotaExhaustedError(
+        message,
+        CREDITS_PATTERN.test(upstream) ? 'credits' : 'rate_limit',
+        429,
+      );
+    case 400:
+    case 422:
+      if (MODERATION_PATTERN.test(upstream)) {
+        return new ContentModerationError(message, response.status);
+      }
+      if (PROMPT_PATTERN.test(upstream)) {
+        return new InvalidPromptError(message, response.status);
+      }
+      break;
+  }
+
+  return new MeshyError(message, 'request_failed', response.status);
+}
+
+// A FAILED task whose reason is a moderation hit is reported as such
+export function taskFailureError(taskId: string, taskError?: string): MeshyError {
+  if (taskError && MODERATION_PATTERN.test(taskError)) {
+    return new ContentModerationError(`3D model generation failed: ${taskError}`);
+  }
+  return new TaskFailedError(taskId, taskError);
+}
+
+/**
+ * User-facing explanation and next step for any generation failure
+ */
+export function getErrorGuidance(error: unknown): ErrorGuidance {
+  const code = error instanceof MeshyError ? error.code : 'request_failed';
+
+  switch (code) {
+    case 'quota_exhausted':
+      return (error as QuotaExhaustedError).reason === 'rate_limit'
+        ? {
+            code,
+            title: 'Too many generations at once',
+            guidance: 'Meshy is limiting requests. Wait a minute for running generations to finish, then try again.',
+            action: 'retry',
+            actionLabel: 'Try again',
+          }
+        : {
+            code,
+            title: 'Out of Meshy credits',
+            guidance: 'The Meshy credit balance is used up. Top up credits or contact your administrator, then try again.',
+            action: 'retry',
+            actionLabel: 'Try again',
+          };
+    case 'budget_exceeded':
+      return {
+        code,
+        title: 'Monthly credit budget reached',
+        guidance: `${(error as BudgetExceededError).message}. Budgets reset on the 1st of each month; ask your administrator to raise yours, or choose a cheaper option such as fewer variants.`,
+        action: 'retry',
+        actionLabel: 'Try again',
+      };
+    case 'content_rejected':
+      return {
+        code,
+        title: 'Description rejected by content moderation',
+        guidance: 'Rephrase it to remove anything that could read as unsafe, violent or trademarked.',
+        action: 'edit_prompt',
+        actionLabel: 'Edit description',
+      };
+    case 'invalid_prompt':
+      return {
+        code,
+        title: 'Description could not be used',
+        guidance: 'Describe a single object in plain words - what it is, its materials and style.',
+        action: 'edit_prompt',
+        actionLabel: 'Edit description',
+      };
+    case 'task_failed': {
+      const taskError = (error as TaskFailedError).taskError;
+      return {
+        code,
+        title: 'Meshy could not build this model',
+        guidance: `${taskError ? `Meshy reported: ${taskError}. ` : ''}Trying again with a new seed often works.`,
+        action: 'retry_new_seed',
+        actionLabel: 'Retry with new seed',
+      };
+    }
+    case 'timeout':
+      return {
+        code,
+        title: 'Generation took too long',
+        guidance: 'Meshy may be busy. Try again, or pick a lower quality for a faster result.',
+        action: 'retry',
+        actionLabel: 'Try again',
+      };
+    case 'circuit_open':
+      return {
+        code,
+        title: 'Meshy is temporarily unavailable',
+        guidance: 'Several requests failed in a row, so requests are paused for a minute. Try again shortly.',
+        action: 'retry',
+        actionLabel: 'Try again',
+      };
+    case 'network':
+      return {
+        code,
+        title: 'Connection problem',
+        guidance: 'Check your internet connection and try again.',
+        action: 'retry',
+        actionLabel: 'Try again',
+      };
+    default:
+      return {
+        code: 'request_failed',
+        title: error instanceof Error ? error.message.replace(/\.$/, '') : 'Unknown error',
+        guidance: 'Try again in a moment. If it keeps failing, contact support.',
+        action: 'retry',
+        actionLabel: 'Try again',
+      };
+  }
+}
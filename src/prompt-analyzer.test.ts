@@ -0,0 +1,129 @@
+/**
+ * Prompt Analyzer Unit Tests
+ * Copyright © 2024 Kris. All rights reserved.
+ * PROPRIETARY SOFTWARE - NOT OPEN SOURCE
+ */
+
+import { describe, it, expect } from 'vitest';
+import { analyzePrompt, PROMPT_RULES, PromptRules } from './prompt-analyzer';
+import { BUILT_IN_TEMPLATES } from './templates/built-in-templates';
+import { compileTemplate } from './templates/prompt-templates';
+
+const kinds = (prompt: string) => analyzePrompt(prompt).map((suggestion) => suggestion.kind);
+
+describe('Prompt Analyzer', () => {
+  it('should pass a specific single-object prompt', () => {
+    expect(analyzePrompt('precast concrete stair flight, 1.2m wide with a 2.7m rise')).toEqual([]);
+  });
+
+  it('should pass every built-in template', () => {
+    for (const template of BUILT_IN_TEMPLATES) {
+      expect(analyzePrompt(compileTemplate(template).prompt)).toEqual([]);
+    }
+  });
+
+  it('should ignore an empty prompt', () => {
+    expect(analyzePrompt('   ')).toEqual([]);
+  });
+
+  describe('missing information', () => {
+    it('should suggest a material and dimensions for a known element', () => {
+      const suggestions = analyzePrompt('2-bedroom prefab cabin with solar panels');
+
+      expect(suggestions).toEqual([
+        expect.objectContaining({
+          kind: 'missing_material',
+          rewrite: '2-bedroom prefab timber cabin with solar panels',
+        }),
+        expect.objectContaining({
+          kind: 'missing_dimensions',
+          rewrite: '2-bedroom prefab cabin with solar panels, 6m x 2.4m x 2.6m',
+        }),
+      ]);
+    });
+
+    it('should accept imperial sizes and storey counts as dimensions', () => {
+      expect(kinds('steel shipping container, 20ft long')).not.toContain('missing_dimensions');
+      expect(kinds('two-storey timber frame house with a porch')).not.toContain('missing_dimensions');
+    });
+
+    it('should not read words starting with a unit as dimensions', () => {
+      expect(kinds('steel beam made of 5 modules')).toContain('missing_dimensions');
+    });
+
+    it('should give general advice when no element is recognised', () => {
+      const [material] = analyzePrompt('ornate bandstand with a domed canopy').filter(
+        (suggestion) => suggestion.kind === 'missing_material',
+      );
+
+      expect(material.message).toContain('e.g. timber, steel');
+      expect(material.rewrite).toBeUndefined();
+    });
+  });
+
+  describe('vague prompts', () => {
+    it('should suggest replacing vague terms', () => {
+      const [vague] = analyzePrompt('large steel building, 30m x 20m');
+
+      expect(vague).toMatchObject({
+        kind: 'vague',
+        rewrite: 'large steel portal frame warehouse, 30m x 20m',
+      });
+    });
+
+    it('should flag very short prompts', () => {
+      expect(kinds('timber shed')).toContain('vague');
+    });
+  });
+
+  describe('multiple objects', () => {
+    it('should suggest dropping the second object', () => {
+      const [suggestion] = analyzePrompt('timber cabin with solar panels and a steel crane, 6m x 2.4m');
+
+      expect(suggestion).toMatchObject({
+        kind: 'multiple_objects',
+        severity: 'warning',
+        rewrite: 'timber cabin with solar panels, 6m x 2.4m',
+      });
+      expect(suggestion.message).toContain('cabin and the crane');
+    });
+
+    it('should not count parts of an element as separate objects', () => {
+      expect(kinds('timber cabin with a door, two windows and a pitched roof, 6m x 2.4m')).toEqual([]);
+    });
+
+    it('should flag quantities and scenes', () => {
+      expect(kinds('three timber cabins, 6m x 2.4m each')).toContain('multiple_objects');
+      expect(kinds('victorian street of brick terraces, 50m long')).toContain('multiple_objects');
+    });
+  });
+
+  describe('conflicting terms', () => {
+    it('should suggest keeping the first term', () => {
+      const [conflict] = analyzePrompt('modern and victorian brick house, 10m x 8m');
+
+      expect(conflict).toMatchObject({
+        kind: 'conflicting_terms',
+        message: '"modern" and "victorian" pull in different directions. Keep one.',
+        rewrite: 'modern brick house, 10m x 8m',
+      });
+    });
+
+    it('should match hyphenated terms written with spaces', () => {
+      expect(kinds('single storey and two storey timber house, 10m x 8m')).toContain('conflicting_terms');
+    });
+  });
+
+  it('should apply custom rules', () => {
+    const rules: PromptRules = {
+      ...PROMPT_RULES,
+      elements: [{ terms: ['manhole'], material: 'cast iron', dimensions: '600mm diameter' }],
+      materials: ['cast iron'],
+    };
+
+    expect(analyzePrompt('round manhole cover with a grip pattern', rules)).toEqual([
+      expect.objectContaining({ kind: 'missing_material', rewrite: 'round cast iron manhole cover with a grip pattern' }),
+      expect.objectContaining({ kind: 'missing_dimensions', rewrite: 'round manhole cover with a grip pattern, 600mm diameter' }),
+    ]);
+  });
+});
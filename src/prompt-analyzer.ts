@@ -0,0 +1,239 @@
+/**
+ * Text-to-3D Construction Platform - Prompt Analyzer
+ * Copyright © 2024 Kris. All rights reserved.
+ * PROPRIETARY SOFTWARE - NOT OPEN SOURCE
+ *
+ * Checks a description against construction-specific rules before it is
+ * sent to Meshy, which does best with one object of a stated material and
+ * size. The rules are plain data so new terms need no code changes.
+ */
+
+export type PromptIssueKind =
+  | 'multiple_objects'
+  | 'conflicting_terms'
+  | 'vague'
+  | 'missing_material'
+  | 'missing_dimensions';
+
+export interface PromptSuggestion {
+  kind: PromptIssueKind;
+  severity: 'warning' | 'info'; // Warnings are likely to give a poor model
+  message: string;
+  rewrite?: string; // The whole description with the fix applied
+}
+
+// A kind of construction element, with what to suggest when the prompt leaves it out
+export interface ElementRule {
+  terms: string[];
+  material: string;
+  dimensions: string;
+  part?: boolean; // Part of a larger element (doors, windows), so it doesn't count as a second object
+}
+
+export interface VagueTermRule {
+  term: string;
+  replacement?: string;
+}
+
+export interface PromptRules {
+  minWords: number;
+  vagueTerms: VagueTermRule[];
+  materials: string[];
+  dimensionPatterns: RegExp[];
+  elements: ElementRule[];
+  sceneTerms: string[]; // Words that describe several objects at once
+  conflicts: [string, string][];
+}
+
+export const PROMPT_RULES: PromptRules = {
+  minWords: 4,
+  vagueTerms: [
+    { term: 'building', replacement: 'portal frame warehouse' },
+    { term: 'structure', replacement: 'pergola' },
+    { term: 'thing' },
+    { term: 'stuff' },
+    { term: 'something' },
+    { term: 'object' },
+    { term: 'nice' },
+    { term: 'cool' },
+  ],
+  materials: [
+    'timber', 'wood', 'wooden', 'glulam', 'clt', 'plywood', 'bamboo',
+    'steel', 'metal', 'iron', 'aluminium', 'aluminum', 'copper', 'zinc', 'galvanised', 'galvanized',
+    'concrete', 'precast', 'brick', 'block', 'masonry', 'stone', 'granite', 'marble', 'slate',
+    'glass', 'plastic', 'upvc', 'pvc', 'render', 'plaster', 'tile', 'thatch',
+  ],
+  dimensionPatterns: [
+    /\d+(?:\.\d+)?\s*(?:mm|cm|m|km|ft|in|metres?|meters?|feet|foot|inch(?:es)?)(?![a-z])/i,
+    /\d+(?:\.\d+)?\s*['"]/,
+    /\b(?:\d+|one|two|three|four|five|six)[- ]stor(?:e)?y\b/i,
+  ],
+  elements: [
+    { terms: ['beam', 'girder', 'joist', 'lintel'], material: 'steel', dimensions: '6m long, 300mm deep' },
+    { terms: ['column', 'pillar', 'post'], material: 'precast concrete', dimensions: '3m tall, 300mm square' },
+    { terms: ['stair', 'staircase', 'stairway'], material: 'precast concrete', dimensions: '1.2m wide, 2.7m rise' },
+    { terms: ['truss'], material: 'timber', dimensions: '8m span, 2m rise' },
+    { terms: ['wall'], material: 'red brick', dimensions: '5m long, 2m high' },
+    { terms: ['cabin', 'hut', 'shed'], material: 'timber', dimensions: '6m x 2.4m x 2.6m' },
+    { terms: ['container'], material: 'corrugated steel', dimensions: '6m x 2.4m x 2.6m' },
+    { terms: ['house', 'bungalow', 'cottage'], material: 'timber frame', dimensions: '10m x 8m footprint' },
+    { terms: ['warehouse', 'barn'], material: 'steel', dimensions: '30m x 20m, 8m eaves' },
+    { terms: ['scaffold', 'scaffolding'], material: 'galvanised steel', dimensions: '7.5m long, 6m high' },
+    { terms: ['bridge', 'footbridge'], material: 'steel', dimensions: '20m span, 3m wide' },
+    { terms: ['pergola', 'gazebo'], material: 'timber', dimensions: '3m x 3m x 2.5m' },
+    { terms: ['deck', 'decking'], material: 'timber', dimensions: '4m x 3m' },
+    { terms: ['fence', 'hoarding'], material: 'timber', dimensions: '10m long, 2m high' },
+    { terms: ['crane'], material: 'steel', dimensions: '40m tall, 50m jib' },
+    { terms: ['door'], material: 'timber', dimensions: '2.1m x 0.9m', part: true },
+    { terms: ['window'], material: 'aluminium', dimensions: '1.2m x 1.2m', part: true },
+    { terms: ['roof'], material: 'clay tile', dimensions: '8m x 6m', part: true },
+  ],
+  sceneTerms: ['scene', 'street', 'neighbourhood', 'neighborhood', 'village', 'town', 'city', 'campus', 'construction site'],
+  conflicts: [
+    ['modern', 'victorian'],
+    ['modern', 'medieval'],
+    ['new-build', 'weathered'],
+    ['new-build', 'ruined'],
+    ['flat roof', 'pitched roof'],
+    ['interior', 'exterior'],
+    ['low poly', 'highly detailed'],
+    ['cartoon', 'realistic'],
+    ['cartoon', 'photorealistic'],
+    ['single-storey', 'two-storey'],
+  ],
+};
+
+const QUANTITY = '(?:two|three|four|five|six|several|many|multiple|\\d+)';
+const SEPARATOR = /(,|;|\band\b|\bwith\b|\bplus\b|\bnext to\b)/i;
+
+/**
+ * Flags what is likely to give a poor model, most serious first, each with
+ * a rewrite where one can be made without guessing the user's intent
+ */
+export function analyzePrompt(prompt: string, rules: PromptRules = PROMPT_RULES): PromptSuggestion[] {
+  const text = prompt.trim();
+  if (!text) return [];
+
+  const suggestions: PromptSuggestion[] = [];
+  const found = rules.elements.filter((element) => element.terms.some((term) => hasTerm(text, term)));
+  const objects = found.filter((element) => !element.part);
+
+  const scene = rules.sceneTerms.find((term) => hasTerm(text, term));
+  const repeated = objects.find((element) =>
+    element.terms.some((term) =>
+      new RegExp(`\\b${QUANTITY}\\s+(?:[\\w-]+\\s+)?${escape(term)}(?:s|es)\\b`, 'i').test(text),
+    ),
+  );
+  if (objects.length > 1) {
+    const [first, second] = objects;
+    const rewrite = dropClause(text, second);
+    suggestions.push({
+      kind: 'multiple_objects',
+      severity: 'warning',
+      message: `Meshy builds one object at a time. Describe the ${firstTerm(text, first)} and the ${firstTerm(text, second)} in separate generations.`,
+      ...(rewrite !== text && { rewrite }),
+    });
+  } else if (scene || repeated) {
+    suggestions.push({
+      kind: 'multiple_objects',
+      severity: 'warning',
+      message: scene
+        ? `A whole ${scene} is several objects, which Meshy handles poorly. Describe one element of it.`
+        : `Meshy builds one object at a time. Describe a single ${firstTerm(text, repeated!)}.`,
+    });
+  }
+
+  for (const [a, b] of rules.conflicts) {
+    if (hasTerm(text, a) && hasTerm(text, b)) {
+      suggestions.push({
+        kind: 'conflicting_terms',
+        severity: 'warning',
+        message: `"${a}" and "${b}" pull in different directions. Keep one.`,
+        // Drops the second term along with an "and" joining the two
+        rewrite: tidy(text.replace(new RegExp(`(?:\\s+(?:and|or))?\\s*${termPattern(b, '').source}`, 'gi'), ' ')),
+      });
+    }
+  }
+
+  const words = text.split(/\s+/).length;
+  const vague = rules.vagueTerms.find(({ term }) => hasTerm(text, term));
+  if (vague) {
+    suggestions.push({
+      kind: 'vague',
+      severity: 'info',
+      message: `"${vague.term}" is vague. Name the construction element you want.`,
+      ...(vague.replacement && { rewrite: text.replace(termPattern(vague.term, 'i'), vague.replacement) }),
+    });
+  } else if (words < rules.minWords) {
+    suggestions.push({
+      kind: 'vague',
+      severity: 'info',
+      message: 'Very short descriptions give generic models. Say what it is, what it is made of and how big it is.',
+    });
+  }
+
+  // With no known element there is nothing concrete to suggest for material or size
+  const element = objects[0] || found[0];
+  if (!rules.materials.some((material) => hasTerm(text, material))) {
+    suggestions.push({
+      kind: 'missing_material',
+      severity: 'info',
+      message: element
+        ? `No material given. Meshy will guess - e.g. "${element.material} ${firstTerm(text, element)}".`
+        : 'No material given. Add one, e.g. timber, steel, precast concrete or brick.',
+      ...(element && {
+        rewrite: text.replace(termPattern(firstTerm(text, element), 'i'), `${element.material} $&`),
+      }),
+    });
+  }
+
+  if (!rules.dimensionPatterns.some((pattern) => pattern.test(text))) {
+    suggestions.push({
+      kind: 'missing_dimensions',
+      severity: 'info',
+      message: element
+        ? `No dimensions given, so the model's scale is arbitrary - e.g. "${element.dimensions}".`
+        : 'No dimensions given, so the model\'s scale is arbitrary. Add its size, e.g. 6m x 2.4m x 2.6m.',
+      ...(element && { rewrite: `${text.replace(/[\s,.;]+$/, '')}, ${element.dimensions}` }),
+    });
+  }
+
+  return suggestions;
+}
+
+function escape(term: string): string {
+  return term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/[- ]/g, '[- ]');
+}
+
+function termPattern(term: string, flags: string): RegExp {
+  return new RegExp(`\\b${escape(term)}(?:s|es)?\\b`, flags);
+}
+
+function hasTerm(text: string, term: string): boolean {
+  return termPattern(term, 'i').test(text);
+}
+
+// The element's term as the prompt spells it
+function firstTerm(text: string, element: ElementRule): string {
+  return element.terms.find((term) => hasTerm(text, term)) || element.terms[0];
+}
+
+// Removes the clause naming the element, with the word that joined it on
+function dropClause(text: string, element: ElementRule): string {
+  const parts = text.split(SEPARATOR);
+  const index = parts.findIndex(
+    (part, i) => i % 2 === 0 && element.terms.some((term) => hasTerm(part, term)),
+  );
+  if (index <= 0) return text;
+
+  parts.splice(index - 1, 2);
+  return tidy(parts.join(''));
+}
+
+function tidy(text: string): string {
+  return text
+    .replace(/\s+([,;.])/g, '$1')
+    .replace(/([,;])\s*(?=[,;]|$)/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
@@ -0,0 +1,65 @@
+/**
+ * Text-to-3D Construction Platform - Generation Provider Interface
+ * Copyright © 2024 Kris. All rights reserved.
+ * PROPRIETARY SOFTWARE - NOT OPEN SOURCE
+ *
+ * A provider is the backend that turns requests into models. It only knows
+ * how to create, check, cancel and collect individual tasks; the staged
+ * preview/refine workflow on top of it lives in GenerationPipeline.
+ */
+
+import { GENERATION_CONFIG } from '../config';
+import type {
+  GenerationRequest,
+  ImageGenerationRequest,
+  MeshyTask,
+  MeshyTaskKind,
+  RemeshRequest,
+  RetextureRequest,
+  TaskStream,
+} from '../meshy-api';
+import { MeshyProvider } from './meshy-provider';
+import { OfflineProvider } from './offline-provider';
+
+export type ProviderName = 'meshy' | 'offline';
+
+export type TaskStage = 'preview' | 'refine' | 'image' | 'retexture' | 'remesh';
+
+export type TaskInput =
+  | { stage: 'preview'; request: GenerationRequest }
+  | { stage: 'refine'; previewTaskId: string }
+  | { stage: 'image'; request: ImageGenerationRequest }
+  | { stage: 'retexture'; request: RetextureRequest }
+  | { stage: 'remesh'; request: RemeshRequest };
+
+export type TaskResults = Pick<MeshyTask, 'model_urls' | 'thumbnail_url'>;
+
+export interface GenerationHooks {
+  // Called as soon as the provider accepts a task so callers can persist its ID
+  onTaskCreated?: (stage: TaskStage, task: MeshyTask) => void | Promise<void>;
+  // Cancels polling and in-flight requests; the task itself keeps
+  // running until the caller cancels it
+  signal?: AbortSignal;
+}
+
+export interface GenerationProvider {
+  readonly name: ProviderName;
+
+  createTask(input: TaskInput, signal?: AbortSignal): Promise<MeshyTask>;
+
+  getTaskStatus(taskId: string, stage: TaskStage, signal?: AbortSignal): Promise<MeshyTask>;
+
+  cancelTask(taskId: string, kind: MeshyTaskKind): Promise<void>;
+
+  // Model files for a task that has SUCCEEDED
+  getResults(task: MeshyTask, stage: TaskStage): Promise<TaskResults>;
+
+  // Pushed status updates, when the provider has them; otherwise it is polled
+  getTaskStream?(taskId: string, stage: TaskStage): TaskStream | undefined;
+}
+
+export function createGenerationProvider(
+  name: ProviderName = GENERATION_CONFIG.PROVIDER,
+): GenerationProvider {
+  return name === 'offline' ? new OfflineProvider() : new MeshyProvider();
+}
@@ -0,0 +1,62 @@
+/**
+ * Text-to-3D Construction Platform - Meshy Generation Provider
+ * Copyright © 2024 Kris. All rights reserved.
+ * PROPRIETARY SOFTWARE - NOT OPEN SOURCE
+ */
+
+import { MeshyAPI, MeshyTask, MeshyTaskKind, TaskStream } from '../meshy-api';
+import type {
+  GenerationProvider,
+  TaskInput,
+  TaskResults,
+  TaskStage,
+} from './generation-provider';
+
+export class MeshyProvider implements GenerationProvider {
+  readonly name = 'meshy' as const;
+
+  createTask(input: TaskInput, signal?: AbortSignal): Promise<MeshyTask> {
+    switch (input.stage) {
+      case 'preview':
+        return MeshyAPI.createPreviewTask(input.request, signal);
+      case 'refine':
+        return MeshyAPI.createRefineTask(input.previewTaskId, signal);
+      case 'image':
+        return MeshyAPI.createImageTask(input.request, signal);
+      case 'retexture':
+        return MeshyAPI.createRetextureTask(input.request, signal);
+      case 'remesh':
+        return MeshyAPI.createRemeshTask(input.request, signal);
+    }
+  }
+
+  getTaskStatus(taskId: string, stage: TaskStage, signal?: AbortSignal): Promise<MeshyTask> {
+    switch (stage) {
+      case 'image':
+        return MeshyAPI.getImageTaskStatus(taskId, signal);
+      case 'retexture':
+        return MeshyAPI.getRetextureTaskStatus(taskId, signal);
+      case 'remesh':
+        return MeshyAPI.getRemeshTaskStatus(taskId, signal);
+      default:
+        return MeshyAPI.getTaskStatus(taskId, signal);
+    }
+  }
+
+  cancelTask(taskId: string, kind: MeshyTaskKind): Promise<void> {
+    return MeshyAPI.cancelTask(taskId, kind);
+  }
+
+  // Meshy returns the model URLs with the finished task itself
+  async getResults(task: MeshyTask): Promise<TaskResults> {
+    return { model_urls: task.model_urls, thumbnail_url: task.thumbnail_url };
+  }
+
+  getTaskStream(taskId: string, stage: TaskStage): TaskStream {
+    return MeshyAPI.getTaskStream(taskId, taskKind(stage));
+  }
+}
+
+function taskKind(stage: TaskStage): MeshyTaskKind {
+  return stage === 'preview' || stage === 'refine' ? 'text' : stage;
+}
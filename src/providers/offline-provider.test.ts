@@ -0,0 +1,192 @@
+/**
+ * Offline Generation Provider Unit Tests
+ * Copyright © 2024 Kris. All rights reserved.
+ * PROPRIETARY SOFTWARE - NOT OPEN SOURCE
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { OfflineProvider } from './offline-provider';
+import { MeshyError } from '../meshy-errors';
+
+const STAGE_MS = { preview: 1000, refine: 2000, image: 3000, retexture: 2000, remesh: 1000 };
+
+// Splits a GLB data URI into its header fields and glTF JSON
+function readGlb(dataUri: string) {
+  const binary = atob(dataUri.split(',')[1]);
+  const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+  const view = new DataView(bytes.buffer);
+  const jsonLength = view.getUint32(12, true);
+
+  return {
+    magic: view.getUint32(0, true),
+    version: view.getUint32(4, true),
+    length: view.getUint32(8, true),
+    byteLength: bytes.byteLength,
+    gltf: JSON.parse(new TextDecoder().decode(bytes.subarray(20, 20 + jsonLength))),
+  };
+}
+
+describe('OfflineProvider', () => {
+  let clock: number;
+  let provider: OfflineProvider;
+
+  beforeEach(() => {
+    clock = 1_700_000_000_000;
+    provider = new OfflineProvider(STAGE_MS, () => clock);
+  });
+
+  it('should derive progress from the stage duration', async () => {
+    const task = await provider.createTask({
+      stage: 'preview',
+      request: { prompt: 'concrete column', seed: 7 },
+    });
+
+    expect((await provider.getTaskStatus(task.id, 'preview')).status).toBe('PENDING');
+
+    clock += 500;
+    const halfway = await provider.getTaskStatus(task.id, 'preview');
+    expect(halfway.status).toBe('IN_PROGRESS');
+    expect(halfway.progress).toBe(50);
+
+    clock += 500;
+    expect((await provider.getTaskStatus(task.id, 'preview')).status).toBe('SUCCEEDED');
+  });
+
+  it('should answer for tasks created by another instance', async () => {
+    const task = await provider.createTask({
+      stage: 'preview',
+      request: { prompt: 'timber deck', seed: 3 },
+    });
+    clock += STAGE_MS.preview;
+
+    // As after a page reload: only the persisted task ID is left
+    const restored = new OfflineProvider(STAGE_MS, () => clock);
+
+    expect((await restored.getTaskStatus(task.id, 'preview')).status).toBe('SUCCEEDED');
+  });
+
+  it('should build the same model for the same prompt and seed', async () => {
+    const request = { prompt: 'brick wall 5m x 0.2m x 2.4m', seed: 11 };
+    const first = await provider.createTask({ stage: 'preview', request });
+    const second = await new OfflineProvider(STAGE_MS, () => clock + 5000).createTask({
+      stage: 'preview',
+      request,
+    });
+    const reseeded = await provider.createTask({
+      stage: 'preview',
+      request: { ...request, seed: 12 },
+    });
+
+    const model = (task: typeof first) => provider.getResults(task).then((results) => results.model_urls?.glb);
+
+    expect(await model(first)).toBe(await model(second));
+    expect(await model(first)).not.toBe(await model(reseeded));
+  });
+
+  it('should produce a valid GLB sized from the prompt', async () => {
+    const preview = await provider.createTask({
+      stage: 'preview',
+      request: { prompt: 'steel beam 600cm x 20cm x 40cm', seed: 5 },
+    });
+    const refine = await provider.createTask({ stage: 'refine', previewTaskId: preview.id });
+
+    const glb = readGlb((await provider.getResults(refine)).model_urls!.glb!);
+    const position = glb.gltf.accessors[0];
+    const length = position.max[2] - position.min[2];
+
+    expect(glb.magic).toBe(0x46546c67);
+    expect(glb.version).toBe(2);
+    expect(glb.length).toBe(glb.byteLength);
+    expect(glb.gltf.meshes).toHaveLength(1);
+    expect(length).toBeGreaterThan(5.4);
+    expect(length).toBeLessThan(6.6);
+    expect(glb.gltf.materials[0].pbrMetallicRoughness.metallicFactor).toBeGreaterThan(0);
+  });
+
+  it('should leave previews untextured and colour the refined model', async () => {
+    const preview = await provider.createTask({
+      stage: 'preview',
+      request: { prompt: 'timber cabin', seed: 9 },
+    });
+    const refine = await provider.createTask({ stage: 'refine', previewTaskId: preview.id });
+
+    const colours = async (task: typeof preview) =>
+      readGlb((await provider.getResults(task)).model_urls!.glb!).gltf.materials.map(
+        (material: any) => material.pbrMetallicRoughness.baseColorFactor,
+      );
+
+    expect(await colours(preview)).toEqual([
+      [0.8, 0.8, 0.8, 1],
+      [0.8, 0.8, 0.8, 1],
+    ]);
+    expect(await colours(refine)).not.toContainEqual([0.8, 0.8, 0.8, 1]);
+  });
+
+  it('should retexture with the source geometry and the new finish', async () => {
+    const preview = await provider.createTask({
+      stage: 'preview',
+      request: { prompt: 'pine deck 4m x 3m x 0.2m', seed: 21 },
+    });
+    const refine = await provider.createTask({ stage: 'refine', previewTaskId: preview.id });
+    const retexture = await provider.createTask({
+      stage: 'retexture',
+      request: { sourceTaskId: refine.id, texturePrompt: 'polished steel' },
+    });
+
+    const refined = readGlb((await provider.getResults(refine)).model_urls!.glb!).gltf;
+    const retextured = readGlb((await provider.getResults(retexture)).model_urls!.glb!).gltf;
+
+    expect(retextured.accessors[0].max).toEqual(refined.accessors[0].max);
+    expect(retextured.materials[0].pbrMetallicRoughness.metallicFactor).toBeGreaterThan(0);
+    expect(refined.materials[0].pbrMetallicRoughness.metallicFactor).toBe(0);
+  });
+
+  it('should remesh to the target triangle count, keeping shape and finish', async () => {
+    const preview = await provider.createTask({
+      stage: 'preview',
+      request: { prompt: 'concrete slab 6m x 4m x 0.25m', seed: 5 },
+    });
+    const refine = await provider.createTask({ stage: 'refine', previewTaskId: preview.id });
+    const remesh = (targetPolyCount: number) =>
+      provider.createTask({
+        stage: 'remesh',
+        request: { sourceTaskId: refine.id, targetPolyCount, topology: 'triangle' },
+      });
+    // Every vertex belongs to exactly one flat-shaded triangle
+    const triangles = (gltf: any) =>
+      gltf.meshes.reduce(
+        (total: number, _mesh: unknown, index: number) => total + gltf.accessors[index * 2].count / 3,
+        0,
+      );
+
+    const refined = readGlb((await provider.getResults(refine)).model_urls!.glb!).gltf;
+    const heavier = readGlb((await provider.getResults(await remesh(2000))).model_urls!.glb!).gltf;
+    const lighter = readGlb((await provider.getResults(await remesh(200))).model_urls!.glb!).gltf;
+
+    expect(Math.abs(triangles(heavier) - 2000)).toBeLessThan(100);
+    expect(Math.abs(triangles(lighter) - 200)).toBeLessThan(10);
+    expect(triangles(refined)).toBe(12);
+    expect(heavier.accessors[0].max).toEqual(refined.accessors[0].max);
+    expect(heavier.accessors[0].min).toEqual(refined.accessors[0].min);
+    expect(heavier.materials).toEqual(refined.materials);
+  });
+
+  it('should fail cancelled tasks', async () => {
+    const task = await provider.createTask({
+      stage: 'image',
+      request: { imageUrl: 'https://example.com/site-photo.jpg' },
+    });
+
+    await provider.cancelTask(task.id, 'image');
+    const status = await provider.getTaskStatus(task.id, 'image');
+
+    expect(status.status).toBe('FAILED');
+    expect(status.task_error?.message).toBe('Task was cancelled');
+  });
+
+  it('should reject task IDs it did not issue', async () => {
+    await expect(provider.getTaskStatus('meshy-task-123', 'preview')).rejects.toBeInstanceOf(
+      MeshyError,
+    );
+  });
+});
@@ -0,0 +1,242 @@
+/**
+ * Text-to-3D Construction Platform - Offline Generation Provider
+ * Copyright © 2024 Kris. All rights reserved.
+ * PROPRIETARY SOFTWARE - NOT OPEN SOURCE
+ *
+ * Generates placeholder models locally so the app can be developed, demoed
+ * and tested without Meshy. Each task ID carries everything needed to
+ * answer for it - stage, start time, prompt and seed - so status follows
+ * from the clock alone and tasks survive a page reload like Meshy's do.
+ * Remeshes keep their source's shape and colours and only change how many
+ * triangles it is built from; topology has no offline equivalent.
+ */
+
+import { GENERATION_CONFIG } from '../config';
+import type { MeshyTask, MeshyTaskKind } from '../meshy-api';
+import { MeshyError } from '../meshy-errors';
+import { throwIfAborted } from '../utils/abort';
+import type {
+  GenerationProvider,
+  TaskInput,
+  TaskResults,
+  TaskStage,
+} from './generation-provider';
+import { buildPlaceholderParts, fitPolyCount } from './placeholder-model';
+import { buildGlb, toDataUri } from './procedural-glb';
+
+interface OfflineTask {
+  stage: TaskStage;
+  createdAt: number;
+  prompt: string;
+  seed: number;
+  texturePrompt?: string; // Retextures keep the source's shape and take colours from this
+  targetPolyCount?: number; // Remeshes keep shape and colours and aim for this many triangles
+}
+
+const ID_PREFIX = 'offline';
+const STAGES: TaskStage[] = ['preview', 'refine', 'image', 'retexture', 'remesh'];
+
+export class OfflineProvider implements GenerationProvider {
+  readonly name = 'offline' as const;
+
+  private cancelled = new Set<string>();
+  private models = new Map<string, string>();
+
+  constructor(
+    private stageDurations: Record<TaskStage, number> = GENERATION_CONFIG.OFFLINE_STAGE_MS,
+    private now: () => number = () => Date.now(),
+  ) {}
+
+  async createTask(input: TaskInput, signal?: AbortSignal): Promise<MeshyTask> {
+    throwIfAborted(signal);
+
+    const createdAt = this.now();
+    let task: OfflineTask;
+
+    switch (input.stage) {
+      case 'preview':
+        task = {
+          stage: 'preview',
+          createdAt,
+          prompt: input.request.prompt,
+          seed: input.request.seed || 1,
+        };
+        break;
+      case 'refine': {
+        const preview = this.decode(input.previewTaskId, 'Refine task failed');
+        task = { ...preview, stage: 'refine', createdAt };
+        break;
+      }
+      case 'image':
+        // The image itself can't be interpreted offline; its URL only seeds the shape
+        task = {
+          stage: 'image',
+          createdAt,
+          prompt: input.request.description || 'image reference',
+          seed: hashString(input.request.imageUrl),
+        };
+        break;
+      case 'retexture': {
+        const { sourceTaskId, modelUrl = '', texturePrompt } = input.request;
+        // An uploaded model can't be read back either; it seeds a shape like an image does
+        const source = sourceTaskId
+          ? this.decode(sourceTaskId, 'Retexture task failed')
+          : { prompt: texturePrompt, seed: hashString(modelUrl) };
+        task = {
+          stage: 'retexture',
+          createdAt,
+          prompt: source.prompt,
+          seed: source.seed,
+          texturePrompt,
+        };
+        break;
+      }
+      case 'remesh': {
+        const { sourceTaskId, modelUrl = '', targetPolyCount } = input.request;
+        const source = sourceTaskId
+          ? this.decode(sourceTaskId, 'Remesh task failed')
+          : { prompt: 'uploaded model', seed: hashString(modelUrl) };
+        task = { ...source, stage: 'remesh', createdAt, targetPolyCount };
+        break;
+      }
+    }
+
+    return {
+      id: encodeTaskId(task),
+      status: 'PENDING',
+      progress: 0,
+      created_at: new Date(createdAt).toISOString(),
+    };
+  }
+
+  async getTaskStatus(taskId: string, _stage: TaskStage, signal?: AbortSignal): Promise<MeshyTask> {
+    throwIfAborted(signal);
+
+    const task = this.decode(taskId, 'Task status failed');
+    const created_at = new Date(task.createdAt).toISOString();
+
+    if (this.cancelled.has(taskId)) {
+      return {
+        id: taskId,
+        status: 'FAILED',
+        progress: 0,
+        created_at,
+        task_error: { message: 'Task was cancelled' },
+      };
+    }
+
+    const duration = this.stageDurations[task.stage];
+    const elapsed = this.now() - task.createdAt;
+
+    if (elapsed >= duration) {
+      return {
+        id: taskId,
+        status: 'SUCCEEDED',
+        progress: 100,
+        created_at,
+        finished_at: new Date(task.createdAt + duration).toISOString(),
+      };
+    }
+
+    const progress = Math.max(0, Math.floor((elapsed / duration) * 100));
+    return {
+      id: taskId,
+      status: progress > 0 ? 'IN_PROGRESS' : 'PENDING',
+      progress,
+      created_at,
+    };
+  }
+
+  async cancelTask(taskId: string, _kind: MeshyTaskKind): Promise<void> {
+    this.decode(taskId, 'Cancel task failed');
+    this.cancelled.add(taskId);
+  }
+
+  // Previews come back untextured, like Meshy's; every other stage in colour
+  async getResults(task: MeshyTask): Promise<TaskResults> {
+    let glb = this.models.get(task.id);
+
+    if (!glb) {
+      const offlineTask = this.decode(task.id, 'Task results failed');
+      const parts = buildPlaceholderParts(
+        offlineTask.prompt,
+        offlineTask.seed,
+        offlineTask.stage !== 'preview',
+        offlineTask.texturePrompt,
+      );
+      glb = toDataUri(
+        buildGlb(
+          offlineTask.targetPolyCount ? fitPolyCount(parts, offlineTask.targetPolyCount) : parts,
+        ),
+      );
+      this.models.set(task.id, glb);
+    }
+
+    return { model_urls: { glb } };
+  }
+
+  private decode(taskId: string, context: string): OfflineTask {
+    const task = decodeTaskId(taskId);
+    if (!task) {
+      throw new MeshyError(`${context}: Unknown offline task ${taskId}`, 'request_failed', 404);
+    }
+    return task;
+  }
+}
+
+// offline.<stage>.<created, base 36>.<base64url JSON of prompt, seed, texture and polys>
+function encodeTaskId(task: OfflineTask): string {
+  const payload = base64UrlEncode(
+    JSON.stringify({
+      prompt: task.prompt,
+      seed: task.seed,
+      texture: task.texturePrompt,
+      polys: task.targetPolyCount,
+    }),
+  );
+  return [ID_PREFIX, task.stage, task.createdAt.toString(36), payload].join('.');
+}
+
+function decodeTaskId(taskId: string): OfflineTask | null {
+  const [prefix, stage, createdAt, payload] = taskId.split('.');
+  if (prefix !== ID_PREFIX || !STAGES.includes(stage as TaskStage) || !payload) {
+    return null;
+  }
+
+  try {
+    const { prompt, seed, texture, polys } = JSON.parse(base64UrlDecode(payload));
+    return {
+      stage: stage as TaskStage,
+      createdAt: parseInt(createdAt, 36),
+      prompt: String(prompt),
+      seed: Number(seed) || 1,
+      ...(texture && { texturePrompt: String(texture) }),
+      ...(polys > 0 && { targetPolyCount: Number(polys) }),
+    };
+  } catch {
+    return null;
+  }
+}
+
+function base64UrlEncode(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+function base64UrlDecode(encoded: string): string {
+  const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, (char) => char.charCodeAt(0)));
+}
+
+// FNV-1a, as a positive seed
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < value.length; index++) {
+    hash ^= value.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) || 1;
+}
@@ -0,0 +1,240 @@
+/**
+ * Text-to-3D Construction Platform - Placeholder Models
+ * Copyright © 2024 Kris. All rights reserved.
+ * PROPRIETARY SOFTWARE - NOT OPEN SOURCE
+ *
+ * Turns a prompt into a handful of extruded parts for the offline provider.
+ * Sizes come from dimensions in the prompt ("6m x 0.3m x 0.5m") or from
+ * defaults for the construction element it names; the seed only nudges
+ * proportions, so the same prompt and seed always give the same model.
+ */
+
+import { Color, countTriangles, ExtrudedPart, Point2, rectangle } from './procedural-glb';
+
+type ElementKind = 'beam' | 'column' | 'wall' | 'slab' | 'stair' | 'building' | 'block';
+
+interface Size {
+  length: number; // Along X
+  width: number; // Along Z
+  height: number; // Along Y
+}
+
+const ELEMENT_KEYWORDS: [ElementKind, RegExp][] = [
+  ['stair', /\b(stair|stairs|staircase|steps)\b/i],
+  ['beam', /\b(beam|girder|joist|lintel|rafter)s?\b/i],
+  ['column', /\b(column|pillar|post|pier)s?\b/i],
+  ['wall', /\b(wall|partition|fence)s?\b/i],
+  ['slab', /\b(slab|floor|deck|platform|foundation)s?\b/i],
+  ['building', /\b(house|home|cabin|shed|building|garage|barn|hut|office)s?\b/i],
+];
+
+const DEFAULT_SIZES: Record<ElementKind, Size> = {
+  beam: { length: 6, width: 0.2, height: 0.4 },
+  column: { length: 0.4, width: 0.4, height: 3 },
+  wall: { length: 5, width: 0.2, height: 3 },
+  slab: { length: 6, width: 4, height: 0.25 },
+  stair: { length: 3, width: 1.2, height: 2.7 },
+  building: { length: 10, width: 8, height: 3 },
+  block: { length: 2, width: 2, height: 2 },
+};
+
+const MATERIALS: [RegExp, Color, number][] = [
+  [/\b(steel|metal|iron|aluminium|aluminum)\b/i, [0.6, 0.63, 0.68, 1], 0.8],
+  [/\b(timber|wood|wooden|oak|pine|cedar|larch|plywood)\b/i, [0.55, 0.38, 0.22, 1], 0],
+  [/\b(brick|masonry)\b/i, [0.65, 0.3, 0.22, 1], 0],
+  [/\b(concrete|stone|cement)\b/i, [0.7, 0.7, 0.68, 1], 0],
+];
+
+const UNTEXTURED: Color = [0.8, 0.8, 0.8, 1];
+const DEFAULT_COLOR: Color = [0.78, 0.74, 0.68, 1];
+const ROOF_COLOR: Color = [0.42, 0.2, 0.16, 1];
+const EAVE_OVERHANG = 0.3;
+const STEP_RISE = 0.18;
+
+const UNIT_TO_METRES: Record<string, number> = {
+  mm: 0.001,
+  cm: 0.01,
+  m: 1,
+  ft: 0.3048,
+  feet: 0.3048,
+  foot: 0.3048,
+  "'": 0.3048,
+  in: 0.0254,
+  inch: 0.0254,
+  inches: 0.0254,
+};
+
+const NUMBER = String.raw`(\d+(?:\.\d+)?)\s*(mm|cm|m|ft|feet|foot|'|inches|inch|in)?`;
+const DIMENSIONS = new RegExp(
+  String.raw`${NUMBER}\s*(?:x|×|by)\s*${NUMBER}(?:\s*(?:x|×|by)\s*${NUMBER})?`,
+  'i',
+);
+
+/**
+ * Parts for a placeholder of the prompt. Untextured parts stand in for a
+ * preview; textured ones pick colours from materials named in the texture
+ * prompt when there is one, otherwise in the prompt itself.
+ */
+export function buildPlaceholderParts(
+  prompt: string,
+  seed: number,
+  textured: boolean,
+  texturePrompt: string = prompt,
+): ExtrudedPart[] {
+  const kind = ELEMENT_KEYWORDS.find(([, pattern]) => pattern.test(prompt))?.[0] || 'block';
+  const size = parseSize(prompt) || DEFAULT_SIZES[kind];
+  const random = seededRandom(seed);
+  const vary = (value: number) => value * (0.9 + random() * 0.2);
+  const sized: Size = {
+    length: vary(size.length),
+    width: vary(size.width),
+    height: vary(size.height),
+  };
+
+  const material = MATERIALS.find(([pattern]) => pattern.test(texturePrompt));
+  const surface = {
+    color: textured ? material?.[1] || DEFAULT_COLOR : UNTEXTURED,
+    metallic: textured ? material?.[2] ?? 0 : 0,
+  };
+
+  switch (kind) {
+    case 'beam':
+      // Modelled across its section and extruded along its length
+      return [
+        {
+          name: 'beam',
+          profile: iSection(sized.width, sized.height),
+          depth: sized.length,
+          ...surface,
+        },
+      ];
+    case 'stair': {
+      const steps = Math.max(3, Math.round(sized.height / STEP_RISE));
+      return [
+        {
+          name: 'stair',
+          profile: stairProfile(sized.length, sized.height, steps),
+          depth: sized.width,
+          ...surface,
+        },
+      ];
+    }
+    case 'building': {
+      const roofHeight = sized.width * (0.2 + random() * 0.15);
+      return [
+        {
+          name: 'walls',
+          profile: rectangle(sized.length, sized.height),
+          depth: sized.width,
+          ...surface,
+        },
+        {
+          name: 'roof',
+          profile: gableProfile(sized, roofHeight),
+          depth: sized.width + 2 * EAVE_OVERHANG,
+          color: textured ? ROOF_COLOR : UNTEXTURED,
+        },
+      ];
+    }
+    default:
+      return [
+        {
+          name: kind,
+          profile: rectangle(sized.length, sized.height),
+          depth: sized.width,
+          ...surface,
+        },
+      ];
+  }
+}
+
+/**
+ * Slices every part along its extrusion so the model lands near a target
+ * triangle count, standing in for Meshy's remesh. The unsliced model is
+ * the floor; a lower target just gives the plainest version.
+ */
+export function fitPolyCount(parts: ExtrudedPart[], targetPolyCount: number): ExtrudedPart[] {
+  const plain = parts.map((part) => ({ ...part, segments: 1 }));
+  const base = plain.reduce((total, part) => total + countTriangles(part), 0);
+  const perSegment = plain.reduce((total, part) => total + 2 * part.profile.length, 0);
+  const segments = Math.max(1, 1 + Math.round((targetPolyCount - base) / perSegment));
+
+  return plain.map((part) => ({ ...part, segments }));
+}
+
+// "6m x 0.3m x 0.5m" as length x width x height; a trailing unit applies to all
+function parseSize(prompt: string): Size | null {
+  const match = prompt.match(DIMENSIONS);
+  if (!match) return null;
+
+  const values = [1, 3, 5]
+    .filter((index) => match[index] !== undefined)
+    .map((index) => ({ value: Number(match[index]), unit: match[index + 1]?.toLowerCase() }));
+  const fallbackUnit = [...values].reverse().find((entry) => entry.unit)?.unit || 'm';
+  const metres = values.map(
+    (entry) => entry.value * UNIT_TO_METRES[entry.unit || fallbackUnit],
+  );
+
+  if (metres.some((value) => !(value > 0))) return null;
+
+  const [length, width, height = Math.min(length, width)] = metres;
+  return { length, width, height };
+}
+
+// I-section with flanges and web in rough proportion to the beam's size
+function iSection(width: number, height: number): Point2[] {
+  const flange = Math.max(height * 0.08, 0.01);
+  const web = Math.max(width * 0.1, 0.006);
+  const halfWidth = width / 2;
+  const halfWeb = web / 2;
+
+  return [
+    [-halfWidth, 0],
+    [halfWidth, 0],
+    [halfWidth, flange],
+    [halfWeb, flange],
+    [halfWeb, height - flange],
+    [halfWidth, height - flange],
+    [halfWidth, height],
+    [-halfWidth, height],
+    [-halfWidth, height - flange],
+    [-halfWeb, height - flange],
+    [-halfWeb, flange],
+    [-halfWidth, flange],
+  ];
+}
+
+function stairProfile(run: number, rise: number, steps: number): Point2[] {
+  const tread = run / steps;
+  const riser = rise / steps;
+  const start = -run / 2;
+  const profile: Point2[] = [[start, 0], [start + run, 0]];
+
+  for (let step = steps; step >= 1; step--) {
+    profile.push([start + step * tread, step * riser]);
+    profile.push([start + (step - 1) * tread, step * riser]);
+  }
+
+  return profile;
+}
+
+function gableProfile(size: Size, roofHeight: number): Point2[] {
+  const eave = size.length / 2 + EAVE_OVERHANG;
+  return [
+    [-eave, size.height],
+    [eave, size.height],
+    [0, size.height + roofHeight],
+  ];
+}
+
+// mulberry32: tiny, fast and good enough for nudging proportions
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let value = state;
+    value = Math.imul(value ^ (value >>> 15), value | 1);
+    value ^= value + Math.imul(value ^ (value >>> 7), value | 61);
+    return ((value ^ (value >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -0,0 +1,249 @@
+/**
+ * Text-to-3D Construction Platform - Procedural GLB Builder
+ * Copyright © 2024 Kris. All rights reserved.
+ * PROPRIETARY SOFTWARE - NOT OPEN SOURCE
+ *
+ * Builds binary glTF files out of extruded 2D profiles. Every part is a
+ * flat-shaded prism: the profile lies in the XY plane (Y up, metres) and
+ * is extruded along Z, centred on the origin before its offset.
+ */
+
+export type Point2 = [number, number];
+export type Color = [number, number, number, number];
+
+export interface ExtrudedPart {
+  name: string;
+  profile: Point2[]; // Simple polygon, counter-clockwise
+  depth: number;
+  offset?: [number, number, number];
+  color: Color;
+  metallic?: number;
+  roughness?: number;
+  segments?: number; // Slices along the extrusion; only adds triangles to the sides
+}
+
+const GLB_MAGIC = 0x46546c67; // "glTF"
+const CHUNK_JSON = 0x4e4f534a;
+const CHUNK_BIN = 0x004e4942;
+const FLOAT = 5126;
+const ARRAY_BUFFER = 34962;
+
+export function rectangle(width: number, height: number, x = 0, y = 0): Point2[] {
+  const halfWidth = width / 2;
+  return [
+    [x - halfWidth, y],
+    [x + halfWidth, y],
+    [x + halfWidth, y + height],
+    [x - halfWidth, y + height],
+  ];
+}
+
+// Triangles buildGlb will emit for a part
+export function countTriangles(part: ExtrudedPart): number {
+  const sides = part.profile.length;
+  return 2 * (sides - 2) + 2 * sides * Math.max(1, Math.floor(part.segments || 1));
+}
+
+export function buildGlb(parts: ExtrudedPart[]): Uint8Array {
+  const chunks: Float32Array[] = [];
+  let byteOffset = 0;
+
+  const bufferViews: object[] = [];
+  const accessors: object[] = [];
+  const meshes: object[] = [];
+  const materials: object[] = [];
+  const nodes: object[] = [];
+
+  const addView = (data: Float32Array) => {
+    bufferViews.push({ buffer: 0, byteOffset, byteLength: data.byteLength, target: ARRAY_BUFFER });
+    chunks.push(data);
+    byteOffset += data.byteLength;
+    return bufferViews.length - 1;
+  };
+
+  parts.forEach((part, index) => {
+    const { positions, normals } = extrude(part);
+    const count = positions.length / 3;
+    const { min, max } = bounds(positions);
+
+    accessors.push({
+      bufferView: addView(positions),
+      componentType: FLOAT,
+      count,
+      type: 'VEC3',
+      min,
+      max,
+    });
+    accessors.push({ bufferView: addView(normals), componentType: FLOAT, count, type: 'VEC3' });
+
+    materials.push({
+      name: `${part.name}-material`,
+      pbrMetallicRoughness: {
+        baseColorFactor: part.color,
+        metallicFactor: part.metallic ?? 0,
+        roughnessFactor: part.roughness ?? 0.8,
+      },
+    });
+    meshes.push({
+      name: part.name,
+      primitives: [{ attributes: { POSITION: index * 2, NORMAL: index * 2 + 1 }, material: index }],
+    });
+    nodes.push({ name: part.name, mesh: index });
+  });
+
+  const gltf = {
+    asset: { version: '2.0', generator: 'Text-to-3D offline provider' },
+    scene: 0,
+    scenes: [{ nodes: nodes.map((_, index) => index) }],
+    nodes,
+    meshes,
+    materials,
+    accessors,
+    bufferViews,
+    buffers: [{ byteLength: byteOffset }],
+  };
+
+  const json = padTo4(new TextEncoder().encode(JSON.stringify(gltf)), 0x20);
+  const binary = new Uint8Array(byteOffset);
+  let position = 0;
+  for (const chunk of chunks) {
+    binary.set(new Uint8Array(chunk.buffer, chunk.byteOffset, chunk.byteLength), position);
+    position += chunk.byteLength;
+  }
+
+  const totalLength = 12 + 8 + json.byteLength + 8 + binary.byteLength;
+  const glb = new Uint8Array(totalLength);
+  const view = new DataView(glb.buffer);
+
+  view.setUint32(0, GLB_MAGIC, true);
+  view.setUint32(4, 2, true);
+  view.setUint32(8, totalLength, true);
+  view.setUint32(12, json.byteLength, true);
+  view.setUint32(16, CHUNK_JSON, true);
+  glb.set(json, 20);
+
+  const binaryHeader = 20 + json.byteLength;
+  view.setUint32(binaryHeader, binary.byteLength, true);
+  view.setUint32(binaryHeader + 4, CHUNK_BIN, true);
+  glb.set(binary, binaryHeader + 8);
+
+  return glb;
+}
+
+export function toDataUri(glb: Uint8Array): string {
+  let binary = '';
+  for (let index = 0; index < glb.length; index += 0x8000) {
+    binary += String.fromCharCode(...glb.subarray(index, index + 0x8000));
+  }
+  return `data:model/gltf-binary;base64,${btoa(binary)}`;
+}
+
+// Flat-shaded prism: two caps plus a strip of quads per profile edge
+function extrude(part: ExtrudedPart): { positions: Float32Array; normals: Float32Array } {
+  const [offsetX, offsetY, offsetZ] = part.offset || [0, 0, 0];
+  const front = part.depth / 2;
+  const back = -part.depth / 2;
+  const positions: number[] = [];
+  const normals: number[] = [];
+
+  const vertex = ([x, y]: Point2, z: number, normal: [number, number, number]) => {
+    positions.push(x + offsetX, y + offsetY, z + offsetZ);
+    normals.push(...normal);
+  };
+
+  for (const [a, b, c] of triangulate(part.profile)) {
+    vertex(a, front, [0, 0, 1]);
+    vertex(b, front, [0, 0, 1]);
+    vertex(c, front, [0, 0, 1]);
+
+    vertex(a, back, [0, 0, -1]);
+    vertex(c, back, [0, 0, -1]);
+    vertex(b, back, [0, 0, -1]);
+  }
+
+  const segments = Math.max(1, Math.floor(part.segments || 1));
+  const step = part.depth / segments;
+
+  part.profile.forEach((start, index) => {
+    const end = part.profile[(index + 1) % part.profile.length];
+    const dx = end[0] - start[0];
+    const dy = end[1] - start[1];
+    const length = Math.hypot(dx, dy) || 1;
+    const normal: [number, number, number] = [dy / length, -dx / length, 0];
+
+    for (let segment = 0; segment < segments; segment++) {
+      const near = front - segment * step;
+      const far = near - step;
+
+      vertex(start, near, normal);
+      vertex(start, far, normal);
+      vertex(end, far, normal);
+
+      vertex(start, near, normal);
+      vertex(end, far, normal);
+      vertex(end, near, normal);
+    }
+  });
+
+  return { positions: new Float32Array(positions), normals: new Float32Array(normals) };
+}
+
+// Ear clipping; profiles are small, so the quadratic cost doesn't matter
+function triangulate(profile: Point2[]): [Point2, Point2, Point2][] {
+  const remaining = [...profile];
+  const triangles: [Point2, Point2, Point2][] = [];
+
+  while (remaining.length > 3) {
+    const earIndex = remaining.findIndex((_, index) => isEar(remaining, index));
+    // Degenerate outline: fan out whatever is left rather than loop forever
+    if (earIndex === -1) break;
+
+    const previous = remaining[(earIndex - 1 + remaining.length) % remaining.length];
+    const next = remaining[(earIndex + 1) % remaining.length];
+    triangles.push([previous, remaining[earIndex], next]);
+    remaining.splice(earIndex, 1);
+  }
+
+  for (let index = 1; index < remaining.length - 1; index++) {
+    triangles.push([remaining[0], remaining[index], remaining[index + 1]]);
+  }
+
+  return triangles;
+}
+
+function isEar(polygon: Point2[], index: number): boolean {
+  const a = polygon[(index - 1 + polygon.length) % polygon.length];
+  const b = polygon[index];
+  const c = polygon[(index + 1) % polygon.length];
+
+  if (cross(a, b, c) <= 0) return false; // Reflex corner
+
+  return polygon.every(
+    (point) => point === a || point === b || point === c || !insideTriangle(point, a, b, c),
+  );
+}
+
+function cross(a: Point2, b: Point2, c: Point2): number {
+  return (b[0] - a[0]) * (c[1] - a[1]) - (b[1] - a[1]) * (c[0] - a[0]);
+}
+
+function insideTriangle(point: Point2, a: Point2, b: Point2, c: Point2): boolean {
+  return cross(a, b, point) >= 0 && cross(b, c, point) >= 0 && cross(c, a, point) >= 0;
+}
+
+function bounds(positions: Float32Array): { min: number[]; max: number[] } {
+  const min = [Infinity, Infinity, Infinity];
+  const max = [-Infinity, -Infinity, -Infinity];
+  for (let index = 0; index < positions.length; index++) {
+    const axis = index % 3;
+    min[axis] = Math.min(min[axis], positions[index]);
+    max[axis] = Math.max(max[axis], positions[index]);
+  }
+  return { min, max };
+}
+
+function padTo4(bytes: Uint8Array, fill: number): Uint8Array {
+  const padded = new Uint8Array(Math.ceil(bytes.byteLength / 4) * 4).fill(fill);
+  padded.set(bytes);
+  return padded;
+}
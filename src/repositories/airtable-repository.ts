@@ -0,0 +1,59 @@
+/**
+ * Text-to-3D Construction Platform - Airtable Repositories
+ * Copyright © 2024 Kris. All rights reserved.
+ * PROPRIETARY SOFTWARE - NOT OPEN SOURCE
+ *
+ * The repositories backed by the Airtable services, through the proxy.
+ */
+
+import { ProjectService } from '../services/project-service';
+import { DownloadService } from '../services/download-service';
+import { BatchService } from '../services/batch-service';
+import type { BatchRecord, DownloadRecord, ProjectRecord } from '../airtable-service';
+import type { BatchRepository, DownloadRepository, NewDownload, NewProject, ProjectRepository } from './repository';
+
+export class AirtableProjectRepository implements ProjectRepository {
+  createProject(record: NewProject): Promise<ProjectRecord> {
+    return ProjectService.createProject(record);
+  }
+
+  updateProject(id: string, updates: Partial<ProjectRecord>): Promise<ProjectRecord | null> {
+    return ProjectService.updateProject(id, updates);
+  }
+
+  getProject(id: string): Promise<ProjectRecord | null> {
+    return ProjectService.getProject(id);
+  }
+
+  getUserProjects(userEmail: string, limit?: number): Promise<ProjectRecord[]> {
+    return ProjectService.getUserProjects(userEmail, limit);
+  }
+
+  findCompletedProject(requestHash: string): Promise<ProjectRecord | null> {
+    return ProjectService.findCompletedProject(requestHash);
+  }
+}
+
+export class AirtableDownloadRepository implements DownloadRepository {
+  recordDownload(download: NewDownload): Promise<void> {
+    return DownloadService.recordDownload(download);
+  }
+
+  getDownloadHistory(userEmail: string, limit?: number): Promise<DownloadRecord[]> {
+    return DownloadService.getDownloadHistory(userEmail, limit);
+  }
+
+  getDownloadsByProject(projectId: string): Promise<DownloadRecord[]> {
+    return DownloadService.getDownloadsByProject(projectId);
+  }
+}
+
+export class AirtableBatchRepository implements BatchRepository {
+  createBatch(record: Omit<BatchRecord, 'id'>): Promise<BatchRecord> {
+    return BatchService.createBatch(record);
+  }
+
+  getUserBatches(userEmail: string): Promise<BatchRecord[]> {
+    return BatchService.getUserBatches(userEmail);
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * Fallback Project Repository Unit Tests
+ * Copyright © 2024 Kris. All rights reserved.
+ * PROPRIETARY SOFTWARE - NOT OPEN SOURCE
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { FallbackProjectRepository, isLocalProjectId } from './fallback-repository';
+import { LocalProjectRepository } from './local-repository';
+import { LocalRecordStore } from './local-record-store';
+import type { NewProject } from './repository';
+
+describe('FallbackProjectRepository', () => {
+  let store: LocalRecordStore;
+  let primary: LocalProjectRepository;
+  let projects: FallbackProjectRepository;
+  const newProject = (overrides: Partial<NewProject> = {}): NewProject => ({
+    user_email: 'test@example.com',
+    prompt: 'steel beam',
+    status: 'generating',
+    device_type: 'desktop',
+    art_style: 'realistic',
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    // Stands in for Airtable; it shares the store but not the ID prefix
+    store = new LocalRecordStore(false);
+    primary = new LocalProjectRepository(store);
+    projects = new FallbackProjectRepository(primary, store);
+  });
+
+  it('should save projects to the primary repository', async () => {
+    const project = await projects.createProject(newProject());
+
+    expect(isLocalProjectId(project.id)).toBe(false);
+    expect(await primary.getProject(project.id!)).toEqual(project);
+  });
+
+  it('should save projects on this device when the primary repository fails', async () => {
+    vi.spyOn(primary, 'createProject').mockRejectedValueOnce(new Error('Failed to save project to database'));
+    const updateProject = vi.spyOn(primary, 'updateProject');
+
+    const project = await projects.createProject(newProject());
+    await projects.updateProject(project.id!, { status: 'completed' });
+
+    expect(project.id).toMatch(/^local_/);
+    expect(isLocalProjectId(project.id)).toBe(true);
+    expect(updateProject).not.toHaveBeenCalled();
+    expect((await projects.getProject(project.id!))?.status).toBe('completed');
+  });
+
+  it('should list projects from both repositories newest first', async () => {
+    const saved = await projects.createProject(newProject({ prompt: 'first' }));
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    vi.spyOn(primary, 'createProject').mockRejectedValueOnce(new Error('Failed to save project to database'));
+    const local = await projects.createProject(newProject({ prompt: 'second' }));
+
+    const listed = await projects.getUserProjects('test@example.com');
+
+    expect(listed.map((project) => project.id)).toEqual([local.id, saved.id]);
+    expect(await projects.getUserProjects('test@example.com', 1)).toHaveLength(1);
+  });
+
+  it('should still list projects on this device when the primary repository fails', async () => {
+    vi.spyOn(primary, 'createProject').mockRejectedValueOnce(new Error('Failed to save project to database'));
+    const local = await projects.createProject(newProject());
+    const unavailable = new Error('Failed to load projects');
+    vi.spyOn(primary, 'getUserProjects').mockRejectedValue(unavailable);
+
+    expect((await projects.getUserProjects('test@example.com')).map((project) => project.id)).toEqual([local.id]);
+    await expect(projects.getUserProjects('other@example.com')).rejects.toBe(unavailable);
+  });
+
+  it('should reuse completed projects kept on this device', async () => {
+    vi.spyOn(primary, 'createProject').mockRejectedValueOnce(new Error('Failed to save project to database'));
+    const findCompletedProject = vi.spyOn(primary, 'findCompletedProject');
+    const local = await projects.createProject(newProject({ request_hash: 'abc', status: 'completed' }));
+
+    expect((await projects.findCompletedProject('abc'))?.id).toBe(local.id);
+    expect(findCompletedProject).not.toHaveBeenCalled();
+    expect(await projects.findCompletedProject('def')).toBeNull();
+  });
+});
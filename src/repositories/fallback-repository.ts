@@ -0,0 +1,79 @@
+/**
+ * Text-to-3D Construction Platform - Fallback Project Repository
+ * Copyright © 2024 Kris. All rights reserved.
+ * PROPRIETARY SOFTWARE - NOT OPEN SOURCE
+ *
+ * Keeps projects on this device when they can't be saved to the primary
+ * repository, so a generation made while Airtable is unreachable can still
+ * be retried, resumed, reused and listed. Projects created here get a
+ * `local_` ID.
+ */
+
+import type { ProjectRecord } from '../airtable-service';
+import { logger } from '../utils/logger';
+import type { LocalRecordStore } from './local-record-store';
+import { LocalProjectRepository, newestFirst } from './local-repository';
+import type { NewProject, ProjectRepository } from './repository';
+
+const LOCAL_ID_PREFIX = 'local';
+
+// Projects that were never saved to the primary repository
+export function isLocalProjectId(id: string | undefined): boolean {
+  return !!id && id.startsWith(`${LOCAL_ID_PREFIX}_`);
+}
+
+export class FallbackProjectRepository implements ProjectRepository {
+  private local: LocalProjectRepository;
+
+  constructor(
+    private primary: ProjectRepository,
+    store: LocalRecordStore,
+  ) {
+    this.local = new LocalProjectRepository(store, LOCAL_ID_PREFIX);
+  }
+
+  async createProject(record: NewProject): Promise<ProjectRecord> {
+    try {
+      return await this.primary.createProject(record);
+    } catch (error) {
+      logger.warn('Saving project on this device instead', 'FallbackProjectRepository', error);
+      return this.local.createProject(record);
+    }
+  }
+
+  updateProject(id: string, updates: Partial<ProjectRecord>): Promise<ProjectRecord | null> {
+    return this.repositoryFor(id).updateProject(id, updates);
+  }
+
+  getProject(id: string): Promise<ProjectRecord | null> {
+    return this.repositoryFor(id).getProject(id);
+  }
+
+  // While the primary is unreachable only this device's projects are listed, if it has any
+  async getUserProjects(userEmail: string, limit: number = 20): Promise<ProjectRecord[]> {
+    const [primary, local] = await Promise.allSettled([
+      this.primary.getUserProjects(userEmail, limit),
+      this.local.getUserProjects(userEmail, limit),
+    ]);
+    if (local.status === 'rejected') {
+      throw local.reason;
+    }
+    if (primary.status === 'rejected') {
+      if (local.value.length === 0) {
+        throw primary.reason;
+      }
+      logger.warn('Listing only the projects on this device', 'FallbackProjectRepository', primary.reason);
+      return local.value;
+    }
+    return newestFirst([...primary.value, ...local.value], (project) => project.created_at).slice(0, limit);
+  }
+
+  // Checked on this device first, which works while the primary is unreachable
+  async findCompletedProject(requestHash: string): Promise<ProjectRecord | null> {
+    return (await this.local.findCompletedProject(requestHash)) || this.primary.findCompletedProject(requestHash);
+  }
+
+  private repositoryFor(id: string): ProjectRepository {
+    return isLocalProjectId(id) ? this.local : this.primary;
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * Text-to-3D Construction Platform - Local Record Store
+ * Copyright © 2024 Kris. All rights reserved.
+ * PROPRIETARY SOFTWARE - NOT OPEN SOURCE
+ *
+ * Keeps the local backend's projects, downloads and batches in the app's
+ * IndexedDB database, one object store per table, so they survive reloads
+ * without Airtable.
+ */
+
+import { openAppDatabase, storeRequest } from '../services/app-database';
+
+export type LocalTable = 'projects' | 'downloads' | 'batches';
+
+const TABLES: LocalTable[] = ['projects', 'downloads', 'batches'];
+
+export class LocalRecordStore {
+  private static instance: LocalRecordStore;
+  private db: IDBDatabase | null = null;
+  private initPromise: Promise<void> | null = null;
+  // Used when IndexedDB is unavailable (private browsing, tests) or turned off
+  private memoryTables = new Map<LocalTable, Map<string, unknown>>(
+    TABLES.map((table) => [table, new Map()]),
+  );
+
+  static getInstance(): LocalRecordStore {
+    if (!LocalRecordStore.instance) {
+      LocalRecordStore.instance = new LocalRecordStore();
+    }
+    return LocalRecordStore.instance;
+  }
+
+  constructor(private useIndexedDB = true) {}
+
+  async initialize(): Promise<void> {
+    if (!this.initPromise) {
+      this.initPromise = this.useIndexedDB
+        ? openAppDatabase().then((db) => {
+            this.db = db;
+          })
+        : Promise.resolve();
+    }
+    return this.initPromise;
+  }
+
+  createId(prefix: string): string {
+    return `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  async get<T>(table: LocalTable, id: string): Promise<T | null> {
+    await this.initialize();
+
+    if (!this.db) {
+      const record = this.memoryTables.get(table)!.get(id) as T | undefined;
+      return record ? structuredClone(record) : null;
+    }
+
+    const record = await storeRequest<T | undefined>(this.db, table, 'readonly', (store) => store.get(id));
+    return record || null;
+  }
+
+  async getAll<T>(table: LocalTable): Promise<T[]> {
+    await this.initialize();
+
+    if (!this.db) {
+      return Array.from(this.memoryTables.get(table)!.values(), (record) => structuredClone(record) as T);
+    }
+
+    return storeRequest<T[]>(this.db, table, 'readonly', (store) => store.getAll());
+  }
+
+  // Replaces any record already stored under the same ID
+  async put<T extends { id?: string }>(table: LocalTable, record: T): Promise<void> {
+    if (!record.id) {
+      throw new Error('Only records with an ID can be stored locally');
+    }
+    await this.initialize();
+
+    if (!this.db) {
+      // Copied in and out, as IndexedDB does, so callers never share an object with the store
+      this.memoryTables.get(table)!.set(record.id, structuredClone(record));
+      return;
+    }
+
+    await storeRequest(this.db, table, 'readwrite', (store) => store.put(record));
+  }
+}
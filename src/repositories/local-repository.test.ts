@@ -0,0 +1,115 @@
+/**
+ * Local Repository Unit Tests
+ * Copyright © 2024 Kris. All rights reserved.
+ * PROPRIETARY SOFTWARE - NOT OPEN SOURCE
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createRepositories, NewProject, Repositories } from './repository';
+import type { BatchRecord, ProjectRecord } from '../types';
+
+describe('Local repositories', () => {
+  let repositories: Repositories;
+  const newProject = (overrides: Partial<NewProject> = {}): NewProject => ({
+    user_email: 'test@example.com',
+    prompt: 'steel beam',
+    status: 'generating',
+    device_type: 'desktop',
+    art_style: 'realistic',
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    repositories = createRepositories('memory');
+  });
+
+  it('should create projects with an ID and no downloads', async () => {
+    const project = await repositories.projects.createProject(newProject());
+
+    expect(project.id).toMatch(/^projects_/);
+    expect(project.download_count).toBe(0);
+    expect(await repositories.projects.getProject(project.id!)).toEqual(project);
+  });
+
+  it('should update stored projects', async () => {
+    const project = await repositories.projects.createProject(newProject());
+
+    const updated = await repositories.projects.updateProject(project.id!, { status: 'completed' });
+
+    expect(updated?.status).toBe('completed');
+    expect((await repositories.projects.getProject(project.id!))?.status).toBe('completed');
+    await expect(repositories.projects.updateProject('projects_missing', { status: 'failed' })).rejects.toThrow(
+      'Project projects_missing not found',
+    );
+  });
+
+  it('should reject projects that do not match the Projects table schema', async () => {
+    const project = await repositories.projects.createProject(newProject());
+
+    await expect(
+      repositories.projects.createProject(newProject({ status: 'archived' as ProjectRecord['status'] })),
+    ).rejects.toThrow('Project does not match the Projects table schema');
+    await expect(
+      repositories.projects.updateProject(project.id!, { device_type: 'watch' as ProjectRecord['device_type'] }),
+    ).rejects.toThrow('Project does not match the Projects table schema');
+    expect((await repositories.projects.getProject(project.id!))?.device_type).toBe('desktop');
+  });
+
+  it('should list a user\'s projects newest first', async () => {
+    const first = await repositories.projects.createProject(newProject({ prompt: 'first' }));
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    const second = await repositories.projects.createProject(newProject({ prompt: 'second' }));
+    await repositories.projects.createProject(newProject({ user_email: 'other@example.com' }));
+
+    const projects = await repositories.projects.getUserProjects('test@example.com');
+
+    expect(projects.map((project) => project.id)).toEqual([second.id, first.id]);
+    expect(await repositories.projects.getUserProjects('test@example.com', 1)).toHaveLength(1);
+  });
+
+  it('should only reuse completed projects with the same request hash', async () => {
+    await repositories.projects.createProject(newProject({ request_hash: 'abc', status: 'failed' }));
+    const completed = await repositories.projects.createProject(newProject({ request_hash: 'abc', status: 'completed' }));
+
+    expect((await repositories.projects.findCompletedProject('abc'))?.id).toBe(completed.id);
+    expect(await repositories.projects.findCompletedProject('def')).toBeNull();
+  });
+
+  it('should record downloads and count them on the project', async () => {
+    const project = await repositories.projects.createProject(newProject());
+    const download = { project_id: project.id!, user_email: 'test@example.com', format: 'glb', device_type: 'desktop' };
+
+    await repositories.downloads.recordDownload(download);
+    await repositories.downloads.recordDownload({ ...download, format: 'fbx' });
+
+    expect((await repositories.projects.getProject(project.id!))?.download_count).toBe(2);
+    expect(await repositories.downloads.getDownloadsByProject(project.id!)).toHaveLength(2);
+    expect(await repositories.downloads.getDownloadHistory('test@example.com', 1)).toHaveLength(1);
+    expect(await repositories.downloads.getDownloadHistory('other@example.com')).toEqual([]);
+  });
+
+  it('should store batch summaries per user', async () => {
+    const summary: Omit<BatchRecord, 'id'> = {
+      user_email: 'test@example.com',
+      name: 'Schedule',
+      status: 'completed',
+      created_at: '2024-01-01T00:00:00.000Z',
+      completed_at: '2024-01-01T00:10:00.000Z',
+      total: 1,
+      succeeded: 1,
+      failed: 0,
+      items: [{ line: 1, name: 'Beam', prompt: 'steel beam', status: 'completed' }],
+    };
+
+    const batch = await repositories.batches.createBatch(summary);
+
+    expect(await repositories.batches.getUserBatches('test@example.com')).toEqual([batch]);
+    expect(await repositories.batches.getUserBatches('other@example.com')).toEqual([]);
+  });
+
+  it('should keep separate records for each in-memory backend', async () => {
+    await repositories.projects.createProject(newProject());
+
+    expect(await createRepositories('memory').projects.getUserProjects('test@example.com')).toEqual([]);
+  });
+});
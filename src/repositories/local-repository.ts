@@ -0,0 +1,161 @@
+/**
+ * Text-to-3D Construction Platform - Local Repositories
+ * Copyright © 2024 Kris. All rights reserved.
+ * PROPRIETARY SOFTWARE - NOT OPEN SOURCE
+ *
+ * The repositories backed by this browser, for offline and self-contained
+ * use. Records never leave the device, so other team members' projects are
+ * not found when reusing earlier generations.
+ */
+
+import type { BatchRecord, DownloadRecord, ProjectRecord } from '../airtable-service';
+import type { AirtableRecord } from '../services/airtable-proxy-client';
+import { decodeRecord, encodeRecord, reportSchemaIssues } from '../schema/table-schema';
+import { PROJECT_SCHEMA } from '../schema/project-schema';
+import { logger } from '../utils/logger';
+import type { LocalRecordStore } from './local-record-store';
+import type { BatchRepository, DownloadRepository, NewDownload, NewProject, ProjectRepository } from './repository';
+
+export function newestFirst<T>(records: T[], date: (record: T) => string): T[] {
+  return records.sort((a, b) => date(b).localeCompare(date(a)));
+}
+
+// Projects are stored as Airtable rows and checked against the same schema, so
+// a project that Airtable would reject is rejected here too
+function decodeProject(row: AirtableRecord): ProjectRecord | null {
+  const { record, issues } = decodeRecord(PROJECT_SCHEMA, row);
+  reportSchemaIssues(issues);
+  return record;
+}
+
+function encodeProject(values: Partial<ProjectRecord>, partial = false): Record<string, unknown> {
+  const { fields, issues } = encodeRecord(PROJECT_SCHEMA, values, { partial });
+  if (issues.length > 0) {
+    reportSchemaIssues(issues);
+    throw new Error('Project does not match the Projects table schema');
+  }
+  return fields;
+}
+
+export class LocalProjectRepository implements ProjectRepository {
+  // idPrefix tells these projects apart from those of another backend, see FallbackProjectRepository
+  constructor(
+    private store: LocalRecordStore,
+    private idPrefix = 'projects',
+  ) {}
+
+  async createProject(record: NewProject): Promise<ProjectRecord> {
+    const now = new Date().toISOString();
+    const row: AirtableRecord = {
+      id: this.store.createId(this.idPrefix),
+      createdTime: now,
+      fields: encodeProject({ ...record, created_at: now, download_count: 0 }),
+    };
+    await this.store.put('projects', row);
+
+    const project = decodeProject(row);
+    if (!project) throw new Error('Created project does not match the Projects table schema');
+    return project;
+  }
+
+  async updateProject(id: string, updates: Partial<ProjectRecord>): Promise<ProjectRecord | null> {
+    const row = await this.store.get<AirtableRecord>('projects', id);
+    if (!row) {
+      throw new Error(`Project ${id} not found`);
+    }
+
+    const updated: AirtableRecord = { ...row, fields: { ...row.fields, ...encodeProject(updates, true) } };
+    await this.store.put('projects', updated);
+    return decodeProject(updated);
+  }
+
+  async getProject(id: string): Promise<ProjectRecord | null> {
+    const row = await this.store.get<AirtableRecord>('projects', id);
+    return row ? decodeProject(row) : null;
+  }
+
+  async getUserProjects(userEmail: string, limit: number = 20): Promise<ProjectRecord[]> {
+    const projects = await this.getAllProjects();
+    return newestFirst(
+      projects.filter((project) => project.user_email === userEmail),
+      (project) => project.created_at,
+    ).slice(0, limit);
+  }
+
+  async findCompletedProject(requestHash: string): Promise<ProjectRecord | null> {
+    const projects = await this.getAllProjects();
+    const matches = projects.filter(
+      (project) => project.request_hash === requestHash && project.status === 'completed',
+    );
+    return newestFirst(matches, (project) => project.created_at)[0] || null;
+  }
+
+  private async getAllProjects(): Promise<ProjectRecord[]> {
+    const rows = await this.store.getAll<AirtableRecord>('projects');
+    return rows
+      .filter((row) => row.id?.startsWith(`${this.idPrefix}_`))
+      .map(decodeProject)
+      .filter((project): project is ProjectRecord => project !== null);
+  }
+}
+
+export class LocalDownloadRepository implements DownloadRepository {
+  constructor(
+    private store: LocalRecordStore,
+    private projects: ProjectRepository,
+  ) {}
+
+  async recordDownload(download: NewDownload): Promise<void> {
+    try {
+      await this.store.put<DownloadRecord>('downloads', {
+        ...download,
+        id: this.store.createId('downloads'),
+        downloaded_at: new Date().toISOString(),
+      });
+
+      const project = await this.projects.getProject(download.project_id);
+      if (project) {
+        await this.projects.updateProject(download.project_id, {
+          download_count: (project.download_count || 0) + 1,
+        });
+      }
+    } catch (error) {
+      // Don't throw for download tracking - it's not critical
+      logger.warn('Failed to record download', 'LocalDownloadRepository', error);
+    }
+  }
+
+  async getDownloadHistory(userEmail: string, limit: number = 50): Promise<DownloadRecord[]> {
+    const downloads = await this.store.getAll<DownloadRecord>('downloads');
+    return newestFirst(
+      downloads.filter((download) => download.user_email === userEmail),
+      (download) => download.downloaded_at,
+    ).slice(0, limit);
+  }
+
+  async getDownloadsByProject(projectId: string): Promise<DownloadRecord[]> {
+    const downloads = await this.store.getAll<DownloadRecord>('downloads');
+    return newestFirst(
+      downloads.filter((download) => download.project_id === projectId),
+      (download) => download.downloaded_at,
+    );
+  }
+}
+
+export class LocalBatchRepository implements BatchRepository {
+  constructor(private store: LocalRecordStore) {}
+
+  async createBatch(record: Omit<BatchRecord, 'id'>): Promise<BatchRecord> {
+    const batch: BatchRecord = { ...record, id: this.store.createId('batches') };
+    await this.store.put('batches', batch);
+    return batch;
+  }
+
+  async getUserBatches(userEmail: string): Promise<BatchRecord[]> {
+    const batches = await this.store.getAll<BatchRecord>('batches');
+    return newestFirst(
+      batches.filter((batch) => batch.user_email === userEmail),
+      (batch) => batch.created_at,
+    );
+  }
+}
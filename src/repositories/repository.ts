@@ -0,0 +1,83 @@
+/**
+ * Text-to-3D Construction Platform - Repository Interfaces
+ * Copyright © 2024 Kris. All rights reserved.
+ * PROPRIETARY SOFTWARE - NOT OPEN SOURCE
+ *
+ * Where projects, downloads and batches are stored. The app only talks to
+ * these interfaces; Airtable and this browser's IndexedDB are the backends
+ * behind them, chosen by STORAGE_CONFIG.
+ */
+
+import { STORAGE_CONFIG } from '../config';
+import type { BatchRecord, DownloadRecord, ProjectRecord } from '../airtable-service';
+import { AirtableBatchRepository, AirtableDownloadRepository, AirtableProjectRepository } from './airtable-repository';
+import { FallbackProjectRepository } from './fallback-repository';
+import { LocalBatchRepository, LocalDownloadRepository, LocalProjectRepository } from './local-repository';
+import { LocalRecordStore } from './local-record-store';
+
+// 'memory' is the local backend without IndexedDB, for tests and throwaway sessions
+export type StorageBackend = 'airtable' | 'local' | 'memory';
+
+export type NewProject = Omit<ProjectRecord, 'id' | 'created_at' | 'download_count'>;
+
+export type NewDownload = Omit<DownloadRecord, 'id' | 'downloaded_at'>;
+
+export interface ProjectRepository {
+  createProject(record: NewProject): Promise<ProjectRecord>;
+
+  // The updated project, or null when it no longer matches the schema or isn't known yet
+  updateProject(id: string, updates: Partial<ProjectRecord>): Promise<ProjectRecord | null>;
+
+  // Null when there is no such project or it couldn't be loaded
+  getProject(id: string): Promise<ProjectRecord | null>;
+
+  // Newest first
+  getUserProjects(userEmail: string, limit?: number): Promise<ProjectRecord[]>;
+
+  // The latest completed project with this request hash, see utils/request-hash
+  findCompletedProject(requestHash: string): Promise<ProjectRecord | null>;
+}
+
+export interface DownloadRepository {
+  // Also counts the download on its project; failures are logged, never thrown
+  recordDownload(download: NewDownload): Promise<void>;
+
+  // Newest first
+  getDownloadHistory(userEmail: string, limit?: number): Promise<DownloadRecord[]>;
+
+  getDownloadsByProject(projectId: string): Promise<DownloadRecord[]>;
+}
+
+export interface BatchRepository {
+  createBatch(record: Omit<BatchRecord, 'id'>): Promise<BatchRecord>;
+
+  // Newest first
+  getUserBatches(userEmail: string): Promise<BatchRecord[]>;
+}
+
+export interface Repositories {
+  readonly backend: StorageBackend;
+  projects: ProjectRepository;
+  downloads: DownloadRepository;
+  batches: BatchRepository;
+}
+
+export function createRepositories(backend: StorageBackend = STORAGE_CONFIG.BACKEND): Repositories {
+  if (backend === 'airtable') {
+    return {
+      backend,
+      projects: new FallbackProjectRepository(new AirtableProjectRepository(), LocalRecordStore.getInstance()),
+      downloads: new AirtableDownloadRepository(),
+      batches: new AirtableBatchRepository(),
+    };
+  }
+
+  const store = backend === 'local' ? LocalRecordStore.getInstance() : new LocalRecordStore(false);
+  const projects = new LocalProjectRepository(store);
+  return {
+    backend,
+    projects,
+    downloads: new LocalDownloadRepository(store, projects),
+    batches: new LocalBatchRepository(store),
+  };
+}
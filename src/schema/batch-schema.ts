@@ -0,0 +1,40 @@
+/**
+ * Text-to-3D Construction Platform - Batches Table Schema
+ * Copyright © 2024 Kris. All rights reserved.
+ * PROPRIETARY SOFTWARE - NOT OPEN SOURCE
+ */
+
+import type { BatchRecord, BatchRecordItem } from '../airtable-service';
+import { Field, TableSchema } from './table-schema';
+
+const ITEM_STATUSES: readonly BatchRecordItem['status'][] = ['completed', 'failed', 'cancelled'];
+
+// Each row outcome needs its line, name, prompt and status; the rest is optional text
+function checkBatchItem(item: Record<string, unknown>): string | null {
+  if (typeof item.line !== 'number') return 'has no line number';
+  if (typeof item.name !== 'string' || typeof item.prompt !== 'string') return 'has no name or prompt';
+  if (!ITEM_STATUSES.includes(item.status as BatchRecordItem['status'])) {
+    return `has a status that is not one of ${ITEM_STATUSES.join(', ')}`;
+  }
+  const optional = [item.model_url, item.task_id, item.error];
+  return optional.every((value) => value === undefined || typeof value === 'string')
+    ? null
+    : 'has values that are not text';
+}
+
+export const BATCH_SCHEMA: TableSchema<BatchRecord> = {
+  table: 'Batches',
+  version: 1,
+  fields: {
+    user_email: Field.string({ required: true }),
+    name: Field.string({ required: true }),
+    status: Field.oneOf(['completed', 'partial', 'failed', 'cancelled'] as const, { required: true }),
+    created_at: Field.datetime({ required: true }),
+    completed_at: Field.datetime({ required: true }),
+    total: Field.number({ default: 0 }),
+    succeeded: Field.number({ default: 0 }),
+    failed: Field.number({ default: 0 }),
+    items: Field.jsonList<BatchRecordItem>(checkBatchItem, { required: true }),
+  },
+  migrations: {},
+};
@@ -0,0 +1,22 @@
+/**
+ * Text-to-3D Construction Platform - Downloads Table Schema
+ * Copyright © 2024 Kris. All rights reserved.
+ * PROPRIETARY SOFTWARE - NOT OPEN SOURCE
+ */
+
+import type { DownloadRecord } from '../airtable-service';
+import { Field, TableSchema } from './table-schema';
+
+export const DOWNLOAD_SCHEMA: TableSchema<DownloadRecord> = {
+  table: 'Downloads',
+  version: 1,
+  fields: {
+    project_id: Field.string({ required: true }),
+    user_email: Field.string({ required: true }),
+    format: Field.string({ required: true }),
+    downloaded_at: Field.datetime({ required: true }),
+    file_size: Field.number(),
+    device_type: Field.string({ required: true }),
+  },
+  migrations: {},
+};
@@ -0,0 +1,91 @@
+/**
+ * Text-to-3D Construction Platform - Projects Table Schema
+ * Copyright © 2024 Kris. All rights reserved.
+ * PROPRIETARY SOFTWARE - NOT OPEN SOURCE
+ */
+
+import type { ProjectRecord } from '../airtable-service';
+import { Field, TableSchema, valuesOfType } from './table-schema';
+
+// The type of every field a text, image, retexture or remesh request may carry
+const REQUEST_FIELD_TYPES: Record<string, 'string' | 'number' | 'boolean' | readonly string[]> = {
+  prompt: 'string',
+  imageUrl: 'string',
+  texturePrompt: 'string',
+  description: 'string',
+  sourceTaskId: 'string',
+  modelUrl: 'string',
+  artStyle: ['realistic', 'sculpture'],
+  topology: ['quad', 'triangle'],
+  quality: ['low', 'medium', 'high'],
+  seed: 'number',
+  targetPolyCount: 'number',
+  seedPinned: 'boolean',
+  enablePBR: 'boolean',
+  enableRemesh: 'boolean',
+  enableOriginalUV: 'boolean',
+};
+
+/**
+ * A stored request must still be one the app can re-run: it has the field
+ * that tells its kind apart, and every known field has the right type
+ */
+function checkGenerationRequest(value: Record<string, unknown>): string | null {
+  const isRemesh = value.targetPolyCount !== undefined && value.topology !== undefined;
+  if (!value.prompt && !value.imageUrl && !value.texturePrompt && !isRemesh) {
+    return 'is not a text, image, retexture or remesh request';
+  }
+  if ((value.texturePrompt || (isRemesh && !value.prompt && !value.imageUrl)) && !value.sourceTaskId && !value.modelUrl) {
+    return 'has no model to retexture or remesh';
+  }
+
+  for (const [key, type] of Object.entries(REQUEST_FIELD_TYPES)) {
+    const entry = value[key];
+    if (entry === undefined) continue;
+    if (typeof type === 'string' ? typeof entry !== type : !type.includes(entry as string)) {
+      return `has an invalid ${key}`;
+    }
+  }
+
+  const targetSize = value.targetSize as Record<string, unknown> | undefined;
+  if (targetSize !== undefined && (typeof targetSize !== 'object' || typeof targetSize?.unit !== 'string')) {
+    return 'has an invalid targetSize';
+  }
+  return null;
+}
+
+export const PROJECT_SCHEMA: TableSchema<ProjectRecord> = {
+  table: 'Projects',
+  version: 2,
+  fields: {
+    user_email: Field.string({ required: true }),
+    prompt: Field.string({ required: true }),
+    input_mode: Field.oneOf(['text', 'image', 'retexture', 'remesh'] as const),
+    created_at: Field.datetime({ required: true }),
+    status: Field.oneOf(['generating', 'completed', 'failed'] as const, { required: true }),
+    model_urls: Field.json(valuesOfType('string')),
+    file_sizes: Field.json(valuesOfType('number')),
+    download_count: Field.number({ default: 0 }),
+    polygon_count: Field.number(),
+    generation_time_seconds: Field.number(),
+    device_type: Field.oneOf(['mobile', 'tablet', 'desktop'] as const, { required: true }),
+    art_style: Field.string({ default: 'realistic' }),
+    thumbnail_url: Field.string(),
+    generation_request: Field.json(checkGenerationRequest),
+    retry_of: Field.string(),
+    parent_id: Field.string(),
+    task_id: Field.string(),
+    preview_task_id: Field.string(),
+    variant_of: Field.string(),
+    target_size: Field.json((value) => (typeof value.unit === 'string' ? null : 'has no unit')),
+    model_scale: Field.json(valuesOfType('number')),
+    request_hash: Field.string(),
+    credits_spent: Field.number(),
+    completed_at: Field.datetime(),
+    error_message: Field.string(),
+  },
+  migrations: {
+    // Rows from before image input have no input_mode; they were all text generations
+    2: (fields) => ({ ...fields, input_mode: fields.input_mode || 'text' }),
+  },
+};
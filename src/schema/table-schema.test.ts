@@ -0,0 +1,181 @@
+/**
+ * Table Schema Unit Tests
+ * Copyright © 2024 Kris. All rights reserved.
+ * PROPRIETARY SOFTWARE - NOT OPEN SOURCE
+ */
+
+import { describe, it, expect } from 'vitest';
+import { decodeRecord, encodeRecord, SCHEMA_VERSION_FIELD } from './table-schema';
+import { PROJECT_SCHEMA } from './project-schema';
+import { DOWNLOAD_SCHEMA } from './download-schema';
+import { BATCH_SCHEMA } from './batch-schema';
+
+const projectRow = (fields: Record<string, unknown>) => ({
+  id: 'rec123',
+  createdTime: '2024-01-01T00:00:00.000Z',
+  fields: {
+    user_email: 'test@example.com',
+    prompt: 'steel beam',
+    created_at: '2024-01-01T00:00:00.000Z',
+    status: 'completed',
+    device_type: 'desktop',
+    [SCHEMA_VERSION_FIELD]: 2,
+    ...fields,
+  },
+});
+
+describe('decodeRecord', () => {
+  it('should parse JSON fields and fill in defaults', () => {
+    const { record, issues } = decodeRecord(
+      PROJECT_SCHEMA,
+      projectRow({ model_urls: '{"glb":"https://example.com/model.glb"}', input_mode: 'text' }),
+    );
+
+    expect(issues).toEqual([]);
+    expect(record).toMatchObject({
+      id: 'rec123',
+      model_urls: { glb: 'https://example.com/model.glb' },
+      download_count: 0,
+      art_style: 'realistic',
+    });
+  });
+
+  it('should drop and report an optional field with a malformed value', () => {
+    const { record, issues } = decodeRecord(
+      PROJECT_SCHEMA,
+      projectRow({ model_urls: '{not json', polygon_count: 'many' }),
+    );
+
+    expect(record).not.toBeNull();
+    expect(record?.model_urls).toBeUndefined();
+    expect(record?.polygon_count).toBeUndefined();
+    expect(issues.map((issue) => issue.field)).toEqual(['model_urls', 'polygon_count']);
+    expect(issues[0]).toMatchObject({ table: 'Projects', recordId: 'rec123', message: 'is not valid JSON' });
+  });
+
+  it('should drop a stored generation request the app could not re-run', () => {
+    const request = { prompt: 'steel beam', artStyle: 'realistic', seed: 1234, topology: 'quad', targetPolyCount: 30000 };
+    const decode = (generationRequest: Record<string, unknown>) =>
+      decodeRecord(PROJECT_SCHEMA, projectRow({ generation_request: JSON.stringify(generationRequest) }));
+
+    expect(decode(request).record?.generation_request).toEqual(request);
+    expect(decode({ texturePrompt: 'weathered cedar', sourceTaskId: 'task-1' }).issues).toEqual([]);
+
+    expect(decode({ ...request, seed: '1234' }).issues[0]).toMatchObject({
+      field: 'generation_request',
+      message: 'has an invalid seed',
+    });
+    expect(decode({ ...request, artStyle: 'cartoon' }).issues[0].message).toBe('has an invalid artStyle');
+    expect(decode({ seed: 1234 }).issues[0].message).toBe('is not a text, image, retexture or remesh request');
+    expect(decode({ targetPolyCount: 5000, topology: 'triangle' }).issues[0].message).toBe(
+      'has no model to retexture or remesh',
+    );
+  });
+
+  it('should reject a row missing a required field', () => {
+    const { record, issues } = decodeRecord(DOWNLOAD_SCHEMA, {
+      id: 'rec456',
+      createdTime: '2024-01-01T00:00:00.000Z',
+      fields: { project_id: 'rec123', user_email: 'test@example.com', downloaded_at: '2024-01-01T00:00:00.000Z', device_type: 'desktop' },
+    });
+
+    expect(record).toBeNull();
+    expect(issues).toEqual([{ table: 'Downloads', recordId: 'rec456', field: 'format', message: 'is missing' }]);
+  });
+
+  it('should reject a batch whose items are not a list of row outcomes', () => {
+    const batchRow = (items: string) => ({
+      id: 'rec789',
+      createdTime: '2024-01-01T00:00:00.000Z',
+      fields: {
+        user_email: 'test@example.com',
+        name: 'Beams',
+        status: 'completed',
+        created_at: '2024-01-01T00:00:00.000Z',
+        completed_at: '2024-01-01T00:05:00.000Z',
+        total: 1,
+        succeeded: 1,
+        failed: 0,
+        items,
+      },
+    });
+    const item = { line: 1, name: 'Beam', prompt: 'steel beam', status: 'completed', task_id: 'task-1' };
+
+    expect(decodeRecord(BATCH_SCHEMA, batchRow(JSON.stringify([item]))).record?.items).toEqual([item]);
+    expect(decodeRecord(BATCH_SCHEMA, batchRow('[{"line":1')).record).toBeNull();
+
+    const { record, issues } = decodeRecord(BATCH_SCHEMA, batchRow(JSON.stringify([{ ...item, status: 'done' }])));
+    expect(record).toBeNull();
+    expect(issues[0]).toMatchObject({
+      field: 'items',
+      message: 'item 1 has a status that is not one of completed, failed, cancelled',
+    });
+  });
+
+  it('should migrate rows written by older versions', () => {
+    const { record } = decodeRecord(PROJECT_SCHEMA, projectRow({ [SCHEMA_VERSION_FIELD]: undefined }));
+    const { record: current } = decodeRecord(PROJECT_SCHEMA, projectRow({}));
+
+    expect(record?.input_mode).toBe('text');
+    expect(current?.input_mode).toBeUndefined();
+  });
+
+  it('should leave out fields the schema does not know', () => {
+    const { record } = decodeRecord(PROJECT_SCHEMA, projectRow({ legacy_notes: 'old' }));
+
+    expect(record).not.toHaveProperty('legacy_notes');
+    expect(record).not.toHaveProperty(SCHEMA_VERSION_FIELD);
+  });
+});
+
+describe('encodeRecord', () => {
+  it('should encode a full record with its schema version', () => {
+    const { fields, issues } = encodeRecord(DOWNLOAD_SCHEMA, {
+      project_id: 'rec123',
+      user_email: 'test@example.com',
+      format: 'glb',
+      downloaded_at: '2024-01-01T00:00:00.000Z',
+      device_type: 'desktop',
+    });
+
+    expect(issues).toEqual([]);
+    expect(fields).toEqual({
+      [SCHEMA_VERSION_FIELD]: 1,
+      project_id: 'rec123',
+      user_email: 'test@example.com',
+      format: 'glb',
+      downloaded_at: '2024-01-01T00:00:00.000Z',
+      device_type: 'desktop',
+    });
+  });
+
+  it('should report missing and invalid values instead of writing them', () => {
+    const { fields, issues } = encodeRecord(PROJECT_SCHEMA, {
+      user_email: 'test@example.com',
+      prompt: 'steel beam',
+      created_at: 'yesterday',
+      status: 'queued' as never,
+    });
+
+    expect(fields).not.toHaveProperty('status');
+    expect(issues.map((issue) => `${issue.field} ${issue.message}`)).toEqual([
+      'created_at is not a date',
+      'status is not one of generating, completed, failed',
+      'device_type is missing',
+    ]);
+  });
+
+  it('should encode only the fields a partial update sets', () => {
+    const { fields, issues } = encodeRecord(
+      PROJECT_SCHEMA,
+      { status: 'completed', model_urls: { glb: 'https://example.com/model.glb' } },
+      { partial: true },
+    );
+
+    expect(issues).toEqual([]);
+    expect(fields).toEqual({
+      status: 'completed',
+      model_urls: '{"glb":"https://example.com/model.glb"}',
+    });
+  });
+});
@@ -0,0 +1,269 @@
+/**
+ * Text-to-3D Construction Platform - Table Schema
+ * Copyright © 2024 Kris. All rights reserved.
+ * PROPRIETARY SOFTWARE - NOT OPEN SOURCE
+ *
+ * Field definitions for the Airtable tables: how each field is decoded from
+ * a row and encoded back, its default, and the migrations that bring rows
+ * written by older versions of the app up to date. A row that can't be
+ * decoded is reported as issues rather than thrown.
+ */
+
+import type { AirtableRecord } from '../services/airtable-proxy-client';
+import { logger } from '../utils/logger';
+
+// Every row is written with the schema version it was encoded at
+export const SCHEMA_VERSION_FIELD = 'schema_version';
+
+export interface FieldDefinition<T> {
+  required: boolean;
+  defaultValue?: () => T; // Used when the row has no value, so the field is never missing
+  decode: (raw: unknown) => T; // Throws with the reason when the stored value is invalid
+  encode: (value: T) => unknown;
+}
+
+interface FieldOptions<T> {
+  required?: boolean;
+  default?: T;
+}
+
+// Every field of the record apart from its ID, so a new record field can't be left out
+export type SchemaFields<T> = {
+  [K in Exclude<keyof T, 'id'>]-?: FieldDefinition<NonNullable<T[K]>>;
+};
+
+export type Migration = (fields: Record<string, unknown>) => Record<string, unknown>;
+
+export interface TableSchema<T> {
+  table: string;
+  version: number;
+  fields: SchemaFields<T>;
+  // migrations[n] upgrades a row stored at version n - 1 to version n; rows without a version
+  // are version 1. Partial updates don't bump the version, so a migration may see a row twice.
+  migrations: Record<number, Migration>;
+}
+
+export interface SchemaIssue {
+  table: string;
+  recordId?: string;
+  field: string;
+  message: string;
+}
+
+export interface DecodeResult<T> {
+  record: T | null; // Null when a required field is missing or invalid
+  issues: SchemaIssue[]; // Optional fields with invalid values are dropped and listed here
+}
+
+export interface EncodeResult {
+  fields: Record<string, unknown>;
+  issues: SchemaIssue[];
+}
+
+function define<T>(
+  decode: (raw: unknown) => T,
+  encode: (value: T) => unknown = (value) => value,
+): (options?: FieldOptions<T>) => FieldDefinition<T> {
+  return (options = {}) => ({
+    required: options.required ?? false,
+    ...(options.default !== undefined && { defaultValue: () => options.default as T }),
+    decode,
+    encode,
+  });
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export const Field = {
+  string: define<string>((raw) => {
+    if (typeof raw !== 'string') throw new Error('is not text');
+    return raw;
+  }),
+
+  number: define<number>((raw) => {
+    const value = typeof raw === 'string' && raw.trim() !== '' ? Number(raw) : raw;
+    if (typeof value !== 'number' || !Number.isFinite(value)) throw new Error('is not a number');
+    return value;
+  }),
+
+  // An ISO 8601 date and time, kept as the string Airtable stores
+  datetime: define<string>((raw) => {
+    if (typeof raw !== 'string' || isNaN(Date.parse(raw))) throw new Error('is not a date');
+    return raw;
+  }),
+
+  oneOf<V extends string>(values: readonly V[], options?: FieldOptions<V>): FieldDefinition<V> {
+    return define<V>((raw) => {
+      if (!values.includes(raw as V)) throw new Error(`is not one of ${values.join(', ')}`);
+      return raw as V;
+    })(options);
+  },
+
+  /**
+   * An object stored as JSON text. The check returns a reason when the parsed
+   * value has the wrong shape.
+   */
+  json<T>(check: (value: Record<string, unknown>) => string | null, options?: FieldOptions<T>): FieldDefinition<T> {
+    return define<T>(
+      (raw) => {
+        let value: unknown = raw;
+        if (typeof raw === 'string') {
+          try {
+            value = JSON.parse(raw);
+          } catch {
+            throw new Error('is not valid JSON');
+          }
+        }
+        if (!isPlainObject(value)) throw new Error('is not a JSON object');
+
+        const problem = check(value);
+        if (problem) throw new Error(problem);
+        return value as T;
+      },
+      (value) => JSON.stringify(value),
+    )(options);
+  },
+
+  // A list of objects stored as JSON text, each checked like a json field
+  jsonList<T>(check: (item: Record<string, unknown>) => string | null, options?: FieldOptions<T[]>): FieldDefinition<T[]> {
+    return define<T[]>(
+      (raw) => {
+        let value: unknown = raw;
+        if (typeof raw === 'string') {
+          try {
+            value = JSON.parse(raw);
+          } catch {
+            throw new Error('is not valid JSON');
+          }
+        }
+        if (!Array.isArray(value)) throw new Error('is not a JSON list');
+
+        for (const [index, item] of value.entries()) {
+          const problem = isPlainObject(item) ? check(item) : 'is not a JSON object';
+          if (problem) throw new Error(`item ${index + 1} ${problem}`);
+        }
+        return value as T[];
+      },
+      (value) => JSON.stringify(value),
+    )(options);
+  },
+};
+
+// JSON checks shared by the table schemas
+export function valuesOfType(type: 'string' | 'number') {
+  return (value: Record<string, unknown>): string | null =>
+    Object.values(value).every((entry) => entry === undefined || typeof entry === type)
+      ? null
+      : `has values that are not ${type === 'string' ? 'text' : 'numbers'}`;
+}
+
+function isEmpty(raw: unknown): boolean {
+  return raw === undefined || raw === null || raw === '';
+}
+
+function fieldEntries<T>(schema: TableSchema<T>): Array<[string, FieldDefinition<unknown>]> {
+  return Object.entries(schema.fields as Record<string, FieldDefinition<unknown>>);
+}
+
+function migrate<T>(schema: TableSchema<T>, fields: Record<string, unknown>): Record<string, unknown> {
+  const stored = Number(fields[SCHEMA_VERSION_FIELD]) || 1;
+  let migrated = { ...fields };
+  for (let version = stored + 1; version <= schema.version; version++) {
+    migrated = schema.migrations[version]?.(migrated) ?? migrated;
+  }
+  return migrated;
+}
+
+/**
+ * Turns a row into a record: migrated to the current version, each field
+ * decoded, defaults filled in and fields the schema doesn't know dropped
+ */
+export function decodeRecord<T extends { id?: string }>(
+  schema: TableSchema<T>,
+  row: AirtableRecord,
+): DecodeResult<T> {
+  const issues: SchemaIssue[] = [];
+  const fields = migrate(schema, row.fields || {});
+  const record: Record<string, unknown> = { id: row.id };
+  let valid = true;
+
+  for (const [name, definition] of fieldEntries(schema)) {
+    const raw = fields[name];
+    let problem: string | null = null;
+
+    if (isEmpty(raw)) {
+      problem = definition.required && !definition.defaultValue ? 'is missing' : null;
+    } else {
+      try {
+        record[name] = definition.decode(raw);
+        continue;
+      } catch (error) {
+        problem = error instanceof Error ? error.message : 'is invalid';
+      }
+    }
+
+    if (problem) {
+      issues.push({ table: schema.table, recordId: row.id, field: name, message: problem });
+    }
+    if (definition.defaultValue) {
+      record[name] = definition.defaultValue();
+    } else if (definition.required) {
+      valid = false;
+    }
+  }
+
+  return { record: valid ? (record as T) : null, issues };
+}
+
+/**
+ * Turns record values into row fields, checking each one decodes back to
+ * itself. A partial update only encodes, and only requires, what it sets.
+ */
+export function encodeRecord<T>(
+  schema: TableSchema<T>,
+  values: Partial<T>,
+  options: { partial?: boolean } = {},
+): EncodeResult {
+  const issues: SchemaIssue[] = [];
+  // A partial update leaves the row at the version it was migrated from on read
+  const fields: Record<string, unknown> = options.partial ? {} : { [SCHEMA_VERSION_FIELD]: schema.version };
+
+  for (const [name, definition] of fieldEntries(schema)) {
+    let value = (values as Record<string, unknown>)[name];
+    if (value === undefined || value === null) {
+      if (options.partial) continue;
+      value = definition.defaultValue?.();
+    }
+
+    if (value === undefined) {
+      if (definition.required) {
+        issues.push({ table: schema.table, field: name, message: 'is missing' });
+      }
+      continue;
+    }
+
+    try {
+      const encoded = definition.encode(value);
+      definition.decode(encoded);
+      fields[name] = encoded;
+    } catch (error) {
+      issues.push({
+        table: schema.table,
+        field: name,
+        message: error instanceof Error ? error.message : 'is invalid',
+      });
+    }
+  }
+
+  return { fields, issues };
+}
+
+export function reportSchemaIssues(issues: SchemaIssue[]): void {
+  issues.forEach((issue) => {
+    logger.warn(`Invalid ${issue.table} field: ${issue.field} ${issue.message}`, 'TableSchema', {
+      recordId: issue.recordId,
+    });
+  });
+}
@@ -0,0 +1,251 @@
+/**
+ * Airtable Proxy Client Unit Tests
+ * Copyright © 2024 Kris. All rights reserved.
+ * PROPRIETARY SOFTWARE - NOT OPEN SOURCE
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { AirtableProxyClient, AirtableRequestError, escapeFormulaString, Formula } from './airtable-proxy-client';
+
+describe('Formula', () => {
+  it('should build equality checks for strings, numbers and booleans', () => {
+    expect(Formula.eq('user_email', 'test@example.com')).toBe("{user_email} = 'test@example.com'");
+    expect(Formula.eq('download_count', 3)).toBe('{download_count} = 3');
+    expect(Formula.eq('is_premium', true)).toBe('{is_premium} = TRUE()');
+  });
+
+  it('should escape quotes and backslashes so a value cannot close its string', () => {
+    expect(escapeFormulaString("o'brien@example.com")).toBe("'o\\'brien@example.com'");
+    expect(escapeFormulaString('a\\b\nc')).toBe("'a\\\\b\\nc'");
+    expect(Formula.eq('user_email', "x' , TRUE(), '")).toBe("{user_email} = 'x\\' , TRUE(), \\''");
+  });
+
+  it('should combine conditions', () => {
+    const finished = Formula.or(Formula.eq('status', 'completed'), Formula.not(Formula.eq('status', 'failed')));
+
+    expect(Formula.and(Formula.eq('request_hash', 'abc'), finished)).toBe("AND({request_hash} = 'abc', OR({status} = 'completed', NOT({status} = 'failed')))");
+  });
+
+  it('should match text case-insensitively', () => {
+    expect(Formula.contains('prompt', 'Steel')).toBe("FIND(LOWER('Steel'), LOWER({prompt})) > 0");
+  });
+
+  it('should build date ranges open at either end', () => {
+    const from = '2024-01-01T00:00:00.000Z';
+    const to = new Date('2024-02-01T00:00:00.000Z');
+
+    expect(Formula.dateRange('created_at', { from, to })).toBe(
+      "AND(NOT(IS_BEFORE({created_at}, DATETIME_PARSE('2024-01-01T00:00:00.000Z'))), " +
+        "IS_BEFORE({created_at}, DATETIME_PARSE('2024-02-01T00:00:00.000Z')))",
+    );
+    expect(Formula.dateRange('created_at', { to })).toBe(
+      "IS_BEFORE({created_at}, DATETIME_PARSE('2024-02-01T00:00:00.000Z'))",
+    );
+    expect(() => Formula.dateRange('created_at', {})).toThrow('A date range needs a start or an end');
+    expect(() => Formula.dateRange('created_at', { from: 'last week' })).toThrow('Invalid date');
+  });
+
+  it('should reject field names that would break out of the reference', () => {
+    expect(() => Formula.eq('user_email} = 1, {x', 'a')).toThrow('Invalid Airtable field name');
+  });
+});
+
+describe('AirtableProxyClient write queue', () => {
+  const record = { id: 'rec123', fields: { status: 'generating' }, createdTime: '2024-01-01T00:00:00.000Z' };
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    for (const deadLetter of await AirtableProxyClient.getDeadLetters()) {
+      await AirtableProxyClient.discardDeadLetter(deadLetter.id);
+    }
+  });
+
+  it('should keep optimistic writes queued until they are synced', async () => {
+    vi.spyOn(AirtableProxyClient, 'getRecord').mockResolvedValue(record);
+    const updateRecord = vi.spyOn(AirtableProxyClient, 'updateRecord').mockResolvedValue(record);
+
+    await AirtableProxyClient.updateRecordOptimistic('Projects', 'rec123', { status: 'completed' });
+    expect(AirtableProxyClient.getSyncState().pendingWrites).toBe(1);
+
+    await AirtableProxyClient.flushBatchQueue();
+
+    expect(updateRecord).toHaveBeenCalledWith('Projects', 'rec123', { status: 'completed' });
+    expect(AirtableProxyClient.getSyncState().pendingWrites).toBe(0);
+  });
+
+  it('should send queued creates in one request', async () => {
+    const createRecords = vi.spyOn(AirtableProxyClient, 'createRecords').mockResolvedValue([record, record]);
+
+    await AirtableProxyClient.createRecordOptimistic('Downloads', { format: 'glb' });
+    await AirtableProxyClient.createRecordOptimistic('Downloads', { format: 'fbx' });
+    await AirtableProxyClient.flushBatchQueue();
+
+    expect(createRecords).toHaveBeenCalledTimes(1);
+    expect(createRecords).toHaveBeenCalledWith('Downloads', [{ fields: { format: 'glb' } }, { fields: { format: 'fbx' } }]);
+  });
+
+  it('should send writes to an optimistic record to the record Airtable created', async () => {
+    vi.spyOn(AirtableProxyClient, 'getRecord').mockRejectedValue(new Error('Record not found'));
+    vi.spyOn(AirtableProxyClient, 'createRecords').mockResolvedValue([{ ...record, id: 'rec456' }]);
+    const updateRecord = vi.spyOn(AirtableProxyClient, 'updateRecord').mockResolvedValue(record);
+
+    const created = await AirtableProxyClient.createRecordOptimistic('Projects', { status: 'generating' });
+    await AirtableProxyClient.updateRecordOptimistic('Projects', created.id!, { status: 'completed' });
+    await AirtableProxyClient.flushBatchQueue();
+
+    expect(updateRecord).toHaveBeenCalledWith('Projects', 'rec456', { status: 'completed' });
+    expect(AirtableProxyClient.getSyncState().pendingWrites).toBe(0);
+  });
+
+  it('should add increments to the value Airtable has when the write syncs', async () => {
+    const getRecord = vi.spyOn(AirtableProxyClient, 'getRecord');
+    const updateRecord = vi.spyOn(AirtableProxyClient, 'updateRecord').mockResolvedValue(record);
+
+    await AirtableProxyClient.incrementRecordOptimistic('Projects', 'rec123', { download_count: 1 });
+    expect(getRecord).not.toHaveBeenCalled();
+
+    // Another device counted downloads since this one last read the project
+    getRecord.mockResolvedValue({ ...record, fields: { download_count: 7 } });
+    await AirtableProxyClient.flushBatchQueue();
+
+    expect(updateRecord).toHaveBeenCalledWith('Projects', 'rec123', { download_count: 8 });
+  });
+
+  it('should not spend retries while the browser is offline', async () => {
+    vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+    vi.spyOn(AirtableProxyClient, 'getRecord').mockResolvedValue(record);
+    const updateRecord = vi.spyOn(AirtableProxyClient, 'updateRecord').mockResolvedValue(record);
+
+    await AirtableProxyClient.updateRecordOptimistic('Projects', 'rec123', { status: 'failed' });
+    await AirtableProxyClient.flushBatchQueue();
+
+    expect(updateRecord).not.toHaveBeenCalled();
+    expect(AirtableProxyClient.getSyncState()).toMatchObject({ pendingWrites: 1, connectionState: 'offline' });
+
+    vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(true);
+    await AirtableProxyClient.syncPendingUpdates();
+    expect(AirtableProxyClient.getSyncState().pendingWrites).toBe(0);
+  });
+
+  it('should move a write that keeps failing to the dead letters', async () => {
+    vi.spyOn(AirtableProxyClient, 'getRecord').mockResolvedValue(record);
+    const updateRecord = vi.spyOn(AirtableProxyClient, 'updateRecord').mockRejectedValue(new Error('Airtable unavailable'));
+
+    await AirtableProxyClient.updateRecordOptimistic('Projects', 'rec123', { status: 'completed' });
+    for (let attempt = 0; attempt < 3; attempt++) {
+      await AirtableProxyClient.flushBatchQueue();
+    }
+
+    const [deadLetter] = await AirtableProxyClient.getDeadLetters();
+    expect(deadLetter).toMatchObject({ table: 'Projects', recordId: 'rec123', attempts: 3, lastError: 'Airtable unavailable' });
+    expect(AirtableProxyClient.getSyncState()).toMatchObject({ pendingWrites: 0, failedWrites: 1, connectionState: 'online' });
+
+    updateRecord.mockResolvedValue(record);
+    await AirtableProxyClient.retryDeadLetter(deadLetter.id);
+
+    expect(updateRecord).toHaveBeenCalledTimes(4);
+    expect(AirtableProxyClient.getSyncState()).toMatchObject({ pendingWrites: 0, failedWrites: 0 });
+  });
+
+  it('should keep retries for writes that cannot reach Airtable', async () => {
+    vi.spyOn(AirtableProxyClient, 'getRecord').mockResolvedValue(record);
+    const updateRecord = vi.spyOn(AirtableProxyClient, 'updateRecord').mockRejectedValue(
+      new AirtableRequestError('Failed to update Projects record', {
+        success: false,
+        status: 0,
+        data: null,
+        error: 'Network error',
+      }),
+    );
+
+    await AirtableProxyClient.updateRecordOptimistic('Projects', 'rec123', { status: 'completed' });
+    for (let attempt = 0; attempt < 3; attempt++) {
+      await AirtableProxyClient.flushBatchQueue();
+    }
+
+    expect(updateRecord).toHaveBeenCalledTimes(3);
+    expect(AirtableProxyClient.getSyncState()).toMatchObject({
+      pendingWrites: 1,
+      failedWrites: 0,
+      connectionState: 'offline',
+    });
+
+    updateRecord.mockResolvedValue(record);
+    await AirtableProxyClient.flushBatchQueue();
+    expect(AirtableProxyClient.getSyncState()).toMatchObject({ pendingWrites: 0, connectionState: 'online' });
+  });
+
+  it('should keep later writes to a record behind one that failed', async () => {
+    vi.spyOn(AirtableProxyClient, 'getRecord').mockResolvedValue(record);
+    const updateRecord = vi
+      .spyOn(AirtableProxyClient, 'updateRecord')
+      .mockRejectedValueOnce(new Error('Invalid value for status'))
+      .mockResolvedValue(record);
+
+    await AirtableProxyClient.updateRecordOptimistic('Projects', 'rec123', { status: 'generating' });
+    await new Promise((resolve) => setTimeout(resolve, 2));
+    await AirtableProxyClient.updateRecordOptimistic('Projects', 'rec123', { status: 'completed' });
+    await new Promise((resolve) => setTimeout(resolve, 2));
+    await AirtableProxyClient.updateRecordOptimistic('Projects', 'rec789', { status: 'failed' });
+    await AirtableProxyClient.flushBatchQueue();
+
+    expect(updateRecord.mock.calls.map((call) => call[1])).toEqual(['rec123', 'rec789']);
+    expect(AirtableProxyClient.getSyncState().pendingWrites).toBe(2);
+
+    await AirtableProxyClient.flushBatchQueue();
+    expect(updateRecord.mock.calls.slice(2).map((call) => call[2])).toEqual([
+      { status: 'generating' },
+      { status: 'completed' },
+    ]);
+    expect(AirtableProxyClient.getSyncState().pendingWrites).toBe(0);
+  });
+
+  it('should keep retries for writes Airtable rate limits', async () => {
+    vi.spyOn(AirtableProxyClient, 'getRecord').mockResolvedValue(record);
+    const updateRecord = vi.spyOn(AirtableProxyClient, 'updateRecord').mockRejectedValue(
+      new AirtableRequestError('Failed to update Projects record', {
+        success: false,
+        status: 429,
+        data: null,
+        error: 'Rate limit exceeded',
+      }),
+    );
+
+    await AirtableProxyClient.updateRecordOptimistic('Projects', 'rec123', { status: 'completed' });
+    for (let attempt = 0; attempt < 3; attempt++) {
+      await AirtableProxyClient.flushBatchQueue();
+    }
+
+    expect(updateRecord).toHaveBeenCalledTimes(3);
+    expect(AirtableProxyClient.getSyncState()).toMatchObject({
+      pendingWrites: 1,
+      failedWrites: 0,
+      connectionState: 'online',
+    });
+
+    updateRecord.mockResolvedValue(record);
+    await AirtableProxyClient.flushBatchQueue();
+    expect(AirtableProxyClient.getSyncState().pendingWrites).toBe(0);
+  });
+
+  it('should leave the queue to the tab holding the sync lock', async () => {
+    const request = vi.fn(async (_name: string, _options: LockOptions, callback: LockGrantedCallback) => callback(null));
+    Object.defineProperty(navigator, 'locks', { value: { request }, configurable: true });
+    vi.spyOn(AirtableProxyClient, 'getRecord').mockResolvedValue(record);
+    const updateRecord = vi.spyOn(AirtableProxyClient, 'updateRecord').mockResolvedValue(record);
+
+    try {
+      await AirtableProxyClient.updateRecordOptimistic('Projects', 'rec123', { status: 'completed' });
+      await AirtableProxyClient.flushBatchQueue();
+
+      expect(request).toHaveBeenCalledWith('text-to-3d-write-sync', { ifAvailable: true }, expect.any(Function));
+      expect(updateRecord).not.toHaveBeenCalled();
+      expect(AirtableProxyClient.getSyncState().pendingWrites).toBe(1);
+    } finally {
+      delete (navigator as { locks?: LockManager }).locks;
+    }
+
+    await AirtableProxyClient.flushBatchQueue();
+    expect(updateRecord).toHaveBeenCalledTimes(1);
+  });
+});
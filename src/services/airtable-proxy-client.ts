@@ -6,8 +6,9 @@
  * Proxy-enabled Airtable client to avoid CORS issues
  */
 
-import { ApiClient } from '../api-client';
+import { ApiClient, ApiResponse } from '../api-client';
 import { logger } from '../utils/logger';
+import { DeadLetter, QueuedWrite, WriteQueue, WriteType } from './write-queue';
 
 export interface AirtableRecord {
   id?: string;
@@ -20,37 +21,51 @@ export interface AirtableResponse {
   offset?: string;
 }
 
-export interface OptimisticUpdate {
-  id: string;
-  table: string;
-  operation: 'create' | 'update' | 'delete';
-  data: any;
-  timestamp: number;
-  pending: boolean;
-  retryCount: number;
-  originalData?: any;
-}
-
-export interface BatchOperation {
-  id: string;
-  table: string;
-  operations: Array<{
-    type: 'create' | 'update' | 'delete';
-    recordId?: string;
-    fields?: Record<string, any>;
-  }>;
-  priority: 'high' | 'medium' | 'low';
-  timestamp: number;
-  retryCount: number;
+export interface WriteOperation {
+  type: WriteType;
+  recordId?: string;
+  fields?: Record<string, any>;
 }
 
 export interface SyncState {
   lastSync: number;
-  pendingUpdates: Map<string, OptimisticUpdate>;
+  pendingWrites: number; // Waiting in the write queue, including ones from earlier sessions
+  failedWrites: number; // Given up on and kept in the dead-letter list
   syncInProgress: boolean;
   connectionState: 'online' | 'offline' | 'syncing';
 }
 
+// A request Airtable refused, or that never reached it when status is 0
+export class AirtableRequestError extends Error {
+  readonly status: number;
+
+  constructor(action: string, response: ApiResponse) {
+    super(`${action}: ${response.error || response.message}`);
+    this.name = 'AirtableRequestError';
+    this.status = response.status;
+  }
+}
+
+// Only failures to reach Airtable mean offline; Airtable rejecting a write doesn't
+function isNetworkFailure(error: unknown): boolean {
+  return (
+    (typeof navigator !== 'undefined' && !navigator.onLine) ||
+    (error instanceof AirtableRequestError && error.status === 0)
+  );
+}
+
+// Worth waiting out rather than spending a write's retries on: Airtable unreachable,
+// rate limiting (the proxy allows 5 requests a minute per IP) or a server error
+function isTransientFailure(error: unknown): boolean {
+  return (
+    isNetworkFailure(error) ||
+    (error instanceof AirtableRequestError && (error.status === 429 || error.status >= 500))
+  );
+}
+
+// Held by the tab replaying the write queue, so two tabs never send the same write
+const SYNC_LOCK = 'text-to-3d-write-sync';
+
 export interface CacheEntry {
   data: any;
   timestamp: number;
@@ -58,26 +73,113 @@ export interface CacheEntry {
   etag?: string;
 }
 
+/**
+ * A filterByFormula built by Formula, with every value escaped. Plain strings
+ * aren't accepted where a formula is expected, and the Airtable proxy
+ * rejects formulas outside what Formula produces.
+ */
+export type AirtableFormula = string & { readonly __airtableFormula: true };
+
+export type FormulaValue = string | number | boolean;
+
+// Quotes a value as an Airtable string literal
+export function escapeFormulaString(value: string): string {
+  const escaped = value
+    .replace(/\\/g, '\\\\')
+    .replace(/'/g, "\\'")
+    .replace(/\n/g, '\\n')
+    .replace(/\r/g, '\\r');
+  return `'${escaped}'`;
+}
+
+function formulaField(name: string): string {
+  if (!name || /[{}]/.test(name)) {
+    throw new Error(`Invalid Airtable field name: ${name}`);
+  }
+  return `{${name}}`;
+}
+
+function formulaValue(value: FormulaValue): string {
+  if (typeof value === 'boolean') {
+    return value ? 'TRUE()' : 'FALSE()';
+  }
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) {
+      throw new Error(`Invalid number in Airtable formula: ${value}`);
+    }
+    return String(value);
+  }
+  return escapeFormulaString(value);
+}
+
+function formulaDate(value: Date | string): string {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid date in Airtable formula: ${value}`);
+  }
+  return `DATETIME_PARSE(${escapeFormulaString(date.toISOString())})`;
+}
+
+export const Formula = {
+  eq(field: string, value: FormulaValue): AirtableFormula {
+    return `${formulaField(field)} = ${formulaValue(value)}` as AirtableFormula;
+  },
+
+  and(...conditions: AirtableFormula[]): AirtableFormula {
+    return `AND(${conditions.join(', ')})` as AirtableFormula;
+  },
+
+  or(...conditions: AirtableFormula[]): AirtableFormula {
+    return `OR(${conditions.join(', ')})` as AirtableFormula;
+  },
+
+  not(condition: AirtableFormula): AirtableFormula {
+    return `NOT(${condition})` as AirtableFormula;
+  },
+
+  // Case-insensitive substring match
+  contains(field: string, text: string): AirtableFormula {
+    return `FIND(LOWER(${escapeFormulaString(text)}), LOWER(${formulaField(field)})) > 0` as AirtableFormula;
+  },
+
+  // From is inclusive and to is exclusive; either may be left open
+  dateRange(field: string, range: { from?: Date | string; to?: Date | string }): AirtableFormula {
+    const conditions: AirtableFormula[] = [];
+    if (range.from !== undefined) {
+      conditions.push(`NOT(IS_BEFORE(${formulaField(field)}, ${formulaDate(range.from)}))` as AirtableFormula);
+    }
+    if (range.to !== undefined) {
+      conditions.push(`IS_BEFORE(${formulaField(field)}, ${formulaDate(range.to)})` as AirtableFormula);
+    }
+    if (conditions.length === 0) {
+      throw new Error('A date range needs a start or an end');
+    }
+    return conditions.length === 1 ? conditions[0] : Formula.and(...conditions);
+  },
+};
+
 export class AirtableProxyClient {
   private static cache = new Map<string, CacheEntry>();
   private static syncState: SyncState = {
     lastSync: 0,
-    pendingUpdates: new Map(),
+    pendingWrites: 0,
+    failedWrites: 0,
     syncInProgress: false,
     connectionState: 'online',
   };
-  private static batchQueue: BatchOperation[] = [];
+  private static writeQueue = WriteQueue.getInstance();
+  private static syncStarted = false;
   private static eventListeners = new Map<string, Set<Function>>();
   private static maxRetries = 3;
   private static batchDelay = 2000; // 2 seconds
-  private static batchTimer: number | null = null;
+  private static batchTimer: ReturnType<typeof setTimeout> | null = null;
   /**
    * Get records from a table with optional filtering
    */
   static async getRecords(
     tableName: string,
     options: {
-      filterByFormula?: string;
+      filterByFormula?: AirtableFormula;
       sort?: Array<{ field: string; direction: 'asc' | 'desc' }>;
       maxRecords?: number;
       pageSize?: number;
@@ -120,9 +222,7 @@ export class AirtableProxyClient {
     const response = await ApiClient.airtableGet<AirtableResponse>(path);
 
     if (!response.success) {
-      throw new Error(
-        `Failed to get ${tableName} records: ${response.error || response.message}`,
-      );
+      throw new AirtableRequestError(`Failed to get ${tableName} records`, response);
     }
 
     return response.data;
@@ -141,9 +241,7 @@ export class AirtableProxyClient {
     });
 
     if (!response.success) {
-      throw new Error(
-        `Failed to create ${tableName} record: ${response.error || response.message}`,
-      );
+      throw new AirtableRequestError(`Failed to create ${tableName} record`, response);
     }
 
     return response.data;
@@ -163,9 +261,7 @@ export class AirtableProxyClient {
     });
 
     if (!response.success) {
-      throw new Error(
-        `Failed to update ${tableName} record: ${response.error || response.message}`,
-      );
+      throw new AirtableRequestError(`Failed to update ${tableName} record`, response);
     }
 
     return response.data;
@@ -182,9 +278,7 @@ export class AirtableProxyClient {
     const response = await ApiClient.airtableGet<AirtableRecord>(path);
 
     if (!response.success) {
-      throw new Error(
-        `Failed to get ${tableName} record: ${response.error || response.message}`,
-      );
+      throw new AirtableRequestError(`Failed to get ${tableName} record`, response);
     }
 
     return response.data;
@@ -205,9 +299,7 @@ export class AirtableProxyClient {
     });
 
     if (!response.success) {
-      throw new Error(
-        `Failed to create ${tableName} records: ${response.error || response.message}`,
-      );
+      throw new AirtableRequestError(`Failed to create ${tableName} records`, response);
     }
 
     return response.data.records;
@@ -232,7 +324,7 @@ export class AirtableProxyClient {
   static async getAllRecords(
     tableName: string,
     options: {
-      filterByFormula?: string;
+      filterByFormula?: AirtableFormula;
       sort?: Array<{ field: string; direction: 'asc' | 'desc' }>;
       fields?: string[];
     } = {},
@@ -262,9 +354,7 @@ export class AirtableProxyClient {
     const response = await ApiClient.airtableDelete(path);
 
     if (!response.success) {
-      throw new Error(
-        `Failed to delete ${tableName} record: ${response.error || response.message}`,
-      );
+      throw new AirtableRequestError(`Failed to delete ${tableName} record`, response);
     }
   }
 
@@ -288,28 +378,11 @@ export class AirtableProxyClient {
         createdTime: new Date().toISOString(),
       };
 
-      this.addOptimisticUpdate({
-        id: tempId,
-        table: tableName,
-        operation: 'create',
-        data: optimisticRecord,
-        timestamp: Date.now(),
-        pending: true,
-        retryCount: 0,
-      });
-
       // Emit optimistic update event
       this.emit('optimistic-create', { table: tableName, record: optimisticRecord });
 
       // Schedule actual API call
-      this.queueBatchOperation({
-        id: tempId,
-        table: tableName,
-        operations: [{ type: 'create', fields }],
-        priority: 'medium',
-        timestamp: Date.now(),
-        retryCount: 0,
-      });
+      await this.queueWrite({ table: tableName, type: 'create', tempId, fields });
 
       return optimisticRecord;
     }
@@ -338,17 +411,6 @@ export class AirtableProxyClient {
         createdTime: originalRecord?.createdTime,
       };
 
-      this.addOptimisticUpdate({
-        id: recordId,
-        table: tableName,
-        operation: 'update',
-        data: optimisticRecord,
-        timestamp: Date.now(),
-        pending: true,
-        retryCount: 0,
-        originalData: originalRecord,
-      });
-
       // Update cache
       this.updateCache(`${tableName}:${recordId}`, optimisticRecord);
 
@@ -356,14 +418,7 @@ export class AirtableProxyClient {
       this.emit('optimistic-update', { table: tableName, record: optimisticRecord });
 
       // Schedule actual API call
-      this.queueBatchOperation({
-        id: `update_${recordId}_${Date.now()}`,
-        table: tableName,
-        operations: [{ type: 'update', recordId, fields }],
-        priority: 'medium',
-        timestamp: Date.now(),
-        retryCount: 0,
-      });
+      await this.queueWrite({ table: tableName, type: 'update', recordId, fields, originalData: originalRecord });
 
       return optimisticRecord;
     }
@@ -372,6 +427,31 @@ export class AirtableProxyClient {
     return await this.updateRecord(tableName, recordId, fields);
   }
 
+  /**
+   * Adds to number fields with an optimistic update. The amounts are added to
+   * the record as Airtable has it when the write syncs, so counts kept from
+   * several tabs or devices don't overwrite each other.
+   */
+  static async incrementRecordOptimistic(
+    tableName: string,
+    recordId: string,
+    increments: Record<string, number>,
+  ): Promise<void> {
+    // Only a cached record is updated; fetching one here would cost a request the sync makes anyway
+    const cacheKey = `${tableName}:${recordId}`;
+    const originalRecord: AirtableRecord | null = this.getFromCache(cacheKey);
+    if (originalRecord) {
+      const optimisticRecord: AirtableRecord = {
+        ...originalRecord,
+        fields: { ...originalRecord.fields, ...this.addIncrements(originalRecord.fields, increments) },
+      };
+      this.updateCache(cacheKey, optimisticRecord);
+      this.emit('optimistic-update', { table: tableName, record: optimisticRecord });
+    }
+
+    await this.queueWrite({ table: tableName, type: 'update', recordId, increments, originalData: originalRecord });
+  }
+
   /**
    * Delete record with optimistic update
    */
@@ -384,17 +464,6 @@ export class AirtableProxyClient {
       // Get current record for rollback
       const originalRecord = await this.getCachedRecord(tableName, recordId);
 
-      this.addOptimisticUpdate({
-        id: recordId,
-        table: tableName,
-        operation: 'delete',
-        data: null,
-        timestamp: Date.now(),
-        pending: true,
-        retryCount: 0,
-        originalData: originalRecord,
-      });
-
       // Remove from cache
       this.removeFromCache(`${tableName}:${recordId}`);
 
@@ -402,14 +471,7 @@ export class AirtableProxyClient {
       this.emit('optimistic-delete', { table: tableName, recordId });
 
       // Schedule actual API call
-      this.queueBatchOperation({
-        id: `delete_${recordId}_${Date.now()}`,
-        table: tableName,
-        operations: [{ type: 'delete', recordId }],
-        priority: 'medium',
-        timestamp: Date.now(),
-        retryCount: 0,
-      });
+      await this.queueWrite({ table: tableName, type: 'delete', recordId, originalData: originalRecord });
 
       return;
     }
@@ -423,11 +485,7 @@ export class AirtableProxyClient {
    */
   static async batchOperations(
     tableName: string,
-    operations: Array<{
-      type: 'create' | 'update' | 'delete';
-      recordId?: string;
-      fields?: Record<string, any>;
-    }>,
+    operations: WriteOperation[],
     priority: 'high' | 'medium' | 'low' = 'medium'
   ): Promise<AirtableRecord[]> {
     const batchId = `batch_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
@@ -437,15 +495,14 @@ export class AirtableProxyClient {
       return await this.executeBatchOperations(tableName, operations);
     }
 
-    // Queue for batching
-    this.queueBatchOperation({
-      id: batchId,
-      table: tableName,
-      operations,
-      priority,
-      timestamp: Date.now(),
-      retryCount: 0,
-    });
+    // Queue for batching; the queue replays writes in order whatever their priority
+    for (const [index, op] of operations.entries()) {
+      await this.queueWrite({
+        table: tableName,
+        ...op,
+        ...(op.type === 'create' && { tempId: `temp_${batchId}_${index}` }),
+      });
+    }
 
     // Return optimistic results
     return operations.map((op, index) => ({
@@ -459,11 +516,7 @@ export class AirtableProxyClient {
    */
   private static async executeBatchOperations(
     tableName: string,
-    operations: Array<{
-      type: 'create' | 'update' | 'delete';
-      recordId?: string;
-      fields?: Record<string, any>;
-    }>
+    operations: WriteOperation[]
   ): Promise<AirtableRecord[]> {
     const results: AirtableRecord[] = [];
 
@@ -514,7 +567,7 @@ export class AirtableProxyClient {
   static async getRecordsCached(
     tableName: string,
     options: {
-      filterByFormula?: string;
+      filterByFormula?: AirtableFormula;
       sort?: Array<{ field: string; direction: 'asc' | 'desc' }>;
       maxRecords?: number;
       pageSize?: number;
@@ -542,7 +595,12 @@ export class AirtableProxyClient {
   }
 
   /**
-   * Real-time sync management
+   * Replays the write queue against Airtable, oldest first. Consecutive
+   * creates in one table go together, up to Airtable's 10 per request. A
+   * write that fails maxRetries times is rolled back in the cache and moved
+   * to the dead-letter list, and until then it holds back later writes to
+   * its record. Rate limiting and server errors end the sync without using
+   * up retries. One tab replays at a time, see withSyncLock().
    */
   static async syncPendingUpdates(): Promise<void> {
     if (this.syncState.syncInProgress) {
@@ -550,150 +608,246 @@ export class AirtableProxyClient {
       return;
     }
 
+    // Offline failures shouldn't use up retries; the online event starts the next sync
+    if (typeof navigator !== 'undefined' && !navigator.onLine) {
+      this.syncState.connectionState = 'offline';
+      await this.refreshSyncCounts();
+      return;
+    }
+
     this.syncState.syncInProgress = true;
+    try {
+      await this.withSyncLock(() => this.replayWrites());
+    } finally {
+      this.syncState.syncInProgress = false;
+      await this.refreshSyncCounts();
+      this.emit('sync-end', this.getSyncState());
+    }
+  }
+
+  private static async replayWrites(): Promise<void> {
     this.syncState.connectionState = 'syncing';
     this.emit('sync-start');
 
-    try {
-      const updates = Array.from(this.syncState.pendingUpdates.values());
-      const failed: OptimisticUpdate[] = [];
+    let synced = 0;
+    let failed = 0;
+    let offline = false;
+    // Real IDs of the records created so far, by the temporary IDs later writes were queued with
+    const confirmedIds = new Map<string, string>();
+    // Records a write failed for; their later writes wait for the next sync so they stay in order
+    const failedRecords = new Set<string>();
+    const writes = await this.writeQueue.getPending();
+
+    for (const queued of this.groupWrites(writes)) {
+      const group = queued.map((write) =>
+        write.recordId && confirmedIds.has(write.recordId)
+          ? { ...write, recordId: confirmedIds.get(write.recordId) }
+          : write,
+      );
+      if (group.some((write) => write.recordId && failedRecords.has(write.recordId))) {
+        continue;
+      }
 
-      for (const update of updates) {
-        try {
-          await this.applySyncUpdate(update);
-          this.syncState.pendingUpdates.delete(update.id);
-          this.emit('sync-success', update);
-        } catch (error) {
-          logger.error(`Sync failed for update ${update.id}:`, undefined, error);
-          
-          update.retryCount++;
-          if (update.retryCount >= this.maxRetries) {
-            // Rollback optimistic update
-            await this.rollbackOptimisticUpdate(update);
-            this.syncState.pendingUpdates.delete(update.id);
-            this.emit('sync-failed', update);
-          } else {
-            failed.push(update);
+      try {
+        await this.applyWrites(group, confirmedIds);
+        for (const write of group) {
+          await this.writeQueue.removePending(write.id);
+          this.emit('sync-success', write);
+        }
+        synced += group.length;
+      } catch (error) {
+        logger.error(`Sync failed for ${group.length} ${group[0].table} write(s):`, undefined, error);
+
+        // Not the writes' fault, so they keep their retries for the next sync
+        if (isTransientFailure(error)) {
+          offline = isNetworkFailure(error);
+          break;
+        }
+
+        failed += group.length;
+        for (const write of group) {
+          await this.recordFailedAttempt(write, error);
+          const recordId = write.type === 'create' ? write.tempId : write.recordId;
+          if (recordId) {
+            failedRecords.add(recordId);
           }
         }
       }
+    }
 
-      // Update retry counts for failed updates
-      failed.forEach(update => {
-        this.syncState.pendingUpdates.set(update.id, update);
-      });
-
-      this.syncState.lastSync = Date.now();
-      this.syncState.connectionState = failed.length > 0 ? 'offline' : 'online';
-      
-      logger.info(`Sync completed: ${updates.length - failed.length}/${updates.length} successful`);
+    this.syncState.lastSync = Date.now();
+    this.syncState.connectionState = offline ? 'offline' : 'online';
 
-    } finally {
-      this.syncState.syncInProgress = false;
-      this.emit('sync-end', this.syncState);
-    }
+    logger.info(`Sync completed: ${synced}/${synced + failed} successful`);
   }
 
   /**
-   * Process batch queue
+   * Runs the sync while holding a lock shared by every tab, and skips it
+   * while another tab holds it: the write queue is shared, so two tabs
+   * replaying it at once would send the same writes twice. Browsers without
+   * the Web Locks API only guard against a second sync in the same tab.
    */
-  private static processBatchQueue(): void {
-    if (this.batchQueue.length === 0) return;
+  private static async withSyncLock(sync: () => Promise<void>): Promise<void> {
+    const locks = typeof navigator !== 'undefined' ? navigator.locks : undefined;
+    if (!locks) {
+      return sync();
+    }
 
-    // Group by table and priority
-    const groups = new Map<string, BatchOperation[]>();
-    
-    this.batchQueue.forEach(batch => {
-      const key = `${batch.table}_${batch.priority}`;
-      if (!groups.has(key)) {
-        groups.set(key, []);
+    await locks.request(SYNC_LOCK, { ifAvailable: true }, async (lock) => {
+      if (!lock) {
+        logger.info('Another tab is syncing, skipping');
+        return;
       }
-      groups.get(key)!.push(batch);
+      await sync();
     });
+  }
 
-    // Process each group
-    groups.forEach(async (batches, key) => {
-      const [tableName] = key.split('_');
-      const allOperations = batches.flatMap(batch => batch.operations);
-      
-      try {
-        await this.executeBatchOperations(tableName, allOperations);
-        
-        // Remove processed batches
-        batches.forEach(batch => {
-          const index = this.batchQueue.findIndex(b => b.id === batch.id);
-          if (index >= 0) {
-            this.batchQueue.splice(index, 1);
-          }
-        });
+  /**
+   * Writes that were given up on, newest first
+   */
+  static async getDeadLetters(): Promise<DeadLetter[]> {
+    return this.writeQueue.getDeadLetters();
+  }
 
-        logger.info(`Processed batch for ${tableName}: ${allOperations.length} operations`);
-        
-      } catch (error) {
-        logger.error(`Batch processing failed for ${tableName}:`, undefined, error);
-        
-        // Increment retry count
-        batches.forEach(batch => {
-          batch.retryCount++;
-          if (batch.retryCount >= this.maxRetries) {
-            const index = this.batchQueue.findIndex(b => b.id === batch.id);
-            if (index >= 0) {
-              this.batchQueue.splice(index, 1);
-            }
-          }
-        });
-      }
-    });
+  static async discardDeadLetter(id: string): Promise<void> {
+    await this.writeQueue.discardDeadLetter(id);
+    await this.refreshSyncCounts();
+  }
+
+  /**
+   * Queues a dead letter again with fresh retries and syncs straight away
+   */
+  static async retryDeadLetter(id: string): Promise<void> {
+    await this.writeQueue.requeueDeadLetter(id);
+    await this.refreshSyncCounts();
+    await this.syncPendingUpdates();
   }
 
   // Helper methods
 
-  private static addOptimisticUpdate(update: OptimisticUpdate): void {
-    this.syncState.pendingUpdates.set(update.id, update);
-  }
+  private static async queueWrite(write: Omit<QueuedWrite, 'id' | 'createdAt' | 'attempts'>): Promise<void> {
+    await this.writeQueue.enqueue(write);
+    await this.refreshSyncCounts();
 
-  private static queueBatchOperation(batch: BatchOperation): void {
-    this.batchQueue.push(batch);
-    
     // Clear existing timer and set new one
     if (this.batchTimer) {
       clearTimeout(this.batchTimer);
     }
-    
+
     this.batchTimer = setTimeout(() => {
-      this.processBatchQueue();
+      this.batchTimer = null;
+      this.syncInBackground();
     }, this.batchDelay);
   }
 
-  private static async applySyncUpdate(update: OptimisticUpdate): Promise<void> {
-    switch (update.operation) {
-      case 'create':
-        await this.createRecord(update.table, update.data.fields);
+  // For syncs nobody waits on; writes that didn't sync stay queued for the next one
+  private static syncInBackground(): void {
+    this.syncPendingUpdates().catch((error) => {
+      logger.error('Background sync failed', 'AirtableProxyClient', error);
+    });
+  }
+
+  // Runs of creates in the same table, up to 10, become one group; every other write is its own
+  private static groupWrites(writes: QueuedWrite[]): QueuedWrite[][] {
+    const groups: QueuedWrite[][] = [];
+    for (const write of writes) {
+      const last = groups[groups.length - 1];
+      const joinsLast =
+        write.type === 'create' &&
+        last?.[0].type === 'create' &&
+        last[0].table === write.table &&
+        last.length < 10;
+
+      if (joinsLast) {
+        last.push(write);
+      } else {
+        groups.push([write]);
+      }
+    }
+    return groups;
+  }
+
+  // Records the real ID of each created record in confirmedIds
+  private static async applyWrites(group: QueuedWrite[], confirmedIds: Map<string, string>): Promise<void> {
+    const [write] = group;
+    switch (write.type) {
+      case 'create': {
+        const created = await this.createRecords(
+          write.table,
+          group.map((create) => ({ fields: create.fields || {} })),
+        );
+        for (const [index, create] of group.entries()) {
+          const record = created[index];
+          if (create.tempId && record?.id) {
+            confirmedIds.set(create.tempId, record.id);
+            // Persisted too, so writes to the record still find it if this sync stops early
+            await this.writeQueue.replaceRecordId(create.tempId, record.id);
+          }
+          // Listeners swap the temporary IDs they were shown for the real ones
+          this.emit('optimistic-confirmed', { table: create.table, tempId: create.tempId, record });
+        }
         break;
-      case 'update':
-        await this.updateRecord(update.table, update.id, update.data.fields);
+      }
+      case 'update': {
+        let fields = write.fields || {};
+        if (write.increments) {
+          const current = await this.getRecord(write.table, write.recordId!);
+          fields = { ...fields, ...this.addIncrements(current.fields, write.increments) };
+        }
+        await this.updateRecord(write.table, write.recordId!, fields);
         break;
+      }
       case 'delete':
-        await this.deleteRecord(update.table, update.id);
+        await this.deleteRecord(write.table, write.recordId!);
         break;
     }
   }
 
-  private static async rollbackOptimisticUpdate(update: OptimisticUpdate): Promise<void> {
-    const cacheKey = `${update.table}:${update.id}`;
-    
-    if (update.operation === 'delete' && update.originalData) {
-      // Restore deleted record to cache
-      this.setCache(cacheKey, update.originalData);
-    } else if (update.operation === 'update' && update.originalData) {
-      // Restore original data
-      this.setCache(cacheKey, update.originalData);
-    } else if (update.operation === 'create') {
+  private static addIncrements(
+    fields: Record<string, any>,
+    increments: Record<string, number>,
+  ): Record<string, number> {
+    return Object.fromEntries(
+      Object.entries(increments).map(([field, amount]) => [field, (Number(fields[field]) || 0) + amount]),
+    );
+  }
+
+  private static async recordFailedAttempt(write: QueuedWrite, error: unknown): Promise<void> {
+    const failed: QueuedWrite = {
+      ...write,
+      attempts: write.attempts + 1,
+      lastError: error instanceof Error ? error.message : String(error),
+    };
+
+    if (failed.attempts < this.maxRetries) {
+      await this.writeQueue.updatePending(failed);
+      return;
+    }
+
+    const deadLetter = await this.writeQueue.moveToDeadLetters(failed);
+    this.rollbackWrite(deadLetter);
+    this.emit('sync-failed', deadLetter);
+  }
+
+  private static rollbackWrite(write: QueuedWrite): void {
+    const cacheKey = `${write.table}:${write.type === 'create' ? write.tempId : write.recordId}`;
+
+    if (write.type === 'create') {
       // Remove optimistic create
       this.removeFromCache(cacheKey);
+    } else if (write.originalData) {
+      // Restore the record as it was before the update or delete
+      this.setCache(cacheKey, write.originalData);
     }
 
-    this.emit('rollback', { update, table: update.table });
+    this.emit('rollback', { write, table: write.table });
+  }
+
+  private static async refreshSyncCounts(): Promise<void> {
+    const counts = await this.writeQueue.getCounts();
+    this.syncState.pendingWrites = counts.pending;
+    this.syncState.failedWrites = counts.failed;
+    this.emit('sync-state', this.getSyncState());
   }
 
   private static async getCachedRecord(tableName: string, recordId: string): Promise<AirtableRecord | null> {
@@ -808,19 +962,35 @@ export class AirtableProxyClient {
     logger.info('Airtable cache cleared');
   }
 
-  static flushBatchQueue(): void {
+  static flushBatchQueue(): Promise<void> {
     if (this.batchTimer) {
       clearTimeout(this.batchTimer);
       this.batchTimer = null;
     }
-    this.processBatchQueue();
+    return this.syncPendingUpdates();
   }
 
-  // Initialize periodic sync
+  /**
+   * Replays writes left from earlier sessions, then syncs whenever the
+   * browser comes back online and periodically while writes are waiting
+   */
   static startPeriodicSync(interval: number = 30000): void {
+    if (this.syncStarted) return;
+    this.syncStarted = true;
+
+    window.addEventListener('online', () => {
+      this.syncState.connectionState = 'online';
+      this.syncInBackground();
+    });
+    window.addEventListener('offline', () => {
+      this.syncState.connectionState = 'offline';
+      this.emit('sync-state', this.getSyncState());
+    });
+
+    this.syncInBackground();
     setInterval(() => {
-      if (this.syncState.pendingUpdates.size > 0) {
-        this.syncPendingUpdates();
+      if (this.syncState.pendingWrites > 0) {
+        this.syncInBackground();
       }
     }, interval);
   }
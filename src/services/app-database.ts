@@ -0,0 +1,103 @@
+/**
+ * Text-to-3D Construction Platform - App Database
+ * Copyright © 2024 Kris. All rights reserved.
+ * PROPRIETARY SOFTWARE - NOT OPEN SOURCE
+ *
+ * The one IndexedDB database the app keeps: CacheManager's model cache and
+ * the stores other services persist to. Every object store is declared here
+ * so the upgrade path lives in one place; bump DB_VERSION when adding one.
+ */
+
+import { logger } from '../utils/logger';
+
+const DB_NAME = 'text-to-3d-cache';
+const DB_VERSION = 4;
+
+interface StoreDefinition {
+  keyPath: string;
+  indexes?: string[];
+}
+
+const STORES: Record<string, StoreDefinition> = {
+  models: { keyPath: 'url', indexes: ['lastAccessed', 'size'] },
+  textures: { keyPath: 'url', indexes: ['lastAccessed'] },
+  metadata: { keyPath: 'key' },
+  // Version 2: generation jobs, see JobQueue
+  jobs: { keyPath: 'id', indexes: ['stage', 'userEmail'] },
+  // Version 3: the local storage backend's tables, see LocalRecordStore
+  projects: { keyPath: 'id' },
+  downloads: { keyPath: 'id' },
+  batches: { keyPath: 'id' },
+  // Version 4: optimistic Airtable writes, see WriteQueue
+  pending_writes: { keyPath: 'id' },
+  dead_letters: { keyPath: 'id' },
+};
+
+let openPromise: Promise<IDBDatabase | null> | null = null;
+
+function open(): Promise<IDBDatabase | null> {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.resolve(null);
+  }
+
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onerror = () => {
+      logger.error('Failed to open IndexedDB', 'AppDatabase');
+      reject(request.error);
+    };
+
+    request.onblocked = () => {
+      logger.warn('Database upgrade waiting for other tabs to close', 'AppDatabase');
+    };
+
+    request.onsuccess = () => {
+      const db = request.result;
+      // Let a newer version in another tab upgrade instead of blocking it
+      db.onversionchange = () => db.close();
+      resolve(db);
+    };
+
+    request.onupgradeneeded = (event) => {
+      const db = (event.target as IDBOpenDBRequest).result;
+
+      Object.entries(STORES).forEach(([name, { keyPath, indexes = [] }]) => {
+        if (!db.objectStoreNames.contains(name)) {
+          const store = db.createObjectStore(name, { keyPath });
+          indexes.forEach((index) => store.createIndex(index, index, { unique: false }));
+        }
+      });
+    };
+  });
+}
+
+/**
+ * The shared connection, opened once. Null when IndexedDB is unavailable
+ * (private browsing, tests), in which case callers keep data in memory.
+ */
+export function openAppDatabase(): Promise<IDBDatabase | null> {
+  if (!openPromise) {
+    openPromise = open().catch((error) => {
+      logger.warn('IndexedDB unavailable, falling back to memory storage', 'AppDatabase', error);
+      return null;
+    });
+  }
+  return openPromise;
+}
+
+// Runs one request in its own transaction
+export function storeRequest<T>(
+  db: IDBDatabase,
+  storeName: string,
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([storeName], mode);
+    const request = makeRequest(transaction.objectStore(storeName));
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
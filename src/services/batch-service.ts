@@ -0,0 +1,61 @@
+/**
+ * Text-to-3D Construction Platform - Batch Service
+ * Copyright © 2024 Kris. All rights reserved.
+ * PROPRIETARY SOFTWARE - NOT OPEN SOURCE
+ *
+ * Batch import summaries, stored in the Batches table with one record per
+ * batch. The rows are kept together as JSON since they are only read back
+ * as a whole.
+ */
+
+import { AirtableProxyClient, AirtableRecord, Formula } from './airtable-proxy-client';
+import { BatchRecord } from '../types';
+import { logger } from '../utils/logger';
+import { decodeRecord, reportSchemaIssues } from '../schema/table-schema';
+import { BATCH_SCHEMA } from '../schema/batch-schema';
+
+export class BatchService {
+  static async createBatch(record: Omit<BatchRecord, 'id'>): Promise<BatchRecord> {
+    try {
+      const created = await AirtableProxyClient.createRecord('Batches', {
+        user_email: record.user_email,
+        name: record.name,
+        status: record.status,
+        created_at: record.created_at,
+        completed_at: record.completed_at,
+        total: record.total,
+        succeeded: record.succeeded,
+        failed: record.failed,
+        items: JSON.stringify(record.items),
+      });
+
+      return { ...record, id: created.id };
+    } catch (error) {
+      logger.error('Failed to save batch to database', 'BatchService', error);
+      throw new Error('Failed to save batch summary');
+    }
+  }
+
+  static async getUserBatches(userEmail: string): Promise<BatchRecord[]> {
+    try {
+      const response = await AirtableProxyClient.getRecords('Batches', {
+        filterByFormula: Formula.eq('user_email', userEmail),
+        sort: [{ field: 'created_at', direction: 'desc' }],
+      });
+
+      return this.decodeBatches(response.records);
+    } catch (error) {
+      logger.error('Failed to fetch batches from database', 'BatchService', error);
+      throw new Error('Failed to load batches');
+    }
+  }
+
+  // Rows that don't fit the schema are logged and left out
+  private static decodeBatches(rows: AirtableRecord[]): BatchRecord[] {
+    return rows.flatMap((row) => {
+      const { record, issues } = decodeRecord(BATCH_SCHEMA, row);
+      reportSchemaIssues(issues);
+      return record ? [record] : [];
+    });
+  }
+}
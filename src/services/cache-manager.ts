@@ -5,6 +5,8 @@
  */
 
 import { logger } from '../utils/logger';
+import { openAppDatabase } from './app-database';
+import type { ProjectRecord } from '../airtable-service';
 
 interface CacheOptions {
   ttl?: number; // Time to live in milliseconds
@@ -31,13 +33,12 @@ interface ModelCacheMetadata {
 
 export class CacheManager {
   private static instance: CacheManager;
-  private dbName = 'text-to-3d-cache';
-  private dbVersion = 1;
   private db: IDBDatabase | null = null;
   private memoryCache = new Map<string, CachedItem>();
   private cacheApi: Cache | null = null;
   private maxMemorySize = 50 * 1024 * 1024; // 50MB in memory
   private currentMemorySize = 0;
+  private initPromise: Promise<void> | null = null;
 
   static getInstance(): CacheManager {
     if (!CacheManager.instance) {
@@ -47,6 +48,13 @@ export class CacheManager {
   }
 
   async initialize(): Promise<void> {
+    if (!this.initPromise) {
+      this.initPromise = this.initializeStores();
+    }
+    return this.initPromise;
+  }
+
+  private async initializeStores(): Promise<void> {
     try {
       await this.initIndexedDB();
       await this.initCacheAPI();
@@ -57,40 +65,9 @@ export class CacheManager {
     }
   }
 
+  // Shares the app's database with the job queue and the other persisted stores
   private async initIndexedDB(): Promise<void> {
-    return new Promise((resolve, reject) => {
-      const request = indexedDB.open(this.dbName, this.dbVersion);
-
-      request.onerror = () => {
-        logger.error('Failed to open IndexedDB');
-        reject(request.error);
-      };
-
-      request.onsuccess = () => {
-        this.db = request.result;
-        resolve();
-      };
-
-      request.onupgradeneeded = (event) => {
-        const db = (event.target as IDBOpenDBRequest).result;
-
-        // Create object stores
-        if (!db.objectStoreNames.contains('models')) {
-          const modelStore = db.createObjectStore('models', { keyPath: 'url' });
-          modelStore.createIndex('lastAccessed', 'lastAccessed', { unique: false });
-          modelStore.createIndex('size', 'size', { unique: false });
-        }
-
-        if (!db.objectStoreNames.contains('textures')) {
-          const textureStore = db.createObjectStore('textures', { keyPath: 'url' });
-          textureStore.createIndex('lastAccessed', 'lastAccessed', { unique: false });
-        }
-
-        if (!db.objectStoreNames.contains('metadata')) {
-          db.createObjectStore('metadata', { keyPath: 'key' });
-        }
-      };
-    });
+    this.db = await openAppDatabase();
   }
 
   private async initCacheAPI(): Promise<void> {
@@ -227,6 +204,43 @@ export class CacheManager {
     }
   }
 
+  // Finished generations by request hash, so the same request can reuse the model
+  async cacheGenerationResult(project: ProjectRecord, options: CacheOptions = {}): Promise<void> {
+    if (!project.request_hash) return;
+
+    const key = `generation:${project.request_hash}`;
+    const ttl = options.ttl || 30 * 24 * 60 * 60 * 1000; // 30 days default
+
+    try {
+      this.addToMemoryCache(key, project, { ttl });
+      await this.initialize();
+      await this.storeInIndexedDB('metadata', { key, project, timestamp: Date.now(), ttl });
+    } catch (error) {
+      logger.warn('Failed to cache generation result:', undefined, error);
+    }
+  }
+
+  async getGenerationResult(requestHash: string): Promise<ProjectRecord | null> {
+    const key = `generation:${requestHash}`;
+
+    try {
+      const memoryItem = this.memoryCache.get(key);
+      if (memoryItem && !this.isExpired(memoryItem)) {
+        return memoryItem.data;
+      }
+
+      await this.initialize();
+      const stored = await this.getFromIndexedDB('metadata', key);
+      if (stored?.project && !this.isExpired(stored)) {
+        this.addToMemoryCache(key, stored.project, { ttl: stored.timestamp + stored.ttl - Date.now() });
+        return stored.project;
+      }
+    } catch (error) {
+      logger.warn('Failed to read cached generation result:', undefined, error);
+    }
+    return null;
+  }
+
   async getCacheStats(): Promise<{
     totalSize: number;
     modelCount: number;
@@ -0,0 +1,46 @@
+/**
+ * Text-to-3D Construction Platform - Credit Service
+ * Copyright © 2024 Kris. All rights reserved.
+ * PROPRIETARY SOFTWARE - NOT OPEN SOURCE
+ *
+ * Monthly Meshy credit spend, read from the CreditUsage table. The Meshy
+ * proxy adds a record for every task it creates, so the app only reads.
+ */
+
+import { AirtableProxyClient, Formula } from './airtable-proxy-client';
+import { MonthlySpend } from '../types';
+import { organisationOf } from '../templates/prompt-templates';
+import { logger } from '../utils/logger';
+
+export class CreditService {
+  static async getMonthlySpend(userEmail: string, month: string): Promise<MonthlySpend> {
+    const organisation = organisationOf(userEmail);
+    const spend: MonthlySpend = { month, user: 0, team: 0 };
+
+    try {
+      let offset: string | undefined;
+      do {
+        const response = await AirtableProxyClient.getRecords('CreditUsage', {
+          filterByFormula: Formula.and(Formula.eq('organisation', organisation), Formula.eq('month', month)),
+          fields: ['user_email', 'credits'],
+          pageSize: 100,
+          offset,
+        });
+
+        for (const { fields } of response.records) {
+          const credits = Number(fields.credits) || 0;
+          spend.team += credits;
+          if (String(fields.user_email).toLowerCase() === userEmail.toLowerCase()) {
+            spend.user += credits;
+          }
+        }
+        offset = response.offset;
+      } while (offset);
+
+      return spend;
+    } catch (error) {
+      logger.error('Failed to fetch credit usage from database', 'CreditService', error);
+      throw new Error('Failed to load credit usage');
+    }
+  }
+}
@@ -5,31 +5,41 @@
  */
 
 import { ApiClient } from '../api-client';
+import { AirtableProxyClient, AirtableRecord, Formula } from './airtable-proxy-client';
 import { ProjectService } from './project-service';
 import { DownloadRecord } from '../types';
+import { decodeRecord, encodeRecord, reportSchemaIssues } from '../schema/table-schema';
+import { DOWNLOAD_SCHEMA } from '../schema/download-schema';
 
 export class DownloadService {
+  // Rows that don't fit the schema are logged and left out of history and stats
+  private static decodeDownloads(rows: AirtableRecord[]): DownloadRecord[] {
+    return rows.flatMap((row) => {
+      const { record, issues } = decodeRecord(DOWNLOAD_SCHEMA, row);
+      reportSchemaIssues(issues);
+      return record ? [record] : [];
+    });
+  }
+
   static async recordDownload(
     download: Omit<DownloadRecord, 'id' | 'downloaded_at'>,
   ): Promise<void> {
-    const downloadData = {
-      fields: {
+    try {
+      const { fields, issues } = encodeRecord(DOWNLOAD_SCHEMA, {
         ...download,
         downloaded_at: new Date().toISOString(),
-      },
-    };
+      });
+      if (issues.length > 0) {
+        reportSchemaIssues(issues);
+        throw new Error('Download does not match the Downloads table schema');
+      }
 
-    try {
-      await ApiClient.airtablePost('/Downloads', downloadData);
+      // Queued for AirtableProxyClient to sync, so downloads made offline are still counted
+      await AirtableProxyClient.createRecordOptimistic('Downloads', fields);
 
-      // Increment download count in Projects table
+      // Counted on top of the project's count in Airtable as the write syncs
       if (download.project_id) {
-        const project = await ProjectService.getProject(download.project_id);
-        if (project) {
-          await ProjectService.updateProject(download.project_id, {
-            download_count: (project.download_count || 0) + 1,
-          });
-        }
+        await ProjectService.countDownload(download.project_id);
       }
     } catch (error) {
       console.error('Failed to record download:', error);
@@ -42,18 +52,13 @@ export class DownloadService {
     limit: number = 50,
   ): Promise<DownloadRecord[]> {
     try {
-      const response = await ApiClient.airtableGet(
-        `/Downloads?filterByFormula={user_email}='${userEmail}'&maxRecords=${limit}&sort[0][field]=downloaded_at&sort[0][direction]=desc`
-      );
-
-      if (!response.success || !response.data.records) {
-        return [];
-      }
+      const response = await AirtableProxyClient.getRecords('Downloads', {
+        filterByFormula: Formula.eq('user_email', userEmail),
+        maxRecords: limit,
+        sort: [{ field: 'downloaded_at', direction: 'desc' }],
+      });
 
-      return response.data.records.map((record: any) => ({
-        id: record.id,
-        ...record.fields,
-      })) as DownloadRecord[];
+      return DownloadService.decodeDownloads(response.records);
     } catch (error) {
       console.error('Failed to fetch download history:', error);
       return [];
@@ -66,22 +71,12 @@ export class DownloadService {
     recentDownloads: DownloadRecord[];
   }> {
     try {
-      const response = await ApiClient.airtableGet(
-        `/Downloads?filterByFormula={user_email}='${userEmail}'&sort[0][field]=downloaded_at&sort[0][direction]=desc`
-      );
-
-      if (!response.success || !response.data.records) {
-        return {
-          totalDownloads: 0,
-          formatBreakdown: {},
-          recentDownloads: [],
-        };
-      }
+      const response = await AirtableProxyClient.getRecords('Downloads', {
+        filterByFormula: Formula.eq('user_email', userEmail),
+        sort: [{ field: 'downloaded_at', direction: 'desc' }],
+      });
 
-      const downloads = response.data.records.map((record: any) => ({
-        id: record.id,
-        ...record.fields,
-      })) as DownloadRecord[];
+      const downloads = DownloadService.decodeDownloads(response.records);
 
       const formatBreakdown: Record<string, number> = {};
       downloads.forEach((download) => {
@@ -110,22 +105,12 @@ export class DownloadService {
     deviceBreakdown: Record<string, number>;
   }> {
     try {
-      const response = await ApiClient.airtableGet(
-        `/Downloads?maxRecords=10000&sort[0][field]=downloaded_at&sort[0][direction]=desc`
-      );
-
-      if (!response.success || !response.data.records) {
-        return {
-          totalDownloads: 0,
-          popularFormats: {},
-          deviceBreakdown: {},
-        };
-      }
+      const response = await AirtableProxyClient.getRecords('Downloads', {
+        maxRecords: 10000,
+        sort: [{ field: 'downloaded_at', direction: 'desc' }],
+      });
 
-      const downloads = response.data.records.map((record: any) => ({
-        id: record.id,
-        ...record.fields,
-      })) as DownloadRecord[];
+      const downloads = DownloadService.decodeDownloads(response.records);
 
       const popularFormats: Record<string, number> = {};
       const deviceBreakdown: Record<string, number> = {};
@@ -168,18 +153,12 @@ export class DownloadService {
     projectId: string,
   ): Promise<DownloadRecord[]> {
     try {
-      const response = await ApiClient.airtableGet(
-        `/Downloads?filterByFormula={project_id}='${projectId}'&sort[0][field]=downloaded_at&sort[0][direction]=desc`
-      );
-
-      if (!response.success || !response.data.records) {
-        return [];
-      }
+      const response = await AirtableProxyClient.getRecords('Downloads', {
+        filterByFormula: Formula.eq('project_id', projectId),
+        sort: [{ field: 'downloaded_at', direction: 'desc' }],
+      });
 
-      return response.data.records.map((record: any) => ({
-        id: record.id,
-        ...record.fields,
-      })) as DownloadRecord[];
+      return DownloadService.decodeDownloads(response.records);
     } catch (error) {
       console.error('Failed to fetch downloads by project:', error);
       return [];
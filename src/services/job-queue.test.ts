@@ -0,0 +1,66 @@
+/**
+ * Job Queue Unit Tests
+ * Copyright © 2024 Kris. All rights reserved.
+ * PROPRIETARY SOFTWARE - NOT OPEN SOURCE
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { JobQueue } from './job-queue';
+import type { GenerationRequest } from '../meshy-api';
+
+describe('JobQueue', () => {
+  let jobQueue: JobQueue;
+  const request: GenerationRequest = {
+    prompt: 'timber roof truss',
+    artStyle: 'realistic',
+    targetPolyCount: 30000,
+  };
+
+  beforeEach(() => {
+    // IndexedDB is not available in happy-dom, so this exercises the memory fallback
+    jobQueue = new JobQueue();
+  });
+
+  it('should create jobs in the preview stage', async () => {
+    const job = await jobQueue.createJob('test@example.com', request);
+
+    expect(job.id).toMatch(/^job_/);
+    expect(job.stage).toBe('preview');
+    expect(job.request).toEqual(request);
+    expect(await jobQueue.getJob(job.id)).toEqual(job);
+  });
+
+  it('should record task IDs as the job advances', async () => {
+    const job = await jobQueue.createJob('test@example.com', request);
+
+    await jobQueue.updateJob(job.id, { previewTaskId: 'preview-1' });
+    const updated = await jobQueue.updateJob(job.id, {
+      stage: 'refine',
+      refineTaskId: 'refine-1',
+    });
+
+    expect(updated).toEqual(
+      expect.objectContaining({
+        stage: 'refine',
+        previewTaskId: 'preview-1',
+        refineTaskId: 'refine-1',
+      }),
+    );
+  });
+
+  it('should only return unfinished jobs for the given user', async () => {
+    const running = await jobQueue.createJob('test@example.com', request);
+    const done = await jobQueue.createJob('test@example.com', request);
+    await jobQueue.createJob('other@example.com', request);
+
+    await jobQueue.updateJob(done.id, { stage: 'completed' });
+
+    const unfinished = await jobQueue.getUnfinishedJobs('test@example.com');
+
+    expect(unfinished.map((job) => job.id)).toEqual([running.id]);
+  });
+
+  it('should return null when updating an unknown job', async () => {
+    expect(await jobQueue.updateJob('missing', { stage: 'failed' })).toBeNull();
+  });
+});
@@ -0,0 +1,197 @@
+/**
+ * Text-to-3D Construction Platform - Persistent Generation Job Queue
+ * Copyright © 2024 Kris. All rights reserved.
+ * PROPRIETARY SOFTWARE - NOT OPEN SOURCE
+ *
+ * Records in-flight Meshy generations in IndexedDB so that a reload or a
+ * closed tab does not lose the preview/refine task IDs (and the credits
+ * already spent on them).
+ */
+
+import type {
+  GenerationRequest,
+  ImageGenerationRequest,
+  MeshyTask,
+  MeshyTaskKind,
+  RemeshRequest,
+  RetextureRequest,
+} from '../meshy-api';
+import { logger } from '../utils/logger';
+import { openAppDatabase, storeRequest } from './app-database';
+
+export type GenerationJobStage =
+  | 'preview'
+  | 'refine'
+  | 'image'
+  | 'retexture'
+  | 'remesh'
+  | 'awaiting_approval'
+  | 'completed'
+  | 'failed'
+  | 'cancelled';
+
+export interface GenerationJob {
+  id: string;
+  userEmail: string;
+  mode?: MeshyTaskKind; // Absent on jobs recorded before image input existed
+  request: GenerationRequest | ImageGenerationRequest | RetextureRequest | RemeshRequest;
+  stage: GenerationJobStage;
+  previewTaskId?: string;
+  refineTaskId?: string;
+  imageTaskId?: string;
+  retextureTaskId?: string;
+  remeshTaskId?: string;
+  parentProjectId?: string; // Retextures and remeshes: the project whose model they start from
+  approvalRequired?: boolean; // Refine only starts after the user approves the preview
+  variantGroupId?: string; // Shared by the competing previews of one multi-variant run
+  projectId?: string; // The Projects record the Meshy webhook updates when the task finishes
+  result?: MeshyTask;
+  error?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+const UNFINISHED_STAGES: GenerationJobStage[] = [
+  'preview',
+  'refine',
+  'image',
+  'retexture',
+  'remesh',
+  'awaiting_approval',
+];
+
+export class JobQueue {
+  private static instance: JobQueue;
+  private storeName = 'jobs'; // In the app database, alongside CacheManager's stores
+  private db: IDBDatabase | null = null;
+  private initPromise: Promise<void> | null = null;
+  // Used when IndexedDB is unavailable (private browsing, tests)
+  private memoryJobs = new Map<string, GenerationJob>();
+  private maxFinishedAge = 7 * 24 * 60 * 60 * 1000; // Keep finished jobs for 7 days
+
+  static getInstance(): JobQueue {
+    if (!JobQueue.instance) {
+      JobQueue.instance = new JobQueue();
+    }
+    return JobQueue.instance;
+  }
+
+  async initialize(): Promise<void> {
+    if (!this.initPromise) {
+      this.initPromise = openAppDatabase().then((db) => {
+        this.db = db;
+      });
+
+      // Housekeeping runs after the database is ready and never blocks callers
+      this.initPromise.then(() => this.pruneFinishedJobs()).catch((error) => {
+        logger.warn('Failed to prune finished jobs', 'JobQueue', error);
+      });
+    }
+    return this.initPromise;
+  }
+
+  async createJob(
+    userEmail: string,
+    request: GenerationRequest | ImageGenerationRequest | RetextureRequest | RemeshRequest,
+    mode: MeshyTaskKind = 'text',
+    options: Pick<GenerationJob, 'approvalRequired' | 'variantGroupId' | 'parentProjectId'> = {},
+  ): Promise<GenerationJob> {
+    const now = Date.now();
+    const job: GenerationJob = {
+      id: `job_${now}_${Math.random().toString(36).substr(2, 9)}`,
+      userEmail,
+      mode,
+      request,
+      ...options,
+      stage: mode === 'text' ? 'preview' : mode,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await this.putJob(job);
+    logger.info('Generation job queued', 'JobQueue', { jobId: job.id });
+    return job;
+  }
+
+  async updateJob(
+    id: string,
+    updates: Partial<Omit<GenerationJob, 'id' | 'createdAt'>>,
+  ): Promise<GenerationJob | null> {
+    const job = await this.getJob(id);
+    if (!job) {
+      logger.warn('Attempted to update unknown job', 'JobQueue', { jobId: id });
+      return null;
+    }
+
+    const updated: GenerationJob = { ...job, ...updates, updatedAt: Date.now() };
+    await this.putJob(updated);
+    return updated;
+  }
+
+  async getJob(id: string): Promise<GenerationJob | null> {
+    await this.initialize();
+
+    if (!this.db) {
+      return this.memoryJobs.get(id) || null;
+    }
+
+    const job = await storeRequest<GenerationJob | undefined>(this.db, this.storeName, 'readonly', (store) => store.get(id));
+    return job || null;
+  }
+
+  async getAllJobs(): Promise<GenerationJob[]> {
+    await this.initialize();
+
+    if (!this.db) {
+      return Array.from(this.memoryJobs.values());
+    }
+
+    return storeRequest<GenerationJob[]>(this.db, this.storeName, 'readonly', (store) => store.getAll());
+  }
+
+  /**
+   * Jobs that were still running with Meshy (or waiting on the user) when the
+   * page went away
+   */
+  async getUnfinishedJobs(userEmail?: string): Promise<GenerationJob[]> {
+    const jobs = await this.getAllJobs();
+    return jobs
+      .filter((job) => UNFINISHED_STAGES.includes(job.stage))
+      .filter((job) => !userEmail || job.userEmail === userEmail)
+      .sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  async removeJob(id: string): Promise<void> {
+    await this.initialize();
+
+    if (!this.db) {
+      this.memoryJobs.delete(id);
+      return;
+    }
+
+    await storeRequest(this.db, this.storeName, 'readwrite', (store) => store.delete(id));
+  }
+
+  private async putJob(job: GenerationJob): Promise<void> {
+    await this.initialize();
+
+    if (!this.db) {
+      this.memoryJobs.set(job.id, job);
+      return;
+    }
+
+    await storeRequest(this.db, this.storeName, 'readwrite', (store) => store.put(job));
+  }
+
+  private async pruneFinishedJobs(): Promise<void> {
+    const cutoff = Date.now() - this.maxFinishedAge;
+    const jobs = await this.getAllJobs();
+
+    for (const job of jobs) {
+      const finished = !UNFINISHED_STAGES.includes(job.stage);
+      if (finished && job.updatedAt < cutoff) {
+        await this.removeJob(job.id);
+      }
+    }
+  }
+}
@@ -4,117 +4,118 @@
  * PROPRIETARY SOFTWARE - NOT OPEN SOURCE
  */
 
-import { AirtableProxyClient } from './airtable-proxy-client';
+import { AirtableProxyClient, AirtableRecord, Formula } from './airtable-proxy-client';
 import { ProjectRecord } from '../types';
+import { decodeRecord, encodeRecord, reportSchemaIssues } from '../schema/table-schema';
+import { PROJECT_SCHEMA } from '../schema/project-schema';
 import { logger } from '../utils/logger';
 
 export class ProjectService {
+  // Helpers are called through the class name, since AirtableService copies these methods off it
+  // A row that doesn't fit the schema is logged and left out rather than failing the whole read
+  private static decodeProject(row: AirtableRecord): ProjectRecord | null {
+    const { record, issues } = decodeRecord(PROJECT_SCHEMA, row);
+    reportSchemaIssues(issues);
+    return record;
+  }
+
+  private static encodeProject(values: Partial<ProjectRecord>, partial = false): Record<string, unknown> {
+    const { fields, issues } = encodeRecord(PROJECT_SCHEMA, values, { partial });
+    if (issues.length > 0) {
+      reportSchemaIssues(issues);
+      throw new Error('Project does not match the Projects table schema');
+    }
+    return fields;
+  }
+
   static async createProject(
     record: Omit<ProjectRecord, 'id' | 'created_at' | 'download_count'>,
   ): Promise<ProjectRecord> {
-    const projectData = {
-      user_email: record.user_email,
-      prompt: record.prompt,
-      status: record.status,
-      device_type: record.device_type,
-      art_style: record.art_style,
-      created_at: new Date().toISOString(),
-      download_count: 0,
-      ...(record.polygon_count && { polygon_count: record.polygon_count }),
-      ...(record.generation_time_seconds && {
-        generation_time_seconds: record.generation_time_seconds,
-      }),
-      ...(record.thumbnail_url && { thumbnail_url: record.thumbnail_url }),
-    };
-
     try {
+      const projectData = ProjectService.encodeProject({
+        ...record,
+        created_at: new Date().toISOString(),
+        download_count: 0,
+      });
       const createdRecord = await AirtableProxyClient.createRecord('Projects', projectData);
-      return {
-        id: createdRecord.id,
-        ...createdRecord.fields,
-      } as ProjectRecord;
+      const project = ProjectService.decodeProject(createdRecord);
+      if (!project) throw new Error('Created project does not match the Projects table schema');
+      return project;
     } catch (error) {
       logger.error('Failed to create project in database', 'ProjectService', error);
       throw new Error('Failed to save project to database');
     }
   }
 
+  // Queued for AirtableProxyClient to sync, so it survives going offline. Null
+  // when the record couldn't be read first, as only the updated fields are known.
   static async updateProject(
     id: string,
     updates: Partial<ProjectRecord>,
-  ): Promise<ProjectRecord> {
-    // Convert nested objects to strings for Airtable
-    const airtableUpdates: any = { ...updates };
-    if (updates.model_urls) {
-      airtableUpdates.model_urls = JSON.stringify(updates.model_urls);
-    }
-    if (updates.file_sizes) {
-      airtableUpdates.file_sizes = JSON.stringify(updates.file_sizes);
-    }
-
+  ): Promise<ProjectRecord | null> {
     try {
-      const updatedRecord = await AirtableProxyClient.updateRecord('Projects', id, airtableUpdates);
-      const fields = updatedRecord.fields as any;
-
-      return {
-        id: updatedRecord.id,
-        ...fields,
-        // Parse JSON strings back to objects
-        model_urls: fields.model_urls
-          ? JSON.parse(fields.model_urls)
-          : undefined,
-        file_sizes: fields.file_sizes
-          ? JSON.parse(fields.file_sizes)
-          : undefined,
-      } as ProjectRecord;
+      const updatedRecord = await AirtableProxyClient.updateRecordOptimistic(
+        'Projects',
+        id,
+        ProjectService.encodeProject(updates, true),
+      );
+      return updatedRecord.createdTime ? ProjectService.decodeProject(updatedRecord) : null;
     } catch (error) {
       logger.error('Failed to update project in database', 'ProjectService', error);
       throw new Error('Failed to update project in database');
     }
   }
 
+  static async countDownload(id: string): Promise<void> {
+    try {
+      await AirtableProxyClient.incrementRecordOptimistic('Projects', id, { download_count: 1 });
+    } catch (error) {
+      logger.error('Failed to count download in database', 'ProjectService', error);
+      throw new Error('Failed to count download in database');
+    }
+  }
+
   static async getUserProjects(
     userEmail: string,
     limit: number = 20,
   ): Promise<ProjectRecord[]> {
     try {
       const response = await AirtableProxyClient.getRecords('Projects', {
-        filterByFormula: `{user_email} = '${userEmail}'`,
+        filterByFormula: Formula.eq('user_email', userEmail),
         maxRecords: limit,
         sort: [{ field: 'created_at', direction: 'desc' }],
       });
 
-      return response.records.map((record) => ({
-        id: record.id,
-        ...record.fields,
-        // Parse JSON strings back to objects if they exist
-        model_urls: record.fields.model_urls
-          ? JSON.parse(record.fields.model_urls as string)
-          : undefined,
-        file_sizes: record.fields.file_sizes
-          ? JSON.parse(record.fields.file_sizes as string)
-          : undefined,
-      })) as ProjectRecord[];
+      return response.records
+        .map((record) => ProjectService.decodeProject(record))
+        .filter((project): project is ProjectRecord => project !== null);
     } catch (error) {
       logger.error('Failed to fetch user projects from database', 'ProjectService', error);
       throw new Error('Failed to load project history');
     }
   }
 
+  // The team's latest finished project with this request hash, to reuse instead of paying again
+  static async findCompletedProject(requestHash: string): Promise<ProjectRecord | null> {
+    try {
+      const response = await AirtableProxyClient.getRecords('Projects', {
+        filterByFormula: Formula.and(Formula.eq('request_hash', requestHash), Formula.eq('status', 'completed')),
+        maxRecords: 1,
+        sort: [{ field: 'created_at', direction: 'desc' }],
+      });
+
+      const record = response.records[0];
+      return record ? ProjectService.decodeProject(record) : null;
+    } catch (error) {
+      logger.error('Failed to look up matching project in database', 'ProjectService', error);
+      throw new Error('Failed to look up earlier generations');
+    }
+  }
+
   static async getProject(id: string): Promise<ProjectRecord | null> {
     try {
       const record = await AirtableProxyClient.getRecord('Projects', id);
-      return {
-        id: record.id,
-        ...record.fields,
-        // Parse JSON strings back to objects if they exist
-        model_urls: record.fields.model_urls
-          ? JSON.parse(record.fields.model_urls as string)
-          : undefined,
-        file_sizes: record.fields.file_sizes
-          ? JSON.parse(record.fields.file_sizes as string)
-          : undefined,
-      } as ProjectRecord;
+      return ProjectService.decodeProject(record);
     } catch (error) {
       logger.error('Failed to fetch project from database', 'ProjectService', error);
       return null;
@@ -142,17 +143,9 @@ export class ProjectService {
         sort: [{ field: 'created_at', direction: 'desc' }],
       });
 
-      const projects = response.records.map((record) => ({
-        id: record.id,
-        ...record.fields,
-        // Parse JSON strings back to objects if they exist
-        model_urls: record.fields.model_urls
-          ? JSON.parse(record.fields.model_urls as string)
-          : undefined,
-        file_sizes: record.fields.file_sizes
-          ? JSON.parse(record.fields.file_sizes as string)
-          : undefined,
-      })) as ProjectRecord[];
+      const projects = response.records
+        .map((record) => ProjectService.decodeProject(record))
+        .filter((project): project is ProjectRecord => project !== null);
 
       const totalProjects = projects.length;
       const completedProjects = projects.filter(
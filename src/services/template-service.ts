@@ -0,0 +1,91 @@
+/**
+ * Text-to-3D Construction Platform - Template Service
+ * Copyright © 2024 Kris. All rights reserved.
+ * PROPRIETARY SOFTWARE - NOT OPEN SOURCE
+ *
+ * Team prompt templates, stored in the Templates table per organisation.
+ * Slots aren't stored: they follow from the placeholders in the text.
+ */
+
+import { AirtableProxyClient, AirtableRecord, Formula } from './airtable-proxy-client';
+import { BUILT_IN_TEMPLATES } from '../templates/built-in-templates';
+import { createTemplate, PromptTemplate, TemplateDraft } from '../templates/prompt-templates';
+import { logger } from '../utils/logger';
+
+export class TemplateService {
+  static async getOrganisationTemplates(organisation: string): Promise<PromptTemplate[]> {
+    try {
+      const response = await AirtableProxyClient.getRecords('Templates', {
+        filterByFormula: Formula.eq('organisation', organisation),
+        sort: [{ field: 'name', direction: 'asc' }],
+      });
+
+      return response.records.flatMap((record) => {
+        try {
+          return [this.toTemplate(record, organisation)];
+        } catch (error) {
+          // A template edited into an unusable state in Airtable shouldn't hide the rest
+          logger.warn('Skipping invalid team template', 'TemplateService', {
+            id: record.id,
+            error: error instanceof Error ? error.message : error,
+          });
+          return [];
+        }
+      });
+    } catch (error) {
+      logger.error('Failed to fetch team templates from database', 'TemplateService', error);
+      throw new Error('Failed to load team templates');
+    }
+  }
+
+  // Built-in templates first, then the organisation's; built-ins still load if the table can't
+  static async getTemplates(organisation: string): Promise<PromptTemplate[]> {
+    try {
+      return [...BUILT_IN_TEMPLATES, ...(await this.getOrganisationTemplates(organisation))];
+    } catch {
+      return [...BUILT_IN_TEMPLATES];
+    }
+  }
+
+  static async saveTemplate(
+    organisation: string,
+    draft: TemplateDraft,
+    createdBy: string,
+  ): Promise<PromptTemplate> {
+    // Validate before saving so a broken template never reaches the team
+    const template = createTemplate(draft, 'unsaved', organisation);
+
+    try {
+      const record = await AirtableProxyClient.createRecord('Templates', {
+        organisation,
+        name: template.name,
+        category: template.category,
+        ...(template.description && { description: template.description }),
+        text: template.text,
+        settings: JSON.stringify(template.settings),
+        created_by: createdBy,
+        created_at: new Date().toISOString(),
+      });
+
+      return { ...template, id: record.id || template.id };
+    } catch (error) {
+      logger.error('Failed to save team template to database', 'TemplateService', error);
+      throw new Error('Failed to save template');
+    }
+  }
+
+  private static toTemplate(record: AirtableRecord, organisation: string): PromptTemplate {
+    const { fields } = record;
+    return createTemplate(
+      {
+        name: String(fields.name || ''),
+        category: fields.category,
+        description: fields.description,
+        text: String(fields.text || ''),
+        settings: fields.settings ? JSON.parse(fields.settings as string) : {},
+      },
+      record.id || `${organisation}-${fields.name}`,
+      organisation,
+    );
+  }
+}
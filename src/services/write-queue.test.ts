@@ -0,0 +1,64 @@
+/**
+ * Write Queue Unit Tests
+ * Copyright © 2024 Kris. All rights reserved.
+ * PROPRIETARY SOFTWARE - NOT OPEN SOURCE
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { WriteQueue } from './write-queue';
+
+describe('WriteQueue', () => {
+  let writeQueue: WriteQueue;
+
+  beforeEach(() => {
+    // IndexedDB is not available in happy-dom, so this exercises the memory fallback
+    writeQueue = new WriteQueue();
+  });
+
+  it('should keep pending writes in the order they were queued', async () => {
+    const first = await writeQueue.enqueue({ table: 'Projects', type: 'update', recordId: 'rec1', fields: { status: 'completed' } });
+    const second = await writeQueue.enqueue({ table: 'Projects', type: 'delete', recordId: 'rec2' });
+
+    expect(first.id).toMatch(/^write_/);
+    expect(first.attempts).toBe(0);
+    expect((await writeQueue.getPending()).map((write) => write.id)).toEqual([first.id, second.id]);
+
+    await writeQueue.removePending(first.id);
+    expect(await writeQueue.getCounts()).toEqual({ pending: 1, failed: 0 });
+  });
+
+  it('should point pending writes at a created record\'s real ID', async () => {
+    const update = await writeQueue.enqueue({ table: 'Projects', type: 'update', recordId: 'temp_1', fields: { status: 'completed' } });
+    const other = await writeQueue.enqueue({ table: 'Projects', type: 'delete', recordId: 'rec2' });
+
+    await writeQueue.replaceRecordId('temp_1', 'rec1');
+
+    expect(await writeQueue.getPending()).toEqual([{ ...update, recordId: 'rec1' }, other]);
+  });
+
+  it('should move failed writes to dead letters and back', async () => {
+    const write = await writeQueue.enqueue({ table: 'Downloads', type: 'create', tempId: 'temp_1', fields: { format: 'glb' } });
+
+    const deadLetter = await writeQueue.moveToDeadLetters({ ...write, attempts: 3, lastError: 'Airtable unavailable' });
+
+    expect(deadLetter.failedAt).toEqual(expect.any(Number));
+    expect(await writeQueue.getPending()).toEqual([]);
+    expect(await writeQueue.getDeadLetters()).toEqual([deadLetter]);
+
+    const requeued = await writeQueue.requeueDeadLetter(write.id);
+
+    expect(requeued).toMatchObject({ id: write.id, attempts: 0, lastError: 'Airtable unavailable' });
+    expect(requeued).not.toHaveProperty('failedAt');
+    expect(await writeQueue.getCounts()).toEqual({ pending: 1, failed: 0 });
+    expect(await writeQueue.requeueDeadLetter('write_missing')).toBeNull();
+  });
+
+  it('should discard dead letters', async () => {
+    const write = await writeQueue.enqueue({ table: 'Projects', type: 'delete', recordId: 'rec1' });
+    await writeQueue.moveToDeadLetters(write);
+
+    await writeQueue.discardDeadLetter(write.id);
+
+    expect(await writeQueue.getCounts()).toEqual({ pending: 0, failed: 0 });
+  });
+});
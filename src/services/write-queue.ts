@@ -0,0 +1,181 @@
+/**
+ * Text-to-3D Construction Platform - Persistent Airtable Write Queue
+ * Copyright © 2024 Kris. All rights reserved.
+ * PROPRIETARY SOFTWARE - NOT OPEN SOURCE
+ *
+ * Records optimistic Airtable writes in IndexedDB until they reach Airtable,
+ * so closing the tab or going offline doesn't lose them. Writes that keep
+ * failing are moved to a dead-letter list for the user to retry or discard.
+ */
+
+import type { AirtableRecord } from './airtable-proxy-client';
+import { openAppDatabase, storeRequest } from './app-database';
+import { logger } from '../utils/logger';
+
+export type WriteType = 'create' | 'update' | 'delete';
+
+export interface QueuedWrite {
+  id: string;
+  table: string;
+  type: WriteType;
+  recordId?: string; // Updates and deletes
+  tempId?: string; // Creates: the ID the optimistic record was shown with
+  fields?: Record<string, any>;
+  increments?: Record<string, number>; // Updates: added to the record's values in Airtable as the write syncs
+  originalData?: AirtableRecord | null; // Restored to the cache if the write is given up on
+  createdAt: number;
+  attempts: number;
+  lastError?: string;
+}
+
+export interface DeadLetter extends QueuedWrite {
+  failedAt: number;
+}
+
+type WriteStore = 'pending_writes' | 'dead_letters';
+
+export class WriteQueue {
+  private static instance: WriteQueue;
+  private db: IDBDatabase | null = null;
+  private initPromise: Promise<void> | null = null;
+  // Used when IndexedDB is unavailable (private browsing, tests)
+  private memoryStores: Record<WriteStore, Map<string, QueuedWrite | DeadLetter>> = {
+    pending_writes: new Map(),
+    dead_letters: new Map(),
+  };
+
+  static getInstance(): WriteQueue {
+    if (!WriteQueue.instance) {
+      WriteQueue.instance = new WriteQueue();
+    }
+    return WriteQueue.instance;
+  }
+
+  async initialize(): Promise<void> {
+    if (!this.initPromise) {
+      this.initPromise = openAppDatabase().then((db) => {
+        this.db = db;
+      });
+    }
+    return this.initPromise;
+  }
+
+  async enqueue(write: Omit<QueuedWrite, 'id' | 'createdAt' | 'attempts'>): Promise<QueuedWrite> {
+    const now = Date.now();
+    const queued: QueuedWrite = {
+      ...write,
+      id: `write_${now}_${Math.random().toString(36).substr(2, 9)}`,
+      createdAt: now,
+      attempts: 0,
+    };
+
+    await this.put('pending_writes', queued);
+    return queued;
+  }
+
+  // Oldest first, the order they are replayed in
+  async getPending(): Promise<QueuedWrite[]> {
+    const writes = await this.getAll('pending_writes');
+    return writes.sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  async updatePending(write: QueuedWrite): Promise<void> {
+    await this.put('pending_writes', write);
+  }
+
+  async removePending(id: string): Promise<void> {
+    await this.delete('pending_writes', id);
+  }
+
+  // Points writes queued against an optimistic record at the ID Airtable gave it
+  async replaceRecordId(tempId: string, recordId: string): Promise<void> {
+    const writes = await this.getAll('pending_writes');
+    for (const write of writes.filter((pending) => pending.recordId === tempId)) {
+      await this.put('pending_writes', { ...write, recordId });
+    }
+  }
+
+  async moveToDeadLetters(write: QueuedWrite): Promise<DeadLetter> {
+    const deadLetter: DeadLetter = { ...write, failedAt: Date.now() };
+    await this.put('dead_letters', deadLetter);
+    await this.delete('pending_writes', write.id);
+    logger.warn('Airtable write moved to dead letters', 'WriteQueue', {
+      writeId: write.id,
+      table: write.table,
+      error: write.lastError,
+    });
+    return deadLetter;
+  }
+
+  // Newest first
+  async getDeadLetters(): Promise<DeadLetter[]> {
+    const deadLetters = (await this.getAll('dead_letters')) as DeadLetter[];
+    return deadLetters.sort((a, b) => b.failedAt - a.failedAt);
+  }
+
+  async discardDeadLetter(id: string): Promise<void> {
+    await this.delete('dead_letters', id);
+  }
+
+  // Back to the end of the pending writes with its attempts reset
+  async requeueDeadLetter(id: string): Promise<QueuedWrite | null> {
+    const deadLetter = (await this.get('dead_letters', id)) as DeadLetter | null;
+    if (!deadLetter) {
+      return null;
+    }
+
+    const { failedAt: _failedAt, ...write } = deadLetter;
+    const requeued: QueuedWrite = { ...write, attempts: 0, createdAt: Date.now() };
+    await this.put('pending_writes', requeued);
+    await this.delete('dead_letters', id);
+    return requeued;
+  }
+
+  async getCounts(): Promise<{ pending: number; failed: number }> {
+    const [pending, failed] = await Promise.all([this.getAll('pending_writes'), this.getAll('dead_letters')]);
+    return { pending: pending.length, failed: failed.length };
+  }
+
+  private async get(storeName: WriteStore, id: string): Promise<QueuedWrite | DeadLetter | null> {
+    await this.initialize();
+
+    if (!this.db) {
+      return this.memoryStores[storeName].get(id) || null;
+    }
+
+    const write = await storeRequest<QueuedWrite | undefined>(this.db, storeName, 'readonly', (store) => store.get(id));
+    return write || null;
+  }
+
+  private async getAll(storeName: WriteStore): Promise<QueuedWrite[]> {
+    await this.initialize();
+
+    if (!this.db) {
+      return Array.from(this.memoryStores[storeName].values());
+    }
+
+    return storeRequest<QueuedWrite[]>(this.db, storeName, 'readonly', (store) => store.getAll());
+  }
+
+  private async put(storeName: WriteStore, write: QueuedWrite | DeadLetter): Promise<void> {
+    await this.initialize();
+
+    if (!this.db) {
+      this.memoryStores[storeName].set(write.id, write);
+      return;
+    }
+
+    await storeRequest(this.db, storeName, 'readwrite', (store) => store.put(write));
+  }
+
+  private async delete(storeName: WriteStore, id: string): Promise<void> {
+    await this.initialize();
+
+    if (!this.db) {
+      this.memoryStores[storeName].delete(id);
+      return;
+    }
+
+    await storeRequest(this.db, storeName, 'readwrite', (store) => store.delete(id));
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * Real-World Size Unit Tests
+ * Copyright © 2024 Kris. All rights reserved.
+ * PROPRIETARY SOFTWARE - NOT OPEN SOURCE
+ */
+
+import { describe, it, expect } from 'vitest';
+import { formatSize, hasTargetSize, parseTargetSize, scaleToTarget, sizeOf } from './real-world-size';
+
+describe('parseTargetSize', () => {
+  it('should read length, width and height from a size group', () => {
+    expect(parseTargetSize('timber shed 3m x 4m x 2.5m')).toEqual({ length: 4, width: 3, height: 2.5, unit: 'm' });
+  });
+
+  it('should read a pair followed by "high" as plan size and height', () => {
+    expect(parseTargetSize('brick wall 5m x 2m high')).toEqual({ length: 5, height: 2, unit: 'm' });
+  });
+
+  it('should read labelled sizes in either order', () => {
+    expect(parseTargetSize('steel column 3m tall, width of 300mm')).toEqual({ width: 0.3, height: 3, unit: 'm' });
+  });
+
+  it('should convert every size to the first unit used', () => {
+    expect(parseTargetSize('garden gate 6 ft x 3 feet x 24 inches')).toEqual({
+      length: 6,
+      width: 3,
+      height: 2,
+      unit: 'ft',
+    });
+  });
+
+  it('should take the unit from anywhere in a size group', () => {
+    expect(parseTargetSize('deck 4 x 3m')).toEqual({ length: 4, width: 3, unit: 'm' });
+  });
+
+  it('should return null when no size has a unit', () => {
+    expect(parseTargetSize('3 x 4 grid of paving slabs')).toBeNull();
+    expect(parseTargetSize('two-storey timber house')).toBeNull();
+  });
+});
+
+describe('scaleToTarget', () => {
+  it('should scale each axis given, matching length to the longer plan axis', () => {
+    const scale = scaleToTarget({ length: 4, width: 3, height: 2.5, unit: 'm' }, { x: 1, y: 0.5, z: 2 });
+
+    expect(scale).toEqual({ x: 3, y: 5, z: 2 });
+  });
+
+  it('should scale missing axes by the mean of the given ones', () => {
+    const scale = scaleToTarget({ height: 250, unit: 'cm' }, { x: 2, y: 1.25, z: 1 });
+
+    expect(scale).toEqual({ x: 2, y: 2, z: 2 });
+  });
+
+  it('should return null when no axis can be fitted', () => {
+    expect(scaleToTarget({ unit: 'm' }, { x: 1, y: 1, z: 1 })).toBeNull();
+    expect(scaleToTarget({ height: 2, unit: 'm' }, { x: 1, y: 0, z: 1 })).toBeNull();
+  });
+});
+
+describe('sizing helpers', () => {
+  it('should report a bounding box in the requested unit', () => {
+    expect(sizeOf({ x: 0.9, y: 2.1, z: 0.05 }, 'mm')).toEqual({ length: 900, width: 50, height: 2100, unit: 'mm' });
+  });
+
+  it('should format the axes that are given', () => {
+    expect(formatSize({ length: 4, width: 3, height: 2.5, unit: 'm' })).toBe('4m long x 3m wide x 2.5m high');
+    expect(formatSize({ height: 8, unit: 'ft' })).toBe('8ft high');
+    expect(formatSize({ unit: 'm' })).toBe('No size given');
+  });
+
+  it('should treat a unit with no sizes as no target', () => {
+    expect(hasTargetSize({ unit: 'cm' })).toBe(false);
+    expect(hasTargetSize({ width: 2, unit: 'cm' })).toBe(true);
+    expect(hasTargetSize(undefined)).toBe(false);
+  });
+});
@@ -0,0 +1,216 @@
+/**
+ * Text-to-3D Construction Platform - Real-World Size
+ * Copyright © 2024 Kris. All rights reserved.
+ * PROPRIETARY SOFTWARE - NOT OPEN SOURCE
+ *
+ * Meshy returns models at an arbitrary scale. A size asked for in the
+ * prompt ("shed 3m x 4m x 2.5m high") or typed in is kept with the project
+ * and turned into per-axis scale factors once the model's own bounding box
+ * is known. Length and width are plan sizes matched to the model's longer
+ * and shorter horizontal axes, so they hold whichever way the model faces.
+ */
+
+export type LengthUnit = 'mm' | 'cm' | 'm' | 'in' | 'ft';
+
+// Any axis may be left out; the missing ones follow the given ones in proportion
+export interface TargetSize {
+  length?: number; // Longer plan dimension
+  width?: number; // Shorter plan dimension
+  height?: number;
+  unit: LengthUnit;
+}
+
+// A bounding box or scale along the model's own axes (glTF is Y-up)
+export interface AxisValues {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export type ModelDimensions = AxisValues; // In metres
+export type ScaleFactors = AxisValues;
+
+const METRES_PER_UNIT: Record<LengthUnit, number> = {
+  mm: 0.001,
+  cm: 0.01,
+  m: 1,
+  in: 0.0254,
+  ft: 0.3048,
+};
+
+const UNIT_ALIASES: [RegExp, LengthUnit][] = [
+  [/^(?:mm|millimet(?:re|er)s?)$/, 'mm'],
+  [/^(?:cm|centimet(?:re|er)s?)$/, 'cm'],
+  [/^(?:m|metres?|meters?)$/, 'm'],
+  [/^(?:in|inch(?:es)?|")$/, 'in'],
+  [/^(?:ft|feet|foot|')$/, 'ft'],
+];
+
+const NUMBER = '(\\d+(?:\\.\\d+)?)';
+const UNIT = `(millimet(?:re|er)s?|centimet(?:re|er)s?|metres?|meters?|inch(?:es)?|feet|foot|mm|cm|m|in|ft|'|")`;
+const BY = '\\s*(?:x|×|by)\\s*';
+const SIZE_GROUP = new RegExp(
+  `${NUMBER}\\s*${UNIT}?(?![a-z])${BY}${NUMBER}\\s*${UNIT}?(?![a-z])(?:${BY}${NUMBER}\\s*${UNIT}?(?![a-z]))?(\\s+(?:high|tall))?`,
+  'i',
+);
+const SIZE_BEFORE_LABEL = new RegExp(`${NUMBER}\\s*${UNIT}(?![a-z])\\s*(high|tall|long|wide|deep|span)\\b`, 'gi');
+const LABEL_BEFORE_SIZE = new RegExp(
+  `\\b(height|length|width|depth|span)\\s*(?:of|:|=)?\\s*${NUMBER}\\s*${UNIT}(?![a-z])`,
+  'gi',
+);
+
+const AXIS_LABELS: Record<string, keyof Omit<TargetSize, 'unit'>> = {
+  high: 'height',
+  tall: 'height',
+  height: 'height',
+  long: 'length',
+  length: 'length',
+  span: 'length',
+  wide: 'width',
+  width: 'width',
+  deep: 'width',
+  depth: 'width',
+};
+
+/**
+ * Reads a real-world size from a description: a "3m x 4m x 2.5m" group
+ * (length and width, then height) and/or labelled sizes such as "2.5m high".
+ * Returns null when no size with a unit is given.
+ */
+export function parseTargetSize(text: string): TargetSize | null {
+  const measures: { axis: keyof Omit<TargetSize, 'unit'>; value: number; unit: LengthUnit }[] = [];
+  let rest = text;
+
+  const group = SIZE_GROUP.exec(text);
+  if (group) {
+    const values = [1, 3, 5]
+      .filter((index) => group[index] !== undefined)
+      .map((index) => ({ value: Number(group[index]), unit: toUnit(group[index + 1]) }));
+    const groupUnit = values.find((value) => value.unit)?.unit;
+
+    // "3 x 4" with no unit anywhere is a count or a grid, not a size
+    if (groupUnit) {
+      const [first, second, third] = values;
+      const plan = third || !group[7] ? [first, second] : [first];
+      measures.push(
+        ...plan.map((measure) => ({ axis: 'length' as const, value: measure.value, unit: measure.unit || groupUnit })),
+      );
+      const height = third || (group[7] ? second : undefined);
+      if (height) {
+        measures.push({ axis: 'height', value: height.value, unit: height.unit || groupUnit });
+      }
+      rest = text.replace(group[0], ' ');
+    }
+  }
+
+  for (const match of rest.matchAll(SIZE_BEFORE_LABEL)) {
+    measures.push({ axis: AXIS_LABELS[match[3].toLowerCase()], value: Number(match[1]), unit: toUnit(match[2])! });
+  }
+  for (const match of rest.matchAll(LABEL_BEFORE_SIZE)) {
+    measures.push({ axis: AXIS_LABELS[match[1].toLowerCase()], value: Number(match[2]), unit: toUnit(match[3])! });
+  }
+
+  const sizes = measures.filter((measure) => measure.value > 0);
+  if (sizes.length === 0) return null;
+
+  // Everything is given in the first unit used
+  const unit = sizes[0].unit;
+  const inUnit = (measure: (typeof sizes)[number]) =>
+    round((measure.value * METRES_PER_UNIT[measure.unit]) / METRES_PER_UNIT[unit]);
+
+  const plan = sizes
+    .filter((measure) => measure.axis !== 'height')
+    .map((measure) => ({ ...measure, value: inUnit(measure) }));
+  // Unlabelled plan sizes are sorted: the longer one is the length
+  const grouped = plan.filter((measure) => measure.axis === 'length').slice(0, 2);
+  const [length, width] =
+    grouped.length === 2
+      ? [Math.max(grouped[0].value, grouped[1].value), Math.min(grouped[0].value, grouped[1].value)]
+      : [grouped[0]?.value, plan.find((measure) => measure.axis === 'width')?.value];
+  const height = sizes.find((measure) => measure.axis === 'height');
+
+  return {
+    ...(length !== undefined && { length }),
+    ...(width !== undefined && { width }),
+    ...(height && { height: inUnit(height) }),
+    unit,
+  };
+}
+
+export function hasTargetSize(size: TargetSize | null | undefined): size is TargetSize {
+  return !!size && [size.length, size.width, size.height].some((value) => !!value && value > 0);
+}
+
+/**
+ * Scale along each of the model's axes that brings its bounding box to the
+ * target size. Axes the target leaves out are scaled by the geometric mean
+ * of the rest, so a single "2.5m high" scales the model uniformly.
+ */
+export function scaleToTarget(target: TargetSize, dimensions: ModelDimensions): ScaleFactors | null {
+  const toMetres = METRES_PER_UNIT[target.unit];
+  const longAxis = dimensions.x >= dimensions.z ? 'x' : 'z';
+  const shortAxis = longAxis === 'x' ? 'z' : 'x';
+
+  const ratios: Partial<ScaleFactors> = {};
+  const fit = (axis: keyof AxisValues, size: number | undefined) => {
+    if (size && size > 0 && dimensions[axis] > 1e-6) {
+      ratios[axis] = (size * toMetres) / dimensions[axis];
+    }
+  };
+  fit('y', target.height);
+  fit(longAxis, target.length);
+  fit(shortAxis, target.width);
+
+  const given = Object.values(ratios);
+  if (given.length === 0) return null;
+
+  const mean = Math.pow(given.reduce((product, ratio) => product * ratio, 1), 1 / given.length);
+  return {
+    x: ratios.x ?? mean,
+    y: ratios.y ?? mean,
+    z: ratios.z ?? mean,
+  };
+}
+
+export function isUniformScale(scale: ScaleFactors): boolean {
+  const values = [scale.x, scale.y, scale.z];
+  return Math.max(...values) / Math.min(...values) < 1.001;
+}
+
+// A model's bounding box as a size in the given unit
+export function sizeOf(dimensions: ModelDimensions, unit: LengthUnit = 'm'): TargetSize {
+  const inUnit = (metres: number) => round(metres / METRES_PER_UNIT[unit]);
+  return {
+    length: inUnit(Math.max(dimensions.x, dimensions.z)),
+    width: inUnit(Math.min(dimensions.x, dimensions.z)),
+    height: inUnit(dimensions.y),
+    unit,
+  };
+}
+
+export function scaleDimensions(dimensions: ModelDimensions, scale: ScaleFactors): ModelDimensions {
+  return { x: dimensions.x * scale.x, y: dimensions.y * scale.y, z: dimensions.z * scale.z };
+}
+
+// e.g. "4m long x 3m wide x 2.5m high"
+export function formatSize(size: TargetSize): string {
+  return (
+    [
+      size.length && `${size.length}${size.unit} long`,
+      size.width && `${size.width}${size.unit} wide`,
+      size.height && `${size.height}${size.unit} high`,
+    ]
+      .filter(Boolean)
+      .join(' x ') || 'No size given'
+  );
+}
+
+function toUnit(text: string | undefined): LengthUnit | undefined {
+  if (!text) return undefined;
+  const lower = text.toLowerCase();
+  return UNIT_ALIASES.find(([pattern]) => pattern.test(lower))?.[1];
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
@@ -0,0 +1,95 @@
+/**
+ * Model File Scaling Unit Tests
+ * Copyright © 2024 Kris. All rights reserved.
+ * PROPRIETARY SOFTWARE - NOT OPEN SOURCE
+ */
+
+import { describe, it, expect } from 'vitest';
+import { canScaleModelFile, scaleModelFile } from './scale-model-file';
+import { buildGlb, rectangle } from '../providers/procedural-glb';
+
+const STRETCH = { x: 2, y: 3, z: 4 };
+const DOUBLE = { x: 2, y: 2, z: 2 };
+
+function encode(text: string): ArrayBuffer {
+  return new TextEncoder().encode(text).buffer as ArrayBuffer;
+}
+
+function decode(data: ArrayBuffer | null): string {
+  return new TextDecoder().decode(data!);
+}
+
+function binaryStl(vertices: number[][]): ArrayBuffer {
+  const data = new ArrayBuffer(84 + 50);
+  const view = new DataView(data);
+  view.setUint32(80, 1, true);
+  [0, 0, 1, ...vertices.flat()].forEach((value, index) => view.setFloat32(84 + index * 4, value, true));
+  return data;
+}
+
+describe('scaleModelFile', () => {
+  it('should put GLB scenes under a scaled root node', () => {
+    const source = buildGlb([{ name: 'Slab', profile: rectangle(1, 0.2), depth: 1, color: [1, 1, 1, 1] }]);
+    const scaled = scaleModelFile(source.slice().buffer as ArrayBuffer, 'glb', STRETCH)!;
+
+    const view = new DataView(scaled);
+    const jsonLength = view.getUint32(12, true);
+    const gltf = JSON.parse(new TextDecoder().decode(new Uint8Array(scaled, 20, jsonLength)));
+    const root = gltf.nodes[gltf.scenes[0].nodes[0]];
+
+    expect(view.getUint32(8, true)).toBe(scaled.byteLength);
+    expect(jsonLength % 4).toBe(0);
+    expect(root).toEqual({ name: 'RealWorldScale', scale: [2, 3, 4], children: [0] });
+    // The binary chunk is carried over unchanged
+    expect(scaled.byteLength - 20 - jsonLength).toBe(source.byteLength - 20 - new DataView(source.buffer).getUint32(12, true));
+  });
+
+  it('should scale OBJ vertices and keep normals unit length', () => {
+    const scaled = decode(scaleModelFile(encode('o Post\nv 1 1 1\nvn 0 1 0\nf 1 1 1'), 'obj', STRETCH));
+
+    expect(scaled).toBe('o Post\nv 2 3 4\nvn 0 1 0\nf 1 1 1');
+  });
+
+  it('should scale binary STL vertices', () => {
+    const scaled = scaleModelFile(binaryStl([[1, 1, 1], [0, 1, 0], [0.5, 0, 1]]), 'stl', STRETCH)!;
+    const view = new DataView(scaled);
+    const vertices = Array.from({ length: 9 }, (_, index) => view.getFloat32(96 + index * 4, true));
+
+    expect(vertices).toEqual([2, 3, 4, 0, 3, 0, 1, 0, 4]);
+  });
+
+  it('should scale ASCII STL vertices', () => {
+    const stl = 'solid s\nfacet normal 0 0 1\nouter loop\nvertex 1 2 3\nendloop\nendfacet\nendsolid s';
+    const scaled = decode(scaleModelFile(encode(stl), 'stl', DOUBLE));
+
+    expect(scaled).toContain('vertex 2 4 6');
+    expect(scaled).toContain('facet normal 0 0 1');
+  });
+
+  it('should multiply the unit scale of an ASCII FBX', () => {
+    const fbx = 'GlobalSettings: {\n  P: "UnitScaleFactor", "double", "Number", "",1.5\n}';
+    const scaled = decode(scaleModelFile(encode(fbx), 'fbx', DOUBLE));
+
+    expect(scaled).toContain('"UnitScaleFactor", "double", "Number", "",3');
+  });
+
+  it('should not rescale FBX by different amounts per axis', () => {
+    const fbx = 'P: "UnitScaleFactor", "double", "Number", "",1';
+
+    expect(scaleModelFile(encode(fbx), 'fbx', STRETCH)).toBeNull();
+  });
+
+  it('should return null for formats it cannot rewrite', () => {
+    expect(scaleModelFile(new ArrayBuffer(8), 'usdz', DOUBLE)).toBeNull();
+    expect(scaleModelFile(new ArrayBuffer(8), 'glb', DOUBLE)).toBeNull();
+  });
+});
+
+describe('canScaleModelFile', () => {
+  it('should only allow FBX with a uniform scale', () => {
+    expect(canScaleModelFile('glb', STRETCH)).toBe(true);
+    expect(canScaleModelFile('fbx', DOUBLE)).toBe(true);
+    expect(canScaleModelFile('fbx', STRETCH)).toBe(false);
+    expect(canScaleModelFile('usdz', DOUBLE)).toBe(false);
+  });
+});
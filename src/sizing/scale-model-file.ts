@@ -0,0 +1,179 @@
+/**
+ * Text-to-3D Construction Platform - Model File Scaling
+ * Copyright © 2024 Kris. All rights reserved.
+ * PROPRIETARY SOFTWARE - NOT OPEN SOURCE
+ *
+ * Rescales downloaded model files so exports come out at the project's
+ * real-world size. GLB gets a scaled root node, OBJ and STL have their
+ * vertices scaled, and FBX has its unit scale changed, which only holds a
+ * uniform scale. Formats that can't be rewritten here return null.
+ */
+
+import { isUniformScale, ScaleFactors } from './real-world-size';
+
+const GLB_MAGIC = 0x46546c67; // "glTF"
+const CHUNK_JSON = 0x4e4f534a;
+const FBX_BINARY_MAGIC = 'Kaydara FBX Binary';
+
+// Whether scaleModelFile can rewrite this format at the given scale
+export function canScaleModelFile(format: string, scale: ScaleFactors): boolean {
+  switch (format) {
+    case 'glb':
+    case 'obj':
+    case 'stl':
+      return true;
+    case 'fbx':
+      return isUniformScale(scale);
+    default:
+      return false;
+  }
+}
+
+export function scaleModelFile(
+  data: ArrayBuffer,
+  format: string,
+  scale: ScaleFactors,
+): ArrayBuffer | null {
+  if (!canScaleModelFile(format, scale)) {
+    return null;
+  }
+
+  switch (format) {
+    case 'glb':
+      return scaleGlb(data, scale);
+    case 'obj':
+      return scaleObj(data, scale);
+    case 'stl':
+      return scaleStl(data, scale);
+    default:
+      return scaleFbx(data, scale.x);
+  }
+}
+
+// Puts every scene's nodes under one new node carrying the scale
+function scaleGlb(data: ArrayBuffer, scale: ScaleFactors): ArrayBuffer | null {
+  const view = new DataView(data);
+  if (data.byteLength < 20 || view.getUint32(0, true) !== GLB_MAGIC || view.getUint32(16, true) !== CHUNK_JSON) {
+    return null;
+  }
+
+  const jsonLength = view.getUint32(12, true);
+  const gltf = JSON.parse(new TextDecoder().decode(new Uint8Array(data, 20, jsonLength)));
+  const nodes: any[] = (gltf.nodes ||= []);
+  for (const scene of gltf.scenes || []) {
+    nodes.push({ name: 'RealWorldScale', scale: [scale.x, scale.y, scale.z], children: scene.nodes || [] });
+    scene.nodes = [nodes.length - 1];
+  }
+
+  const encoded = new TextEncoder().encode(JSON.stringify(gltf));
+  const json = new Uint8Array(Math.ceil(encoded.byteLength / 4) * 4).fill(0x20);
+  json.set(encoded);
+  const rest = new Uint8Array(data, 20 + jsonLength);
+
+  const glb = new Uint8Array(20 + json.byteLength + rest.byteLength);
+  const output = new DataView(glb.buffer);
+  glb.set(new Uint8Array(data, 0, 12));
+  output.setUint32(8, glb.byteLength, true);
+  output.setUint32(12, json.byteLength, true);
+  output.setUint32(16, CHUNK_JSON, true);
+  glb.set(json, 20);
+  glb.set(rest, 20 + json.byteLength);
+  return glb.buffer as ArrayBuffer;
+}
+
+function scaleObj(data: ArrayBuffer, scale: ScaleFactors): ArrayBuffer {
+  const lines = new TextDecoder().decode(data).split('\n');
+  const scaled = lines.map((line) => {
+    const [keyword, ...values] = line.trim().split(/\s+/);
+    if (keyword === 'v' && values.length >= 3) {
+      const [x, y, z] = values.map(Number);
+      return ['v', x * scale.x, y * scale.y, z * scale.z, ...values.slice(3)].join(' ');
+    }
+    if (keyword === 'vn' && values.length >= 3) {
+      return ['vn', ...scaleNormal(values.map(Number), scale)].join(' ');
+    }
+    return line;
+  });
+  return new TextEncoder().encode(scaled.join('\n')).buffer as ArrayBuffer;
+}
+
+function scaleStl(data: ArrayBuffer, scale: ScaleFactors): ArrayBuffer {
+  const view = new DataView(data);
+  const triangles = data.byteLength >= 84 ? view.getUint32(80, true) : -1;
+
+  if (84 + triangles * 50 !== data.byteLength) {
+    // ASCII STL
+    const text = new TextDecoder().decode(data)
+      .replace(/(vertex\s+)(\S+)\s+(\S+)\s+(\S+)/g, (_, prefix, x, y, z) =>
+        `${prefix}${Number(x) * scale.x} ${Number(y) * scale.y} ${Number(z) * scale.z}`)
+      .replace(/(facet normal\s+)(\S+)\s+(\S+)\s+(\S+)/g, (_, prefix, x, y, z) =>
+        `${prefix}${scaleNormal([Number(x), Number(y), Number(z)], scale).join(' ')}`);
+    return new TextEncoder().encode(text).buffer as ArrayBuffer;
+  }
+
+  const output = data.slice(0);
+  const scaled = new DataView(output);
+  for (let triangle = 0; triangle < triangles; triangle++) {
+    const offset = 84 + triangle * 50;
+    const normal = scaleNormal([0, 4, 8].map((at) => scaled.getFloat32(offset + at, true)), scale);
+    normal.forEach((value, axis) => scaled.setFloat32(offset + axis * 4, value, true));
+
+    for (let vertex = 0; vertex < 3; vertex++) {
+      const at = offset + 12 + vertex * 12;
+      scaled.setFloat32(at, scaled.getFloat32(at, true) * scale.x, true);
+      scaled.setFloat32(at + 4, scaled.getFloat32(at + 4, true) * scale.y, true);
+      scaled.setFloat32(at + 8, scaled.getFloat32(at + 8, true) * scale.z, true);
+    }
+  }
+  return output;
+}
+
+// Multiplies the UnitScaleFactor in the file's global settings
+function scaleFbx(data: ArrayBuffer, factor: number): ArrayBuffer | null {
+  const bytes = new Uint8Array(data);
+  const header = new TextDecoder().decode(bytes.subarray(0, FBX_BINARY_MAGIC.length));
+
+  if (header !== FBX_BINARY_MAGIC) {
+    let found = false;
+    const text = new TextDecoder().decode(data).replace(
+      /("UnitScaleFactor",\s*"double",\s*"Number",\s*"[^"]*",\s*)([-+\d.eE]+)/,
+      (_, prefix, value) => {
+        found = true;
+        return `${prefix}${Number(value) * factor}`;
+      },
+    );
+    return found ? (new TextEncoder().encode(text).buffer as ArrayBuffer) : null;
+  }
+
+  // The property is a record of strings: 'S' + length + name, type, label and flags, then 'D' + float64
+  const name = new TextEncoder().encode('UnitScaleFactor');
+  const view = new DataView(data);
+  for (let index = 0; index + 5 + name.length < bytes.length; index++) {
+    if (
+      bytes[index] !== 0x53 ||
+      view.getUint32(index + 1, true) !== name.length ||
+      !name.every((byte, offset) => bytes[index + 5 + offset] === byte)
+    ) {
+      continue;
+    }
+
+    let position = index + 5 + name.length;
+    for (let field = 0; field < 3 && bytes[position] === 0x53; field++) {
+      position += 5 + view.getUint32(position + 1, true);
+    }
+    if (bytes[position] !== 0x44 || position + 9 > bytes.length) return null;
+
+    const output = data.slice(0);
+    const scaled = new DataView(output);
+    scaled.setFloat64(position + 1, scaled.getFloat64(position + 1, true) * factor, true);
+    return output;
+  }
+  return null;
+}
+
+// Normals take the inverse scale so lighting stays right on stretched faces
+function scaleNormal([x, y, z]: number[], scale: ScaleFactors): number[] {
+  const normal = [x / scale.x, y / scale.y, z / scale.z];
+  const length = Math.hypot(...normal) || 1;
+  return normal.map((value) => value / length);
+}
@@ -0,0 +1,102 @@
+/**
+ * Text-to-3D Construction Platform - Built-in Prompt Templates
+ * Copyright © 2024 Kris. All rights reserved.
+ * PROPRIETARY SOFTWARE - NOT OPEN SOURCE
+ */
+
+import { PromptTemplate, STANDARD_SLOTS } from './prompt-templates';
+
+export const BUILT_IN_TEMPLATES: PromptTemplate[] = [
+  {
+    id: 'timber-roof-truss',
+    name: 'Timber roof truss',
+    category: 'Roof structure',
+    description: 'Fink truss with gusset plates, span x depth x rise',
+    text: '{material} fink roof truss, {dimensions}, {style} finish, with visible joints and nail plates',
+    slots: {
+      material: { ...STANDARD_SLOTS.material, options: ['timber', 'glulam timber', 'steel'], default: 'timber' },
+      dimensions: { ...STANDARD_SLOTS.dimensions, default: { length: 8, width: 0.05, height: 2, unit: 'm' } },
+      style: { ...STANDARD_SLOTS.style, options: ['clean new-build', 'weathered', 'treated green'], default: 'clean new-build' },
+    },
+    settings: { artStyle: 'realistic', topology: 'quad', targetPolyCount: 15000 },
+    source: 'built_in',
+  },
+  {
+    id: 'precast-stair',
+    name: 'Precast concrete stair',
+    category: 'Stairs',
+    description: 'Straight flight, run x width x rise',
+    text: 'precast concrete stair flight with {count} steps, {dimensions}, {material} finish, {style}',
+    slots: {
+      count: { ...STANDARD_SLOTS.count, label: 'Steps', min: 3, max: 20, default: 14 },
+      dimensions: { ...STANDARD_SLOTS.dimensions, default: { length: 3.5, width: 1.2, height: 2.7, unit: 'm' } },
+      material: {
+        ...STANDARD_SLOTS.material,
+        label: 'Finish',
+        options: ['smooth precast', 'exposed aggregate', 'polished concrete'],
+        default: 'smooth precast',
+      },
+      style: { ...STANDARD_SLOTS.style, options: ['modern', 'industrial'], default: 'modern' },
+    },
+    settings: { artStyle: 'realistic', topology: 'quad', targetPolyCount: 10000 },
+    source: 'built_in',
+  },
+  {
+    id: 'scaffolding-bay',
+    name: 'Scaffolding bays',
+    category: 'Temporary works',
+    description: 'Tube and fitting scaffold, overall length x width x height',
+    text: '{count} bay {material} tube and fitting scaffold, {dimensions}, with boarded lifts, toe boards and guardrails, {style}',
+    slots: {
+      count: { ...STANDARD_SLOTS.count, label: 'Bays', min: 1, max: 12, default: 3 },
+      material: { ...STANDARD_SLOTS.material, options: ['galvanised steel', 'aluminium'], default: 'galvanised steel' },
+      dimensions: { ...STANDARD_SLOTS.dimensions, default: { length: 7.5, width: 1.3, height: 6, unit: 'm' } },
+      style: { ...STANDARD_SLOTS.style, options: ['clean new-build', 'weathered'], default: 'clean new-build' },
+    },
+    // Thin tubes stay legible with triangles at a higher budget
+    settings: { artStyle: 'realistic', topology: 'triangle', targetPolyCount: 20000 },
+    source: 'built_in',
+  },
+  {
+    id: 'site-cabin',
+    name: 'Site cabin',
+    category: 'Site setup',
+    description: 'Portable welfare or office cabin, length x width x height',
+    text: '{style} portable site cabin with {material} cladding, {dimensions}, with a door, windows and entrance steps',
+    slots: {
+      style: { ...STANDARD_SLOTS.style, options: ['modern', 'weathered', 'clean new-build'], default: 'clean new-build' },
+      material: { ...STANDARD_SLOTS.material, options: ['painted steel', 'timber', 'aluminium'], default: 'painted steel' },
+      dimensions: { ...STANDARD_SLOTS.dimensions, default: { length: 6, width: 2.4, height: 2.6, unit: 'm' } },
+    },
+    settings: { artStyle: 'realistic', topology: 'quad', targetPolyCount: 12000 },
+    source: 'built_in',
+  },
+  {
+    id: 'steel-beam',
+    name: 'Structural beam',
+    category: 'Structural frame',
+    description: 'I-section beam, length x flange width x depth',
+    text: '{material} I-beam, {dimensions}, {style}',
+    slots: {
+      material: { ...STANDARD_SLOTS.material, options: ['steel', 'galvanised steel', 'glulam timber'], default: 'steel' },
+      dimensions: { ...STANDARD_SLOTS.dimensions, default: { length: 6, width: 0.3, height: 0.5, unit: 'm' } },
+      style: { ...STANDARD_SLOTS.style, options: ['clean new-build', 'industrial', 'weathered'], default: 'clean new-build' },
+    },
+    settings: { artStyle: 'realistic', topology: 'quad', targetPolyCount: 8000 },
+    source: 'built_in',
+  },
+  {
+    id: 'brick-wall',
+    name: 'Masonry wall',
+    category: 'Walls',
+    description: 'Wall panel, length x thickness x height',
+    text: '{style} {material} wall, {dimensions}, with mortar joints and coping',
+    slots: {
+      style: { ...STANDARD_SLOTS.style, options: ['traditional', 'modern', 'weathered'], default: 'traditional' },
+      material: { ...STANDARD_SLOTS.material, options: ['red brick', 'London stock brick', 'concrete block'], default: 'red brick' },
+      dimensions: { ...STANDARD_SLOTS.dimensions, default: { length: 5, width: 0.2, height: 2, unit: 'm' } },
+    },
+    settings: { artStyle: 'realistic', topology: 'quad', targetPolyCount: 10000 },
+    source: 'built_in',
+  },
+];
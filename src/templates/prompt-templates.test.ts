@@ -0,0 +1,89 @@
+/**
+ * Prompt Template Unit Tests
+ * Copyright © 2024 Kris. All rights reserved.
+ * PROPRIETARY SOFTWARE - NOT OPEN SOURCE
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  compileTemplate,
+  createTemplate,
+  formatDimensions,
+  organisationOf,
+} from './prompt-templates';
+import { BUILT_IN_TEMPLATES } from './built-in-templates';
+
+const beam = BUILT_IN_TEMPLATES.find((template) => template.id === 'steel-beam')!;
+
+describe('Prompt Templates', () => {
+  describe('compileTemplate', () => {
+    it('should fill slots from their defaults', () => {
+      expect(compileTemplate(beam)).toEqual({
+        prompt: 'steel I-beam, 6m x 0.3m x 0.5m, clean new-build',
+        settings: { artStyle: 'realistic', topology: 'quad', targetPolyCount: 8000 },
+      });
+    });
+
+    it('should fill slots from the given values', () => {
+      const { prompt } = compileTemplate(beam, {
+        material: 'glulam timber',
+        dimensions: { length: 4800, width: 140, unit: 'mm' },
+        style: 'weathered',
+      });
+
+      expect(prompt).toBe('glulam timber I-beam, 4800mm x 140mm, weathered');
+    });
+
+    it('should reject values outside a slot', () => {
+      expect(() => compileTemplate(beam, { material: 'cardboard' })).toThrow(
+        'Material must be one of: steel, galvanised steel, glulam timber',
+      );
+      expect(() =>
+        compileTemplate(beam, { dimensions: { length: 0, width: 0.3, unit: 'm' } }),
+      ).toThrow('Dimensions must be positive numbers');
+    });
+
+    it('should compile every built-in template', () => {
+      for (const template of BUILT_IN_TEMPLATES) {
+        expect(compileTemplate(template).prompt).not.toMatch(/[{}]/);
+      }
+    });
+  });
+
+  describe('createTemplate', () => {
+    it('should derive slots from the placeholders used', () => {
+      const template = createTemplate(
+        { name: ' Hoarding panel ', text: '{material} hoarding panel with {count} posts' },
+        'rec123',
+        'builder.co.uk',
+      );
+
+      expect(template).toMatchObject({
+        id: 'rec123',
+        name: 'Hoarding panel',
+        category: 'Team templates',
+        source: 'organisation',
+        organisation: 'builder.co.uk',
+      });
+      expect(Object.keys(template.slots)).toEqual(['material', 'count']);
+      expect(compileTemplate(template).prompt).toBe('timber hoarding panel with 1 posts');
+    });
+
+    it('should reject unknown slots', () => {
+      expect(() =>
+        createTemplate({ name: 'Gate', text: '{colour} site gate' }, 'rec123', 'builder.co.uk'),
+      ).toThrow('Unknown slot {colour}');
+    });
+  });
+
+  describe('helpers', () => {
+    it('should identify the organisation by email domain', () => {
+      expect(organisationOf('pat@Builder.co.uk')).toBe('builder.co.uk');
+      expect(organisationOf('')).toBe('local');
+    });
+
+    it('should format dimensions with their unit', () => {
+      expect(formatDimensions({ length: 2, width: 1, height: 0.5, unit: 'ft' })).toBe('2ft x 1ft x 0.5ft');
+    });
+  });
+});
@@ -0,0 +1,237 @@
+/**
+ * Text-to-3D Construction Platform - Prompt Templates
+ * Copyright © 2024 Kris. All rights reserved.
+ * PROPRIETARY SOFTWARE - NOT OPEN SOURCE
+ *
+ * Templates for common construction elements. Each one is prompt text with
+ * {slot} placeholders for typed values (material, dimensions, style, count)
+ * and the GenerationRequest settings that suit the element, so the same
+ * truss or site cabin comes out consistently whoever asks for it.
+ */
+
+import type { GenerationRequest } from '../meshy-api';
+
+export type SlotType = 'material' | 'dimensions' | 'style' | 'count';
+
+export type DimensionUnit = 'mm' | 'm' | 'ft';
+
+export interface Dimensions {
+  length: number;
+  width: number;
+  height?: number;
+  unit: DimensionUnit;
+}
+
+export interface ChoiceSlot {
+  type: 'material' | 'style';
+  label: string;
+  options: string[];
+  default: string;
+}
+
+export interface DimensionsSlot {
+  type: 'dimensions';
+  label: string;
+  default: Dimensions;
+}
+
+export interface CountSlot {
+  type: 'count';
+  label: string;
+  min: number;
+  max: number;
+  default: number;
+}
+
+export type TemplateSlot = ChoiceSlot | DimensionsSlot | CountSlot;
+
+// Slots are named by their type, so a template has at most one of each
+export type TemplateSlots = Partial<{
+  material: ChoiceSlot;
+  style: ChoiceSlot;
+  dimensions: DimensionsSlot;
+  count: CountSlot;
+}>;
+
+export type SlotValues = Partial<{
+  material: string;
+  style: string;
+  dimensions: Dimensions;
+  count: number;
+}>;
+
+// The generation settings a template may recommend; the rest come from quality settings
+export type RecommendedSettings = Pick<
+  GenerationRequest,
+  'artStyle' | 'targetPolyCount' | 'topology' | 'enablePBR'
+>;
+
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  category: string;
+  description?: string;
+  text: string; // e.g. "{material} roof truss, {dimensions}"
+  slots: TemplateSlots;
+  settings: RecommendedSettings;
+  source: 'built_in' | 'organisation';
+  organisation?: string; // Email domain of the team that added it
+}
+
+// What a team fills in to add a template; slots come from the placeholders used
+export interface TemplateDraft {
+  name: string;
+  category?: string;
+  description?: string;
+  text: string;
+  settings?: RecommendedSettings;
+}
+
+export interface CompiledTemplate {
+  prompt: string;
+  settings: RecommendedSettings;
+}
+
+const MAX_PROMPT_LENGTH = 600;
+const PLACEHOLDER = /\{(\w+)\}/g;
+
+// Slots available to team templates, with general-purpose options
+export const STANDARD_SLOTS: Required<TemplateSlots> = {
+  material: {
+    type: 'material',
+    label: 'Material',
+    options: ['timber', 'glulam timber', 'steel', 'precast concrete', 'concrete', 'brick', 'aluminium'],
+    default: 'timber',
+  },
+  style: {
+    type: 'style',
+    label: 'Style',
+    options: ['modern', 'industrial', 'traditional', 'weathered', 'clean new-build'],
+    default: 'modern',
+  },
+  dimensions: {
+    type: 'dimensions',
+    label: 'Dimensions',
+    default: { length: 3, width: 1, height: 1, unit: 'm' },
+  },
+  count: {
+    type: 'count',
+    label: 'Count',
+    min: 1,
+    max: 20,
+    default: 1,
+  },
+};
+
+/**
+ * Fills a template's slots - from the given values, or each slot's default -
+ * and returns the prompt with the template's recommended settings
+ */
+export function compileTemplate(
+  template: PromptTemplate,
+  values: SlotValues = {},
+): CompiledTemplate {
+  const filled = template.text.replace(PLACEHOLDER, (_, name: string) => {
+    const slotName = name as SlotType;
+    const slot = template.slots[slotName];
+    if (!slot) {
+      throw new Error(`Template "${template.name}" has no slot named ${name}`);
+    }
+    return formatSlot(slot, values[slotName]);
+  });
+
+  const prompt = filled.replace(/\s+/g, ' ').trim();
+  if (prompt.length > MAX_PROMPT_LENGTH) {
+    throw new Error(`Template "${template.name}" makes a description over ${MAX_PROMPT_LENGTH} characters`);
+  }
+
+  return { prompt, settings: { ...template.settings } };
+}
+
+/**
+ * Turns a team's draft into a template, checking that it only uses the
+ * standard slots and compiles to a usable description
+ */
+export function createTemplate(
+  draft: TemplateDraft,
+  id: string,
+  organisation: string,
+): PromptTemplate {
+  const name = draft.name.trim();
+  if (!name) {
+    throw new Error('Template name is required');
+  }
+  if (!draft.text.trim()) {
+    throw new Error('Template text is required');
+  }
+
+  const slots: TemplateSlots = {};
+  for (const [, slotName] of draft.text.matchAll(PLACEHOLDER)) {
+    if (!(slotName in STANDARD_SLOTS)) {
+      throw new Error(
+        `Unknown slot {${slotName}}. Use ${Object.keys(STANDARD_SLOTS).map((slot) => `{${slot}}`).join(', ')}`,
+      );
+    }
+    Object.assign(slots, { [slotName]: STANDARD_SLOTS[slotName as SlotType] });
+  }
+
+  const template: PromptTemplate = {
+    id,
+    name,
+    category: draft.category?.trim() || 'Team templates',
+    ...(draft.description?.trim() && { description: draft.description.trim() }),
+    text: draft.text.trim(),
+    slots,
+    settings: draft.settings || {},
+    source: 'organisation',
+    organisation,
+  };
+
+  // Throws if the defaults make an unusable description
+  compileTemplate(template);
+
+  return template;
+}
+
+// Teams are identified by their email domain until accounts carry an organisation
+export function organisationOf(email: string): string {
+  return email.split('@')[1]?.trim().toLowerCase() || 'local';
+}
+
+export function formatDimensions(dimensions: Dimensions): string {
+  const { length, width, height, unit } = dimensions;
+  return [length, width, height]
+    .filter((value): value is number => value !== undefined)
+    .map((value) => `${value}${unit}`)
+    .join(' x ');
+}
+
+function formatSlot(slot: TemplateSlot, value: SlotValues[SlotType] | undefined): string {
+  switch (slot.type) {
+    case 'material':
+    case 'style': {
+      const choice = value === undefined ? slot.default : String(value).trim();
+      if (!slot.options.includes(choice)) {
+        throw new Error(`${slot.label} must be one of: ${slot.options.join(', ')}`);
+      }
+      return choice;
+    }
+    case 'dimensions': {
+      const dimensions = (value as Dimensions | undefined) || slot.default;
+      const sizes = [dimensions.length, dimensions.width, dimensions.height].filter(
+        (size) => size !== undefined,
+      );
+      if (sizes.some((size) => !(Number(size) > 0))) {
+        throw new Error(`${slot.label} must be positive numbers`);
+      }
+      return formatDimensions(dimensions);
+    }
+    case 'count': {
+      const count = value === undefined ? slot.default : Number(value);
+      if (!Number.isInteger(count) || count < slot.min || count > slot.max) {
+        throw new Error(`${slot.label} must be a whole number from ${slot.min} to ${slot.max}`);
+      }
+      return String(count);
+    }
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * Fake Meshy Task Stream
+ * Copyright © 2024 Kris. All rights reserved.
+ * PROPRIETARY SOFTWARE - NOT OPEN SOURCE
+ *
+ * Serves the proxy's stream mode as a local server-sent event source. Each
+ * connection replays the next relay window of task snapshots; the last
+ * window repeats once the script runs out.
+ */
+
+import { http, HttpResponse } from 'msw';
+import { MeshyTask } from '../../../meshy-api';
+
+interface FakeStreamOptions {
+  retryMs?: number;
+  errorEvent?: boolean; // End every window with an SSE error event
+}
+
+export const fakeTaskStream = (
+  windows: Partial<MeshyTask>[][],
+  options: FakeStreamOptions = {},
+) => {
+  const requestedPaths: string[] = [];
+
+  const handler = http.post('/.netlify/functions/meshy-proxy', async ({ request }) => {
+    const proxyRequest = (await request.clone().json()) as { path?: string; stream?: boolean };
+    if (!proxyRequest?.stream) {
+      return undefined;
+    }
+
+    const path = proxyRequest.path || '';
+    const taskId = path.split('/').slice(-2)[0];
+    const snapshots = windows[Math.min(requestedPaths.length, windows.length - 1)] || [];
+    requestedPaths.push(path);
+
+    // The proxy relays a buffered window, so the whole window is one body
+    let body = `retry: ${options.retryMs ?? 10}\n\n`;
+    for (const snapshot of snapshots) {
+      const task = {
+        id: taskId,
+        status: 'IN_PROGRESS',
+        progress: 0,
+        created_at: new Date().toISOString(),
+        ...snapshot,
+      };
+      body += `event: message\ndata: ${JSON.stringify(task)}\n\n`;
+    }
+
+    if (options.errorEvent) {
+      body += 'event: error\ndata: {"status_code":500}\n\n';
+    }
+
+    return HttpResponse.text(body, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+      },
+    });
+  });
+
+  return { handler, requestedPaths };
+};
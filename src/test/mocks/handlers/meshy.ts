@@ -8,9 +8,60 @@ import { http, HttpResponse } from 'msw';
 import { MeshyTask } from '../../../meshy-api';
 
 const mockTaskId = 'test-task-123';
+const mockImageTaskId = 'test-image-task-789';
 const mockUserId = 'test-user-456';
 
+interface ProxyRequestBody {
+  path?: string;
+  method?: string;
+  body?: any;
+}
+
 export const meshyHandlers = [
+  // Image-to-3D endpoints (falls through to the handlers below for other paths)
+  http.post('/.netlify/functions/meshy-proxy', async ({ request }) => {
+    const body = (await request.clone().json()) as ProxyRequestBody;
+
+    if (body?.path === '/openapi/v1/image-to-3d' && body.method === 'POST') {
+      if (!body.body?.image_url) {
+        return HttpResponse.json({
+          success: false,
+          status: 400,
+          error: 'image_url is required'
+        }, { status: 400 });
+      }
+
+      return HttpResponse.json({
+        success: true,
+        status: 202,
+        data: { result: mockImageTaskId }
+      });
+    }
+
+    if (body?.path === `/openapi/v1/image-to-3d/${mockImageTaskId}`) {
+      return HttpResponse.json({
+        success: true,
+        status: 200,
+        data: {
+          id: mockImageTaskId,
+          status: 'SUCCEEDED',
+          progress: 100,
+          model_urls: {
+            glb: 'https://example.com/model.glb',
+            fbx: 'https://example.com/model.fbx',
+            obj: 'https://example.com/model.obj',
+            usdz: 'https://example.com/model.usdz',
+          },
+          thumbnail_url: 'https://example.com/thumbnail.jpg',
+          created_at: Date.now(),
+          finished_at: Date.now(),
+        }
+      });
+    }
+
+    return undefined;
+  }),
+
   // Generate model endpoint
   http.post('/.netlify/functions/meshy-proxy', async ({ request }) => {
     const body = await request.json();
@@ -166,4 +166,28 @@ vi.mock('../config', () => ({
     ENABLE_MONITORING: false,
     ENABLE_PERFORMANCE_MONITORING: false,
   },
+  POLLING_CONFIG: {
+    USE_STREAMING: false,
+    INITIAL_INTERVAL_MS: 1000,
+    MAX_INTERVAL_MS: 10000,
+    BACKOFF_FACTOR: 1.5,
+    JITTER_RATIO: 0.2,
+    TIMEOUT_MS: { low: 300000, medium: 600000, high: 900000 },
+  },
+  GENERATION_CONFIG: {
+    PROVIDER: 'meshy',
+    OFFLINE_STAGE_MS: { preview: 4000, refine: 6000, image: 8000, retexture: 6000, remesh: 4000 },
+  },
+  STORAGE_CONFIG: {
+    BACKEND: 'memory',
+  },
+  BATCH_CONFIG: {
+    MAX_CONCURRENT: 2,
+    START_INTERVAL_MS: 0,
+  },
+  CREDIT_CONFIG: {
+    COSTS: { preview: 5, refine: 10, image: 15, retexture: 10, remesh: 5 },
+    USER_MONTHLY_BUDGET: 0,
+    TEAM_MONTHLY_BUDGET: 0,
+  },
 }));
\ No newline at end of file
@@ -8,16 +8,69 @@
 // Re-exports for easy importing throughout the application
 
 import type { User } from '../auth';
-import type { MeshyTask } from '../meshy-api';
+import type { MeshyTask, GenerationMode } from '../meshy-api';
 import type { ProjectRecord } from '../airtable-service';
+import type { ErrorGuidance } from '../meshy-errors';
+import type { RecommendedSettings } from '../templates/prompt-templates';
+import type { TargetSize } from '../sizing/real-world-size';
+import type { BatchRow } from '../batch/batch-schedule';
 
 export interface AppState {
   currentUser: User | null;
   currentTask: MeshyTask | null;
   currentProject: ProjectRecord | null;
   generationStartTime: number;
-  isGenerating: boolean;
-  isLoading: boolean;
+}
+
+// What the user submitted from the prompt form
+export interface GenerationInput {
+  mode: GenerationMode;
+  prompt: string; // Required for text, optional description for image
+  imageUrl?: string;
+  reviewPreview?: boolean; // Text mode only: stop after the preview for approval
+  variantCount?: number; // Text mode only: more than 1 generates competing previews
+  settings?: RecommendedSettings; // Text mode only: from the prompt template applied, if any
+  seed?: number; // Text mode only: pinned to reproduce a model; otherwise each generation draws a random one
+  targetSize?: TargetSize; // Typed-in real-world size; otherwise one is read from the prompt
+  generateAnyway?: boolean; // Text mode only: skip the offer to reuse an identical earlier result
+}
+
+export type VariantStatus =
+  | 'generating'
+  | 'ready'
+  | 'failed'
+  | 'refining'
+  | 'selected'
+  | 'discarded';
+
+// One of several preview candidates generated from the same prompt
+export interface GenerationVariant {
+  id: string;
+  seed: number;
+  status: VariantStatus;
+  stage: string;
+  progress: number;
+  previewTask: MeshyTask | null;
+  error?: string;
+}
+
+export type BatchItemStatus = 'queued' | 'generating' | 'completed' | 'failed' | 'cancelled';
+
+// One row of a batch import and how far its generation has got
+export interface BatchItem {
+  id: string;
+  row: BatchRow;
+  status: BatchItemStatus;
+  stage: string;
+  progress: number;
+  project?: ProjectRecord; // Once generated, with the model's links
+  error?: string;
+}
+
+// A generation that ended in an error, classified for the user
+export interface GenerationFailure {
+  message: string; // Ready to display: what happened and what to do
+  guidance: ErrorGuidance;
 }
 
 export interface QualitySettings {
@@ -34,7 +87,41 @@ export interface ViewerSettings {
 
 // Re-export commonly used types for external consumption
 export type { User } from '../auth';
-export type { MeshyTask, GenerationRequest } from '../meshy-api';
-export type { ProjectRecord, DownloadRecord } from '../airtable-service';
+export type {
+  MeshyTask,
+  GenerationRequest,
+  GenerationMode,
+  ImageGenerationRequest,
+  MeshyTaskKind,
+  RemeshRequest,
+  RetextureRequest,
+} from '../meshy-api';
+export type {
+  ProjectRecord,
+  DownloadRecord,
+  BatchRecord,
+  BatchRecordItem,
+  CreditUsageRecord,
+} from '../airtable-service';
+export type { ErrorGuidance, MeshyErrorCode, RecoveryAction } from '../meshy-errors';
+export type {
+  CompiledTemplate,
+  Dimensions,
+  PromptTemplate,
+  RecommendedSettings,
+  SlotValues,
+  TemplateDraft,
+} from '../templates/prompt-templates';
+export type {
+  LengthUnit,
+  ModelDimensions,
+  ScaleFactors,
+  TargetSize,
+} from '../sizing/real-world-size';
+export type { BatchRow, BatchRowError, BatchSchedule } from '../batch/batch-schedule';
+export type { CostEstimate, MonthlySpend } from '../cost/credit-cost';
+export type { GenerationPhase, GenerationState } from '../core/generation-state';
+export type { SyncState } from '../services/airtable-proxy-client';
+export type { DeadLetter } from '../services/write-queue';
 export type { ModelInfo, ViewerConfig } from '../viewer/three-viewer';
 export type { DeviceInfo } from '../device-utils';
@@ -0,0 +1,48 @@
+/**
+ * Generation Request Hashing Unit Tests
+ * Copyright © 2024 Kris. All rights reserved.
+ * PROPRIETARY SOFTWARE - NOT OPEN SOURCE
+ */
+
+import { describe, it, expect } from 'vitest';
+import { hashGenerationRequest } from './request-hash';
+
+const request = {
+  prompt: 'Precast concrete stair, 1.2m wide',
+  artStyle: 'realistic' as const,
+  seed: 1234,
+  seedPinned: true,
+  targetPolyCount: 30000,
+  topology: 'quad' as const,
+};
+
+describe('hashGenerationRequest', () => {
+  it('should ignore case and spacing in the prompt', () => {
+    expect(hashGenerationRequest({ ...request, prompt: '  precast CONCRETE   stair, 1.2m wide ' })).toBe(
+      hashGenerationRequest(request),
+    );
+  });
+
+  it('should tell apart requests that give different models', () => {
+    const hash = hashGenerationRequest(request);
+
+    expect(hashGenerationRequest({ ...request, prompt: 'Precast concrete stair, 1.5m wide' })).not.toBe(hash);
+    expect(hashGenerationRequest({ ...request, artStyle: 'sculpture' })).not.toBe(hash);
+    expect(hashGenerationRequest({ ...request, seed: 1235 })).not.toBe(hash);
+    expect(hashGenerationRequest({ ...request, targetPolyCount: 10000 })).not.toBe(hash);
+    expect(hashGenerationRequest({ ...request, topology: 'triangle' })).not.toBe(hash);
+  });
+
+  it('should treat missing style and topology as the defaults', () => {
+    expect(hashGenerationRequest({ ...request, artStyle: undefined, topology: undefined })).toBe(
+      hashGenerationRequest({ ...request, artStyle: 'realistic', topology: 'triangle' }),
+    );
+  });
+
+  it('should ignore random seeds the user did not pin', () => {
+    const unpinned = { ...request, seedPinned: undefined };
+
+    expect(hashGenerationRequest({ ...unpinned, seed: 1235 })).toBe(hashGenerationRequest(unpinned));
+    expect(hashGenerationRequest(unpinned)).not.toBe(hashGenerationRequest(request));
+  });
+});
@@ -0,0 +1,51 @@
+/**
+ * Text-to-3D Construction Platform - Generation Request Hashing
+ * Copyright © 2024 Kris. All rights reserved.
+ * PROPRIETARY SOFTWARE - NOT OPEN SOURCE
+ *
+ * Identifies text generations that would give the same model: same prompt
+ * (ignoring case and spacing), art style, seed, polygon count and topology.
+ * The seed only counts when the user pinned it; otherwise each generation
+ * draws a random one, and any earlier result of the same request will do.
+ */
+
+import type { GenerationRequest } from '../meshy-api';
+
+export type HashedRequest = Pick<
+  GenerationRequest,
+  'prompt' | 'artStyle' | 'seed' | 'seedPinned' | 'targetPolyCount' | 'topology'
+>;
+
+export function normalizePrompt(prompt: string): string {
+  return prompt.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+// Hex digest of the fields that decide the model Meshy returns
+export function hashGenerationRequest(request: HashedRequest): string {
+  return digest(canonical(request));
+}
+
+function canonical(request: HashedRequest): string {
+  return JSON.stringify([
+    normalizePrompt(request.prompt),
+    request.artStyle || 'realistic',
+    request.seedPinned ? request.seed ?? null : null,
+    request.targetPolyCount ?? null,
+    request.topology || 'triangle',
+  ]);
+}
+
+// cyrb53: fast and well spread; 53 bits is plenty to tell a team's requests apart
+function digest(text: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let index = 0; index < text.length; index++) {
+    const char = text.charCodeAt(index);
+    h1 = Math.imul(h1 ^ char, 2654435761);
+    h2 = Math.imul(h2 ^ char, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16).padStart(14, '0');
+}
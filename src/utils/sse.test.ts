@@ -0,0 +1,51 @@
+/**
+ * Server-Sent Events Reader Tests
+ * Copyright © 2024 Kris. All rights reserved.
+ * PROPRIETARY SOFTWARE - NOT OPEN SOURCE
+ */
+
+import { describe, it, expect } from 'vitest';
+import { EventStreamParser, readEventStream } from './sse';
+
+describe('EventStreamParser', () => {
+  it('should parse events split across chunks', () => {
+    const parser = new EventStreamParser();
+
+    expect(parser.push('event: mess')).toEqual([]);
+    expect(parser.push('age\ndata: {"progress":')).toEqual([]);
+    expect(parser.push('20}\n\ndata: second\n')).toEqual([
+      { event: 'message', data: '{"progress":20}', id: undefined },
+    ]);
+    expect(parser.end()).toEqual([{ event: 'message', data: 'second', id: undefined }]);
+  });
+
+  it('should join multi-line data and skip comments', () => {
+    const parser = new EventStreamParser();
+
+    const events = parser.push(': keep-alive\r\nid: 7\r\ndata: first\r\ndata: second\r\n\r\n');
+
+    expect(events).toEqual([{ event: 'message', data: 'first\nsecond', id: '7' }]);
+  });
+
+  it('should record the retry hint without emitting an event', () => {
+    const parser = new EventStreamParser();
+
+    expect(parser.push('retry: 1500\n\n')).toEqual([]);
+    expect(parser.retry).toBe(1500);
+  });
+});
+
+describe('readEventStream', () => {
+  it('should stop reading once the handler returns true', async () => {
+    const response = new Response('retry: 500\n\ndata: 1\n\ndata: 2\n\ndata: 3\n\n');
+    const seen: string[] = [];
+
+    const retry = await readEventStream(response, (event) => {
+      seen.push(event.data);
+      return event.data === '2';
+    });
+
+    expect(seen).toEqual(['1', '2']);
+    expect(retry).toBe(500);
+  });
+});
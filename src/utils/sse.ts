@@ -0,0 +1,134 @@
+/**
+ * Text-to-3D Construction Platform - Server-Sent Events Reader
+ * Copyright © 2024 Kris. All rights reserved.
+ * PROPRIETARY SOFTWARE - NOT OPEN SOURCE
+ *
+ * Minimal text/event-stream parser for fetch responses. EventSource cannot
+ * POST to the proxy, so streams are read from a regular fetch instead.
+ */
+
+export interface ServerSentEvent {
+  event: string; // 'message' when the stream does not name the event
+  data: string;
+  id?: string;
+}
+
+export class EventStreamParser {
+  private buffer = '';
+  private dataLines: string[] = [];
+  private eventType = '';
+  private lastEventId?: string;
+
+  // Reconnection delay requested by the server, if any
+  retry?: number;
+
+  push(chunk: string): ServerSentEvent[] {
+    this.buffer += chunk;
+    const lines = this.buffer.split(/\r\n|\r|\n/);
+    this.buffer = lines.pop() || ''; // Keep the incomplete last line
+    return this.processLines(lines);
+  }
+
+  // Flush whatever is left once the stream has closed
+  end(): ServerSentEvent[] {
+    const lines = this.buffer ? [this.buffer, ''] : [''];
+    this.buffer = '';
+    return this.processLines(lines);
+  }
+
+  private processLines(lines: string[]): ServerSentEvent[] {
+    const events: ServerSentEvent[] = [];
+
+    for (const line of lines) {
+      if (line === '') {
+        const event = this.dispatch();
+        if (event) events.push(event);
+        continue;
+      }
+
+      if (line.startsWith(':')) continue; // Comment / keep-alive
+
+      const separator = line.indexOf(':');
+      const field = separator === -1 ? line : line.slice(0, separator);
+      let value = separator === -1 ? '' : line.slice(separator + 1);
+      if (value.startsWith(' ')) value = value.slice(1);
+
+      switch (field) {
+        case 'data':
+          this.dataLines.push(value);
+          break;
+        case 'event':
+          this.eventType = value;
+          break;
+        case 'id':
+          this.lastEventId = value;
+          break;
+        case 'retry':
+          if (/^\d+$/.test(value)) this.retry = Number(value);
+          break;
+      }
+    }
+
+    return events;
+  }
+
+  private dispatch(): ServerSentEvent | null {
+    if (this.dataLines.length === 0) {
+      this.eventType = '';
+      return null;
+    }
+
+    const event: ServerSentEvent = {
+      event: this.eventType || 'message',
+      data: this.dataLines.join('\n'),
+      id: this.lastEventId,
+    };
+    this.dataLines = [];
+    this.eventType = '';
+    return event;
+  }
+}
+
+/**
+ * Feeds every event of a response to onEvent until the stream ends or
+ * onEvent returns true. Resolves with the server's retry hint.
+ */
+export async function readEventStream(
+  response: Response,
+  onEvent: (event: ServerSentEvent) => boolean | void,
+): Promise<number | undefined> {
+  const parser = new EventStreamParser();
+
+  // Some fetch implementations hand back a body that is already locked;
+  // reading it as text still works, just without incremental delivery
+  if (!response.body || response.body.locked) {
+    const events = [...parser.push(await response.text()), ...parser.end()];
+    for (const event of events) {
+      if (onEvent(event) === true) break;
+    }
+    return parser.retry;
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      const events = done
+        ? [...parser.push(decoder.decode()), ...parser.end()]
+        : parser.push(decoder.decode(value, { stream: true }));
+
+      for (const event of events) {
+        if (onEvent(event) === true) {
+          await reader.cancel().catch(() => undefined);
+          return parser.retry;
+        }
+      }
+
+      if (done) return parser.retry;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -6,6 +6,8 @@
 
 import '@google/model-viewer';
 import { logger } from '../utils/logger';
+import { createAbortError } from '../utils/abort';
+import { scaleDimensions, ModelDimensions, ScaleFactors } from '../sizing/real-world-size';
 
 export interface ModelViewerConfig {
   container: HTMLElement;
@@ -23,12 +25,15 @@ export interface ModelInfo {
   textures: number;
   memoryUsage: number;
   formats: string[];
+  dimensions?: ModelDimensions; // Bounding box as generated, before any real-world scale
 }
 
 export class GoogleModelViewer {
   private modelViewer: any; // model-viewer element
   private container: HTMLElement;
   private currentModelUrl: string | null = null;
+  private modelDimensions: ModelDimensions | null = null;
+  private modelScale: ScaleFactors | null = null;
   private resizeObserver: ResizeObserver | null = null;
   private isDestroyed = false;
   // private loadingPromise: Promise<void> | null = null;
@@ -221,9 +226,18 @@ export class GoogleModelViewer {
   async loadModel(
     url: string,
     onProgress?: (progress: number) => void,
+    signal?: AbortSignal,
   ): Promise<ModelInfo> {
     return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(createAbortError('Model loading cancelled'));
+        return;
+      }
+
       this.currentModelUrl = url;
+      // Measured unscaled on load; the caller reapplies a real-world scale
+      this.setModelScale(null);
+      this.modelDimensions = null;
       
       // Set up progress tracking
       if (onProgress) {
@@ -237,6 +251,8 @@ export class GoogleModelViewer {
       // Set up success handler
       const loadHandler = () => {
         this.modelViewer.removeEventListener('load', loadHandler);
+        this.modelViewer.removeEventListener('error', errorHandler);
+        signal?.removeEventListener('abort', abortHandler);
         
         // Get model information
         const modelInfo = this.getModelInfo();
@@ -247,14 +263,27 @@ export class GoogleModelViewer {
       const errorHandler = (event: any) => {
         this.modelViewer.removeEventListener('error', errorHandler);
         this.modelViewer.removeEventListener('load', loadHandler);
+        signal?.removeEventListener('abort', abortHandler);
         
         const error = new Error(`Failed to load model: ${event.detail?.type || 'Unknown error'}`);
         logger.error('Model loading failed', 'GoogleModelViewer', error);
         reject(error);
       };
 
+      // Dropping the src stops model-viewer's download
+      const abortHandler = () => {
+        this.modelViewer.removeEventListener('load', loadHandler);
+        this.modelViewer.removeEventListener('error', errorHandler);
+        this.modelViewer.removeAttribute('src');
+        this.currentModelUrl = null;
+
+        logger.info('Model loading cancelled', 'GoogleModelViewer', { url });
+        reject(createAbortError('Model loading cancelled'));
+      };
+
       this.modelViewer.addEventListener('load', loadHandler);
       this.modelViewer.addEventListener('error', errorHandler);
+      signal?.addEventListener('abort', abortHandler, { once: true });
 
       // Set the model source
       this.modelViewer.setAttribute('src', url);
@@ -264,6 +293,9 @@ export class GoogleModelViewer {
   }
 
   private getModelInfo(): ModelInfo {
+    const size = this.modelViewer.getDimensions?.();
+    this.modelDimensions = size ? { x: size.x, y: size.y, z: size.z } : null;
+
     // Note: model-viewer doesn't expose detailed mesh information
     // We'll estimate based on the loaded model
     return {
@@ -272,9 +304,26 @@ export class GoogleModelViewer {
       textures: 0, // Not directly available
       memoryUsage: 0, // Not directly available
       formats: this.getSupportedFormats(),
+      ...(this.modelDimensions && { dimensions: this.modelDimensions }),
     };
   }
 
+  // Stretches the shown model along its own axes; null shows it as generated
+  setModelScale(scale: ScaleFactors | null): void {
+    this.modelScale = scale;
+    if (scale) {
+      this.modelViewer.setAttribute('scale', `${scale.x} ${scale.y} ${scale.z}`);
+    } else {
+      this.modelViewer.removeAttribute('scale');
+    }
+  }
+
+  // Size of the model as shown, in metres
+  getShownDimensions(): ModelDimensions | null {
+    if (!this.modelDimensions) return null;
+    return this.modelScale ? scaleDimensions(this.modelDimensions, this.modelScale) : this.modelDimensions;
+  }
+
   private getSupportedFormats(): string[] {
     return ['glb', 'gltf', 'obj', 'fbx']; // Formats supported by model-viewer
   }
@@ -304,6 +353,49 @@ export class GoogleModelViewer {
     logger.info('View mode changed', 'GoogleModelViewer', { mode });
   }
 
+  getCameraOrbit(): string | null {
+    return this.modelViewer?.getCameraOrbit?.()?.toString() ?? null;
+  }
+
+  setCameraOrbit(orbit: string): void {
+    this.modelViewer.setAttribute('camera-orbit', orbit);
+    this.modelViewer.jumpCameraToGoal?.();
+  }
+
+  /**
+   * Notifies when the user moves the camera. Programmatic orbit changes are
+   * ignored so linked viewers don't echo each other.
+   */
+  onCameraChange(listener: (orbit: string) => void): () => void {
+    const handler = (event: any) => {
+      if (event.detail?.source !== 'user-interaction') return;
+      const orbit = this.getCameraOrbit();
+      if (orbit) listener(orbit);
+    };
+
+    this.modelViewer.addEventListener('camera-change', handler);
+    return () => this.modelViewer?.removeEventListener('camera-change', handler);
+  }
+
+  /**
+   * Keeps the cameras of several viewers in step: orbiting any one of them
+   * moves all the others. Auto-rotate is turned off while linked since each
+   * viewer would otherwise drift on its own clock. Returns an unlink function.
+   */
+  static linkCameras(viewers: GoogleModelViewer[]): () => void {
+    viewers.forEach((viewer) => viewer.setAutoRotate(false));
+
+    const unsubscribers = viewers.map((source) =>
+      source.onCameraChange((orbit) => {
+        viewers
+          .filter((viewer) => viewer !== source)
+          .forEach((viewer) => viewer.setCameraOrbit(orbit));
+      }),
+    );
+
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+  }
+
   // Screenshot functionality
   takeScreenshot(_width = 1920, _height = 1080): Promise<string> {
     return new Promise((resolve, reject) => {
@@ -492,6 +584,7 @@ export class GoogleModelViewer {
       hasAnimations: this.modelViewer.availableAnimations?.length > 0,
       cameraControls: this.modelViewer.hasAttribute('camera-controls'),
       autoRotate: this.modelViewer.hasAttribute('auto-rotate'),
+      dimensions: this.getShownDimensions(),
     };
   }
 